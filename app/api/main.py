@@ -1,5 +1,16 @@
 from fastapi import APIRouter
-from app.api.routes import claude, accounts, settings, statistics
+from app.api.routes import (
+    claude,
+    accounts,
+    api_keys,
+    pools,
+    settings,
+    statistics,
+    analytics,
+    request_logs,
+    server_logs,
+    events,
+)
 
 api_router = APIRouter()
 
@@ -7,9 +18,25 @@ api_router.include_router(claude.router, prefix="/v1", tags=["Claude API"])
 api_router.include_router(
     accounts.router, prefix="/api/admin/accounts", tags=["Account Management"]
 )
+api_router.include_router(
+    pools.router, prefix="/api/admin/pools", tags=["Account Pools"]
+)
+api_router.include_router(
+    api_keys.router, prefix="/api/admin/api-keys", tags=["API Key Management"]
+)
 api_router.include_router(
     settings.router, prefix="/api/admin/settings", tags=["Settings Management"]
 )
 api_router.include_router(
     statistics.router, prefix="/api/admin/statistics", tags=["Statistics"]
 )
+api_router.include_router(
+    analytics.router, prefix="/api/admin/analytics", tags=["Analytics"]
+)
+api_router.include_router(
+    request_logs.router, prefix="/api/admin/request-logs", tags=["Request Logs"]
+)
+api_router.include_router(
+    server_logs.router, prefix="/api/admin/server-logs", tags=["Server Logs"]
+)
+api_router.include_router(events.router, prefix="/api/admin/events", tags=["Events"])
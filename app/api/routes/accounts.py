@@ -1,14 +1,21 @@
-from typing import List, Optional
-from fastapi import APIRouter, HTTPException
+from datetime import datetime
+from typing import List, Literal, Optional
+from fastapi import APIRouter, HTTPException, Request
 from pydantic import BaseModel, Field
 from uuid import UUID
 import time
 
-from app.core.exceptions import OAuthExchangeError
+from app.core.config import settings
+from app.core.error_handler import ErrorHandler
+from app.core.exceptions import AppError, OAuthExchangeError, OAuthRefreshError
 from app.dependencies.auth import AdminAuthDep
 from app.services.account import account_manager
-from app.core.account import AuthType, AccountStatus, OAuthToken
-from app.services.oauth import oauth_authenticator
+from app.services.account_health import account_tester
+from app.services.i18n import i18n_service
+from app.services.pool import pool_manager
+from app.services.session import session_manager
+from app.core.account import Account, AuthType, AccountStatus, OAuthToken
+from app.services.oauth import OAUTH_SCOPE, oauth_authenticator
 
 
 class OAuthTokenCreate(BaseModel):
@@ -22,6 +29,8 @@ class AccountCreate(BaseModel):
     oauth_token: Optional[OAuthTokenCreate] = None
     organization_uuid: Optional[UUID] = None
     capabilities: Optional[List[str]] = None
+    labels: Optional[List[str]] = None
+    notes: Optional[str] = None
 
 
 class AccountUpdate(BaseModel):
@@ -29,6 +38,13 @@ class AccountUpdate(BaseModel):
     oauth_token: Optional[OAuthTokenCreate] = None
     capabilities: Optional[List[str]] = None
     status: Optional[AccountStatus] = None
+    labels: Optional[List[str]] = None
+    notes: Optional[str] = None
+
+
+def normalize_labels(labels: List[str]) -> List[str]:
+    """Trim labels and drop empty and duplicate entries, keeping their order."""
+    return list(dict.fromkeys(label.strip() for label in labels if label.strip()))
 
 
 class OAuthCodeExchange(BaseModel):
@@ -38,6 +54,18 @@ class OAuthCodeExchange(BaseModel):
     capabilities: Optional[List[str]] = None
 
 
+class OAuthConfigResponse(BaseModel):
+    client_id: str
+    authorize_url: str
+    redirect_uri: str
+    scope: str
+
+
+class AccountPoolSummary(BaseModel):
+    pool_id: str
+    name: str
+
+
 class AccountResponse(BaseModel):
     organization_uuid: str
     capabilities: Optional[List[str]]
@@ -49,6 +77,172 @@ class AccountResponse(BaseModel):
     has_oauth: bool
     last_used: str
     resets_at: Optional[str] = None
+    oauth_expires_at: Optional[float] = Field(
+        None, description="OAuth access token expiry as a Unix timestamp"
+    )
+    labels: List[str] = Field(default_factory=list)
+    notes: Optional[str] = None
+    pools: List[AccountPoolSummary] = Field(default_factory=list)
+
+    @classmethod
+    def from_account(cls, account: Account) -> "AccountResponse":
+        """Build a response from an account, masking the cookie value."""
+        return cls(
+            organization_uuid=account.organization_uuid,
+            capabilities=account.capabilities,
+            cookie_value=account.cookie_value[:20] + "..."
+            if account.cookie_value
+            else None,
+            status=account.status,
+            auth_type=account.auth_type,
+            is_pro=account.is_pro,
+            is_max=account.is_max,
+            has_oauth=account.oauth_token is not None,
+            last_used=account.last_used.isoformat(),
+            resets_at=account.resets_at.isoformat() if account.resets_at else None,
+            oauth_expires_at=account.oauth_token.expires_at
+            if account.oauth_token
+            else None,
+            labels=account.labels,
+            notes=account.notes,
+            pools=[
+                AccountPoolSummary(pool_id=pool.pool_id, name=pool.name)
+                for pool in pool_manager.get_account_pools(account.organization_uuid)
+            ],
+        )
+
+
+class AccountCreateResponse(AccountResponse):
+    result: Literal["created", "updated", "unchanged"] = Field(
+        description="Whether the account was created, an existing account's "
+        "credentials were replaced, or the cookie was already registered"
+    )
+
+
+class StatusTransitionResponse(BaseModel):
+    from_status: AccountStatus
+    to_status: AccountStatus
+    changed_at: str
+    reason: Optional[str] = None
+
+
+class RequestCountsResponse(BaseModel):
+    last_hour: int
+    last_day: int
+    total: int
+
+
+class RequestErrorResponse(BaseModel):
+    occurred_at: str
+    error_type: str
+    error_code: Optional[int] = None
+    message: Optional[str] = None
+
+
+class AccountSessionResponse(BaseModel):
+    session_id: str
+    last_activity: Optional[str] = None
+    conversation_uuid: Optional[str] = None
+
+
+class PathTestResponse(BaseModel):
+    path: Literal["web", "oauth"]
+    success: bool
+    latency_ms: int
+    error_code: Optional[int] = None
+    error: Optional[str] = None
+
+
+class AccountTestResponse(BaseModel):
+    organization_uuid: str
+    tested_at: str
+    plan: Optional[Literal["Free", "Pro", "Max"]] = Field(
+        None, description="Plan detected from Claude.ai, if it could be read"
+    )
+    results: List[PathTestResponse]
+    account: AccountResponse
+
+
+class AccountActivityResponse(BaseModel):
+    status_history: List[StatusTransitionResponse]
+    requests: RequestCountsResponse
+    total_errors: int
+    recent_errors: List[RequestErrorResponse]
+    sessions: List[AccountSessionResponse]
+
+
+ACCOUNT_BUNDLE_VERSION = 1
+
+
+class AccountBundleItem(BaseModel):
+    organization_uuid: str
+    capabilities: Optional[List[str]] = None
+    cookie_value: Optional[str] = None
+    oauth_token: Optional[OAuthTokenCreate] = None
+    status: AccountStatus = AccountStatus.VALID
+    auth_type: AuthType
+    resets_at: Optional[datetime] = None
+    labels: List[str] = Field(default_factory=list)
+    notes: Optional[str] = None
+
+    @classmethod
+    def from_account(cls, account: Account) -> "AccountBundleItem":
+        """Build an unmasked bundle entry from an account."""
+        return cls(
+            organization_uuid=account.organization_uuid,
+            capabilities=account.capabilities,
+            cookie_value=account.cookie_value,
+            oauth_token=OAuthTokenCreate(**account.oauth_token.to_dict())
+            if account.oauth_token
+            else None,
+            status=account.status,
+            auth_type=account.auth_type,
+            resets_at=account.resets_at,
+            labels=account.labels,
+            notes=account.notes,
+        )
+
+    def to_account(self) -> Account:
+        """Create an account from this bundle entry."""
+        account = Account(
+            organization_uuid=self.organization_uuid,
+            capabilities=self.capabilities,
+            cookie_value=self.cookie_value,
+            oauth_token=OAuthToken(
+                access_token=self.oauth_token.access_token,
+                refresh_token=self.oauth_token.refresh_token,
+                expires_at=self.oauth_token.expires_at,
+            )
+            if self.oauth_token
+            else None,
+            auth_type=self.auth_type,
+            labels=normalize_labels(self.labels),
+            notes=self.notes,
+        )
+        if self.status != AccountStatus.VALID:
+            account.set_status(self.status, "imported")
+        account.resets_at = self.resets_at
+        return account
+
+
+class AccountBundle(BaseModel):
+    version: int = ACCOUNT_BUNDLE_VERSION
+    exported_at: str
+    accounts: List[AccountBundleItem]
+
+
+class AccountImportRequest(BaseModel):
+    version: int
+    accounts: List[AccountBundleItem]
+    overwrite: List[str] = Field(
+        default_factory=list,
+        description="UUIDs of existing accounts whose credentials should be replaced",
+    )
+
+
+class AccountImportResult(BaseModel):
+    organization_uuid: str
+    result: Literal["created", "overwritten", "skipped", "cookie_conflict"]
 
 
 router = APIRouter()
@@ -57,29 +251,51 @@ router = APIRouter()
 @router.get("", response_model=List[AccountResponse])
 async def list_accounts(_: AdminAuthDep):
     """List all accounts."""
-    accounts = []
-
-    for org_uuid, account in account_manager._accounts.items():
-        accounts.append(
-            AccountResponse(
-                organization_uuid=org_uuid,
-                capabilities=account.capabilities,
-                cookie_value=account.cookie_value[:20] + "..."
-                if account.cookie_value
-                else None,
-                status=account.status,
-                auth_type=account.auth_type,
-                is_pro=account.is_pro,
-                is_max=account.is_max,
-                has_oauth=account.oauth_token is not None,
-                last_used=account.last_used.isoformat(),
-                resets_at=account.resets_at.isoformat() if account.resets_at else None,
-            )
-        )
+    accounts = [
+        AccountResponse.from_account(account)
+        for account in account_manager._accounts.values()
+    ]
 
     return accounts
 
 
+@router.get("/export", response_model=AccountBundle)
+async def export_accounts(_: AdminAuthDep):
+    """Export all accounts with their unmasked credentials."""
+    return AccountBundle(
+        exported_at=datetime.now().isoformat(),
+        accounts=[
+            AccountBundleItem.from_account(account)
+            for account in account_manager._accounts.values()
+        ],
+    )
+
+
+@router.post("/import", response_model=List[AccountImportResult])
+async def import_accounts(import_data: AccountImportRequest, _: AdminAuthDep):
+    """Import accounts from an exported bundle."""
+    if import_data.version > ACCOUNT_BUNDLE_VERSION:
+        raise HTTPException(
+            status_code=400,
+            detail=f"Unsupported bundle version: {import_data.version}",
+        )
+
+    overwrite = set(import_data.overwrite)
+    results = [
+        AccountImportResult(
+            organization_uuid=item.organization_uuid,
+            result=account_manager.import_account(
+                item.to_account(), overwrite=item.organization_uuid in overwrite
+            ),
+        )
+        for item in import_data.accounts
+    ]
+
+    account_manager.save_accounts()
+
+    return results
+
+
 @router.get("/{organization_uuid}", response_model=AccountResponse)
 async def get_account(organization_uuid: str, _: AdminAuthDep):
     """Get a specific account by organization UUID."""
@@ -88,25 +304,60 @@ async def get_account(organization_uuid: str, _: AdminAuthDep):
 
     account = account_manager._accounts[organization_uuid]
 
-    return AccountResponse(
-        organization_uuid=organization_uuid,
-        capabilities=account.capabilities,
-        cookie_value=account.cookie_value[:20] + "..."
-        if account.cookie_value
-        else None,
-        status=account.status,
-        auth_type=account.auth_type,
-        is_pro=account.is_pro,
-        is_max=account.is_max,
-        has_oauth=account.oauth_token is not None,
-        last_used=account.last_used.isoformat(),
-        resets_at=account.resets_at.isoformat() if account.resets_at else None,
+    return AccountResponse.from_account(account)
+
+
+@router.get("/{organization_uuid}/activity", response_model=AccountActivityResponse)
+async def get_account_activity(organization_uuid: str, _: AdminAuthDep):
+    """Get the status history, request counts and active sessions of an account.
+
+    Request counts and errors are kept in memory and cover the time since the
+    server started.
+    """
+    if organization_uuid not in account_manager._accounts:
+        raise HTTPException(status_code=404, detail="Account not found")
+
+    account = account_manager._accounts[organization_uuid]
+
+    sessions = []
+    for session_id in account_manager.get_account_sessions(organization_uuid):
+        session = session_manager._sessions.get(session_id)
+        sessions.append(
+            AccountSessionResponse(
+                session_id=session_id,
+                last_activity=session.last_activity.isoformat() if session else None,
+                conversation_uuid=session.conv_uuid if session else None,
+            )
+        )
+
+    return AccountActivityResponse(
+        status_history=[
+            StatusTransitionResponse(
+                from_status=transition.from_status,
+                to_status=transition.to_status,
+                changed_at=transition.changed_at.isoformat(),
+                reason=transition.reason,
+            )
+            for transition in reversed(account.status_history)
+        ],
+        requests=RequestCountsResponse(**account.activity.request_counts()),
+        total_errors=account.activity.total_errors,
+        recent_errors=[
+            RequestErrorResponse(
+                occurred_at=error.occurred_at.isoformat(),
+                error_type=error.error_type,
+                error_code=error.error_code,
+                message=error.message,
+            )
+            for error in reversed(account.activity.recent_errors)
+        ],
+        sessions=sessions,
     )
 
 
-@router.post("", response_model=AccountResponse)
+@router.post("", response_model=AccountCreateResponse)
 async def create_account(account_data: AccountCreate, _: AdminAuthDep):
-    """Create a new account."""
+    """Create a new account, or update the existing one with the same organization."""
     oauth_token = None
     if account_data.oauth_token:
         oauth_token = OAuthToken(
@@ -115,6 +366,11 @@ async def create_account(account_data: AccountCreate, _: AdminAuthDep):
             expires_at=account_data.oauth_token.expires_at,
         )
 
+    # The organization is often only known once the cookie has been checked,
+    # so the outcome is worked out from what was registered beforehand
+    existing_uuids = set(account_manager._accounts)
+    cookie_registered = account_data.cookie_value in account_manager._cookie_to_uuid
+
     account = await account_manager.add_account(
         cookie_value=account_data.cookie_value,
         oauth_token=oauth_token,
@@ -122,19 +378,22 @@ async def create_account(account_data: AccountCreate, _: AdminAuthDep):
         capabilities=account_data.capabilities,
     )
 
-    return AccountResponse(
-        organization_uuid=account.organization_uuid,
-        capabilities=account.capabilities,
-        cookie_value=account.cookie_value[:20] + "..."
-        if account.cookie_value
-        else None,
-        status=account.status,
-        auth_type=account.auth_type,
-        is_pro=account.is_pro,
-        is_max=account.is_max,
-        has_oauth=account.oauth_token is not None,
-        last_used=account.last_used.isoformat(),
-        resets_at=account.resets_at.isoformat() if account.resets_at else None,
+    if account.organization_uuid not in existing_uuids:
+        result = "created"
+    elif cookie_registered:
+        result = "unchanged"
+    else:
+        result = "updated"
+
+    if account_data.labels is not None:
+        account.labels = normalize_labels(account_data.labels)
+    if account_data.notes is not None:
+        account.notes = account_data.notes.strip() or None
+    if account_data.labels is not None or account_data.notes is not None:
+        account.save()
+
+    return AccountCreateResponse(
+        **AccountResponse.from_account(account).model_dump(), result=result
     )
 
 
@@ -177,28 +436,22 @@ async def update_account(
     if account_data.capabilities is not None:
         account.capabilities = account_data.capabilities
 
+    if account_data.labels is not None:
+        account.labels = normalize_labels(account_data.labels)
+
+    if account_data.notes is not None:
+        account.notes = account_data.notes.strip() or None
+
     if account_data.status is not None:
-        account.status = account_data.status
+        account.set_status(account_data.status, "manual")
         if account.status == AccountStatus.VALID:
             account.resets_at = None
 
     # Save changes
     account_manager.save_accounts()
+    account_manager.notify_account_updated(account)
 
-    return AccountResponse(
-        organization_uuid=organization_uuid,
-        capabilities=account.capabilities,
-        cookie_value=account.cookie_value[:20] + "..."
-        if account.cookie_value
-        else None,
-        status=account.status,
-        auth_type=account.auth_type,
-        is_pro=account.is_pro,
-        is_max=account.is_max,
-        has_oauth=account.oauth_token is not None,
-        last_used=account.last_used.isoformat(),
-        resets_at=account.resets_at.isoformat() if account.resets_at else None,
-    )
+    return AccountResponse.from_account(account)
 
 
 @router.delete("/{organization_uuid}")
@@ -212,9 +465,95 @@ async def delete_account(organization_uuid: str, _: AdminAuthDep):
     return {"message": "Account deleted successfully"}
 
 
+@router.post("/{organization_uuid}/oauth/refresh", response_model=AccountResponse)
+async def refresh_oauth_token(organization_uuid: str, _: AdminAuthDep):
+    """Refresh the OAuth access token of an account immediately."""
+    if organization_uuid not in account_manager._accounts:
+        raise HTTPException(status_code=404, detail="Account not found")
+
+    account = account_manager._accounts[organization_uuid]
+
+    if not account.oauth_token or not account.oauth_token.refresh_token:
+        raise OAuthRefreshError("Account has no refresh token")
+
+    if not await oauth_authenticator.refresh_account_token(account):
+        raise OAuthRefreshError("Refresh token was rejected")
+
+    # A working token clears an invalid status caused by the failed refresh
+    if account.status == AccountStatus.INVALID:
+        account.set_status(AccountStatus.VALID, "oauth_refreshed")
+        account.save()
+
+    return AccountResponse.from_account(account)
+
+
+def format_test_error(error: Optional[Exception], language: str) -> Optional[str]:
+    """Localize an error raised while testing an account."""
+    if error is None:
+        return None
+
+    if isinstance(error, AppError):
+        return i18n_service.get_message(
+            message_key=error.message_key, language=language, context=error.context
+        )
+
+    return str(error) or type(error).__name__
+
+
+@router.post("/{organization_uuid}/test", response_model=AccountTestResponse)
+async def test_account(organization_uuid: str, request: Request, _: AdminAuthDep):
+    """Send a minimal request through each path of an account and report the outcome.
+
+    The account status is updated from the result: errors mark it rate limited or
+    invalid as they would during normal requests, and success marks it valid.
+    """
+    if organization_uuid not in account_manager._accounts:
+        raise HTTPException(status_code=404, detail="Account not found")
+
+    account = account_manager._accounts[organization_uuid]
+    result = await account_tester.test_account(account)
+    language = ErrorHandler.get_language_from_request(request)
+
+    results = []
+    for path_result in result.results:
+        error = path_result.error
+        results.append(
+            PathTestResponse(
+                path=path_result.path,
+                success=path_result.success,
+                latency_ms=path_result.latency_ms,
+                error_code=error.error_code if isinstance(error, AppError) else None,
+                error=format_test_error(error, language),
+            )
+        )
+
+    plan = None
+    if result.capabilities is not None:
+        plan = "Max" if account.is_max else "Pro" if account.is_pro else "Free"
+
+    return AccountTestResponse(
+        organization_uuid=organization_uuid,
+        tested_at=result.tested_at.isoformat(),
+        plan=plan,
+        results=results,
+        account=AccountResponse.from_account(account),
+    )
+
+
+@router.get("/oauth/config", response_model=OAuthConfigResponse)
+async def get_oauth_config(_: AdminAuthDep):
+    """Get the OAuth parameters for starting a browser authorization flow."""
+    return OAuthConfigResponse(
+        client_id=settings.oauth_client_id,
+        authorize_url=oauth_authenticator.get_browser_authorize_url(),
+        redirect_uri=settings.oauth_redirect_uri,
+        scope=OAUTH_SCOPE,
+    )
+
+
 @router.post("/oauth/exchange", response_model=AccountResponse)
 async def exchange_oauth_code(exchange_data: OAuthCodeExchange, _: AdminAuthDep):
-    """Exchange OAuth authorization code for tokens and create account."""
+    """Exchange OAuth authorization code for tokens and create or update account."""
     # Exchange code for tokens
     token_data = await oauth_authenticator.exchange_token(
         exchange_data.code, exchange_data.pkce_verifier
@@ -237,15 +576,4 @@ async def exchange_oauth_code(exchange_data: OAuthCodeExchange, _: AdminAuthDep)
         capabilities=exchange_data.capabilities,
     )
 
-    return AccountResponse(
-        organization_uuid=account.organization_uuid,
-        capabilities=account.capabilities,
-        cookie_value=None,
-        status=account.status,
-        auth_type=account.auth_type,
-        is_pro=account.is_pro,
-        is_max=account.is_max,
-        has_oauth=True,
-        last_used=account.last_used.isoformat(),
-        resets_at=account.resets_at.isoformat() if account.resets_at else None,
-    )
+    return AccountResponse.from_account(account)
@@ -0,0 +1,177 @@
+import math
+from collections import defaultdict
+from datetime import datetime, timedelta, UTC
+from typing import Callable, Dict, List, Literal, Optional, Tuple
+from fastapi import APIRouter, Query
+from pydantic import BaseModel
+
+from app.core.request_record import RequestRecord
+from app.dependencies.auth import AdminAuthDep
+from app.services.api_key import api_key_manager
+from app.services.request_log import request_log_manager
+
+
+AnalyticsRange = Literal["1h", "24h", "7d"]
+AnalyticsGroupBy = Literal["none", "api_key", "account", "model", "path"]
+
+# Range -> (window, bucket size)
+RANGES: Dict[str, Tuple[timedelta, timedelta]] = {
+    "1h": (timedelta(hours=1), timedelta(minutes=1)),
+    "24h": (timedelta(hours=24), timedelta(minutes=30)),
+    "7d": (timedelta(days=7), timedelta(hours=4)),
+}
+
+# Groups beyond this many are folded into a single "other" series
+MAX_SERIES = 8
+
+
+class AnalyticsSummary(BaseModel):
+    requests: int
+    errors: int
+    input_tokens: int
+    output_tokens: int
+    latency_p50: Optional[int] = None
+    latency_p95: Optional[int] = None
+    latency_p99: Optional[int] = None
+
+
+class AnalyticsPoint(AnalyticsSummary):
+    timestamp: str
+
+
+class AnalyticsSeries(BaseModel):
+    key: str
+    label: str
+    summary: AnalyticsSummary
+    points: List[AnalyticsPoint]
+
+
+class AnalyticsResponse(BaseModel):
+    range: AnalyticsRange
+    group_by: AnalyticsGroupBy
+    bucket_seconds: int
+    start: str
+    end: str
+    summary: AnalyticsSummary
+    series: List[AnalyticsSeries]
+
+
+def _percentile(sorted_values: List[int], percent: int) -> Optional[int]:
+    """Nearest-rank percentile of an ascending list."""
+    if not sorted_values:
+        return None
+    rank = math.ceil(percent / 100 * len(sorted_values))
+    return sorted_values[max(rank, 1) - 1]
+
+
+def _summarize(records: List[RequestRecord]) -> AnalyticsSummary:
+    """Aggregate records into request, error, token and latency figures."""
+    latencies = sorted(record.latency_ms for record in records)
+    return AnalyticsSummary(
+        requests=len(records),
+        errors=sum(1 for record in records if record.status == "error"),
+        input_tokens=sum(record.input_tokens for record in records),
+        output_tokens=sum(record.output_tokens for record in records),
+        latency_p50=_percentile(latencies, 50),
+        latency_p95=_percentile(latencies, 95),
+        latency_p99=_percentile(latencies, 99),
+    )
+
+
+def _api_key_label(key_id: str) -> str:
+    """Name of an API key, its masked value, or its ID once deleted."""
+    api_key = api_key_manager.get_by_id(key_id)
+    return api_key.label if api_key else key_id[:8]
+
+
+GROUPERS: Dict[str, Callable[[RequestRecord], Optional[str]]] = {
+    "none": lambda record: "all",
+    "api_key": lambda record: record.api_key_id,
+    "account": lambda record: record.organization_uuid,
+    "model": lambda record: record.model,
+    "path": lambda record: record.path,
+}
+
+
+def _group_label(group_by: AnalyticsGroupBy, key: str) -> str:
+    """Human readable name of a group."""
+    if group_by == "api_key" and key not in ("none", "other"):
+        return _api_key_label(key)
+    return key
+
+
+def collect_analytics(
+    time_range: AnalyticsRange, group_by: AnalyticsGroupBy
+) -> AnalyticsResponse:
+    """Bucket the request records of a time range into per-group series."""
+    window, bucket_size = RANGES[time_range]
+    bucket_seconds = int(bucket_size.total_seconds())
+
+    # Align buckets to the bucket size so consecutive polls line up
+    now = datetime.now(UTC)
+    end = datetime.fromtimestamp(
+        (now.timestamp() // bucket_seconds + 1) * bucket_seconds, tz=UTC
+    )
+    start = end - window
+    bucket_count = int(window / bucket_size)
+
+    records = request_log_manager.get_records(since=start)
+
+    grouped: Dict[str, List[RequestRecord]] = defaultdict(list)
+    for record in records:
+        grouped[GROUPERS[group_by](record) or "none"].append(record)
+
+    # Keep the busiest groups and fold the rest into "other"
+    ranked = sorted(grouped, key=lambda key: len(grouped[key]), reverse=True)
+    if len(ranked) > MAX_SERIES:
+        other = [record for key in ranked[MAX_SERIES - 1 :] for record in grouped[key]]
+        grouped = {key: grouped[key] for key in ranked[: MAX_SERIES - 1]}
+        grouped["other"] = sorted(other, key=lambda record: record.timestamp)
+        ranked = ranked[: MAX_SERIES - 1] + ["other"]
+
+    series = []
+    for key in ranked:
+        buckets: List[List[RequestRecord]] = [[] for _ in range(bucket_count)]
+        for record in grouped[key]:
+            index = int((record.timestamp - start) / bucket_size)
+            if 0 <= index < bucket_count:
+                buckets[index].append(record)
+
+        points = [
+            AnalyticsPoint(
+                timestamp=(start + bucket_size * index).isoformat(),
+                **_summarize(bucket).model_dump(),
+            )
+            for index, bucket in enumerate(buckets)
+        ]
+        series.append(
+            AnalyticsSeries(
+                key=key,
+                label=_group_label(group_by, key),
+                summary=_summarize(grouped[key]),
+                points=points,
+            )
+        )
+
+    return AnalyticsResponse(
+        range=time_range,
+        group_by=group_by,
+        bucket_seconds=bucket_seconds,
+        start=start.isoformat(),
+        end=end.isoformat(),
+        summary=_summarize(records),
+        series=series,
+    )
+
+
+router = APIRouter()
+
+
+@router.get("", response_model=AnalyticsResponse)
+async def get_analytics(
+    _: AdminAuthDep,
+    time_range: AnalyticsRange = Query("24h", alias="range"),
+    group_by: AnalyticsGroupBy = Query("none"),
+):
+    """Get request time series for a range, broken down by a dimension."""
+    return collect_analytics(time_range, group_by)
@@ -0,0 +1,177 @@
+from datetime import datetime, UTC
+from typing import List, Optional
+from fastapi import APIRouter, HTTPException
+from pydantic import BaseModel, Field
+
+from app.api.routes.settings import save_settings
+from app.core.api_key import ApiKey
+from app.core.config import settings
+from app.dependencies.auth import AdminAuthDep
+from app.services.api_key import api_key_manager
+
+
+class ApiKeyCreate(BaseModel):
+    key: str = Field(..., min_length=1)
+    name: Optional[str] = None
+    expires_at: Optional[datetime] = None
+    rate_limit_rpm: Optional[int] = Field(None, ge=1)
+    daily_token_limit: Optional[int] = Field(None, ge=1)
+    allowed_models: List[str] = Field(default_factory=list)
+
+
+class ApiKeyUpdate(BaseModel):
+    name: Optional[str] = None
+    expires_at: Optional[datetime] = Field(
+        None, description="New expiry time; null removes the expiry"
+    )
+    enabled: Optional[bool] = None
+    rate_limit_rpm: Optional[int] = Field(
+        None, ge=1, description="Requests per minute; null removes the limit"
+    )
+    daily_token_limit: Optional[int] = Field(
+        None, ge=1, description="Tokens per UTC day; null removes the limit"
+    )
+    allowed_models: Optional[List[str]] = Field(
+        None, description="Models the key may use; an empty list allows all"
+    )
+
+
+class ApiKeyRejection(BaseModel):
+    code: int
+    message: str
+    at: str
+
+
+class ApiKeyResponse(BaseModel):
+    key_id: str
+    key: str
+    name: Optional[str] = None
+    created_at: str
+    last_used_at: Optional[str] = None
+    expires_at: Optional[str] = None
+    enabled: bool
+    expired: bool
+    rate_limit_rpm: Optional[int] = None
+    daily_token_limit: Optional[int] = None
+    allowed_models: List[str]
+    requests_last_minute: int
+    tokens_today: int
+    last_rejection: Optional[ApiKeyRejection] = None
+
+    @classmethod
+    def from_api_key(cls, api_key: ApiKey) -> "ApiKeyResponse":
+        """Build a response from API key metadata."""
+        return cls(
+            key_id=api_key.key_id,
+            key=api_key.key,
+            name=api_key.name,
+            created_at=api_key.created_at.isoformat(),
+            last_used_at=api_key.last_used_at.isoformat()
+            if api_key.last_used_at
+            else None,
+            expires_at=api_key.expires_at.isoformat() if api_key.expires_at else None,
+            enabled=api_key.enabled,
+            expired=api_key.is_expired,
+            rate_limit_rpm=api_key.rate_limit_rpm,
+            daily_token_limit=api_key.daily_token_limit,
+            allowed_models=api_key.allowed_models,
+            requests_last_minute=api_key_manager.requests_in_window(api_key.key),
+            tokens_today=api_key.tokens_used_on(datetime.now(UTC).date()),
+            last_rejection=api_key.last_rejection,
+        )
+
+
+def _clean_models(models: List[str]) -> List[str]:
+    """Strip model names and drop empty and duplicate entries."""
+    return list(dict.fromkeys(model.strip() for model in models if model.strip()))
+
+
+def _as_utc(value: Optional[datetime]) -> Optional[datetime]:
+    """Treat datetimes without a timezone as UTC."""
+    if value is not None and value.tzinfo is None:
+        return value.replace(tzinfo=UTC)
+    return value
+
+
+router = APIRouter()
+
+
+@router.get("", response_model=List[ApiKeyResponse])
+async def list_api_keys(_: AdminAuthDep):
+    """List all API keys with their metadata."""
+    return [
+        ApiKeyResponse.from_api_key(api_key) for api_key in api_key_manager.list_keys()
+    ]
+
+
+@router.post("", response_model=ApiKeyResponse)
+async def create_api_key(key_data: ApiKeyCreate, _: AdminAuthDep):
+    """Add an API key to settings and record its metadata."""
+    key = key_data.key.strip()
+    if key in settings.api_keys or key in settings.admin_api_keys:
+        raise HTTPException(status_code=409, detail="API key already exists")
+
+    api_key = api_key_manager.add(
+        key,
+        name=(key_data.name or "").strip() or None,
+        expires_at=_as_utc(key_data.expires_at),
+        rate_limit_rpm=key_data.rate_limit_rpm,
+        daily_token_limit=key_data.daily_token_limit,
+        allowed_models=_clean_models(key_data.allowed_models),
+    )
+    save_settings({"api_keys": settings.api_keys + [key]})
+
+    return ApiKeyResponse.from_api_key(api_key)
+
+
+@router.put("/{key_id}", response_model=ApiKeyResponse)
+async def update_api_key(key_id: str, key_data: ApiKeyUpdate, _: AdminAuthDep):
+    """Rename, enable or disable an API key or change its expiry and quotas."""
+    api_key = api_key_manager.get_by_id(key_id)
+    if not api_key:
+        raise HTTPException(status_code=404, detail="API key not found")
+
+    update_dict = key_data.model_dump(exclude_unset=True)
+
+    if "name" in update_dict:
+        api_key.name = (key_data.name or "").strip() or None
+    if "expires_at" in update_dict:
+        api_key.expires_at = _as_utc(key_data.expires_at)
+    if key_data.enabled is not None:
+        api_key.enabled = key_data.enabled
+    if "rate_limit_rpm" in update_dict:
+        api_key.rate_limit_rpm = key_data.rate_limit_rpm
+    if "daily_token_limit" in update_dict:
+        api_key.daily_token_limit = key_data.daily_token_limit
+    if "allowed_models" in update_dict:
+        api_key.allowed_models = _clean_models(key_data.allowed_models or [])
+
+    api_key_manager.save_keys()
+
+    return ApiKeyResponse.from_api_key(api_key)
+
+
+@router.post("/{key_id}/reset-usage", response_model=ApiKeyResponse)
+async def reset_api_key_usage(key_id: str, _: AdminAuthDep):
+    """Clear an API key's token consumption, rate limit window and last rejection."""
+    api_key = api_key_manager.get_by_id(key_id)
+    if not api_key:
+        raise HTTPException(status_code=404, detail="API key not found")
+
+    api_key_manager.reset_usage(api_key.key)
+
+    return ApiKeyResponse.from_api_key(api_key)
+
+
+@router.delete("/{key_id}")
+async def delete_api_key(key_id: str, _: AdminAuthDep):
+    """Remove an API key from settings, its metadata and its pools."""
+    api_key = api_key_manager.get_by_id(key_id)
+    if not api_key:
+        raise HTTPException(status_code=404, detail="API key not found")
+
+    save_settings(
+        {"api_keys": [key for key in settings.api_keys if key != api_key.key]}
+    )
+
+    return {"message": "API key deleted successfully"}
@@ -1,7 +1,9 @@
+import time
+
 from fastapi import APIRouter, Request
 from fastapi.responses import StreamingResponse, JSONResponse
 from tenacity import (
-    retry,
+    AsyncRetrying,
     retry_if_exception,
     stop_after_attempt,
     wait_fixed,
@@ -19,24 +21,32 @@ router = APIRouter()
 
 
 @router.post("/messages", response_model=None)
-@retry(
-    retry=retry_if_exception(is_retryable_error),
-    stop=stop_after_attempt(settings.retry_attempts),
-    wait=wait_fixed(settings.retry_interval),
-    before_sleep=log_before_sleep,
-    reraise=True,
-)
 async def create_message(
-    request: Request, messages_request: MessagesAPIRequest, _: AuthDep
+    request: Request, messages_request: MessagesAPIRequest, api_key: AuthDep
 ) -> StreamingResponse | JSONResponse:
-    context = ClaudeAIContext(
-        original_request=request,
-        messages_api_request=messages_request,
-    )
+    started_at = time.perf_counter()
+
+    async for attempt in AsyncRetrying(
+        retry=retry_if_exception(is_retryable_error),
+        stop=stop_after_attempt(settings.retry_attempts),
+        wait=wait_fixed(settings.retry_interval),
+        before_sleep=log_before_sleep,
+        reraise=True,
+    ):
+        with attempt:
+            attempt_number = attempt.retry_state.attempt_number
+            context = ClaudeAIContext(
+                original_request=request,
+                messages_api_request=messages_request,
+                api_key=api_key,
+                started_at=started_at,
+                attempt=attempt_number,
+                final_attempt=attempt_number >= settings.retry_attempts,
+            )
 
-    context = await ClaudeAIPipeline().process(context)
+            context = await ClaudeAIPipeline().process(context)
 
-    if not context.response:
-        raise NoResponseError()
+            if not context.response:
+                raise NoResponseError()
 
-    return context.response
+            return context.response
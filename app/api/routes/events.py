@@ -0,0 +1,80 @@
+import asyncio
+from typing import AsyncIterator, List
+
+from fastapi import APIRouter, Request
+from fastapi.responses import StreamingResponse
+from pydantic import BaseModel
+
+from app.api.routes.accounts import AccountResponse
+from app.api.routes.statistics import collect_statistics
+from app.dependencies.auth import AdminAuthDep
+from app.services.account import account_manager
+from app.services.events import BroadcastEvent, event_broadcaster
+
+HEARTBEAT_INTERVAL = 15
+
+
+class AccountRemovedEvent(BaseModel):
+    organization_uuid: str
+
+
+def _format_sse(event: str, data: BaseModel) -> str:
+    """Format a single server-sent event."""
+    return f"event: {event}\ndata: {data.model_dump_json()}\n\n"
+
+
+def _drain(queue: asyncio.Queue[BroadcastEvent]) -> List[BroadcastEvent]:
+    """Take every event that is already waiting in the queue."""
+    events = []
+    while not queue.empty():
+        events.append(queue.get_nowait())
+    return events
+
+
+async def _event_stream(request: Request) -> AsyncIterator[str]:
+    """Translate broadcast events into account and statistics SSE messages."""
+    async with event_broadcaster.subscribe() as queue:
+        yield _format_sse("statistics", await collect_statistics())
+
+        while not await request.is_disconnected():
+            try:
+                first = await asyncio.wait_for(queue.get(), timeout=HEARTBEAT_INTERVAL)
+            except asyncio.TimeoutError:
+                yield ": ping\n\n"
+                continue
+
+            # Coalesce bursts so each changed account and the statistics are sent once
+            changed: List[str] = []
+            for event in [first] + _drain(queue):
+                organization_uuid = event.data.get("organization_uuid")
+                if organization_uuid and organization_uuid not in changed:
+                    changed.append(organization_uuid)
+
+            for organization_uuid in changed:
+                account = account_manager._accounts.get(organization_uuid)
+                if account:
+                    yield _format_sse("account", AccountResponse.from_account(account))
+                else:
+                    yield _format_sse(
+                        "account_removed",
+                        AccountRemovedEvent(organization_uuid=organization_uuid),
+                    )
+
+            yield _format_sse("statistics", await collect_statistics())
+
+
+router = APIRouter()
+
+
+@router.get("")
+async def stream_events(request: Request, _: AdminAuthDep):
+    """Stream account and statistics changes as server-sent events."""
+    return StreamingResponse(
+        _event_stream(request),
+        media_type="text/event-stream",
+        headers={
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+            "X-Accel-Buffering": "no",  # Disable nginx buffering
+        },
+    )
@@ -0,0 +1,173 @@
+from typing import Iterable, List, Optional
+from fastapi import APIRouter, HTTPException
+from pydantic import BaseModel, Field
+
+from app.core.config import settings
+from app.core.pool import AccountPool
+from app.dependencies.auth import AdminAuthDep
+from app.services.account import account_manager
+from app.services.pool import pool_manager
+
+
+class AccountPoolCreate(BaseModel):
+    name: str = Field(..., min_length=1)
+    description: Optional[str] = None
+    organization_uuids: List[str] = Field(default_factory=list)
+    api_keys: List[str] = Field(default_factory=list)
+
+
+class AccountPoolUpdate(BaseModel):
+    name: Optional[str] = Field(None, min_length=1)
+    description: Optional[str] = None
+    organization_uuids: Optional[List[str]] = None
+    api_keys: Optional[List[str]] = None
+
+
+class AccountPoolResponse(BaseModel):
+    pool_id: str
+    name: str
+    description: Optional[str] = None
+    organization_uuids: List[str]
+    api_keys: List[str]
+    created_at: str
+
+    @classmethod
+    def from_pool(cls, pool: AccountPool) -> "AccountPoolResponse":
+        """Build a response from a pool."""
+        return cls(
+            pool_id=pool.pool_id,
+            name=pool.name,
+            description=pool.description,
+            organization_uuids=pool.organization_uuids,
+            api_keys=pool.api_keys,
+            created_at=pool.created_at.isoformat(),
+        )
+
+
+def _validate_name(name: str, pool_id: Optional[str] = None) -> str:
+    """Trim a pool name and reject names used by another pool."""
+    name = name.strip()
+    if not name:
+        raise HTTPException(status_code=400, detail="Pool name must not be empty")
+
+    existing = pool_manager.get_pool_by_name(name)
+    if existing and existing.pool_id != pool_id:
+        raise HTTPException(status_code=409, detail="Pool name already exists")
+
+    return name
+
+
+def _validate_accounts(organization_uuids: List[str]) -> List[str]:
+    """Reject unknown accounts and drop duplicates."""
+    unknown = [
+        organization_uuid
+        for organization_uuid in organization_uuids
+        if organization_uuid not in account_manager._accounts
+    ]
+    if unknown:
+        raise HTTPException(
+            status_code=400, detail=f"Unknown accounts: {', '.join(unknown)}"
+        )
+
+    return list(dict.fromkeys(organization_uuids))
+
+
+def _validate_api_keys(api_keys: List[str]) -> List[str]:
+    """Reject keys that are not configured and drop duplicates."""
+    configured = settings.api_keys + settings.admin_api_keys
+    if any(api_key not in configured for api_key in api_keys):
+        raise HTTPException(status_code=400, detail="Unknown API key")
+
+    return list(dict.fromkeys(api_keys))
+
+
+def _notify_accounts(organization_uuids: Iterable[str]) -> None:
+    """Push account updates so live views pick up the new pool membership."""
+    for organization_uuid in set(organization_uuids):
+        account = account_manager._accounts.get(organization_uuid)
+        if account:
+            account_manager.notify_account_updated(account)
+
+
+router = APIRouter()
+
+
+@router.get("", response_model=List[AccountPoolResponse])
+async def list_pools(_: AdminAuthDep):
+    """List all account pools."""
+    return [AccountPoolResponse.from_pool(pool) for pool in pool_manager.list_pools()]
+
+
+@router.post("", response_model=AccountPoolResponse)
+async def create_pool(pool_data: AccountPoolCreate, _: AdminAuthDep):
+    """Create an account pool."""
+    pool = pool_manager.create_pool(
+        name=_validate_name(pool_data.name),
+        description=pool_data.description or None,
+        organization_uuids=_validate_accounts(pool_data.organization_uuids),
+        api_keys=_validate_api_keys(pool_data.api_keys),
+    )
+
+    _notify_accounts(pool.organization_uuids)
+
+    return AccountPoolResponse.from_pool(pool)
+
+
+@router.get("/{pool_id}", response_model=AccountPoolResponse)
+async def get_pool(pool_id: str, _: AdminAuthDep):
+    """Get a specific account pool."""
+    pool = pool_manager.get_pool(pool_id)
+    if not pool:
+        raise HTTPException(status_code=404, detail="Pool not found")
+
+    return AccountPoolResponse.from_pool(pool)
+
+
+@router.put("/{pool_id}", response_model=AccountPoolResponse)
+async def update_pool(pool_id: str, pool_data: AccountPoolUpdate, _: AdminAuthDep):
+    """Update an account pool."""
+    pool = pool_manager.get_pool(pool_id)
+    if not pool:
+        raise HTTPException(status_code=404, detail="Pool not found")
+
+    # Validate every field before changing the pool
+    name = _validate_name(pool_data.name, pool_id) if pool_data.name else None
+    organization_uuids = (
+        _validate_accounts(pool_data.organization_uuids)
+        if pool_data.organization_uuids is not None
+        else None
+    )
+    api_keys = (
+        _validate_api_keys(pool_data.api_keys)
+        if pool_data.api_keys is not None
+        else None
+    )
+
+    previous_uuids = list(pool.organization_uuids)
+
+    if name is not None:
+        pool.name = name
+    if pool_data.description is not None:
+        pool.description = pool_data.description.strip() or None
+    if organization_uuids is not None:
+        pool.organization_uuids = organization_uuids
+    if api_keys is not None:
+        pool.api_keys = api_keys
+
+    pool_manager.save_pools()
+    _notify_accounts(previous_uuids + pool.organization_uuids)
+
+    return AccountPoolResponse.from_pool(pool)
+
+
+@router.delete("/{pool_id}")
+async def delete_pool(pool_id: str, _: AdminAuthDep):
+    """Delete an account pool. Its accounts return to the shared pool."""
+    pool = pool_manager.get_pool(pool_id)
+    if not pool:
+        raise HTTPException(status_code=404, detail="Pool not found")
+
+    pool_manager.delete_pool(pool_id)
+    _notify_accounts(pool.organization_uuids)
+
+    return {"message": "Pool deleted successfully"}
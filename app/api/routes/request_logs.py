@@ -0,0 +1,116 @@
+from typing import Any, List, Optional
+from fastapi import APIRouter, HTTPException, Query
+from pydantic import BaseModel
+
+from app.core.request_record import (
+    PipelineStepStatus,
+    RequestPath,
+    RequestRecord,
+    RequestStatus,
+)
+from app.dependencies.auth import AdminAuthDep
+from app.services.api_key import api_key_manager
+from app.services.request_log import request_log_manager
+
+
+class RequestLogEntry(BaseModel):
+    request_id: str
+    timestamp: str
+    model: str
+    status: RequestStatus
+    latency_ms: int
+    api_key_id: Optional[str] = None
+    api_key_name: Optional[str] = None
+    organization_uuid: Optional[str] = None
+    path: Optional[RequestPath] = None
+    stream: bool
+    input_tokens: int
+    output_tokens: int
+    error_code: Optional[int] = None
+    error_message: Optional[str] = None
+
+
+class RequestLogList(BaseModel):
+    total: int
+    items: List[RequestLogEntry]
+    models: List[str]
+
+
+class PipelineStep(BaseModel):
+    processor: str
+    status: PipelineStepStatus
+    duration_ms: Optional[float] = None
+    stopped_pipeline: bool = False
+
+
+class RequestLogDetail(RequestLogEntry):
+    detail_available: bool
+    request_body: Optional[dict] = None
+    pipeline_steps: List[PipelineStep] = []
+    response: Any = None
+    error: Optional[str] = None
+
+
+def _to_entry(record: RequestRecord) -> RequestLogEntry:
+    """Build the list entry of a record, naming its API key."""
+    api_key = (
+        api_key_manager.get_by_id(record.api_key_id) if record.api_key_id else None
+    )
+    return RequestLogEntry(
+        **record.to_dict(),
+        api_key_name=api_key.label if api_key else None,
+    )
+
+
+router = APIRouter()
+
+
+@router.get("", response_model=RequestLogList)
+async def list_request_logs(
+    _: AdminAuthDep,
+    api_key_id: Optional[str] = Query(None),
+    organization_uuid: Optional[str] = Query(None),
+    model: Optional[str] = Query(None),
+    status: Optional[RequestStatus] = Query(None),
+    path: Optional[RequestPath] = Query(None),
+    stream: Optional[bool] = Query(None),
+    limit: int = Query(50, ge=1, le=200),
+    offset: int = Query(0, ge=0),
+):
+    """List recent Messages API requests, newest first."""
+    records = request_log_manager.get_records()
+
+    matching = [
+        record
+        for record in reversed(records)
+        if (api_key_id is None or record.api_key_id == api_key_id)
+        and (
+            organization_uuid is None
+            or (record.organization_uuid or "").startswith(organization_uuid)
+        )
+        and (model is None or record.model == model)
+        and (status is None or record.status == status)
+        and (path is None or record.path == path)
+        and (stream is None or record.stream == stream)
+    ]
+
+    return RequestLogList(
+        total=len(matching),
+        items=[_to_entry(record) for record in matching[offset : offset + limit]],
+        models=sorted({record.model for record in records}),
+    )
+
+
+@router.get("/{request_id}", response_model=RequestLogDetail)
+async def get_request_log(request_id: str, _: AdminAuthDep):
+    """Get a request with its redacted body, pipeline steps and response."""
+    record = request_log_manager.get_record(request_id)
+    if not record:
+        raise HTTPException(status_code=404, detail="Request not found")
+
+    detail = request_log_manager.get_detail(request_id)
+    return RequestLogDetail(
+        **_to_entry(record).model_dump(),
+        detail_available=detail is not None,
+        **(detail.to_dict() if detail else {}),
+    )
@@ -0,0 +1,95 @@
+import asyncio
+from dataclasses import asdict
+from pathlib import Path
+from typing import AsyncIterator, List
+
+from fastapi import APIRouter, HTTPException, Request
+from fastapi.responses import FileResponse, StreamingResponse
+from pydantic import BaseModel
+
+from app.core.config import settings
+from app.dependencies.auth import AdminAuthDep
+from app.services.server_log import server_log_buffer
+
+HEARTBEAT_INTERVAL = 15
+
+
+class ServerLogEntry(BaseModel):
+    id: int
+    timestamp: str
+    level: str
+    name: str
+    function: str
+    line: int
+    message: str
+
+
+class ServerLogSnapshot(BaseModel):
+    log_level: str
+    log_file_available: bool
+    entries: List[ServerLogEntry]
+
+
+def _log_file() -> Path | None:
+    """Path of the current log file, if file logging is enabled and it exists."""
+    path = Path(settings.log_file_path)
+    return path if settings.log_to_file and path.is_file() else None
+
+
+def _format_sse(event: str, data: BaseModel) -> str:
+    """Format a single server-sent event."""
+    return f"event: {event}\ndata: {data.model_dump_json()}\n\n"
+
+
+async def _log_stream(request: Request) -> AsyncIterator[str]:
+    """Send the buffered log lines, then every new line as it is logged."""
+    async with server_log_buffer.subscribe() as queue:
+        snapshot = ServerLogSnapshot(
+            log_level=settings.log_level.upper(),
+            log_file_available=_log_file() is not None,
+            entries=[
+                ServerLogEntry(**asdict(entry))
+                for entry in server_log_buffer.get_entries()
+            ],
+        )
+        yield _format_sse("snapshot", snapshot)
+
+        # Lines logged while the snapshot was built are already part of it
+        last_id = snapshot.entries[-1].id if snapshot.entries else 0
+
+        while not await request.is_disconnected():
+            try:
+                entry = await asyncio.wait_for(queue.get(), timeout=HEARTBEAT_INTERVAL)
+            except asyncio.TimeoutError:
+                yield ": ping\n\n"
+                continue
+
+            if entry.id > last_id:
+                yield _format_sse("entry", ServerLogEntry(**asdict(entry)))
+
+
+router = APIRouter()
+
+
+@router.get("/stream")
+async def stream_server_logs(request: Request, _: AdminAuthDep):
+    """Stream the application log as server-sent events."""
+    return StreamingResponse(
+        _log_stream(request),
+        media_type="text/event-stream",
+        headers={
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive",
+            "X-Accel-Buffering": "no",  # Disable nginx buffering
+        },
+    )
+
+
+@router.get("/file")
+async def download_log_file(_: AdminAuthDep):
+    """Download the current log file."""
+    path = _log_file()
+    if not path:
+        raise HTTPException(status_code=404, detail="Log file not found")
+
+    return FileResponse(path, media_type="text/plain", filename=path.name)
@@ -6,6 +6,8 @@ from pydantic import BaseModel, HttpUrl
 
 from app.dependencies.auth import AdminAuthDep
 from app.core.config import Settings, settings
+from app.services.api_key import api_key_manager
+from app.services.pool import pool_manager
 
 
 class SettingsRead(BaseModel):
@@ -60,20 +62,8 @@ class SettingsUpdate(BaseModel):
     oauth_redirect_uri: str | None = None
 
 
-router = APIRouter()
-
-
-@router.get("", response_model=SettingsRead)
-async def get_settings(_: AdminAuthDep) -> Settings:
-    """Get current settings."""
-    return settings
-
-
-@router.put("", response_model=SettingsUpdate)
-async def update_settings(_: AdminAuthDep, updates: SettingsUpdate) -> Settings:
-    """Update settings and save to config.json."""
-    update_dict = updates.model_dump(exclude_unset=True)
-
+def save_settings(update_dict: dict) -> None:
+    """Save changed settings to config.json and apply them."""
     if not settings.no_filesystem_mode:
         config_path = settings.data_folder / "config.json"
         settings.data_folder.mkdir(parents=True, exist_ok=True)
@@ -97,8 +87,33 @@ async def update_settings(_: AdminAuthDep, updates: SettingsUpdate) -> Settings:
                 status_code=500, detail=f"Failed to save config: {str(e)}"
             )
 
+    removed_api_keys = set()
+    if "api_keys" in update_dict:
+        removed_api_keys = set(settings.api_keys) - set(update_dict["api_keys"] or [])
+
     for key, value in update_dict.items():
         if hasattr(settings, key):
             setattr(settings, key, value)
 
+    if "api_keys" in update_dict:
+        api_key_manager.sync()
+        # Otherwise a removed key added back later would still be bound to its pools
+        for api_key in removed_api_keys:
+            pool_manager.remove_api_key(api_key)
+
+
+router = APIRouter()
+
+
+@router.get("", response_model=SettingsRead)
+async def get_settings(_: AdminAuthDep) -> Settings:
+    """Get current settings."""
+    return settings
+
+
+@router.put("", response_model=SettingsUpdate)
+async def update_settings(_: AdminAuthDep, updates: SettingsUpdate) -> Settings:
+    """Update settings and save to config.json."""
+    save_settings(updates.model_dump(exclude_unset=True))
+
     return settings
@@ -19,14 +19,19 @@ class StatisticsResponse(BaseModel):
     accounts: AccountStats
 
 
+async def collect_statistics() -> StatisticsResponse:
+    """Collect the current account statistics."""
+    stats = await account_manager.get_status()
+    return StatisticsResponse(
+        status="healthy" if stats["valid_accounts"] > 0 else "degraded",
+        accounts=AccountStats.model_validate(stats),
+    )
+
+
 router = APIRouter()
 
 
 @router.get("", response_model=StatisticsResponse)
 async def get_statistics(_: AdminAuthDep):
     """Get system statistics. Requires admin authentication."""
-    stats = await account_manager.get_status()
-    return {
-        "status": "healthy" if stats["valid_accounts"] > 0 else "degraded",
-        "accounts": stats,
-    }
+    return await collect_statistics()
@@ -1,9 +1,12 @@
-from typing import List, Optional
+from collections import deque
+from contextlib import contextmanager
+from typing import Deque, Iterator, List, Optional
 from enum import Enum
-from datetime import datetime
+from datetime import datetime, timedelta
 from dataclasses import dataclass
 
 from app.core.exceptions import (
+    AppError,
     ClaudeAuthenticationError,
     ClaudeRateLimitedError,
     OAuthAuthenticationNotAllowedError,
@@ -49,9 +52,96 @@ class OAuthToken:
         )
 
 
+@dataclass
+class StatusTransition:
+    """A recorded change of an account's status."""
+
+    from_status: AccountStatus
+    to_status: AccountStatus
+    changed_at: datetime
+    reason: Optional[str] = None
+
+    def to_dict(self) -> dict:
+        """Convert to dictionary for JSON serialization."""
+        return {
+            "from_status": self.from_status.value,
+            "to_status": self.to_status.value,
+            "changed_at": self.changed_at.isoformat(),
+            "reason": self.reason,
+        }
+
+    @classmethod
+    def from_dict(cls, data: dict) -> "StatusTransition":
+        """Create from dictionary."""
+        return cls(
+            from_status=AccountStatus(data["from_status"]),
+            to_status=AccountStatus(data["to_status"]),
+            changed_at=datetime.fromisoformat(data["changed_at"]),
+            reason=data.get("reason"),
+        )
+
+
+@dataclass
+class RequestError:
+    """An error raised while a request was using an account."""
+
+    occurred_at: datetime
+    error_type: str
+    error_code: Optional[int] = None
+    message: Optional[str] = None
+
+
+class AccountActivity:
+    """In-memory request counters for an account since the server started."""
+
+    def __init__(self, max_request_times: int = 10000, max_errors: int = 20):
+        self.total_requests = 0
+        self.total_errors = 0
+        self._request_times: Deque[datetime] = deque(maxlen=max_request_times)
+        self.recent_errors: Deque[RequestError] = deque(maxlen=max_errors)
+
+    def record_request(self) -> None:
+        """Record that a Messages API request was assigned to the account."""
+        self.total_requests += 1
+        self._request_times.append(datetime.now())
+
+    def record_error(self, error: BaseException) -> None:
+        """Record an error raised while a request was using the account."""
+        self.total_errors += 1
+        if isinstance(error, AppError):
+            record = RequestError(
+                occurred_at=datetime.now(),
+                error_type=type(error).__name__,
+                error_code=error.error_code,
+                message=error.message_key,
+            )
+        else:
+            record = RequestError(
+                occurred_at=datetime.now(),
+                error_type=type(error).__name__,
+                message=str(error) or None,
+            )
+        self.recent_errors.append(record)
+
+    def count_requests_since(self, since: datetime) -> int:
+        """Count requests started at or after the given time."""
+        return sum(1 for request_time in self._request_times if request_time >= since)
+
+    def request_counts(self) -> dict:
+        """Request counts over the last hour and day."""
+        now = datetime.now()
+        return {
+            "last_hour": self.count_requests_since(now - timedelta(hours=1)),
+            "last_day": self.count_requests_since(now - timedelta(days=1)),
+            "total": self.total_requests,
+        }
+
+
 class Account:
     """Represents a Claude.ai account with cookie and/or OAuth authentication."""
 
+    max_status_history = 50
+
     def __init__(
         self,
         organization_uuid: str,
@@ -59,15 +149,54 @@ class Account:
         cookie_value: Optional[str] = None,
         oauth_token: Optional[OAuthToken] = None,
         auth_type: AuthType = AuthType.COOKIE_ONLY,
+        labels: Optional[List[str]] = None,
+        notes: Optional[str] = None,
     ):
         self.organization_uuid = organization_uuid
         self.capabilities = capabilities
         self.cookie_value = cookie_value
-        self.status = AccountStatus.VALID
+        self._status = AccountStatus.VALID
+        self.status_history: List[StatusTransition] = []
         self.auth_type = auth_type
         self.last_used = datetime.now()
         self.resets_at: Optional[datetime] = None
         self.oauth_token: Optional[OAuthToken] = oauth_token
+        self.activity = AccountActivity()
+        # Free-form metadata for operators; not used for account selection
+        self.labels: List[str] = labels or []
+        self.notes = notes
+
+    @property
+    def status(self) -> AccountStatus:
+        """The current account status."""
+        return self._status
+
+    @status.setter
+    def status(self, status: AccountStatus) -> None:
+        self.set_status(status)
+
+    def set_status(self, status: AccountStatus, reason: Optional[str] = None) -> None:
+        """
+        Change the account status, recording the transition in the status history.
+
+        Args:
+            status: The new status
+            reason: Why the status changed, e.g. the error that caused it
+        """
+        status = AccountStatus(status)
+        if status == self._status:
+            return
+
+        self.status_history.append(
+            StatusTransition(
+                from_status=self._status,
+                to_status=status,
+                changed_at=datetime.now(),
+                reason=reason,
+            )
+        )
+        del self.status_history[: -self.max_status_history]
+        self._status = status
 
     def __enter__(self) -> "Account":
         """Enter the context manager."""
@@ -76,40 +205,53 @@ class Account:
 
     def __exit__(self, exc_type, exc_val, exc_tb):
         """Exit the context manager and handle CookieRateLimitedError."""
-        if exc_type is ClaudeRateLimitedError and isinstance(
-            exc_val, ClaudeRateLimitedError
-        ):
-            self.status = AccountStatus.RATE_LIMITED
-            self.resets_at = exc_val.resets_at
+        if exc_val is not None:
+            self.activity.record_error(exc_val)
+            self.handle_error(exc_val)
+
+        return False
+
+    @contextmanager
+    def untracked(self) -> Iterator["Account"]:
+        """
+        Use the account like the context manager does, without recording activity.
+
+        Errors still change the account status, but they are left out of the
+        activity stats and last_used is not updated.
+        """
+        try:
+            yield self
+        except Exception as e:
+            self.handle_error(e)
+            raise
+
+    def handle_error(self, error: BaseException) -> None:
+        """Update the account status for an error raised while using it."""
+        if isinstance(error, ClaudeRateLimitedError):
+            self.set_status(AccountStatus.RATE_LIMITED, "rate_limited")
+            self.resets_at = error.resets_at
             self.save()
 
-        if exc_type is ClaudeAuthenticationError and isinstance(
-            exc_val, ClaudeAuthenticationError
-        ):
-            self.status = AccountStatus.INVALID
+        if isinstance(error, ClaudeAuthenticationError):
+            self.set_status(AccountStatus.INVALID, "authentication_error")
             self.save()
 
-        if exc_type is OrganizationDisabledError and isinstance(
-            exc_val, OrganizationDisabledError
-        ):
-            self.status = AccountStatus.INVALID
+        if isinstance(error, OrganizationDisabledError):
+            self.set_status(AccountStatus.INVALID, "organization_disabled")
             self.save()
 
-        if exc_type is OAuthAuthenticationNotAllowedError and isinstance(
-            exc_val, OAuthAuthenticationNotAllowedError
-        ):
+        if isinstance(error, OAuthAuthenticationNotAllowedError):
             if self.auth_type == AuthType.BOTH:
                 self.auth_type = AuthType.COOKIE_ONLY
             else:
-                self.status = AccountStatus.INVALID
+                self.set_status(AccountStatus.INVALID, "oauth_not_allowed")
             self.save()
 
-        return False
-
     def save(self) -> None:
         from app.services.account import account_manager
 
         account_manager.save_accounts()
+        account_manager.notify_account_updated(self)
 
     def to_dict(self) -> dict:
         """Convert Account to dictionary for JSON serialization."""
@@ -122,6 +264,11 @@ class Account:
             "last_used": self.last_used.isoformat(),
             "resets_at": self.resets_at.isoformat() if self.resets_at else None,
             "oauth_token": self.oauth_token.to_dict() if self.oauth_token else None,
+            "status_history": [
+                transition.to_dict() for transition in self.status_history
+            ],
+            "labels": self.labels,
+            "notes": self.notes,
         }
 
     @classmethod
@@ -132,8 +279,15 @@ class Account:
             capabilities=data.get("capabilities"),
             cookie_value=data.get("cookie_value"),
             auth_type=AuthType(data["auth_type"]),
+            labels=data.get("labels"),
+            notes=data.get("notes"),
         )
-        account.status = AccountStatus(data["status"])
+        # Restore the persisted status directly so loading isn't recorded as a transition
+        account._status = AccountStatus(data["status"])
+        account.status_history = [
+            StatusTransition.from_dict(transition)
+            for transition in data.get("status_history") or []
+        ]
         account.last_used = datetime.fromisoformat(data["last_used"])
         account.resets_at = (
             datetime.fromisoformat(data["resets_at"]) if data["resets_at"] else None
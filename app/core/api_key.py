@@ -0,0 +1,103 @@
+from datetime import date, datetime, UTC
+from typing import List, Optional
+
+
+class ApiKey:
+    """Metadata for an API key configured in settings.api_keys."""
+
+    def __init__(
+        self,
+        key_id: str,
+        key: str,
+        name: Optional[str] = None,
+        expires_at: Optional[datetime] = None,
+        enabled: bool = True,
+        rate_limit_rpm: Optional[int] = None,
+        daily_token_limit: Optional[int] = None,
+        allowed_models: Optional[List[str]] = None,
+    ):
+        self.key_id = key_id
+        self.key = key
+        self.name = name
+        self.created_at = datetime.now(UTC)
+        self.last_used_at: Optional[datetime] = None
+        self.expires_at = expires_at
+        self.enabled = enabled
+
+        # Quotas; None (or an empty model list) means unlimited
+        self.rate_limit_rpm = rate_limit_rpm
+        self.daily_token_limit = daily_token_limit
+        self.allowed_models: List[str] = allowed_models or []
+
+        # Token consumption of the current UTC day
+        self.usage_date: Optional[date] = None
+        self.tokens_today = 0
+
+        # The most recent quota rejection: code, message and time
+        self.last_rejection: Optional[dict] = None
+
+    @property
+    def is_expired(self) -> bool:
+        """Check whether the key is past its expiry date."""
+        return self.expires_at is not None and self.expires_at <= datetime.now(UTC)
+
+    @property
+    def label(self) -> str:
+        """Name of the key, or its masked value when unnamed."""
+        return self.name or f"{self.key[:6]}…{self.key[-4:]}"
+
+    def tokens_used_on(self, day: date) -> int:
+        """Get the tokens consumed on a UTC day; earlier days read as zero."""
+        return self.tokens_today if self.usage_date == day else 0
+
+    def is_model_allowed(self, model: str) -> bool:
+        """Check whether the key may request a model."""
+        return not self.allowed_models or model in self.allowed_models
+
+    def to_dict(self) -> dict:
+        """Convert ApiKey to dictionary for JSON serialization."""
+        return {
+            "key_id": self.key_id,
+            "key": self.key,
+            "name": self.name,
+            "created_at": self.created_at.isoformat(),
+            "last_used_at": self.last_used_at.isoformat()
+            if self.last_used_at
+            else None,
+            "expires_at": self.expires_at.isoformat() if self.expires_at else None,
+            "enabled": self.enabled,
+            "rate_limit_rpm": self.rate_limit_rpm,
+            "daily_token_limit": self.daily_token_limit,
+            "allowed_models": self.allowed_models,
+            "usage_date": self.usage_date.isoformat() if self.usage_date else None,
+            "tokens_today": self.tokens_today,
+            "last_rejection": self.last_rejection,
+        }
+
+    @classmethod
+    def from_dict(cls, data: dict) -> "ApiKey":
+        """Create ApiKey from dictionary."""
+        api_key = cls(
+            key_id=data["key_id"],
+            key=data["key"],
+            name=data.get("name"),
+            expires_at=datetime.fromisoformat(data["expires_at"])
+            if data.get("expires_at")
+            else None,
+            enabled=data.get("enabled", True),
+            rate_limit_rpm=data.get("rate_limit_rpm"),
+            daily_token_limit=data.get("daily_token_limit"),
+            allowed_models=data.get("allowed_models"),
+        )
+        api_key.created_at = datetime.fromisoformat(data["created_at"])
+        if data.get("last_used_at"):
+            api_key.last_used_at = datetime.fromisoformat(data["last_used_at"])
+        if data.get("usage_date"):
+            api_key.usage_date = date.fromisoformat(data["usage_date"])
+            api_key.tokens_today = data.get("tokens_today", 0)
+        api_key.last_rejection = data.get("last_rejection")
+        return api_key
+
+    def __repr__(self) -> str:
+        """String representation of the ApiKey."""
+        return f"<ApiKey name={self.name} key={self.key[:8]}... enabled={self.enabled}>"
@@ -9,8 +9,9 @@ from app.services.account import account_manager
 
 
 class ClaudeWebSession:
-    def __init__(self, session_id: str):
+    def __init__(self, session_id: str, api_key: Optional[str] = None):
         self.session_id = session_id
+        self.api_key = api_key
         self.last_activity = datetime.now()
         self.conv_uuid: Optional[str] = None
         self.paprika_mode: Optional[str] = None
@@ -18,7 +19,9 @@ class ClaudeWebSession:
 
     async def initialize(self):
         """Initialize the session."""
-        self.account = await account_manager.get_account_for_session(self.session_id)
+        self.account = await account_manager.get_account_for_session(
+            self.session_id, api_key=self.api_key
+        )
         self.client = ClaudeWebClient(self.account)
         await self.client.initialize()
 
@@ -58,6 +58,76 @@ class InvalidAPIKeyError(AppError):
         )
 
 
+class APIKeyDisabledError(AppError):
+    def __init__(self, context: Optional[Dict[str, Any]] = None):
+        super().__init__(
+            error_code=403012,
+            message_key="global.apiKeyDisabled",
+            status_code=403,
+            context=context,
+        )
+
+
+class APIKeyExpiredError(AppError):
+    def __init__(self, expires_at: datetime, context: Optional[Dict[str, Any]] = None):
+        _context = context.copy() if context else {}
+        _context["expires_at"] = expires_at.isoformat()
+        super().__init__(
+            error_code=403013,
+            message_key="global.apiKeyExpired",
+            status_code=403,
+            context=_context,
+        )
+
+
+class APIKeyRateLimitedError(AppError):
+    def __init__(
+        self,
+        limit: int,
+        retry_at: datetime,
+        context: Optional[Dict[str, Any]] = None,
+    ):
+        _context = context.copy() if context else {}
+        _context["limit"] = limit
+        _context["retry_at"] = retry_at.strftime("%Y-%m-%dT%H:%M:%SZ")
+        super().__init__(
+            error_code=429014,
+            message_key="global.apiKeyRateLimited",
+            status_code=429,
+            context=_context,
+        )
+
+
+class APIKeyTokenQuotaExceededError(AppError):
+    def __init__(
+        self,
+        limit: int,
+        resets_at: datetime,
+        context: Optional[Dict[str, Any]] = None,
+    ):
+        _context = context.copy() if context else {}
+        _context["limit"] = limit
+        _context["resets_at"] = resets_at.strftime("%Y-%m-%dT%H:%M:%SZ")
+        super().__init__(
+            error_code=429015,
+            message_key="global.apiKeyTokenQuotaExceeded",
+            status_code=429,
+            context=_context,
+        )
+
+
+class APIKeyModelNotAllowedError(AppError):
+    def __init__(self, model_name: str, context: Optional[Dict[str, Any]] = None):
+        _context = context.copy() if context else {}
+        _context["model_name"] = model_name
+        super().__init__(
+            error_code=403016,
+            message_key="global.apiKeyModelNotAllowed",
+            status_code=403,
+            context=_context,
+        )
+
+
 class NoAccountsAvailableError(AppError):
     def __init__(self, context: Optional[Dict[str, Any]] = None):
         super().__init__(
@@ -69,6 +139,16 @@ class NoAccountsAvailableError(AppError):
         )
 
 
+class NoTestablePathError(AppError):
+    def __init__(self, context: Optional[Dict[str, Any]] = None):
+        super().__init__(
+            error_code=400101,
+            message_key="accountManager.noTestablePath",
+            status_code=400,
+            context=context,
+        )
+
+
 class ClaudeRateLimitedError(AppError):
     resets_at: datetime
 
@@ -243,6 +323,18 @@ class OAuthAuthenticationNotAllowedError(AppError):
         )
 
 
+class OAuthRefreshError(AppError):
+    def __init__(self, reason: str, context: Optional[Dict[str, Any]] = None):
+        _context = context.copy() if context else {}
+        _context["reason"] = reason or "Unknown"
+        super().__init__(
+            error_code=400184,
+            message_key="oauthService.oauthRefreshError",
+            status_code=400,
+            context=_context,
+        )
+
+
 class ClaudeStreamingError(AppError):
     def __init__(
         self,
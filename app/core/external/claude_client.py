@@ -1,4 +1,5 @@
 import json
+from contextlib import nullcontext
 from loguru import logger
 from datetime import datetime, timezone
 from typing import Optional, Dict, Any
@@ -26,8 +27,10 @@ from app.core.account import Account
 class ClaudeWebClient:
     """Client for interacting with Claude.ai."""
 
-    def __init__(self, account: Account):
+    def __init__(self, account: Account, record_activity: bool = True):
         self.account = account
+        # Off for health checks, which should not show up in the activity stats
+        self.record_activity = record_activity
         self.session: Optional[AsyncSession] = None
         self.endpoint = settings.claude_ai_url.encoded_string().rstrip("/")
 
@@ -70,13 +73,23 @@ class ClaudeWebClient:
         url: str,
         conv_uuid: Optional[str] = None,
         stream=None,
+        cleanup: bool = False,
         **kwargs,
     ) -> Response:
         """Make HTTP request with error handling."""
         if not self.session:
             await self.initialize()
 
-        with self.account as account:
+        if cleanup:
+            # A failed cleanup says nothing about the account, so it neither
+            # counts as an account error nor changes the account status
+            usage = nullcontext(self.account)
+        elif self.record_activity:
+            usage = self.account
+        else:
+            usage = self.account.untracked()
+
+        with usage as account:
             cookie_value = account.cookie_value
             headers = self._build_headers(cookie_value, conv_uuid)
             kwargs["headers"] = {**headers, **kwargs.get("headers", {})}
@@ -206,7 +219,7 @@ class ClaudeWebClient:
             f"/api/organizations/{self.account.organization_uuid}/chat_conversations/{conv_uuid}",
         )
         try:
-            await self._request("DELETE", url, conv_uuid=conv_uuid)
+            await self._request("DELETE", url, conv_uuid=conv_uuid, cleanup=True)
             logger.info(f"Deleted conversation: {conv_uuid}")
         except Exception as e:
             logger.warning(f"Failed to delete conversation: {e}")
@@ -0,0 +1,50 @@
+from datetime import datetime
+from typing import List, Optional
+
+
+class AccountPool:
+    """A named group of accounts that API keys can be bound to."""
+
+    def __init__(
+        self,
+        pool_id: str,
+        name: str,
+        description: Optional[str] = None,
+        organization_uuids: Optional[List[str]] = None,
+        api_keys: Optional[List[str]] = None,
+    ):
+        self.pool_id = pool_id
+        self.name = name
+        self.description = description
+        self.organization_uuids: List[str] = organization_uuids or []
+        self.api_keys: List[str] = api_keys or []
+        self.created_at = datetime.now()
+
+    def to_dict(self) -> dict:
+        """Convert AccountPool to dictionary for JSON serialization."""
+        return {
+            "pool_id": self.pool_id,
+            "name": self.name,
+            "description": self.description,
+            "organization_uuids": self.organization_uuids,
+            "api_keys": self.api_keys,
+            "created_at": self.created_at.isoformat(),
+        }
+
+    @classmethod
+    def from_dict(cls, data: dict) -> "AccountPool":
+        """Create AccountPool from dictionary."""
+        pool = cls(
+            pool_id=data["pool_id"],
+            name=data["name"],
+            description=data.get("description"),
+            organization_uuids=data.get("organization_uuids"),
+            api_keys=data.get("api_keys"),
+        )
+        if data.get("created_at"):
+            pool.created_at = datetime.fromisoformat(data["created_at"])
+        return pool
+
+    def __repr__(self) -> str:
+        """String representation of the AccountPool."""
+        return f"<AccountPool name={self.name} accounts={len(self.organization_uuids)} api_keys={len(self.api_keys)}>"
@@ -0,0 +1,110 @@
+from datetime import datetime, UTC
+from typing import Any, List, Literal, Optional
+
+
+RequestPath = Literal["oauth", "web"]
+RequestStatus = Literal["success", "error"]
+PipelineStepStatus = Literal["completed", "skipped", "failed"]
+
+
+class RequestRecord:
+    """Outcome of a single Messages API request, kept for analytics."""
+
+    def __init__(
+        self,
+        request_id: str,
+        model: str,
+        status: RequestStatus,
+        latency_ms: int,
+        api_key_id: Optional[str] = None,
+        organization_uuid: Optional[str] = None,
+        path: Optional[RequestPath] = None,
+        stream: bool = False,
+        input_tokens: int = 0,
+        output_tokens: int = 0,
+        error_code: Optional[int] = None,
+        error_message: Optional[str] = None,
+        timestamp: Optional[datetime] = None,
+    ):
+        self.request_id = request_id
+        self.timestamp = timestamp or datetime.now(UTC)
+        self.model = model
+        self.status = status
+        self.latency_ms = latency_ms
+        self.api_key_id = api_key_id
+        self.organization_uuid = organization_uuid
+        self.path = path
+        self.stream = stream
+        self.input_tokens = input_tokens
+        self.output_tokens = output_tokens
+        self.error_code = error_code
+        self.error_message = error_message
+
+    def to_dict(self) -> dict:
+        """Convert RequestRecord to dictionary for JSON serialization."""
+        return {
+            "request_id": self.request_id,
+            "timestamp": self.timestamp.isoformat(),
+            "model": self.model,
+            "status": self.status,
+            "latency_ms": self.latency_ms,
+            "api_key_id": self.api_key_id,
+            "organization_uuid": self.organization_uuid,
+            "path": self.path,
+            "stream": self.stream,
+            "input_tokens": self.input_tokens,
+            "output_tokens": self.output_tokens,
+            "error_code": self.error_code,
+            "error_message": self.error_message,
+        }
+
+    @classmethod
+    def from_dict(cls, data: dict) -> "RequestRecord":
+        """Create RequestRecord from dictionary."""
+        return cls(
+            request_id=data["request_id"],
+            timestamp=datetime.fromisoformat(data["timestamp"]),
+            model=data["model"],
+            status=data["status"],
+            latency_ms=data["latency_ms"],
+            api_key_id=data.get("api_key_id"),
+            organization_uuid=data.get("organization_uuid"),
+            path=data.get("path"),
+            stream=data.get("stream", False),
+            input_tokens=data.get("input_tokens", 0),
+            output_tokens=data.get("output_tokens", 0),
+            error_code=data.get("error_code"),
+            error_message=data.get("error_message"),
+        )
+
+    def __repr__(self) -> str:
+        """String representation of the RequestRecord."""
+        return (
+            f"<RequestRecord model={self.model} status={self.status} "
+            f"latency={self.latency_ms}ms>"
+        )
+
+
+class RequestDetail:
+    """Redacted payloads of a request, kept in memory for the request log viewer."""
+
+    def __init__(
+        self,
+        request_body: Optional[dict] = None,
+        pipeline_steps: Optional[List[dict]] = None,
+        response: Any = None,
+        error: Optional[str] = None,
+    ):
+        self.request_body = request_body
+        self.pipeline_steps = pipeline_steps or []
+        self.response = response
+        self.error = error
+
+    def to_dict(self) -> dict:
+        """Convert RequestDetail to dictionary for JSON serialization."""
+        return {
+            "request_body": self.request_body,
+            "pipeline_steps": self.pipeline_steps,
+            "response": self.response,
+            "error": self.error,
+        }
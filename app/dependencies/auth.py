@@ -5,6 +5,7 @@ import secrets
 
 from app.core.config import settings
 from app.core.exceptions import InvalidAPIKeyError
+from app.services.api_key import api_key_manager
 
 _temp_admin_api_key: Optional[str] = None
 
@@ -52,6 +53,9 @@ async def verify_api_key(
     if api_key not in valid_keys:
         raise InvalidAPIKeyError()
 
+    # Rejects disabled and expired keys
+    api_key_manager.verify(api_key)
+
     return api_key
 
 
@@ -10,6 +10,9 @@ from app.core.exceptions import AppError
 from app.core.static import register_static_routes
 from app.utils.logger import configure_logger
 from app.services.account import account_manager
+from app.services.pool import pool_manager
+from app.services.api_key import api_key_manager
+from app.services.request_log import request_log_manager
 from app.services.session import session_manager
 from app.services.tool_call import tool_call_manager
 from app.services.cache import cache_service
@@ -24,6 +27,9 @@ async def lifespan(app: FastAPI):
 
     # Load accounts
     account_manager.load_accounts()
+    pool_manager.load_pools()
+    api_key_manager.load_keys()
+    request_log_manager.load_records()
 
     for cookie in settings.cookies:
         await account_manager.add_account(cookie_value=cookie)
@@ -40,6 +46,8 @@ async def lifespan(app: FastAPI):
 
     # Save accounts
     account_manager.save_accounts()
+    api_key_manager.save_keys()
+    request_log_manager.save_records()
 
     # Stop tasks
     await account_manager.stop_task()
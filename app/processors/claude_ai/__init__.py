@@ -18,6 +18,9 @@ from app.processors.claude_ai.tool_result_processor import ToolResultProcessor
 from app.processors.claude_ai.tool_call_event_processor import ToolCallEventProcessor
 from app.processors.claude_ai.stop_sequences_processor import StopSequencesProcessor
 from app.processors.claude_ai.model_injector_processor import ModelInjectorProcessor
+from app.processors.claude_ai.api_key_quota_processor import ApiKeyQuotaProcessor
+from app.processors.claude_ai.api_key_usage_processor import ApiKeyUsageProcessor
+from app.processors.claude_ai.request_recorder_processor import RequestRecorderProcessor
 
 __all__ = [
     "ClaudeAIContext",
@@ -34,4 +37,7 @@ __all__ = [
     "ToolCallEventProcessor",
     "StopSequencesProcessor",
     "ModelInjectorProcessor",
+    "ApiKeyQuotaProcessor",
+    "ApiKeyUsageProcessor",
+    "RequestRecorderProcessor",
 ]
@@ -0,0 +1,35 @@
+from loguru import logger
+
+from app.processors.base import BaseProcessor
+from app.processors.claude_ai import ClaudeAIContext
+from app.services.api_key import api_key_manager
+
+
+class ApiKeyQuotaProcessor(BaseProcessor):
+    """Processor that rejects requests exceeding the API key's quotas."""
+
+    async def process(self, context: ClaudeAIContext) -> ClaudeAIContext:
+        """
+        Check the request against the key's model, token and rate limits.
+
+        Requires:
+            - api_key in context
+            - messages_api_request in context (for the requested model)
+
+        Raises:
+            APIKeyModelNotAllowedError: If the key may not use the model
+            APIKeyTokenQuotaExceededError: If the key used up today's tokens
+            APIKeyRateLimitedError: If the key reached its requests per minute
+        """
+        if not context.api_key or not context.messages_api_request:
+            return context
+
+        # Already counted when the first attempt of this client request was checked
+        if context.attempt > 1:
+            return context
+
+        api_key_manager.check_quota(context.api_key, context.messages_api_request.model)
+
+        logger.debug("API key quota check passed")
+
+        return context
@@ -0,0 +1,52 @@
+from typing import AsyncIterator
+from loguru import logger
+
+from app.processors.base import BaseProcessor
+from app.processors.claude_ai import ClaudeAIContext
+from app.models.streaming import MessageDeltaEvent, StreamingEvent
+from app.services.api_key import api_key_manager
+
+
+class ApiKeyUsageProcessor(BaseProcessor):
+    """Processor that records the tokens a request consumed against its API key."""
+
+    async def process(self, context: ClaudeAIContext) -> ClaudeAIContext:
+        """
+        Intercept MessageDeltaEvent and add its usage to the key's daily tokens.
+
+        Requires:
+            - event_stream in context (after TokenCounterProcessor fills in usage)
+            - api_key in context
+
+        Produces:
+            - event_stream in context (wrapped to record usage)
+        """
+        if not context.event_stream:
+            logger.warning("Skipping ApiKeyUsageProcessor due to missing event_stream")
+            return context
+
+        if not context.api_key:
+            return context
+
+        original_stream = context.event_stream
+        new_stream = self._record_usage_generator(original_stream, context.api_key)
+        context.event_stream = new_stream
+
+        return context
+
+    async def _record_usage_generator(
+        self,
+        event_stream: AsyncIterator[StreamingEvent],
+        api_key: str,
+    ) -> AsyncIterator[StreamingEvent]:
+        """
+        Generator that records usage from MessageDeltaEvent.
+        """
+        async for event in event_stream:
+            if isinstance(event.root, MessageDeltaEvent) and event.root.usage:
+                tokens = event.root.usage.input_tokens + event.root.usage.output_tokens
+                api_key_manager.record_tokens(api_key, tokens)
+
+                logger.debug(f"Recorded {tokens} tokens for API key usage")
+
+            yield event
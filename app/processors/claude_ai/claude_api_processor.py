@@ -1,18 +1,22 @@
+import json
 from app.core.http_client import (
     Response,
     AsyncSession,
     create_session,
 )
 from datetime import datetime, timedelta, UTC
-from typing import Dict
+from typing import Any, Dict
 from loguru import logger
 from fastapi.responses import StreamingResponse
 
 from app.models.claude import TextContent
 from app.processors.base import BaseProcessor
 from app.processors.claude_ai import ClaudeAIContext
+from app.processors.claude_ai.request_recorder_processor import record_request
 from app.services.account import account_manager
+from app.services.api_key import api_key_manager
 from app.services.cache import cache_service
+from app.services.oauth import CLAUDE_CODE_SYSTEM_MESSAGE, prepare_oauth_headers
 from app.core.exceptions import (
     ClaudeHttpError,
     ClaudeRateLimitedError,
@@ -21,6 +25,10 @@ from app.core.exceptions import (
     OAuthAuthenticationNotAllowedError,
 )
 from app.core.config import settings
+from app.utils.usage import UsageExtractor
+
+# Bytes of each relayed response body kept for the request log
+MAX_LOGGED_RESPONSE_BYTES = 64 * 1024
 
 
 class ClaudeAPIProcessor(BaseProcessor):
@@ -76,7 +84,9 @@ class ClaudeAPIProcessor(BaseProcessor):
 
             account = None
             if cached_account_id:
-                account = await account_manager.get_account_by_id(cached_account_id)
+                account = await account_manager.get_account_by_id(
+                    cached_account_id, api_key=context.api_key
+                )
                 if account:
                     logger.info(f"Using cached account: {cached_account_id[:8]}...")
 
@@ -85,14 +95,19 @@ class ClaudeAPIProcessor(BaseProcessor):
                 account = await account_manager.get_account_for_oauth(
                     is_max=True
                     if (context.messages_api_request.model in settings.max_models)
-                    else None
+                    else None,
+                    api_key=context.api_key,
                 )
 
+            context.request_path = "oauth"
+            context.organization_uuid = account.organization_uuid
+            account.activity.record_request()
+
             with account:
                 request_json = context.messages_api_request.model_dump_json(
                     exclude_none=True
                 )
-                headers = self._prepare_headers(account.oauth_token.access_token)
+                headers = prepare_oauth_headers(account.oauth_token.access_token)
 
                 session = create_session(
                     proxy=settings.proxy_url,
@@ -154,9 +169,38 @@ class ClaudeAPIProcessor(BaseProcessor):
                         ),
                     )
 
+                # The body is relayed untouched, so usage is read from the raw bytes
+                content_type = response.headers.get("content-type", "")
+                usage = UsageExtractor(
+                    stream=content_type.startswith("text/event-stream")
+                )
+
                 async def stream_response():
-                    async for chunk in response.aiter_bytes():
-                        yield chunk
+                    error = None
+                    body = bytearray()
+                    try:
+                        async for chunk in response.aiter_bytes():
+                            usage.feed(chunk)
+                            remaining = MAX_LOGGED_RESPONSE_BYTES - len(body)
+                            if remaining > 0:
+                                body.extend(chunk[:remaining])
+                            yield chunk
+                    except Exception as e:
+                        error = e
+                        raise
+                    finally:
+                        usage.finish()
+                        tokens = usage.input_tokens + usage.output_tokens
+                        if context.api_key:
+                            api_key_manager.record_tokens(context.api_key, tokens)
+                        record_request(
+                            context,
+                            "error" if error or usage.error else "success",
+                            usage.input_tokens,
+                            usage.output_tokens,
+                            error,
+                            self._decode_logged_body(bytes(body), usage.stream),
+                        )
 
                     await session.close()
 
@@ -188,15 +232,26 @@ class ClaudeAPIProcessor(BaseProcessor):
 
         return context
 
+    def _decode_logged_body(self, body: bytes, stream: bool) -> Any:
+        """Decode a relayed response body for the request log."""
+        if not stream:
+            try:
+                return json.loads(body)
+            except ValueError:
+                pass
+
+        text = body.decode("utf-8", errors="replace")
+        if len(body) >= MAX_LOGGED_RESPONSE_BYTES:
+            text += "\n… [truncated]"
+        return text
+
     def _insert_system_message(self, context: ClaudeAIContext) -> None:
         """Insert system message into the request."""
 
         request = context.messages_api_request
 
         # Handle system field
-        system_message_text = (
-            "You are Claude Code, Anthropic's official CLI for Claude."
-        )
+        system_message_text = CLAUDE_CODE_SYSTEM_MESSAGE
         system_message = TextContent(type="text", text=system_message_text)
 
         if isinstance(request.system, str) and request.system:
@@ -211,12 +266,3 @@ class ClaudeAPIProcessor(BaseProcessor):
                 request.system = [system_message] + request.system
         else:
             request.system = [system_message]
-
-    def _prepare_headers(self, access_token: str) -> Dict[str, str]:
-        """Prepare headers for Claude API request."""
-        return {
-            "Authorization": f"Bearer {access_token}",
-            "anthropic-beta": "oauth-2025-04-20",
-            "anthropic-version": "2023-06-01",
-            "Content-Type": "application/json",
-        }
@@ -51,9 +51,13 @@ class ClaudeWebProcessor(BaseProcessor):
 
             logger.debug(f"Creating new session: {session_id}")
             context.claude_session = await session_manager.get_or_create_session(
-                session_id
+                session_id, api_key=context.api_key
             )
 
+        context.request_path = "web"
+        context.organization_uuid = context.claude_session.account.organization_uuid
+        context.claude_session.account.activity.record_request()
+
         # Step 2: Build ClaudeWebRequest
         if not context.claude_web_request:
             request = context.messages_api_request
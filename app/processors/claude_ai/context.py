@@ -1,7 +1,9 @@
-from dataclasses import dataclass
+import time
+from dataclasses import dataclass, field
 from typing import Optional, AsyncIterator
 
 from app.core.claude_session import ClaudeWebSession
+from app.core.request_record import RequestPath
 from app.models.claude import Message, MessagesAPIRequest
 from app.models.internal import ClaudeWebRequest
 from app.models.streaming import StreamingEvent
@@ -11,8 +13,18 @@ from app.processors.base import BaseContext
 @dataclass
 class ClaudeAIContext(BaseContext):
     messages_api_request: Optional[MessagesAPIRequest] = None
+    # Used to restrict account selection to the key's account pools
+    api_key: Optional[str] = None
     claude_web_request: Optional[ClaudeWebRequest] = None
     claude_session: Optional[ClaudeWebSession] = None
     original_stream: Optional[AsyncIterator[str]] = None
     event_stream: Optional[AsyncIterator[StreamingEvent]] = None
     collected_message: Optional[Message] = None
+    # Request analytics: which path and account served the request, and when it began
+    request_path: Optional[RequestPath] = None
+    organization_uuid: Optional[str] = None
+    started_at: float = field(default_factory=time.perf_counter)
+    # Internal retries of a client request run the pipeline again with a new context;
+    # only the first attempt counts towards quotas and only the last one is recorded
+    attempt: int = 1
+    final_attempt: bool = True
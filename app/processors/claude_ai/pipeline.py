@@ -23,6 +23,13 @@ from app.processors.claude_ai.tool_result_processor import ToolResultProcessor
 from app.processors.claude_ai.tool_call_event_processor import ToolCallEventProcessor
 from app.processors.claude_ai.stop_sequences_processor import StopSequencesProcessor
 from app.processors.claude_ai.model_injector_processor import ModelInjectorProcessor
+from app.processors.claude_ai.api_key_quota_processor import ApiKeyQuotaProcessor
+from app.processors.claude_ai.api_key_usage_processor import ApiKeyUsageProcessor
+from app.processors.claude_ai.request_recorder_processor import (
+    RequestRecorderProcessor,
+    record_request,
+)
+from app.utils.retry import is_retryable_error
 
 
 class ClaudeAIPipeline(ProcessingPipeline):
@@ -36,6 +43,7 @@ class ClaudeAIPipeline(ProcessingPipeline):
         processors = (
             [
                 TestMessageProcessor(),
+                ApiKeyQuotaProcessor(),
                 ToolResultProcessor(),
                 ClaudeAPIProcessor(),
                 ClaudeWebProcessor(),
@@ -45,6 +53,8 @@ class ClaudeAIPipeline(ProcessingPipeline):
                 ToolCallEventProcessor(),
                 MessageCollectorProcessor(),
                 TokenCounterProcessor(),
+                ApiKeyUsageProcessor(),
+                RequestRecorderProcessor(),
                 StreamingResponseProcessor(),
                 NonStreamingResponseProcessor(),
             ]
@@ -73,6 +83,9 @@ class ClaudeAIPipeline(ProcessingPipeline):
         try:
             return await super().process(context)
         except Exception as e:
+            # A retried request is recorded once, by the attempt that ends it
+            if context.final_attempt or not is_retryable_error(e):
+                record_request(context, "error", error=e)
             if context.claude_session:
                 await session_manager.remove_session(context.claude_session.session_id)
             logger.error(f"Pipeline processing failed: {e}")
@@ -0,0 +1,161 @@
+import time
+import uuid
+from typing import Any, AsyncIterator, Optional
+from loguru import logger
+
+from app.core.exceptions import AppError
+from app.core.request_record import RequestDetail, RequestRecord, RequestStatus
+from app.processors.base import BaseProcessor
+from app.processors.claude_ai import ClaudeAIContext
+from app.models.streaming import (
+    ErrorEvent,
+    MessageDeltaEvent,
+    MessageStopEvent,
+    StreamingEvent,
+)
+from app.services.api_key import api_key_manager
+from app.services.i18n import i18n_service
+from app.services.request_log import request_log_manager
+from app.utils.redact import redact, redact_text
+
+
+def record_request(
+    context: ClaudeAIContext,
+    status: RequestStatus,
+    input_tokens: int = 0,
+    output_tokens: int = 0,
+    error: Optional[Exception] = None,
+    response: Any = None,
+) -> None:
+    """
+    Store the outcome of a request for analytics and the request log, once per
+    context.
+
+    Args:
+        context: The processing context of the request
+        status: Whether the request succeeded
+        input_tokens: Input tokens consumed
+        output_tokens: Output tokens produced
+        error: The error that ended the request, if any
+        response: The response body returned to the client, if any
+    """
+    if context.metadata.get("request_recorded") or not context.messages_api_request:
+        return
+    context.metadata["request_recorded"] = True
+
+    api_key = api_key_manager.get(context.api_key) if context.api_key else None
+
+    error_code = None
+    error_message = None
+    if isinstance(error, AppError):
+        error_code = error.error_code
+        error_message = i18n_service.get_message(
+            error.message_key, context=error.context
+        )
+    elif error is not None:
+        error_message = str(error)
+
+    if error_message:
+        error_message = redact_text(error_message)
+
+    request_log_manager.record(
+        RequestRecord(
+            request_id=uuid.uuid4().hex,
+            model=context.messages_api_request.model,
+            status=status,
+            latency_ms=int((time.perf_counter() - context.started_at) * 1000),
+            api_key_id=api_key.key_id if api_key else None,
+            organization_uuid=context.organization_uuid,
+            path=context.request_path,
+            stream=bool(context.messages_api_request.stream),
+            input_tokens=input_tokens,
+            output_tokens=output_tokens,
+            error_code=error_code,
+            error_message=error_message,
+        ),
+        RequestDetail(
+            request_body=redact(
+                context.messages_api_request.model_dump(mode="json", exclude_none=True)
+            ),
+            pipeline_steps=list(context.metadata.get("pipeline_steps", [])),
+            response=redact(response),
+            error=f"{type(error).__name__}: {error_message}" if error else None,
+        ),
+    )
+
+
+class RequestRecorderProcessor(BaseProcessor):
+    """Processor that records the outcome of streamed requests for analytics."""
+
+    async def process(self, context: ClaudeAIContext) -> ClaudeAIContext:
+        """
+        Wrap the event stream to record usage, latency and errors once it ends.
+
+        Requires:
+            - event_stream in context (after TokenCounterProcessor fills in usage)
+
+        Produces:
+            - event_stream in context (wrapped to record the request)
+        """
+        if not context.event_stream:
+            logger.warning(
+                "Skipping RequestRecorderProcessor due to missing event_stream"
+            )
+            return context
+
+        original_stream = context.event_stream
+        new_stream = self._record_request_generator(original_stream, context)
+        context.event_stream = new_stream
+
+        return context
+
+    async def _record_request_generator(
+        self,
+        event_stream: AsyncIterator[StreamingEvent],
+        context: ClaudeAIContext,
+    ) -> AsyncIterator[StreamingEvent]:
+        """
+        Generator that records the request when the stream finishes.
+        """
+        input_tokens = 0
+        output_tokens = 0
+        status: RequestStatus = "success"
+        error: Optional[Exception] = None
+        completed = False
+
+        try:
+            async for event in event_stream:
+                if isinstance(event.root, MessageDeltaEvent) and event.root.usage:
+                    input_tokens = event.root.usage.input_tokens
+                    output_tokens = event.root.usage.output_tokens
+                elif isinstance(event.root, ErrorEvent):
+                    status = "error"
+                    error = Exception(event.root.error.message)
+                elif isinstance(event.root, MessageStopEvent):
+                    completed = True
+
+                yield event
+            completed = True
+        except Exception as e:
+            status = "error"
+            error = e
+            raise
+        finally:
+            # GeneratorExit and CancelledError, e.g. from a client disconnecting
+            # mid-stream, skip the handler above
+            if not completed and error is None:
+                status = "error"
+                error = Exception("Stream ended early, the client likely disconnected")
+
+            record_request(
+                context,
+                status,
+                input_tokens,
+                output_tokens,
+                error,
+                (
+                    context.collected_message.model_dump(mode="json", exclude_none=True)
+                    if context.collected_message
+                    else None
+                ),
+            )
@@ -1,3 +1,4 @@
+import time
 from typing import List, Optional
 from loguru import logger
 
@@ -35,22 +36,38 @@ class ProcessingPipeline(BaseProcessor):
 
         logger.debug("Starting pipeline processing")
 
+        # Steps taken, shown in the request log viewer
+        steps = context.metadata.setdefault("pipeline_steps", [])
+
         # Process through each processor
         for i, processor in enumerate(self.processors):
             if processor.name in context.metadata.get("skip_processors", []):
                 logger.debug(
                     f"Skipping processor {processor.name} due to being in skip_processors list"
                 )
+                steps.append({"processor": processor.name, "status": "skipped"})
                 continue
 
             logger.debug(
                 f"Running processor {i + 1}/{len(self.processors)}: {processor.name}"
             )
 
-            context = await processor.process(context)
+            step = {"processor": processor.name, "status": "completed"}
+            steps.append(step)
+            started_at = time.perf_counter()
+            try:
+                context = await processor.process(context)
+            except Exception:
+                step["status"] = "failed"
+                raise
+            finally:
+                step["duration_ms"] = round(
+                    (time.perf_counter() - started_at) * 1000, 1
+                )
 
             if context.metadata.get("stop_pipeline", False):
                 logger.debug(f"Pipeline stopped by {processor.name}")
+                step["stopped_pipeline"] = True
                 break
 
         logger.debug("Pipeline processing completed successfully")
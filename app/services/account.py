@@ -11,7 +11,9 @@ import uuid
 from app.core.config import settings
 from app.core.exceptions import NoAccountsAvailableError
 from app.core.account import Account, AccountStatus, AuthType, OAuthToken
+from app.services.events import event_broadcaster
 from app.services.oauth import oauth_authenticator
+from app.services.pool import pool_manager
 
 
 class AccountManager:
@@ -85,6 +87,27 @@ class AccountManager:
                     del self._cookie_to_uuid[existing_account.cookie_value]
                 existing_account.cookie_value = cookie_value
                 self._cookie_to_uuid[cookie_value] = organization_uuid
+                self.notify_account_updated(existing_account)
+
+            # Re-authorizing an existing account replaces its OAuth credentials
+            if oauth_token:
+                existing_account.oauth_token = oauth_token
+                existing_account.auth_type = (
+                    AuthType.BOTH
+                    if existing_account.cookie_value
+                    else AuthType.OAUTH_ONLY
+                )
+                if capabilities:
+                    existing_account.capabilities = capabilities
+                if existing_account.status == AccountStatus.INVALID:
+                    existing_account.set_status(
+                        AccountStatus.VALID, "oauth_reauthorized"
+                    )
+                self.save_accounts()
+                self.notify_account_updated(existing_account)
+                logger.info(
+                    f"Re-authorized account with OAuth: {organization_uuid[:8]}..."
+                )
             return existing_account
 
         if not organization_uuid:
@@ -112,6 +135,8 @@ class AccountManager:
         if cookie_value:
             self._cookie_to_uuid[cookie_value] = organization_uuid
 
+        self.notify_account_updated(account)
+
         logger.info(
             f"Added new account: {organization_uuid[:8]}... "
             f"(auth_type: {auth_type.value}, "
@@ -144,14 +169,21 @@ class AccountManager:
             if organization_uuid in self._account_sessions:
                 del self._account_sessions[organization_uuid]
 
+            pool_manager.remove_account(organization_uuid)
+
             logger.info(f"Removed account: {organization_uuid[:8]}...")
             self.save_accounts()
 
+            event_broadcaster.publish(
+                "account_removed", {"organization_uuid": organization_uuid}
+            )
+
     async def get_account_for_session(
         self,
         session_id: str,
         is_pro: Optional[bool] = None,
         is_max: Optional[bool] = None,
+        api_key: Optional[str] = None,
     ) -> Account:
         """
         Get an available account for the session with load balancing.
@@ -160,6 +192,7 @@ class AccountManager:
             session_id: Unique identifier for the session
             is_pro: Filter by pro capability. None means any.
             is_max: Filter by max capability. None means any.
+            api_key: Restrict to the account pools of this API key. None means any.
 
         Returns:
             Account instance if available
@@ -187,6 +220,9 @@ class AccountManager:
             if account.auth_type not in [AuthType.BOTH, AuthType.COOKIE_ONLY]:
                 continue
 
+            if not pool_manager.is_account_allowed(api_key, organization_uuid):
+                continue
+
             # Filter by capabilities if specified
             if is_pro is not None and account.is_pro != is_pro:
                 continue
@@ -213,6 +249,7 @@ class AccountManager:
         if best_account:
             self._session_accounts[session_id] = best_account.organization_uuid
             self._account_sessions[best_account.organization_uuid].add(session_id)
+            event_broadcaster.publish("sessions_changed")
 
             logger.debug(
                 f"Assigned account to session {session_id}, "
@@ -227,6 +264,7 @@ class AccountManager:
         self,
         is_pro: Optional[bool] = None,
         is_max: Optional[bool] = None,
+        api_key: Optional[str] = None,
     ) -> Account:
         """
         Get an available account for OAuth authentication.
@@ -234,6 +272,7 @@ class AccountManager:
         Args:
             is_pro: Filter by pro capability. None means any.
             is_max: Filter by max capability. None means any.
+            api_key: Restrict to the account pools of this API key. None means any.
 
         Returns:
             Account instance if available
@@ -248,6 +287,9 @@ class AccountManager:
             if account.auth_type not in [AuthType.OAUTH_ONLY, AuthType.BOTH]:
                 continue
 
+            if not pool_manager.is_account_allowed(api_key, account.organization_uuid):
+                continue
+
             # Filter by capabilities if specified
             if is_pro is not None and account.is_pro != is_pro:
                 continue
@@ -267,17 +309,24 @@ class AccountManager:
 
         raise NoAccountsAvailableError()
 
-    async def get_account_by_id(self, account_id: str) -> Optional[Account]:
+    async def get_account_by_id(
+        self, account_id: str, api_key: Optional[str] = None
+    ) -> Optional[Account]:
         """
         Get an account by its organization UUID.
 
         Args:
             account_id: The organization UUID of the account
+            api_key: Restrict to the account pools of this API key. None means any.
 
         Returns:
-            Account instance if found and valid, None otherwise
+            Account instance if found, valid and allowed for the API key, None otherwise
         """
         account = self._accounts.get(account_id)
+
+        if account and not pool_manager.is_account_allowed(api_key, account_id):
+            logger.debug(f"Account {account_id[:8]}... is not in the API key's pools")
+            return None
         
         if account and account.status == AccountStatus.VALID:
             logger.debug(f"Retrieved account by ID: {account_id[:8]}...")
@@ -301,8 +350,13 @@ class AccountManager:
             if organization_uuid in self._account_sessions:
                 self._account_sessions[organization_uuid].discard(session_id)
 
+            event_broadcaster.publish("sessions_changed")
             logger.debug(f"Released account for session {session_id}")
 
+    def get_account_sessions(self, organization_uuid: str) -> List[str]:
+        """Get the IDs of the sessions currently pinned to an account."""
+        return sorted(self._account_sessions.get(organization_uuid, set()))
+
     async def start_task(self) -> None:
         """Start the background task for AccountManager."""
         if self._account_task is None or self._account_task.done():
@@ -341,8 +395,9 @@ class AccountManager:
                 and account.resets_at
                 and current_time >= account.resets_at
             ):
-                account.status = AccountStatus.VALID
+                account.set_status(AccountStatus.VALID, "rate_limit_reset")
                 account.resets_at = None
+                self.notify_account_updated(account)
                 logger.info(
                     f"Recovered rate-limited account: {account.organization_uuid[:8]}..."
                 )
@@ -380,11 +435,12 @@ class AccountManager:
                 account.auth_type = AuthType.COOKIE_ONLY
                 account.oauth_token = None
             else:
-                account.status = AccountStatus.INVALID
+                account.set_status(AccountStatus.INVALID, "oauth_refresh_failed")
                 logger.error(
                     f"Account {account.organization_uuid[:8]} is now invalid due to OAuth refresh failure"
                 )
             self.save_accounts()
+            self.notify_account_updated(account)
 
     async def _attempt_oauth_authentication(self, account: Account) -> None:
         """Attempt OAuth authentication for an account."""
@@ -403,6 +459,68 @@ class AccountManager:
                 f"OAuth authentication successful for account: {account.organization_uuid[:8]}..."
             )
 
+    def import_account(self, account: Account, overwrite: bool = False) -> str:
+        """Import an account from an exported bundle.
+
+        The caller is responsible for saving accounts once the import is complete.
+
+        Args:
+            account: The account to import
+            overwrite: Replace the credentials of an existing account with the same UUID
+
+        Returns:
+            "created", "overwritten", "skipped", or "cookie_conflict" when the
+            cookie already belongs to another account
+        """
+        organization_uuid = account.organization_uuid
+        existing_account = self._accounts.get(organization_uuid)
+
+        if existing_account and not overwrite:
+            return "skipped"
+
+        # Taking over the mapping would leave two accounts sharing one cookie
+        cookie_owner = self._cookie_to_uuid.get(account.cookie_value)
+        if account.cookie_value and cookie_owner not in (None, organization_uuid):
+            logger.warning(
+                f"Skipped importing account {organization_uuid[:8]}...: "
+                f"its cookie belongs to {cookie_owner[:8]}..."
+            )
+            return "cookie_conflict"
+
+        if existing_account:
+            if existing_account.cookie_value:
+                self._cookie_to_uuid.pop(existing_account.cookie_value, None)
+
+            existing_account.cookie_value = account.cookie_value
+            existing_account.oauth_token = account.oauth_token
+            existing_account.capabilities = account.capabilities
+            existing_account.auth_type = account.auth_type
+            existing_account.resets_at = account.resets_at
+            existing_account.labels = account.labels
+            existing_account.notes = account.notes
+            if existing_account.status != account.status:
+                existing_account.set_status(account.status, "imported")
+            target = existing_account
+            result = "overwritten"
+        else:
+            self._accounts[organization_uuid] = account
+            target = account
+            result = "created"
+
+        if target.cookie_value:
+            self._cookie_to_uuid[target.cookie_value] = organization_uuid
+
+        self.notify_account_updated(target)
+        logger.info(f"Imported account {organization_uuid[:8]}... ({result})")
+
+        return result
+
+    def notify_account_updated(self, account: Account) -> None:
+        """Notify live subscribers that an account changed."""
+        event_broadcaster.publish(
+            "account_updated", {"organization_uuid": account.organization_uuid}
+        )
+
     async def get_status(self) -> Dict:
         """Get the current status of all accounts."""
         status = {
@@ -0,0 +1,258 @@
+import codecs
+import time
+from dataclasses import dataclass, field
+from datetime import datetime, timedelta, UTC
+from typing import AsyncIterator, Awaitable, List, Literal, Optional
+
+from loguru import logger
+
+from app.core.account import Account, AccountStatus, AuthType
+from app.core.config import settings
+from app.core.exceptions import (
+    ClaudeHttpError,
+    ClaudeRateLimitedError,
+    ClaudeStreamingError,
+    NoTestablePathError,
+    OAuthAuthenticationNotAllowedError,
+    OAuthRefreshError,
+)
+from app.core.external.claude_client import ClaudeWebClient
+from app.core.http_client import Response, create_session
+from app.models.internal import Attachment, ClaudeWebRequest
+from app.models.streaming import ErrorEvent, MessageStopEvent
+from app.services.event_processing.event_parser import EventParser
+from app.services.oauth import (
+    CLAUDE_CODE_SYSTEM_MESSAGE,
+    oauth_authenticator,
+    prepare_oauth_headers,
+)
+
+TEST_PROMPT = "Reply with OK."
+TEST_MAX_TOKENS = 1
+# Available on every plan, so a Pro account does not fail the test on the model
+TEST_OAUTH_MODEL = "claude-sonnet-4-20250514"
+
+TestPath = Literal["web", "oauth"]
+
+
+@dataclass
+class PathTestResult:
+    """The outcome of a test request sent through one path."""
+
+    path: TestPath
+    latency_ms: int
+    error: Optional[Exception] = None
+
+    @property
+    def success(self) -> bool:
+        return self.error is None
+
+
+@dataclass
+class AccountTestResult:
+    """The outcome of testing an account on every path it can use."""
+
+    organization_uuid: str
+    tested_at: datetime
+    # Capabilities reported by Claude.ai, None when they could not be read
+    capabilities: Optional[List[str]] = None
+    results: List[PathTestResult] = field(default_factory=list)
+
+    @property
+    def success(self) -> bool:
+        return all(result.success for result in self.results)
+
+
+async def _decode_stream(response: Response) -> AsyncIterator[str]:
+    """Decode a response body without splitting multi-byte characters."""
+    decoder = codecs.getincrementaldecoder("utf-8")(errors="replace")
+    async for chunk in response.aiter_bytes():
+        yield decoder.decode(chunk)
+    yield decoder.decode(b"", final=True)
+
+
+class AccountTester:
+    """Sends minimal real requests through an account to check that it works."""
+
+    def __init__(self):
+        self.messages_api_url = (
+            settings.claude_api_baseurl.encoded_string().rstrip("/") + "/v1/messages"
+        )
+
+    async def test_account(self, account: Account) -> AccountTestResult:
+        """
+        Test an account on the web path and, when it has an OAuth token, the OAuth path.
+
+        Errors that mark an account rate limited or invalid during normal requests
+        do so here as well. When every tested path succeeds, the account is marked
+        valid again.
+
+        Args:
+            account: The account to test
+
+        Returns:
+            The detected capabilities and the result of each path
+
+        Raises:
+            NoTestablePathError: If the auth type allows neither the cookie nor the
+                OAuth token the account has
+        """
+        test_web = account.cookie_value and account.auth_type != AuthType.OAUTH_ONLY
+        test_oauth = account.oauth_token and account.auth_type != AuthType.COOKIE_ONLY
+        if not test_web and not test_oauth:
+            raise NoTestablePathError()
+
+        result = AccountTestResult(
+            organization_uuid=account.organization_uuid, tested_at=datetime.now()
+        )
+
+        if test_web:
+            result.capabilities = await self._detect_capabilities(account)
+            result.results.append(await self._run("web", self._test_web(account)))
+
+        if test_oauth:
+            result.results.append(await self._run("oauth", self._test_oauth(account)))
+
+        if result.success:
+            account.set_status(AccountStatus.VALID, "account_test")
+            account.resets_at = None
+
+        # Saved even on failure so detected capabilities are kept
+        account.save()
+
+        logger.info(
+            f"Tested account {account.organization_uuid[:8]}...: "
+            + ", ".join(
+                f"{item.path}={'ok' if item.success else type(item.error).__name__}"
+                for item in result.results
+            )
+        )
+        return result
+
+    async def _run(self, path: TestPath, test: Awaitable[None]) -> PathTestResult:
+        """Await a path test, timing it and capturing its error."""
+        started = time.perf_counter()
+        error = None
+        try:
+            await test
+        except Exception as e:
+            logger.warning(f"Account test failed on the {path} path: {e}")
+            error = e
+
+        return PathTestResult(
+            path=path,
+            latency_ms=round((time.perf_counter() - started) * 1000),
+            error=error,
+        )
+
+    async def _detect_capabilities(self, account: Account) -> Optional[List[str]]:
+        """Read the account's capabilities from Claude.ai and store them when found."""
+        try:
+            organization_uuid, capabilities = (
+                await oauth_authenticator.get_organization_info(account.cookie_value)
+            )
+        except Exception as e:
+            logger.warning(f"Failed to read capabilities during account test: {e}")
+            return None
+
+        # The cookie may belong to several organizations; only trust this one's
+        if organization_uuid != account.organization_uuid:
+            return None
+
+        account.capabilities = capabilities
+        return capabilities
+
+    async def _test_web(self, account: Account) -> None:
+        """Send a short message in a temporary Claude.ai conversation."""
+        client = ClaudeWebClient(account, record_activity=False)
+        await client.initialize()
+        conv_uuid = None
+
+        try:
+            conv_uuid, _ = await client.create_conversation()
+            request = ClaudeWebRequest(
+                max_tokens_to_sample=TEST_MAX_TOKENS,
+                attachments=[Attachment.from_text(TEST_PROMPT)],
+                timezone="UTC",
+            )
+            response = await client.send_message(
+                request.model_dump(exclude_none=True), conv_uuid
+            )
+
+            async for event in EventParser().parse_stream(_decode_stream(response)):
+                if isinstance(event.root, ErrorEvent):
+                    raise ClaudeStreamingError(
+                        error_type=event.root.error.type,
+                        error_message=event.root.error.message,
+                    )
+                if isinstance(event.root, MessageStopEvent):
+                    break
+        finally:
+            # Removed regardless of preserve_chats; it only exists for the test
+            await client.delete_conversation(conv_uuid)
+            await client.cleanup()
+
+    async def _test_oauth(self, account: Account) -> None:
+        """Send a one-token request to the Messages API with the account's OAuth token."""
+        if account.oauth_token.expires_at - time.time() < 300:
+            if not await oauth_authenticator.refresh_account_token(account):
+                raise OAuthRefreshError("Refresh token was rejected")
+
+        payload = {
+            "model": TEST_OAUTH_MODEL,
+            "max_tokens": TEST_MAX_TOKENS,
+            "system": [{"type": "text", "text": CLAUDE_CODE_SYSTEM_MESSAGE}],
+            "messages": [{"role": "user", "content": TEST_PROMPT}],
+        }
+
+        session = create_session(
+            proxy=settings.proxy_url,
+            timeout=settings.request_timeout,
+            impersonate="chrome",
+            follow_redirects=False,
+        )
+
+        async with session:
+            with account.untracked():
+                response = await session.request(
+                    "POST",
+                    self.messages_api_url,
+                    json=payload,
+                    headers=prepare_oauth_headers(account.oauth_token.access_token),
+                )
+
+                if response.status_code == 429:
+                    resets_at = response.headers.get(
+                        "anthropic-ratelimit-unified-reset"
+                    )
+                    next_hour = datetime.now(UTC).replace(
+                        minute=0, second=0, microsecond=0
+                    ) + timedelta(hours=1)
+                    raise ClaudeRateLimitedError(
+                        resets_at=datetime.fromtimestamp(int(resets_at), tz=UTC)
+                        if resets_at and resets_at.isdigit()
+                        else next_hour
+                    )
+
+                if response.status_code >= 400:
+                    try:
+                        error = (await response.json()).get("error", {})
+                    except Exception:
+                        error = {}
+
+                    if (
+                        response.status_code == 401
+                        and error.get("message")
+                        == "OAuth authentication is currently not allowed for this organization."
+                    ):
+                        raise OAuthAuthenticationNotAllowedError()
+
+                    raise ClaudeHttpError(
+                        url=self.messages_api_url,
+                        status_code=response.status_code,
+                        error_type=error.get("type", "unknown"),
+                        error_message=error.get("message", "Unknown error"),
+                    )
+
+
+account_tester = AccountTester()
@@ -0,0 +1,297 @@
+import json
+import threading
+import uuid
+from collections import deque
+from datetime import datetime, timedelta, UTC
+from typing import Deque, Dict, List, Optional
+
+from loguru import logger
+
+from app.core.api_key import ApiKey
+from app.core.config import settings
+from app.core.exceptions import (
+    APIKeyDisabledError,
+    APIKeyExpiredError,
+    APIKeyModelNotAllowedError,
+    APIKeyRateLimitedError,
+    APIKeyTokenQuotaExceededError,
+    AppError,
+)
+from app.services.i18n import i18n_service
+
+
+class ApiKeyManager:
+    """
+    Singleton manager for API key metadata.
+
+    The keys themselves stay in settings.api_keys; this manager keeps the name,
+    timestamps, expiry and enabled flag of each configured key.
+    """
+
+    _instance: Optional["ApiKeyManager"] = None
+    _lock = threading.Lock()
+
+    # Persisting usage on every request would rewrite the file constantly
+    _usage_save_interval = timedelta(minutes=1)
+    _rate_limit_window = timedelta(minutes=1)
+
+    def __new__(cls):
+        """Implement singleton pattern."""
+        if cls._instance is None:
+            with cls._lock:
+                if cls._instance is None:
+                    cls._instance = super().__new__(cls)
+        return cls._instance
+
+    def __init__(self):
+        """Initialize the ApiKeyManager."""
+        self._keys: Dict[str, ApiKey] = {}  # key -> ApiKey
+        # Start times of the requests in the current rate limit window, per key
+        self._request_times: Dict[str, Deque[datetime]] = {}
+        self._last_usage_save: Optional[datetime] = None
+
+        logger.info("ApiKeyManager initialized")
+
+    def sync(self) -> None:
+        """Create metadata for keys new to settings and drop it for removed keys."""
+        changed = False
+
+        for key in settings.api_keys:
+            if key not in self._keys:
+                self._keys[key] = ApiKey(key_id=uuid.uuid4().hex, key=key)
+                changed = True
+
+        for key in list(self._keys):
+            if key not in settings.api_keys:
+                del self._keys[key]
+                self._request_times.pop(key, None)
+                changed = True
+
+        if changed:
+            self.save_keys()
+
+    def list_keys(self) -> List[ApiKey]:
+        """Get the metadata of every configured key in settings order."""
+        self.sync()
+        return [self._keys[key] for key in settings.api_keys]
+
+    def get(self, key: str) -> Optional[ApiKey]:
+        """Get the metadata of a key."""
+        return self._keys.get(key)
+
+    def get_by_id(self, key_id: str) -> Optional[ApiKey]:
+        """Get the metadata of a key by its ID."""
+        for api_key in self._keys.values():
+            if api_key.key_id == key_id:
+                return api_key
+        return None
+
+    def add(
+        self,
+        key: str,
+        name: Optional[str] = None,
+        expires_at: Optional[datetime] = None,
+        rate_limit_rpm: Optional[int] = None,
+        daily_token_limit: Optional[int] = None,
+        allowed_models: Optional[List[str]] = None,
+    ) -> ApiKey:
+        """Record metadata for a key that was just added to settings.api_keys.
+
+        Args:
+            key: The API key
+            name: Optional display name
+            expires_at: Optional expiry time
+            rate_limit_rpm: Optional requests per minute limit
+            daily_token_limit: Optional tokens per UTC day limit
+            allowed_models: Models the key may use; empty allows all
+
+        Returns:
+            The key metadata
+        """
+        api_key = ApiKey(
+            key_id=uuid.uuid4().hex,
+            key=key,
+            name=name,
+            expires_at=expires_at,
+            rate_limit_rpm=rate_limit_rpm,
+            daily_token_limit=daily_token_limit,
+            allowed_models=allowed_models,
+        )
+        self._keys[key] = api_key
+        self.save_keys()
+
+        logger.info(f"Added API key: {api_key.name or key[:8] + '...'}")
+        return api_key
+
+    def verify(self, key: str) -> None:
+        """
+        Check that a key may be used and record the usage.
+
+        Args:
+            key: The API key of the request
+
+        Raises:
+            APIKeyDisabledError: If the key is disabled
+            APIKeyExpiredError: If the key is past its expiry date
+        """
+        api_key = self._keys.get(key)
+        if not api_key:
+            return
+
+        if not api_key.enabled:
+            raise APIKeyDisabledError()
+        if api_key.is_expired:
+            raise APIKeyExpiredError(api_key.expires_at)
+
+        api_key.last_used_at = datetime.now(UTC)
+        self._save_usage()
+
+    def requests_in_window(self, key: str) -> int:
+        """Get the number of requests a key made in the last minute."""
+        return len(self._prune_request_times(key, datetime.now(UTC)))
+
+    def check_quota(self, key: str, model: str) -> None:
+        """
+        Check a request against the key's quotas and count it towards the rate limit.
+
+        Args:
+            key: The API key of the request
+            model: The requested model
+
+        Raises:
+            APIKeyModelNotAllowedError: If the key may not use the model
+            APIKeyTokenQuotaExceededError: If the key used up today's tokens
+            APIKeyRateLimitedError: If the key reached its requests per minute
+        """
+        api_key = self._keys.get(key)
+        if not api_key:
+            return
+
+        now = datetime.now(UTC)
+        request_times = self._prune_request_times(key, now)
+
+        try:
+            if not api_key.is_model_allowed(model):
+                raise APIKeyModelNotAllowedError(model)
+
+            if (
+                api_key.daily_token_limit is not None
+                and api_key.tokens_used_on(now.date()) >= api_key.daily_token_limit
+            ):
+                tomorrow = now.date() + timedelta(days=1)
+                raise APIKeyTokenQuotaExceededError(
+                    api_key.daily_token_limit,
+                    datetime(tomorrow.year, tomorrow.month, tomorrow.day, tzinfo=UTC),
+                )
+
+            if (
+                api_key.rate_limit_rpm is not None
+                and len(request_times) >= api_key.rate_limit_rpm
+            ):
+                raise APIKeyRateLimitedError(
+                    api_key.rate_limit_rpm, request_times[0] + self._rate_limit_window
+                )
+
+        except AppError as e:
+            api_key.last_rejection = {
+                "code": e.error_code,
+                "message": i18n_service.get_message(e.message_key, context=e.context),
+                "at": now.isoformat(),
+            }
+            self._save_usage()
+            raise
+
+        request_times.append(now)
+
+    def record_tokens(self, key: str, tokens: int) -> None:
+        """
+        Add the tokens of a finished request to the key's daily consumption.
+
+        Args:
+            key: The API key of the request
+            tokens: Input and output tokens of the request
+        """
+        api_key = self._keys.get(key)
+        if not api_key:
+            return
+
+        today = datetime.now(UTC).date()
+        api_key.tokens_today = api_key.tokens_used_on(today) + tokens
+        api_key.usage_date = today
+
+        self._save_usage()
+
+    def reset_usage(self, key: str) -> None:
+        """Clear the key's consumption and last rejection."""
+        api_key = self._keys.get(key)
+        if not api_key:
+            return
+
+        api_key.tokens_today = 0
+        api_key.usage_date = None
+        api_key.last_rejection = None
+        self._request_times.pop(key, None)
+
+        self.save_keys()
+
+    def _prune_request_times(self, key: str, now: datetime) -> Deque[datetime]:
+        """Drop request times that fell out of the rate limit window."""
+        request_times = self._request_times.setdefault(key, deque())
+        while request_times and now - request_times[0] >= self._rate_limit_window:
+            request_times.popleft()
+        return request_times
+
+    def _save_usage(self) -> None:
+        """Save usage changes at most once per save interval."""
+        now = datetime.now(UTC)
+        if (
+            self._last_usage_save is None
+            or now - self._last_usage_save >= self._usage_save_interval
+        ):
+            self._last_usage_save = now
+            self.save_keys()
+
+    def save_keys(self) -> None:
+        """Save all key metadata to JSON file."""
+        if settings.no_filesystem_mode:
+            logger.debug("No-filesystem mode enabled, skipping API key save to disk")
+            return
+
+        settings.data_folder.mkdir(parents=True, exist_ok=True)
+
+        keys_file = settings.data_folder / "api_keys.json"
+
+        keys_data = [api_key.to_dict() for api_key in self._keys.values()]
+
+        with open(keys_file, "w", encoding="utf-8") as f:
+            json.dump(keys_data, f, indent=2)
+
+        logger.debug(f"Saved {len(keys_data)} API keys to {keys_file}")
+
+    def load_keys(self) -> None:
+        """Load key metadata from JSON file and sync it with settings."""
+        if not settings.no_filesystem_mode:
+            keys_file = settings.data_folder / "api_keys.json"
+
+            if keys_file.exists():
+                try:
+                    with open(keys_file, "r", encoding="utf-8") as f:
+                        keys_data = json.load(f)
+
+                    for key_data in keys_data:
+                        api_key = ApiKey.from_dict(key_data)
+                        self._keys[api_key.key] = api_key
+
+                    logger.info(f"Loaded {len(keys_data)} API keys from {keys_file}")
+
+                except Exception as e:
+                    logger.error(f"Failed to load API keys from {keys_file}: {e}")
+
+        self.sync()
+
+    def __repr__(self) -> str:
+        """String representation of the ApiKeyManager."""
+        return f"<ApiKeyManager keys={len(self._keys)}>"
+
+
+api_key_manager = ApiKeyManager()
@@ -0,0 +1,84 @@
+import asyncio
+import threading
+from contextlib import asynccontextmanager
+from dataclasses import dataclass, field
+from typing import Any, AsyncIterator, Dict, Optional, Set
+
+from loguru import logger
+
+
+@dataclass
+class BroadcastEvent:
+    """An internal change notification delivered to every subscriber."""
+
+    type: str
+    data: Dict[str, Any] = field(default_factory=dict)
+
+
+class EventBroadcaster:
+    """
+    Singleton fan-out of account and session changes to live subscribers
+    (e.g. the admin panel's server-sent events stream).
+    """
+
+    _instance: Optional["EventBroadcaster"] = None
+    _lock = threading.Lock()
+
+    def __new__(cls):
+        """Implement singleton pattern."""
+        if cls._instance is None:
+            with cls._lock:
+                if cls._instance is None:
+                    cls._instance = super().__new__(cls)
+        return cls._instance
+
+    def __init__(self):
+        """Initialize the EventBroadcaster."""
+        self._subscribers: Set[asyncio.Queue[BroadcastEvent]] = set()
+        self._max_queue_size = 1000
+
+        logger.info("EventBroadcaster initialized")
+
+    def publish(self, event_type: str, data: Optional[Dict[str, Any]] = None) -> None:
+        """
+        Publish an event to all current subscribers.
+
+        Slow subscribers whose queue is full miss the event instead of blocking
+        the publisher.
+
+        Args:
+            event_type: Event name, e.g. "account_updated"
+            data: Event payload
+        """
+        if not self._subscribers:
+            return
+
+        event = BroadcastEvent(type=event_type, data=data or {})
+
+        for queue in list(self._subscribers):
+            try:
+                queue.put_nowait(event)
+            except asyncio.QueueFull:
+                logger.warning(f"Dropping {event_type} event for a slow subscriber")
+
+    @asynccontextmanager
+    async def subscribe(self) -> AsyncIterator[asyncio.Queue[BroadcastEvent]]:
+        """Subscribe to events for the lifetime of the context."""
+        queue: asyncio.Queue[BroadcastEvent] = asyncio.Queue(
+            maxsize=self._max_queue_size
+        )
+        self._subscribers.add(queue)
+        logger.debug(f"Event subscriber added, total: {len(self._subscribers)}")
+
+        try:
+            yield queue
+        finally:
+            self._subscribers.discard(queue)
+            logger.debug(f"Event subscriber removed, total: {len(self._subscribers)}")
+
+    def __repr__(self) -> str:
+        """String representation of the EventBroadcaster."""
+        return f"<EventBroadcaster subscribers={len(self._subscribers)}>"
+
+
+event_broadcaster = EventBroadcaster()
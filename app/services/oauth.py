@@ -21,9 +21,36 @@ from app.core.exceptions import (
 )
 
 
+OAUTH_SCOPE = "user:profile user:inference"
+
+# The Messages API only accepts OAuth tokens for requests carrying this system message
+CLAUDE_CODE_SYSTEM_MESSAGE = "You are Claude Code, Anthropic's official CLI for Claude."
+
+
+def prepare_oauth_headers(access_token: str) -> Dict[str, str]:
+    """Prepare headers for a Messages API request authenticated with OAuth."""
+    return {
+        "Authorization": f"Bearer {access_token}",
+        "anthropic-beta": "oauth-2025-04-20",
+        "anthropic-version": "2023-06-01",
+        "Content-Type": "application/json",
+    }
+
+
 class OAuthAuthenticator:
     """OAuth authenticator for Claude accounts using cookies."""
 
+    def get_browser_authorize_url(self) -> str:
+        """
+        Get the URL of the interactive authorization page.
+
+        The configured oauth_authorize_url is the organization-scoped endpoint used
+        for cookie authorization; the page a user opens in the browser is served
+        at /oauth/authorize on the same host.
+        """
+        parsed_url = urlparse(settings.oauth_authorize_url)
+        return f"{parsed_url.scheme}://{parsed_url.netloc}/oauth/authorize"
+
     def _generate_pkce(self) -> Tuple[str, str]:
         """Generate PKCE verifier and challenge."""
         verifier = (
@@ -146,7 +173,7 @@ class OAuthAuthenticator:
             "client_id": settings.oauth_client_id,
             "organization_uuid": organization_uuid,
             "redirect_uri": settings.oauth_redirect_uri,
-            "scope": "user:profile user:inference",
+            "scope": OAUTH_SCOPE,
             "state": state,
             "code_challenge": challenge,
             "code_challenge_method": "S256",
@@ -0,0 +1,190 @@
+import json
+import threading
+import uuid
+from typing import Dict, List, Optional
+
+from loguru import logger
+
+from app.core.config import settings
+from app.core.pool import AccountPool
+
+
+class PoolManager:
+    """
+    Singleton manager for account pools.
+
+    API keys bound to one or more pools only use the accounts in those pools.
+    Keys that are not bound to any pool share the accounts that are not in any pool.
+    """
+
+    _instance: Optional["PoolManager"] = None
+    _lock = threading.Lock()
+
+    def __new__(cls):
+        """Implement singleton pattern."""
+        if cls._instance is None:
+            with cls._lock:
+                if cls._instance is None:
+                    cls._instance = super().__new__(cls)
+        return cls._instance
+
+    def __init__(self):
+        """Initialize the PoolManager."""
+        self._pools: Dict[str, AccountPool] = {}  # pool_id -> AccountPool
+
+        logger.info("PoolManager initialized")
+
+    def list_pools(self) -> List[AccountPool]:
+        """Get all pools ordered by creation time."""
+        return sorted(self._pools.values(), key=lambda pool: pool.created_at)
+
+    def get_pool(self, pool_id: str) -> Optional[AccountPool]:
+        """Get a pool by its ID."""
+        return self._pools.get(pool_id)
+
+    def get_pool_by_name(self, name: str) -> Optional[AccountPool]:
+        """Get a pool by its name, ignoring case."""
+        for pool in self._pools.values():
+            if pool.name.lower() == name.lower():
+                return pool
+        return None
+
+    def create_pool(
+        self,
+        name: str,
+        description: Optional[str] = None,
+        organization_uuids: Optional[List[str]] = None,
+        api_keys: Optional[List[str]] = None,
+    ) -> AccountPool:
+        """Create a new pool and save it.
+
+        Args:
+            name: Unique display name of the pool
+            description: Optional description
+            organization_uuids: Accounts in the pool
+            api_keys: API keys bound to the pool
+
+        Returns:
+            The created pool
+        """
+        pool = AccountPool(
+            pool_id=uuid.uuid4().hex,
+            name=name,
+            description=description,
+            organization_uuids=organization_uuids,
+            api_keys=api_keys,
+        )
+        self._pools[pool.pool_id] = pool
+        self.save_pools()
+
+        logger.info(f"Created account pool: {pool.name}")
+        return pool
+
+    def delete_pool(self, pool_id: str) -> None:
+        """Delete a pool, returning its accounts to the shared pool."""
+        pool = self._pools.pop(pool_id, None)
+        if pool:
+            self.save_pools()
+            logger.info(f"Deleted account pool: {pool.name}")
+
+    def remove_account(self, organization_uuid: str) -> None:
+        """Remove an account from every pool it belongs to."""
+        changed = False
+        for pool in self._pools.values():
+            if organization_uuid in pool.organization_uuids:
+                pool.organization_uuids.remove(organization_uuid)
+                changed = True
+
+        if changed:
+            self.save_pools()
+
+    def remove_api_key(self, api_key: str) -> None:
+        """Unbind an API key from every pool it is bound to."""
+        changed = False
+        for pool in self._pools.values():
+            if api_key in pool.api_keys:
+                pool.api_keys.remove(api_key)
+                changed = True
+
+        if changed:
+            self.save_pools()
+
+    def get_account_pools(self, organization_uuid: str) -> List[AccountPool]:
+        """Get the pools that contain an account."""
+        return [
+            pool
+            for pool in self.list_pools()
+            if organization_uuid in pool.organization_uuids
+        ]
+
+    def is_account_allowed(
+        self, api_key: Optional[str], organization_uuid: str
+    ) -> bool:
+        """
+        Check whether requests made with an API key may use an account.
+
+        Args:
+            api_key: The API key of the request. None skips the check.
+            organization_uuid: The organization UUID of the account
+
+        Returns:
+            True if the account is in one of the key's pools, or if the key is
+            not bound to any pool and the account is not in any pool
+        """
+        if api_key is None:
+            return True
+
+        bound_pools = [
+            pool for pool in self._pools.values() if api_key in pool.api_keys
+        ]
+        pools = bound_pools if bound_pools else self._pools.values()
+        in_pool = any(organization_uuid in pool.organization_uuids for pool in pools)
+
+        return in_pool if bound_pools else not in_pool
+
+    def save_pools(self) -> None:
+        """Save all pools to JSON file."""
+        if settings.no_filesystem_mode:
+            logger.debug("No-filesystem mode enabled, skipping pool save to disk")
+            return
+
+        settings.data_folder.mkdir(parents=True, exist_ok=True)
+
+        pools_file = settings.data_folder / "pools.json"
+
+        pools_data = {pool_id: pool.to_dict() for pool_id, pool in self._pools.items()}
+
+        with open(pools_file, "w", encoding="utf-8") as f:
+            json.dump(pools_data, f, indent=2)
+
+        logger.info(f"Saved {len(pools_data)} account pools to {pools_file}")
+
+    def load_pools(self) -> None:
+        """Load pools from JSON file."""
+        if settings.no_filesystem_mode:
+            logger.debug("No-filesystem mode enabled, skipping pool load from disk")
+            return
+
+        pools_file = settings.data_folder / "pools.json"
+
+        if not pools_file.exists():
+            return
+
+        try:
+            with open(pools_file, "r", encoding="utf-8") as f:
+                pools_data = json.load(f)
+
+            for pool_id, pool_data in pools_data.items():
+                self._pools[pool_id] = AccountPool.from_dict(pool_data)
+
+            logger.info(f"Loaded {len(pools_data)} account pools from {pools_file}")
+
+        except Exception as e:
+            logger.error(f"Failed to load account pools from {pools_file}: {e}")
+
+    def __repr__(self) -> str:
+        """String representation of the PoolManager."""
+        return f"<PoolManager pools={len(self._pools)}>"
+
+
+pool_manager = PoolManager()
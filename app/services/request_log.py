@@ -0,0 +1,156 @@
+import json
+import threading
+from collections import OrderedDict, deque
+from datetime import datetime, timedelta, UTC
+from typing import Deque, Dict, List, Optional
+
+from loguru import logger
+
+from app.core.config import settings
+from app.core.request_record import RequestDetail, RequestRecord
+
+
+class RequestLogManager:
+    """
+    Singleton store of recent request records.
+
+    Records are appended to a JSON Lines file as they arrive and the file is
+    compacted to the retention window from time to time. Request and response
+    payloads are only kept in memory for the most recent requests.
+    """
+
+    _instance: Optional["RequestLogManager"] = None
+    _lock = threading.Lock()
+
+    retention = timedelta(days=7)
+    _max_records = 200_000
+    _compact_interval = timedelta(hours=1)
+    _max_details = 500
+
+    def __new__(cls):
+        """Implement singleton pattern."""
+        if cls._instance is None:
+            with cls._lock:
+                if cls._instance is None:
+                    cls._instance = super().__new__(cls)
+        return cls._instance
+
+    def __init__(self):
+        """Initialize the RequestLogManager."""
+        self._records: Deque[RequestRecord] = deque(maxlen=self._max_records)
+        self._details: Dict[str, RequestDetail] = OrderedDict()
+        self._last_compacted = datetime.now(UTC)
+
+        logger.info("RequestLogManager initialized")
+
+    @property
+    def _log_file(self):
+        """Path of the JSON Lines request log."""
+        return settings.data_folder / "requests.jsonl"
+
+    def record(
+        self, record: RequestRecord, detail: Optional[RequestDetail] = None
+    ) -> None:
+        """
+        Store a finished request.
+
+        Args:
+            record: The request record
+            detail: The redacted payloads of the request
+        """
+        self._records.append(record)
+        self._prune()
+
+        if detail:
+            self._details[record.request_id] = detail
+            while len(self._details) > self._max_details:
+                self._details.popitem(last=False)
+
+        if settings.no_filesystem_mode:
+            return
+
+        try:
+            settings.data_folder.mkdir(parents=True, exist_ok=True)
+            with open(self._log_file, "a", encoding="utf-8") as f:
+                f.write(json.dumps(record.to_dict()) + "\n")
+        except Exception as e:
+            logger.error(f"Failed to append request record: {e}")
+
+        if datetime.now(UTC) - self._last_compacted >= self._compact_interval:
+            self.save_records()
+
+    def get_records(self, since: Optional[datetime] = None) -> List[RequestRecord]:
+        """
+        Get stored records in chronological order.
+
+        Args:
+            since: Only return records at or after this time
+
+        Returns:
+            The matching records
+        """
+        if since is None:
+            return list(self._records)
+        return [record for record in self._records if record.timestamp >= since]
+
+    def get_record(self, request_id: str) -> Optional[RequestRecord]:
+        """Get a stored record by its request ID."""
+        for record in reversed(self._records):
+            if record.request_id == request_id:
+                return record
+        return None
+
+    def get_detail(self, request_id: str) -> Optional[RequestDetail]:
+        """Get the payloads of a recent request, if they are still kept."""
+        return self._details.get(request_id)
+
+    def _prune(self) -> None:
+        """Drop records older than the retention window."""
+        cutoff = datetime.now(UTC) - self.retention
+        while self._records and self._records[0].timestamp < cutoff:
+            self._records.popleft()
+
+    def save_records(self) -> None:
+        """Rewrite the log file with the records inside the retention window."""
+        self._last_compacted = datetime.now(UTC)
+
+        if settings.no_filesystem_mode:
+            logger.debug("No-filesystem mode enabled, skipping request log save")
+            return
+
+        self._prune()
+        settings.data_folder.mkdir(parents=True, exist_ok=True)
+
+        with open(self._log_file, "w", encoding="utf-8") as f:
+            for record in self._records:
+                f.write(json.dumps(record.to_dict()) + "\n")
+
+        logger.debug(f"Saved {len(self._records)} request records to {self._log_file}")
+
+    def load_records(self) -> None:
+        """Load records from the log file."""
+        if settings.no_filesystem_mode:
+            logger.info("No-filesystem mode enabled, skipping request log load")
+            return
+
+        if not self._log_file.exists():
+            return
+
+        try:
+            with open(self._log_file, "r", encoding="utf-8") as f:
+                for line in f:
+                    if line.strip():
+                        self._records.append(RequestRecord.from_dict(json.loads(line)))
+
+            self._prune()
+            logger.info(f"Loaded {len(self._records)} request records")
+
+        except Exception as e:
+            logger.error(f"Failed to load request records from {self._log_file}: {e}")
+
+    def __repr__(self) -> str:
+        """String representation of the RequestLogManager."""
+        return f"<RequestLogManager records={len(self._records)}>"
+
+
+request_log_manager = RequestLogManager()
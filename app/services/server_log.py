@@ -0,0 +1,115 @@
+import asyncio
+import itertools
+import threading
+from collections import deque
+from contextlib import asynccontextmanager
+from dataclasses import dataclass
+from typing import AsyncIterator, Deque, List, Optional, Set, Tuple
+
+from loguru import logger
+
+from app.utils.redact import redact_text
+
+
+@dataclass
+class LogEntry:
+    """A single application log line, as shown in the admin panel."""
+
+    id: int
+    timestamp: str
+    level: str
+    name: str
+    function: str
+    line: int
+    message: str
+
+
+Subscriber = Tuple[asyncio.AbstractEventLoop, "asyncio.Queue[LogEntry]"]
+
+
+class ServerLogBuffer:
+    """
+    Singleton loguru sink that keeps the most recent log lines in memory and
+    fans new lines out to live subscribers (the admin panel's log tail).
+    """
+
+    _instance: Optional["ServerLogBuffer"] = None
+    _lock = threading.Lock()
+
+    _max_entries = 1000
+    _max_queue_size = 1000
+
+    def __new__(cls):
+        """Implement singleton pattern."""
+        if cls._instance is None:
+            with cls._lock:
+                if cls._instance is None:
+                    cls._instance = super().__new__(cls)
+        return cls._instance
+
+    def __init__(self):
+        """Initialize the ServerLogBuffer."""
+        self._entries: Deque[LogEntry] = deque(maxlen=self._max_entries)
+        self._subscribers: Set[Subscriber] = set()
+        self._ids = itertools.count(1)
+
+    def sink(self, message) -> None:
+        """
+        Loguru sink receiving every formatted log message.
+
+        Messages may arrive from any thread, so delivery to subscribers is
+        scheduled on each subscriber's event loop. Nothing may be logged here.
+
+        Args:
+            message: The loguru message, formatted text with its record
+        """
+        record = message.record
+        entry = LogEntry(
+            id=next(self._ids),
+            timestamp=record["time"].isoformat(),
+            level=record["level"].name,
+            name=record["name"] or "",
+            function=record["function"],
+            line=record["line"],
+            message=redact_text(str(message).rstrip("\n")),
+        )
+        self._entries.append(entry)
+
+        for loop, queue in list(self._subscribers):
+            loop.call_soon_threadsafe(self._deliver, queue, entry)
+
+    @staticmethod
+    def _deliver(queue: "asyncio.Queue[LogEntry]", entry: LogEntry) -> None:
+        """Queue an entry for a subscriber, dropping it if the subscriber lags."""
+        try:
+            queue.put_nowait(entry)
+        except asyncio.QueueFull:
+            pass
+
+    def get_entries(self) -> List[LogEntry]:
+        """Get the buffered entries in chronological order."""
+        return list(self._entries)
+
+    @asynccontextmanager
+    async def subscribe(self) -> AsyncIterator["asyncio.Queue[LogEntry]"]:
+        """Subscribe to new log entries for the lifetime of the context."""
+        queue: asyncio.Queue[LogEntry] = asyncio.Queue(maxsize=self._max_queue_size)
+        subscriber = (asyncio.get_running_loop(), queue)
+        self._subscribers.add(subscriber)
+        logger.debug(f"Log subscriber added, total: {len(self._subscribers)}")
+
+        try:
+            yield queue
+        finally:
+            self._subscribers.discard(subscriber)
+            logger.debug(f"Log subscriber removed, total: {len(self._subscribers)}")
+
+    def __repr__(self) -> str:
+        """String representation of the ServerLogBuffer."""
+        return (
+            f"<ServerLogBuffer entries={len(self._entries)} "
+            f"subscribers={len(self._subscribers)}>"
+        )
+
+
+server_log_buffer = ServerLogBuffer()
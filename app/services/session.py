@@ -37,12 +37,15 @@ class SessionManager:
             f"cleanup_interval={self._cleanup_interval}s"
         )
 
-    async def get_or_create_session(self, session_id: str) -> ClaudeWebSession:
+    async def get_or_create_session(
+        self, session_id: str, api_key: Optional[str] = None
+    ) -> ClaudeWebSession:
         """
         Get or create a new Claude session.
 
         Args:
             session_id: Unique identifier for the session
+            api_key: API key whose account pools the session may use
 
         Returns:
             Created ClaudeSession instance
@@ -51,7 +54,7 @@ class SessionManager:
             if session_id in self._sessions:
                 return self._sessions[session_id]
 
-            session = ClaudeWebSession(session_id)
+            session = ClaudeWebSession(session_id, api_key=api_key)
             await session.initialize()
             self._sessions[session_id] = session
 
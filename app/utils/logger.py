@@ -3,6 +3,7 @@ from pathlib import Path
 from loguru import logger
 
 from app.core.config import settings
+from app.services.server_log import server_log_buffer
 
 
 def configure_logger():
@@ -15,6 +16,13 @@ def configure_logger():
         colorize=True,
     )
 
+    # In-memory copy for the admin panel's live log tail
+    logger.add(
+        server_log_buffer.sink,
+        level=settings.log_level.upper(),
+        format="{message}",
+    )
+
     if settings.log_to_file:
         log_file = Path(settings.log_file_path)
         log_file.parent.mkdir(parents=True, exist_ok=True)
@@ -0,0 +1,58 @@
+import re
+from typing import Any
+
+# Keys whose values are never shown, matched case-insensitively as substrings
+SECRET_KEYS = ("api_key", "apikey", "authorization", "cookie", "token", "secret")
+SECRET_PATTERNS = [
+    re.compile(r"sk-ant-[A-Za-z0-9_\-]+"),
+    re.compile(r"sessionKey=[^;\s]+"),
+    re.compile(r"Bearer\s+[A-Za-z0-9._\-]+"),
+]
+
+MAX_STRING_LENGTH = 20_000
+REDACTED = "[REDACTED]"
+
+
+def redact_text(text: str) -> str:
+    """Mask credentials that appear inside free text."""
+    for pattern in SECRET_PATTERNS:
+        text = pattern.sub(REDACTED, text)
+    return text
+
+
+def redact(value: Any) -> Any:
+    """
+    Prepare a request or response payload for display.
+
+    Secrets are masked, base64 image data is replaced by its size and very long
+    strings are truncated.
+
+    Args:
+        value: A JSON-compatible value
+
+    Returns:
+        A redacted copy of the value
+    """
+    if isinstance(value, dict):
+        if value.get("type") == "base64" and isinstance(value.get("data"), str):
+            return {**value, "data": f"[base64, {len(value['data'])} characters]"}
+        return {
+            key: REDACTED
+            if any(secret in str(key).lower() for secret in SECRET_KEYS)
+            and not str(key).endswith("_tokens")
+            else redact(item)
+            for key, item in value.items()
+        }
+
+    if isinstance(value, list):
+        return [redact(item) for item in value]
+
+    if isinstance(value, str):
+        if len(value) > MAX_STRING_LENGTH:
+            value = (
+                value[:MAX_STRING_LENGTH]
+                + f"… [{len(value) - MAX_STRING_LENGTH} characters truncated]"
+            )
+        return redact_text(value)
+
+    return value
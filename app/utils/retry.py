@@ -13,15 +13,17 @@ def log_before_sleep(retry_state: RetryCallState) -> None:
     """Custom before_sleep callback that safely logs retry attempts."""
     attempt_number = retry_state.attempt_number
     exception = retry_state.outcome.exception() if retry_state.outcome else None
+    # Retry loops written with AsyncRetrying have no wrapped function
+    name = retry_state.fn.__name__ if retry_state.fn else "request"
 
     if exception:
         exception_type = type(exception).__name__
         logger.warning(
-            f"Retrying {retry_state.fn.__name__} after attempt {attempt_number} "
+            f"Retrying {name} after attempt {attempt_number} "
             f"due to {exception_type}: {str(exception)}"
         )
 
     else:
         logger.warning(
-            f"Retrying {retry_state.fn.__name__} after attempt {attempt_number}"
+            f"Retrying {name} after attempt {attempt_number}"
         )
@@ -0,0 +1,62 @@
+import json
+
+
+class UsageExtractor:
+    """
+    Reads token usage out of a raw Messages API response body while it is relayed.
+
+    Streaming bodies are scanned event by event; JSON bodies are buffered and
+    parsed once the response is complete.
+    """
+
+    def __init__(self, stream: bool):
+        self.stream = stream
+        self.input_tokens = 0
+        self.output_tokens = 0
+        self.error = False
+        self._buffer = b""
+
+    def feed(self, chunk: bytes) -> None:
+        """Consume the next chunk of the response body."""
+        self._buffer += chunk
+        if not self.stream:
+            return
+
+        *lines, self._buffer = self._buffer.split(b"\n")
+        for line in lines:
+            if line.startswith(b"data:"):
+                self._read_event(line[5:])
+
+    def finish(self) -> None:
+        """Process whatever remains once the body has been fully relayed."""
+        if self.stream:
+            if self._buffer.startswith(b"data:"):
+                self._read_event(self._buffer[5:])
+        elif self._buffer:
+            try:
+                self._read_usage(json.loads(self._buffer).get("usage"))
+            except ValueError:
+                pass
+        self._buffer = b""
+
+    def _read_event(self, data: bytes) -> None:
+        try:
+            event = json.loads(data)
+        except ValueError:
+            return
+
+        if event.get("type") == "message_start":
+            self._read_usage(event.get("message", {}).get("usage"))
+        elif event.get("type") == "message_delta":
+            self._read_usage(event.get("usage"))
+        elif event.get("type") == "error":
+            self.error = True
+
+    def _read_usage(self, usage: dict | None) -> None:
+        if not usage:
+            return
+        # message_delta carries cumulative counts, so later values replace earlier ones
+        if usage.get("input_tokens"):
+            self.input_tokens = usage["input_tokens"]
+        if usage.get("output_tokens"):
+            self.output_tokens = usage["output_tokens"]
@@ -0,0 +1,79 @@
+import type { ParseArgsConfig } from 'node:util'
+import type { AccountPlan, CloveClient } from '@clove/sdk'
+
+// OAuth 로 인증할 수 있는 요금제
+export type OAuthPlan = Exclude<AccountPlan, 'free'>
+
+export type CommandOptions = NonNullable<ParseArgsConfig['options']>
+
+export type OptionValues = Record<string, string | boolean | (string | boolean)[] | undefined>
+
+export interface CommandContext {
+    client: CloveClient
+    values: OptionValues
+    positionals: string[] // 명령 이름 뒤의 인자
+    json: boolean
+}
+
+export interface Command {
+    usage: string // 명령 이름 뒤에 오는 인자와 옵션
+    description: string
+    options?: CommandOptions
+    // 종료 코드를 돌려줄 수 있습니다 (기본값 0)
+    run: (context: CommandContext) => Promise<number | void>
+}
+
+// 잘못된 사용법. 사용법을 출력하고 종료 코드 2로 끝납니다
+export class UsageError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'UsageError'
+    }
+}
+
+/**
+ * Reads a string option
+ * @param values - The parsed option values
+ * @param name - The option name
+ * @returns The value, or undefined when not given
+ */
+export function getString(values: OptionValues, name: string): string | undefined {
+    const value = values[name]
+    return typeof value === 'string' ? value : undefined
+}
+
+/**
+ * Reads a string option that must be given
+ * @param values - The parsed option values
+ * @param name - The option name
+ * @returns The value
+ * @throws UsageError when the option is missing
+ */
+export function requireString(values: OptionValues, name: string): string {
+    const value = getString(values, name)
+    if (!value) throw new UsageError(`--${name} 옵션이 필요합니다`)
+    return value
+}
+
+/**
+ * Reads an option that may be given multiple times
+ * @param values - The parsed option values
+ * @param name - The option name
+ * @returns The string values
+ */
+export function getStrings(values: OptionValues, name: string): string[] {
+    const value = values[name]
+    return Array.isArray(value) ? value.filter(item => typeof item === 'string') : []
+}
+
+/**
+ * Reads the --plan option
+ * @param values - The parsed option values
+ * @returns The account plan, Pro when not given
+ * @throws UsageError when the value is neither pro nor max
+ */
+export function getPlan(values: OptionValues): OAuthPlan {
+    const plan = (getString(values, 'plan') ?? 'pro').toLowerCase()
+    if (plan === 'pro' || plan === 'max') return plan
+    throw new UsageError('--plan 은 pro 또는 max 여야 합니다')
+}
@@ -0,0 +1,223 @@
+import { readFile } from 'node:fs/promises'
+import { text } from 'node:stream/consumers'
+import type { AccountCreateResponse, AccountResponse, AccountTestResult, CookieEntry } from '@clove/sdk'
+import { AuthError, ClientError, NetworkError, formatUUID, parseCookieInput, toCookieValue } from '@clove/sdk'
+import { type Command, UsageError, getString, getStrings, requireString } from '../command.ts'
+import { formatCell, printInfo, printJson, printTable } from '../output.ts'
+
+// updated: 이미 등록된 계정이어서 서버가 기존 계정의 쿠키를 이 쿠키로 바꾼 경우
+type ImportStatus = 'added' | 'updated' | 'duplicate' | 'failed' | 'skipped'
+
+interface ImportResult {
+    session_key: string // 앞뒤 일부만 표시
+    status: ImportStatus
+    organization_uuid?: string
+    error?: string
+}
+
+const ACCOUNT_STATUSES: AccountResponse['status'][] = ['valid', 'invalid', 'rate_limited']
+
+// 이미 등록된 쿠키는 서버가 아무것도 바꾸지 않았으므로 중복으로 표시합니다
+const CREATE_STATUSES: Record<AccountCreateResponse['result'], ImportStatus> = {
+    created: 'added',
+    updated: 'updated',
+    unchanged: 'duplicate',
+}
+
+const planOf = (account: AccountResponse) => (account.is_max ? 'Max' : account.is_pro ? 'Pro' : 'Free')
+
+const maskSessionKey = (sessionKey: string) =>
+    sessionKey.length > 32 ? `${sessionKey.slice(0, 20)}...${sessionKey.slice(-6)}` : sessionKey
+
+// '-' 는 표준 입력을 뜻합니다
+const readInput = (path: string) => (path === '-' ? text(process.stdin) : readFile(path, 'utf8'))
+
+const printAccount = (account: AccountResponse, json: boolean, message: string) => {
+    if (json) {
+        printJson(account)
+    } else {
+        printInfo(`${message}: ${account.organization_uuid} (${account.status}, ${planOf(account)})`)
+    }
+}
+
+export const accountCommands: Record<string, Command> = {
+    'accounts list': {
+        usage: '[--status valid|invalid|rate_limited] [--label <라벨>]',
+        description: '계정 목록을 출력합니다',
+        options: {
+            status: { type: 'string' },
+            label: { type: 'string' },
+        },
+        run: async ({ client, values, json }) => {
+            const status = getString(values, 'status')
+            if (status && !ACCOUNT_STATUSES.includes(status as AccountResponse['status'])) {
+                throw new UsageError(`--status 는 ${ACCOUNT_STATUSES.join(', ')} 중 하나여야 합니다`)
+            }
+            const label = getString(values, 'label')
+
+            const { data } = await client.accounts.list()
+            const accounts = data.filter(
+                account => (!status || account.status === status) && (!label || account.labels.includes(label)),
+            )
+
+            if (json) {
+                printJson(accounts)
+                return
+            }
+            printTable(
+                ['조직 UUID', '상태', '인증 방식', '요금제', '라벨', '마지막 사용', '제한 해제'],
+                accounts.map(account => [
+                    account.organization_uuid,
+                    account.status,
+                    account.auth_type,
+                    planOf(account),
+                    formatCell(account.labels),
+                    formatCell(account.last_used),
+                    formatCell(account.resets_at),
+                ]),
+            )
+        },
+    },
+
+    'accounts add': {
+        usage: '--cookie <쿠키> [--org <조직 UUID>] [--label <라벨>]... [--notes <메모>]',
+        description: '쿠키로 계정을 추가합니다',
+        options: {
+            cookie: { type: 'string' },
+            org: { type: 'string' },
+            label: { type: 'string', multiple: true },
+            notes: { type: 'string' },
+        },
+        run: async ({ client, values, json }) => {
+            const cookie = requireString(values, 'cookie')
+            // sessionKey 만 주거나 Cookie 헤더 전체를 붙여 넣어도 됩니다
+            const [entry] = parseCookieInput(cookie).entries
+            const organizationUuid = getString(values, 'org') ?? entry?.organizationUuid
+
+            const { data } = await client.accounts.create({
+                cookie_value: entry ? toCookieValue(entry.sessionKey) : cookie,
+                organization_uuid: organizationUuid && formatUUID(organizationUuid),
+                labels: getStrings(values, 'label'),
+                notes: getString(values, 'notes'),
+            })
+            printAccount(data, json, '계정을 추가했습니다')
+        },
+    },
+
+    'accounts remove': {
+        usage: '<조직 UUID>...',
+        description: '계정을 삭제합니다',
+        run: async ({ client, positionals }) => {
+            if (positionals.length === 0) throw new UsageError('삭제할 계정의 조직 UUID 가 필요합니다')
+
+            for (const organizationUuid of positionals) {
+                await client.accounts.delete(formatUUID(organizationUuid))
+                printInfo(`계정을 삭제했습니다: ${organizationUuid}`)
+            }
+        },
+    },
+
+    'accounts test': {
+        usage: '<조직 UUID>...',
+        description: '계정마다 웹과 OAuth 경로로 짧은 요청을 보내 응답 시간, 요금제와 오류를 출력합니다. 결과에 따라 계정 상태가 바뀝니다',
+        run: async ({ client, positionals, json }) => {
+            if (positionals.length === 0) throw new UsageError('테스트할 계정의 조직 UUID 가 필요합니다')
+
+            const results: AccountTestResult[] = []
+            for (const organizationUuid of positionals) {
+                const { data } = await client.accounts.test(formatUUID(organizationUuid))
+                results.push(data)
+            }
+
+            if (json) {
+                printJson(results)
+            } else {
+                printTable(
+                    ['조직 UUID', '경로', '결과', '응답 시간', '요금제', '상태', '오류'],
+                    results.flatMap(result =>
+                        result.results.map(path => [
+                            result.organization_uuid,
+                            path.path,
+                            path.success ? 'ok' : 'failed',
+                            `${path.latency_ms}ms`,
+                            formatCell(result.plan),
+                            result.account.status,
+                            formatCell(path.error),
+                        ]),
+                    ),
+                )
+            }
+
+            // 실패한 경로가 하나라도 있거나 테스트한 경로가 없으면 1로 끝납니다
+            return results.some(result => result.results.length === 0 || result.results.some(path => !path.success)) ? 1 : 0
+        },
+    },
+
+    'accounts import': {
+        usage: '<파일>...',
+        description: '쿠키 파일에서 계정을 일괄 추가합니다 (sessionKey, Cookie 헤더, cookies.txt, Cookie-Editor JSON, - 는 표준 입력)',
+        run: async ({ client, positionals, json }) => {
+            if (positionals.length === 0) throw new UsageError('쿠키 파일이 필요합니다')
+
+            const entries: CookieEntry[] = []
+            for (const path of positionals) {
+                const { entries: found, invalid } = parseCookieInput(await readInput(path))
+                entries.push(...found)
+                if (invalid.length > 0) printInfo(`${path}: 인식할 수 없는 줄 ${invalid.length}개를 건너뜁니다`)
+            }
+            if (entries.length === 0) throw new UsageError('파일에서 쿠키를 찾지 못했습니다')
+
+            const { data: existing } = await client.accounts.list()
+            const knownUuids = new Set(existing.map(account => account.organization_uuid))
+            const results: ImportResult[] = []
+            let stopped = false
+
+            for (const entry of entries) {
+                const result: ImportResult = { session_key: maskSessionKey(entry.sessionKey), status: 'skipped' }
+                results.push(result)
+
+                if (stopped) continue
+                // 쿠키에 lastActiveOrg 가 있으면 요청하기 전에 기존 계정과 비교합니다
+                if (entry.organizationUuid && knownUuids.has(entry.organizationUuid)) {
+                    Object.assign(result, { status: 'duplicate', organization_uuid: entry.organizationUuid })
+                    continue
+                }
+
+                try {
+                    const { data } = await client.accounts.create({
+                        cookie_value: toCookieValue(entry.sessionKey),
+                        organization_uuid: entry.organizationUuid,
+                    })
+                    result.organization_uuid = data.organization_uuid
+                    result.status = CREATE_STATUSES[data.result]
+                    knownUuids.add(data.organization_uuid)
+                } catch (error) {
+                    if (!(error instanceof ClientError)) throw error
+                    Object.assign(result, { status: 'failed', error: error.message })
+                    // 로그인이 만료되었거나 서버에 연결할 수 없으면 나머지 쿠키도 실패하므로 중단합니다
+                    stopped = error instanceof AuthError || error instanceof NetworkError
+                }
+            }
+
+            if (json) {
+                printJson(results)
+            } else {
+                printTable(
+                    ['세션 키', '결과', '조직 UUID', '오류'],
+                    results.map(result => [
+                        result.session_key,
+                        result.status,
+                        formatCell(result.organization_uuid),
+                        formatCell(result.error),
+                    ]),
+                )
+            }
+
+            const count = (status: ImportStatus) => results.filter(result => result.status === status).length
+            printInfo(
+                `추가 ${count('added')}개, 쿠키 갱신 ${count('updated')}개, 중복 ${count('duplicate')}개, 실패 ${count('failed')}개, 건너뜀 ${count('skipped')}개`,
+            )
+            return count('failed') + count('skipped') > 0 ? 1 : 0
+        },
+    },
+}
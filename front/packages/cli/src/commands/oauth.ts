@@ -0,0 +1,145 @@
+import { createInterface } from 'node:readline/promises'
+import type { AuthorizationInput, CloveClient } from '@clove/sdk'
+import {
+    PLAN_CAPABILITIES,
+    buildAuthorizeUrl,
+    formatUUID,
+    generatePKCE,
+    generateState,
+    isValidUUID,
+    parseAuthorizationInput,
+} from '@clove/sdk'
+import { type Command, type OAuthPlan, type OptionValues, UsageError, getPlan, getString, requireString } from '../command.ts'
+import { printInfo, printJson } from '../output.ts'
+
+interface Authorization {
+    organization_uuid: string
+    plan: OAuthPlan
+    url: string
+    verifier: string
+    state: string
+}
+
+const getOrganizationUuid = (values: OptionValues) => {
+    const organizationUuid = formatUUID(requireString(values, 'org'))
+    if (!isValidUUID(organizationUuid)) throw new UsageError('--org 는 올바른 조직 UUID 여야 합니다')
+    return organizationUuid
+}
+
+const startAuthorization = async (client: CloveClient, values: OptionValues): Promise<Authorization> => {
+    const organizationUuid = getOrganizationUuid(values)
+    const plan = getPlan(values)
+    const { data: config } = await client.accounts.getOAuthConfig()
+    const { verifier, challenge } = await generatePKCE()
+    const state = generateState()
+
+    return {
+        organization_uuid: organizationUuid,
+        plan,
+        url: buildAuthorizeUrl(config, { organizationUuid, challenge, state }),
+        verifier,
+        state,
+    }
+}
+
+const exchange = async (
+    client: CloveClient,
+    authorization: Omit<Authorization, 'url'>,
+    input: AuthorizationInput,
+    json: boolean,
+) => {
+    // 다른 인증 요청에서 발급된 코드가 섞이지 않도록 state 를 확인합니다
+    if (input.state && input.state !== authorization.state) {
+        throw new UsageError('state 값이 일치하지 않습니다. 이 인증 요청으로 발급된 코드인지 확인하세요')
+    }
+
+    const { data } = await client.accounts.exchangeOAuthCode({
+        organization_uuid: authorization.organization_uuid,
+        code: `${input.code}#${authorization.state}`,
+        pkce_verifier: authorization.verifier,
+        capabilities: PLAN_CAPABILITIES[authorization.plan],
+    })
+
+    if (json) {
+        printJson(data)
+    } else {
+        printInfo(`OAuth 인증을 완료했습니다: ${data.organization_uuid} (${data.auth_type})`)
+    }
+}
+
+export const oauthCommands: Record<string, Command> = {
+    'oauth login': {
+        usage: '--org <조직 UUID> [--plan pro|max]',
+        description: '인증 URL을 출력하고 입력받은 인증 코드로 OAuth 인증을 완료합니다',
+        options: {
+            org: { type: 'string' },
+            plan: { type: 'string' },
+        },
+        run: async ({ client, values, json }) => {
+            const authorization = await startAuthorization(client, values)
+            printInfo(`브라우저에서 다음 URL을 열어 인증하세요:\n\n${authorization.url}\n`)
+
+            const prompt = createInterface({ input: process.stdin, output: process.stderr })
+            let answer: string
+            try {
+                answer = await prompt.question('인증 코드, code#state 또는 콜백 URL: ')
+            } finally {
+                prompt.close()
+            }
+
+            const input = parseAuthorizationInput(answer)
+            if (!input) throw new UsageError('인증 코드 또는 콜백 URL을 인식할 수 없습니다')
+            await exchange(client, authorization, input, json)
+        },
+    },
+
+    'oauth url': {
+        usage: '--org <조직 UUID> [--plan pro|max]',
+        description: '인증 URL과 PKCE 검증자를 출력합니다. oauth exchange 와 함께 사용합니다',
+        options: {
+            org: { type: 'string' },
+            plan: { type: 'string' },
+        },
+        run: async ({ client, values, json }) => {
+            const authorization = await startAuthorization(client, values)
+            if (json) {
+                printJson(authorization)
+                return
+            }
+            process.stdout.write(`${authorization.url}\n`)
+            printInfo(`\n--verifier ${authorization.verifier} --state ${authorization.state}`)
+        },
+    },
+
+    'oauth exchange': {
+        usage: '--org <조직 UUID> --code <인증 코드> --verifier <검증자> [--state <state>] [--plan pro|max]',
+        description: 'oauth url 로 시작한 인증의 코드를 토큰으로 교환합니다',
+        options: {
+            org: { type: 'string' },
+            code: { type: 'string' },
+            verifier: { type: 'string' },
+            state: { type: 'string' },
+            plan: { type: 'string' },
+        },
+        run: async ({ client, values, json }) => {
+            const input = parseAuthorizationInput(requireString(values, 'code'))
+            if (!input) throw new UsageError('인증 코드 또는 콜백 URL을 인식할 수 없습니다')
+
+            // 코드에 state 가 포함되어 있지 않으면 --state 로 받습니다
+            const state = getString(values, 'state') ?? input.state
+            if (!state) throw new UsageError('--state 옵션이 필요합니다 (code#state 형식의 코드를 넘겨도 됩니다)')
+
+            await exchange(
+                client,
+                {
+                    organization_uuid: getOrganizationUuid(values),
+                    plan: getPlan(values),
+                    verifier: requireString(values, 'verifier'),
+                    state,
+                },
+                input,
+                json,
+            )
+        },
+    },
+}
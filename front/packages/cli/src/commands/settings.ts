@@ -0,0 +1,62 @@
+import type { SettingsRead, SettingsUpdate } from '@clove/sdk'
+import { type Command, UsageError } from '../command.ts'
+import { formatCell, printInfo, printJson, printTable } from '../output.ts'
+
+const pickSettings = (settings: SettingsRead, keys: string[]) =>
+    Object.fromEntries(Object.entries(settings).filter(([key]) => keys.length === 0 || keys.includes(key)))
+
+const checkKeys = (settings: SettingsRead, keys: string[]) => {
+    const unknown = keys.filter(key => !(key in settings))
+    if (unknown.length > 0) throw new UsageError(`알 수 없는 설정입니다: ${unknown.join(', ')}`)
+}
+
+// JSON 으로 읽을 수 있는 값(숫자, true/false, null, 배열)은 그대로 쓰고 나머지는 문자열로 취급합니다
+const parseValue = (value: string): unknown => {
+    try {
+        return JSON.parse(value)
+    } catch {
+        return value
+    }
+}
+
+const printSettings = (settings: Record<string, unknown>, json: boolean) => {
+    if (json) {
+        printJson(settings)
+        return
+    }
+    printTable(['설정', '값'], Object.entries(settings).map(([key, value]) => [key, formatCell(value)]))
+}
+
+export const settingsCommands: Record<string, Command> = {
+    'settings get': {
+        usage: '[<설정 이름>...]',
+        description: '설정을 출력합니다',
+        run: async ({ client, positionals, json }) => {
+            const { data } = await client.settings.get()
+            checkKeys(data, positionals)
+            printSettings(pickSettings(data, positionals), json)
+        },
+    },
+
+    'settings set': {
+        usage: '<설정 이름>=<값>...',
+        description: '지정한 설정만 변경합니다. 값은 JSON 으로 해석되며, 해석할 수 없으면 문자열로 저장됩니다',
+        run: async ({ client, positionals, json }) => {
+            if (positionals.length === 0) throw new UsageError('변경할 설정이 필요합니다 (예: padtxt_length=5000)')
+
+            const update: Record<string, unknown> = {}
+            for (const assignment of positionals) {
+                const separator = assignment.indexOf('=')
+                if (separator <= 0) throw new UsageError(`<설정 이름>=<값> 형식이 아닙니다: ${assignment}`)
+                update[assignment.slice(0, separator)] = parseValue(assignment.slice(separator + 1))
+            }
+
+            const { data: current } = await client.settings.get()
+            checkKeys(current, Object.keys(update))
+
+            const { data } = await client.settings.update(update as SettingsUpdate)
+            if (!json) printInfo('설정을 변경했습니다')
+            printSettings(pickSettings(data as SettingsRead, Object.keys(update)), json)
+        },
+    },
+}
@@ -0,0 +1,29 @@
+import type { Command } from '../command.ts'
+import { printJson, printTable } from '../output.ts'
+
+export const statisticsCommands: Record<string, Command> = {
+    stats: {
+        usage: '',
+        description: '서버 상태와 계정 통계를 출력합니다',
+        run: async ({ client, json }) => {
+            const { data } = await client.statistics.get()
+            if (json) {
+                printJson(data)
+                return
+            }
+
+            const { accounts } = data
+            printTable(
+                ['항목', '값'],
+                [
+                    ['서버 상태', data.status],
+                    ['전체 계정', String(accounts.total_accounts)],
+                    ['유효한 계정', String(accounts.valid_accounts)],
+                    ['요청 제한 중인 계정', String(accounts.rate_limited_accounts)],
+                    ['무효한 계정', String(accounts.invalid_accounts)],
+                    ['활성 세션', String(accounts.active_sessions)],
+                ],
+            )
+        },
+    },
+}
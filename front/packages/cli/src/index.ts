@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+import { parseArgs } from 'node:util'
+import { ClientError, createCloveClient } from '@clove/sdk'
+import { type Command, type CommandOptions, type OptionValues, UsageError, getString } from './command.ts'
+import { accountCommands } from './commands/accounts.ts'
+import { oauthCommands } from './commands/oauth.ts'
+import { settingsCommands } from './commands/settings.ts'
+import { statisticsCommands } from './commands/statistics.ts'
+import { printInfo } from './output.ts'
+
+const DEFAULT_URL = 'http://localhost:5201'
+
+const GLOBAL_OPTIONS: CommandOptions = {
+    url: { type: 'string' },
+    key: { type: 'string' },
+    json: { type: 'boolean' },
+    help: { type: 'boolean', short: 'h' },
+}
+
+const COMMANDS: Record<string, Command> = {
+    ...accountCommands,
+    ...oauthCommands,
+    ...settingsCommands,
+    ...statisticsCommands,
+}
+
+const usage = () =>
+    [
+        '사용법: clove-admin <명령> [옵션]',
+        '',
+        '명령:',
+        ...Object.entries(COMMANDS).map(([name, command]) =>
+            [`  ${name} ${command.usage}`.trimEnd(), `      ${command.description}`].join('\n'),
+        ),
+        '',
+        '공통 옵션:',
+        `  --url <주소>    서버 주소 (기본값: CLOVE_URL 환경 변수 또는 ${DEFAULT_URL})`,
+        '  --key <키>      관리자 키 (기본값: CLOVE_ADMIN_KEY 환경 변수)',
+        '  --json          표 대신 JSON 으로 출력',
+        '  -h, --help      도움말 출력',
+    ].join('\n')
+
+/**
+ * Finds the command named by the leading positional arguments
+ * @param positionals - The positional arguments
+ * @returns The command name, or null when no command matches
+ */
+const findCommand = (positionals: string[]): string | null => {
+    for (const length of [2, 1]) {
+        const name = positionals.slice(0, length).join(' ')
+        if (positionals.length >= length && COMMANDS[name]) return name
+    }
+    return null
+}
+
+/**
+ * Parses the arguments and runs the matching command
+ * @param argv - The command-line arguments without the node and script paths
+ * @returns The exit code
+ */
+async function main(argv: string[]): Promise<number> {
+    // 명령을 찾기 전에는 명령별 옵션을 모르므로 느슨하게 한 번 파싱합니다
+    const { values: looseValues, positionals: loosePositionals } = parseArgs({
+        args: argv,
+        options: GLOBAL_OPTIONS,
+        allowPositionals: true,
+        strict: false,
+    })
+
+    const name = findCommand(loosePositionals)
+    if (!name) {
+        if (looseValues.help || loosePositionals.length === 0) {
+            process.stdout.write(`${usage()}\n`)
+            return looseValues.help ? 0 : 2
+        }
+        throw new UsageError(`알 수 없는 명령입니다: ${loosePositionals.join(' ')}`)
+    }
+
+    const command = COMMANDS[name]
+    if (looseValues.help) {
+        process.stdout.write(`사용법: clove-admin ${name} ${command.usage}\n\n${command.description}\n`)
+        return 0
+    }
+
+    const { values, positionals } = parseArgs({
+        args: argv,
+        options: { ...GLOBAL_OPTIONS, ...command.options },
+        allowPositionals: true,
+    })
+
+    const key = getString(values as OptionValues, 'key') ?? process.env.CLOVE_ADMIN_KEY
+    if (!key) throw new UsageError('관리자 키가 필요합니다. --key 옵션이나 CLOVE_ADMIN_KEY 환경 변수로 지정하세요')
+
+    const client = createCloveClient({
+        baseUrl: getString(values as OptionValues, 'url') ?? process.env.CLOVE_URL ?? DEFAULT_URL,
+        auth: () => key,
+    })
+
+    const exitCode = await command.run({
+        client,
+        values: values as OptionValues,
+        positionals: positionals.slice(name.split(' ').length),
+        json: values.json === true,
+    })
+    return exitCode ?? 0
+}
+
+// parseArgs 는 잘못된 옵션에 대해 ERR_PARSE_ARGS_* 코드의 TypeError 를 던집니다
+const isParseArgsError = (error: unknown): error is Error =>
+    error instanceof Error && 'code' in error && String(error.code).startsWith('ERR_PARSE_ARGS')
+
+main(process.argv.slice(2)).then(
+    exitCode => {
+        process.exitCode = exitCode
+    },
+    (error: unknown) => {
+        if (error instanceof UsageError || isParseArgsError(error)) {
+            printInfo(`${error.message}\n\n${usage()}`)
+            process.exitCode = 2
+        } else if (error instanceof ClientError) {
+            printInfo(`오류: ${error.message}`)
+            process.exitCode = 1
+        } else {
+            console.error(error)
+            process.exitCode = 1
+        }
+    },
+)
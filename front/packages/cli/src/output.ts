@@ -0,0 +1,54 @@
+// 표 또는 JSON 형식의 출력
+
+// 터미널에서 두 칸을 차지하는 한글, 한자, 전각 문자
+const WIDE_CHARACTER = /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/
+
+const displayWidth = (text: string) => [...text].reduce((width, char) => width + (WIDE_CHARACTER.test(char) ? 2 : 1), 0)
+
+const pad = (text: string, width: number) => text + ' '.repeat(Math.max(0, width - displayWidth(text)))
+
+/**
+ * Prints a value as indented JSON
+ * @param value - The value to print
+ */
+export function printJson(value: unknown): void {
+    process.stdout.write(`${JSON.stringify(value, null, 2)}\n`)
+}
+
+/**
+ * Prints rows as a table with aligned columns
+ * @param headers - The column headers
+ * @param rows - The rows, one string per column
+ */
+export function printTable(headers: string[], rows: string[][]): void {
+    const widths = headers.map((header, column) =>
+        Math.max(displayWidth(header), ...rows.map(row => displayWidth(row[column] ?? ''))),
+    )
+    const formatRow = (row: string[]) =>
+        row
+            .map((cell, column) => pad(cell, widths[column]))
+            .join('  ')
+            .trimEnd()
+
+    const lines = [formatRow(headers), formatRow(widths.map(width => '-'.repeat(width))), ...rows.map(formatRow)]
+    process.stdout.write(`${lines.join('\n')}\n`)
+}
+
+/**
+ * Prints a message to stderr so it does not mix with JSON or table output
+ * @param message - The message
+ */
+export function printInfo(message: string): void {
+    process.stderr.write(`${message}\n`)
+}
+
+/**
+ * Formats an optional value for a table cell
+ * @param value - The value
+ * @returns The value as text, or "-" when empty
+ */
+export function formatCell(value: unknown): string {
+    if (value === undefined || value === null || value === '') return '-'
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '-'
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
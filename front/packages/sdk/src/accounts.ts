@@ -0,0 +1,21 @@
+import type { AccountResponse } from './types.ts'
+
+export type AccountPlan = 'free' | 'pro' | 'max'
+
+/**
+ * Gets the plan of an account from its capability flags
+ * @param account - The account
+ * @returns 'max', 'pro' or 'free'
+ */
+export function getAccountPlan(account: AccountResponse): AccountPlan {
+    if (account.is_max) return 'max'
+    if (account.is_pro) return 'pro'
+    return 'free'
+}
+
+// 계정 유형별 capabilities 값
+export const PLAN_CAPABILITIES: Record<AccountPlan, string[]> = {
+    free: ['chat'],
+    pro: ['chat', 'claude_pro'],
+    max: ['chat', 'claude_max'],
+}
@@ -0,0 +1,354 @@
+import type {
+    AccountActivity,
+    AccountBundle,
+    AccountImportRequest,
+    AccountImportResult,
+    AccountPool,
+    AccountPoolCreate,
+    AccountPoolUpdate,
+    AccountResponse,
+    AccountTestResult,
+    AccountCreate,
+    AccountCreateResponse,
+    AccountUpdate,
+    AnalyticsGroupBy,
+    AnalyticsRange,
+    AnalyticsResponse,
+    ApiError,
+    ApiKeyCreate,
+    ApiKeyResponse,
+    ApiKeyUpdate,
+    ApiErrorDetail,
+    HealthResponse,
+    LiveEvent,
+    OAuthCodeExchange,
+    OAuthConfig,
+    RequestLogDetail,
+    RequestLogFilters,
+    RequestLogList,
+    ServerLogEvent,
+    SettingsRead,
+    SettingsUpdate,
+    StatisticsResponse,
+} from './types.ts'
+import { AuthError, ClientError, NetworkError, RateLimitedError, UpstreamError, ValidationError } from './types.ts'
+import type { MessagesAPIRequest, StreamingEvent } from './messages.ts'
+import { parseMessageStream, parseServerSentEvents } from './sse.ts'
+
+// 요청에 보낼 관리자 키 또는 API 키를 돌려줍니다. 비어 있으면 인증 헤더를 보내지 않습니다
+export type AuthProvider = () => string | null | undefined | Promise<string | null | undefined>
+
+export interface RequestOptions {
+    signal?: AbortSignal
+    // onError 훅에 그대로 전달됩니다. 주기적으로 폴링하는 요청처럼 오류를 알리지 않을 요청을 표시합니다
+    silent?: boolean
+}
+
+export interface CloveClientOptions {
+    baseUrl?: string // 기본값은 같은 출처
+    auth?: AuthProvider
+    fetch?: typeof fetch // 기본값은 전역 fetch
+    // 관리 API 요청이 ClientError 로 실패할 때마다 호출됩니다 (스트림 구독과 Messages API 요청은 제외)
+    onError?: (error: ClientError, options: RequestOptions) => void
+}
+
+export interface ApiResponse<T> {
+    data: T
+    status: number
+    headers: Headers
+}
+
+interface RequestConfig extends RequestOptions {
+    body?: unknown
+    params?: object
+    responseType?: 'json' | 'blob'
+}
+
+// Claude.ai / Claude API 호출 및 OAuth 서비스 관련 오류 코드 범위 (코드의 마지막 세 자리)
+const UPSTREAM_ERROR_RANGES: [number, number][] = [
+    [100, 139],
+    [160, 169],
+    [180, 189],
+    [500, 599],
+]
+
+const isUpstreamErrorCode = (code: number) => {
+    const subCode = code % 1000
+    return UPSTREAM_ERROR_RANGES.some(([start, end]) => subCode >= start && subCode <= end)
+}
+
+const isErrorDetail = (detail: unknown): detail is ApiErrorDetail =>
+    typeof detail === 'object' && detail !== null && 'code' in detail && 'message' in detail
+
+const createNetworkError = (cause: unknown): NetworkError => {
+    const offline = typeof navigator !== 'undefined' && navigator.onLine === false
+    return new NetworkError(offline ? '네트워크에 연결되어 있지 않습니다' : '서버에 연결할 수 없습니다', { cause })
+}
+
+const createResponseError = (status: number, data: ApiError | undefined, cause: unknown): ClientError => {
+    const detail = data?.detail
+
+    // FastAPI 요청 검증 실패
+    if (Array.isArray(detail)) {
+        const message = detail.map(issue => `${issue.loc.join('.')}: ${issue.msg}`).join('\n') || '요청 값이 올바르지 않습니다'
+        return new ValidationError(message, { status, issues: detail, cause })
+    }
+
+    // HTTPException 등 문자열 detail
+    if (!isErrorDetail(detail)) {
+        const message = typeof detail === 'string' ? detail : '알 수 없는 오류가 발생했습니다'
+        return status === 401 ? new AuthError(message, { status, cause }) : new ClientError(message, { status, cause })
+    }
+
+    const options = { status, code: detail.code, context: detail.context, cause }
+    const codeStatus = Math.floor(detail.code / 1000)
+
+    if (codeStatus === 401) {
+        return new AuthError(detail.message, options)
+    }
+    if (codeStatus === 429) {
+        return new RateLimitedError(detail.message, options)
+    }
+    if (isUpstreamErrorCode(detail.code)) {
+        return new UpstreamError(detail.message, options)
+    }
+    if (codeStatus === 400 || codeStatus === 422) {
+        return new ValidationError(detail.message, options)
+    }
+    return new ClientError(detail.message, options)
+}
+
+/**
+ * Appends query parameters to a path, skipping null and undefined values
+ * @param path - The request path
+ * @param params - The query parameters
+ * @returns The path with its query string
+ */
+const withQuery = (path: string, params?: object): string => {
+    if (!params) return path
+    const query = new URLSearchParams()
+    Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) query.append(key, String(value))
+    })
+    const search = query.toString()
+    return search ? `${path}?${search}` : path
+}
+
+/**
+ * Creates a typed client for the Clove admin API and the proxy's Messages API
+ * @param options - The base URL, auth provider, fetch implementation and error hook
+ * @returns The client, grouped by API
+ */
+export function createCloveClient(options: CloveClientOptions = {}) {
+    const baseUrl = (options.baseUrl ?? '').replace(/\/+$/, '')
+    const fetchImpl: typeof fetch = options.fetch ?? ((input, init) => fetch(input, init))
+
+    const getAuthHeaders = async (apiKey?: string): Promise<Record<string, string>> => {
+        const key = apiKey ?? (await options.auth?.())
+        return key ? { 'X-API-Key': key } : {}
+    }
+
+    /**
+     * Sends a request and converts network failures and error responses into ClientError
+     * @param path - The path relative to the base URL
+     * @param init - The fetch options
+     * @returns The successful response, with its body unread
+     */
+    const send = async (path: string, init: RequestInit): Promise<Response> => {
+        let response: Response
+        try {
+            response = await fetchImpl(`${baseUrl}${path}`, init)
+        } catch (error) {
+            if (init.signal?.aborted) throw error
+            throw createNetworkError(error)
+        }
+
+        if (!response.ok) {
+            const data = await response.json().catch(() => undefined)
+            throw createResponseError(response.status, data, undefined)
+        }
+        return response
+    }
+
+    const request = async <T>(method: string, path: string, config: RequestConfig = {}): Promise<ApiResponse<T>> => {
+        const { body, params, responseType = 'json', ...requestOptions } = config
+        const headers = await getAuthHeaders()
+        if (body !== undefined) headers['Content-Type'] = 'application/json'
+
+        try {
+            const response = await send(withQuery(path, params), {
+                method,
+                headers,
+                body: body === undefined ? undefined : JSON.stringify(body),
+                signal: requestOptions.signal,
+            })
+            let data: unknown
+            if (responseType === 'blob') {
+                data = await response.blob()
+            } else {
+                // 204 등 본문이 없는 응답
+                const text = await response.text()
+                data = text ? JSON.parse(text) : undefined
+            }
+            return { data: data as T, status: response.status, headers: response.headers }
+        } catch (error) {
+            if (error instanceof ClientError) options.onError?.(error, requestOptions)
+            throw error
+        }
+    }
+
+    /**
+     * Reads a server-sent events endpoint until the stream ends or the signal aborts
+     * @param path - The endpoint to subscribe to
+     * @param onMessage - Called for every received event with its name and parsed data
+     * @param signal - Aborts the subscription
+     */
+    const subscribe = async (path: string, onMessage: (event: string, data: unknown) => void, signal: AbortSignal) => {
+        let response: Response
+        try {
+            response = await send(path, {
+                headers: { Accept: 'text/event-stream', ...(await getAuthHeaders()) },
+                signal,
+            })
+        } catch (error) {
+            if (signal.aborted) return
+            throw error
+        }
+
+        if (!response.body) throw new ClientError('응답 본문이 없습니다', { status: response.status })
+
+        for await (const message of parseServerSentEvents(response.body)) {
+            onMessage(message.event, JSON.parse(message.data))
+        }
+    }
+
+    const messages = {
+        /**
+         * Sends a Messages API request, leaving the response body unread
+         * @param body - The request body
+         * @param options - An API key overriding the client's auth provider, and an abort signal
+         * @returns The response, for reading a stream or JSON body
+         */
+        create: async (body: MessagesAPIRequest, { apiKey, signal }: { apiKey?: string; signal?: AbortSignal } = {}) =>
+            send('/v1/messages', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', ...(await getAuthHeaders(apiKey)) },
+                body: JSON.stringify(body),
+                signal,
+            }),
+
+        /**
+         * Sends a streaming Messages API request and yields its typed events
+         * @param body - The request body; stream is always enabled
+         * @param options - An API key overriding the client's auth provider, and an abort signal
+         */
+        stream: async function* (
+            body: MessagesAPIRequest,
+            options: { apiKey?: string; signal?: AbortSignal } = {},
+        ): AsyncGenerator<StreamingEvent> {
+            const response = await messages.create({ ...body, stream: true }, options)
+            if (response.body) yield* parseMessageStream(response.body)
+        },
+    }
+
+    return {
+        // 계정
+        accounts: {
+            list: () => request<AccountResponse[]>('GET', '/api/admin/accounts'),
+            get: (organizationUuid: string) => request<AccountResponse>('GET', `/api/admin/accounts/${organizationUuid}`),
+            getActivity: (organizationUuid: string) =>
+                request<AccountActivity>('GET', `/api/admin/accounts/${organizationUuid}/activity`),
+            test: (organizationUuid: string) =>
+                request<AccountTestResult>('POST', `/api/admin/accounts/${organizationUuid}/test`),
+            create: (account: AccountCreate) => request<AccountCreateResponse>('POST', '/api/admin/accounts', { body: account }),
+            update: (organizationUuid: string, account: AccountUpdate) =>
+                request<AccountResponse>('PUT', `/api/admin/accounts/${organizationUuid}`, { body: account }),
+            delete: (organizationUuid: string) => request<void>('DELETE', `/api/admin/accounts/${organizationUuid}`),
+            exportBundle: () => request<AccountBundle>('GET', '/api/admin/accounts/export'),
+            importBundle: (importData: AccountImportRequest) =>
+                request<AccountImportResult[]>('POST', '/api/admin/accounts/import', { body: importData }),
+            getOAuthConfig: () => request<OAuthConfig>('GET', '/api/admin/accounts/oauth/config'),
+            refreshOAuthToken: (organizationUuid: string) =>
+                request<AccountResponse>('POST', `/api/admin/accounts/${organizationUuid}/oauth/refresh`),
+            exchangeOAuthCode: (exchangeData: OAuthCodeExchange) =>
+                request<AccountResponse>('POST', '/api/admin/accounts/oauth/exchange', { body: exchangeData }),
+        },
+
+        // 계정 풀
+        pools: {
+            list: () => request<AccountPool[]>('GET', '/api/admin/pools'),
+            get: (poolId: string) => request<AccountPool>('GET', `/api/admin/pools/${poolId}`),
+            create: (pool: AccountPoolCreate) => request<AccountPool>('POST', '/api/admin/pools', { body: pool }),
+            update: (poolId: string, pool: AccountPoolUpdate) =>
+                request<AccountPool>('PUT', `/api/admin/pools/${poolId}`, { body: pool }),
+            delete: (poolId: string) => request<void>('DELETE', `/api/admin/pools/${poolId}`),
+        },
+
+        // API 키
+        apiKeys: {
+            list: () => request<ApiKeyResponse[]>('GET', '/api/admin/api-keys'),
+            create: (apiKey: ApiKeyCreate) => request<ApiKeyResponse>('POST', '/api/admin/api-keys', { body: apiKey }),
+            update: (keyId: string, apiKey: ApiKeyUpdate) =>
+                request<ApiKeyResponse>('PUT', `/api/admin/api-keys/${keyId}`, { body: apiKey }),
+            resetUsage: (keyId: string) => request<ApiKeyResponse>('POST', `/api/admin/api-keys/${keyId}/reset-usage`),
+            delete: (keyId: string) => request<void>('DELETE', `/api/admin/api-keys/${keyId}`),
+        },
+
+        // 설정
+        settings: {
+            get: () => request<SettingsRead>('GET', '/api/admin/settings'),
+            update: (settings: SettingsUpdate) => request<SettingsUpdate>('PUT', '/api/admin/settings', { body: settings }),
+        },
+
+        // 헬스 체크
+        health: {
+            check: (requestOptions: RequestOptions = {}) => request<HealthResponse>('GET', '/health', requestOptions),
+        },
+
+        // 통계
+        statistics: {
+            get: (requestOptions: RequestOptions = {}) =>
+                request<StatisticsResponse>('GET', '/api/admin/statistics', requestOptions),
+        },
+
+        // 사용량 분석
+        analytics: {
+            get: (range: AnalyticsRange, groupBy: AnalyticsGroupBy) =>
+                request<AnalyticsResponse>('GET', '/api/admin/analytics', { params: { range, group_by: groupBy } }),
+        },
+
+        // 요청 로그
+        requestLogs: {
+            list: (filters: RequestLogFilters) => request<RequestLogList>('GET', '/api/admin/request-logs', { params: filters }),
+            get: (requestId: string) => request<RequestLogDetail>('GET', `/api/admin/request-logs/${requestId}`),
+        },
+
+        // 실시간 이벤트 스트림 (계정 및 통계 변경 사항)
+        events: {
+            /**
+             * Subscribes to live account and statistics changes until the stream ends or the signal aborts
+             * @param onEvent - Called for every received event
+             * @param signal - Aborts the subscription
+             */
+            subscribe: (onEvent: (event: LiveEvent) => void, signal: AbortSignal) =>
+                subscribe('/api/admin/events', (type, data) => onEvent({ type, data } as LiveEvent), signal),
+        },
+
+        // 서버 로그
+        serverLogs: {
+            /**
+             * Subscribes to the application log: a snapshot of recent lines first, then every new line
+             * @param onEvent - Called for every received event
+             * @param signal - Aborts the subscription
+             */
+            subscribe: (onEvent: (event: ServerLogEvent) => void, signal: AbortSignal) =>
+                subscribe('/api/admin/server-logs/stream', (type, data) => onEvent({ type, data } as ServerLogEvent), signal),
+            downloadFile: () => request<Blob>('GET', '/api/admin/server-logs/file', { responseType: 'blob' }),
+        },
+
+        // Messages API (프록시 자체 엔드포인트)
+        messages,
+    }
+}
+
+export type CloveClient = ReturnType<typeof createCloveClient>
@@ -0,0 +1,176 @@
+// 브라우저에서 내보낸 다양한 쿠키 형식에서 Claude 세션 정보를 추출합니다
+import { formatUUID, isValidUUID } from './validators.ts'
+
+const SESSION_KEY_COOKIE = 'sessionKey'
+const ORGANIZATION_COOKIE = 'lastActiveOrg'
+const SESSION_KEY_PREFIX = 'sk-ant-sid01-'
+// Netscape cookies.txt 의 HttpOnly 쿠키는 주석처럼 보이는 접두사가 붙습니다
+const NETSCAPE_HTTP_ONLY_PREFIX = '#HttpOnly_'
+
+export interface CookieEntry {
+    sessionKey: string
+    organizationUuid?: string
+}
+
+export interface CookieParseResult {
+    entries: CookieEntry[]
+    // 세션 키를 찾을 수 없었던 입력 줄
+    invalid: string[]
+}
+
+type CookieGroup = Map<string, string>
+
+const toEntry = (group: CookieGroup): CookieEntry | null => {
+    const sessionKey = group.get(SESSION_KEY_COOKIE)?.trim()
+    if (!sessionKey || !sessionKey.startsWith(SESSION_KEY_PREFIX)) return null
+
+    const organizationUuid = formatUUID(group.get(ORGANIZATION_COOKIE) ?? '')
+    return isValidUUID(organizationUuid) ? { sessionKey, organizationUuid } : { sessionKey }
+}
+
+// Cookie-Editor 등에서 내보낸 [{ name, value, ... }] 배열
+const isCookieObjectArray = (value: unknown): value is { name: unknown; value: unknown }[] =>
+    Array.isArray(value) && value.every(item => typeof item === 'object' && item !== null && 'name' in item && 'value' in item)
+
+const parseJsonExport = (input: string): CookieParseResult | null => {
+    let data: unknown
+    try {
+        data = JSON.parse(input)
+    } catch {
+        return null
+    }
+
+    // 하나의 내보내기 또는 여러 내보내기를 묶은 배열을 허용합니다
+    let exports: { name: unknown; value: unknown }[][]
+    if (isCookieObjectArray(data)) {
+        exports = [data]
+    } else if (Array.isArray(data) && data.every(isCookieObjectArray)) {
+        exports = data
+    } else {
+        return null
+    }
+
+    const result: CookieParseResult = { entries: [], invalid: [] }
+    for (const cookies of exports) {
+        const group: CookieGroup = new Map()
+        for (const cookie of cookies) {
+            group.set(String(cookie.name), String(cookie.value))
+        }
+
+        const entry = toEntry(group)
+        if (entry) {
+            result.entries.push(entry)
+        } else {
+            result.invalid.push(JSON.stringify(cookies))
+        }
+    }
+    return result
+}
+
+// "Cookie: a=1; b=2" 또는 "a=1; b=2"
+const parseCookieHeader = (line: string): CookieGroup => {
+    const group: CookieGroup = new Map()
+    const header = line.replace(/^cookie:\s*/i, '')
+
+    for (const pair of header.split(';')) {
+        const separator = pair.indexOf('=')
+        if (separator === -1) continue
+        group.set(pair.slice(0, separator).trim(), pair.slice(separator + 1).trim())
+    }
+    return group
+}
+
+// domain, includeSubdomains, path, secure, expiry, name, value 순서의 탭 구분 줄
+const parseNetscapeLine = (line: string): [string, string] | null => {
+    const fields = line.split('\t')
+    if (fields.length < 7) return null
+    return [fields[5], fields[6]]
+}
+
+/**
+ * Extracts Claude session keys from pasted or uploaded cookie exports
+ * @param input - Bare session keys, Cookie headers, Netscape cookies.txt or Cookie-Editor JSON
+ * @returns The session keys found, with organization UUIDs when lastActiveOrg is present
+ */
+export function parseCookieInput(input: string): CookieParseResult {
+    const trimmed = input.trim()
+    if (!trimmed) return { entries: [], invalid: [] }
+
+    if (trimmed.startsWith('[')) {
+        const result = parseJsonExport(trimmed)
+        if (result) return result
+    }
+
+    const result: CookieParseResult = { entries: [], invalid: [] }
+    let netscapeGroup: CookieGroup = new Map()
+
+    const flushNetscapeGroup = () => {
+        if (netscapeGroup.size === 0) return
+        const entry = toEntry(netscapeGroup)
+        if (entry) result.entries.push(entry)
+        netscapeGroup = new Map()
+    }
+
+    for (const rawLine of trimmed.split('\n')) {
+        const line = rawLine.trim()
+        if (!line) continue
+
+        const netscapeCookie = parseNetscapeLine(
+            line.startsWith(NETSCAPE_HTTP_ONLY_PREFIX) ? line.slice(NETSCAPE_HTTP_ONLY_PREFIX.length) : line,
+        )
+        if (netscapeCookie) {
+            const [name, value] = netscapeCookie
+            // 같은 이름의 쿠키가 다시 나오면 다른 계정의 내보내기로 간주합니다
+            if (netscapeGroup.has(name)) flushNetscapeGroup()
+            netscapeGroup.set(name, value)
+            continue
+        }
+
+        flushNetscapeGroup()
+
+        // cookies.txt 의 주석 줄
+        if (line.startsWith('#')) continue
+
+        // 한 줄짜리 JSON 내보내기
+        if (line.startsWith('[')) {
+            const jsonResult = parseJsonExport(line)
+            if (jsonResult) {
+                result.entries.push(...jsonResult.entries)
+                result.invalid.push(...jsonResult.invalid)
+                continue
+            }
+        }
+
+        const entry = line.startsWith(SESSION_KEY_PREFIX) ? { sessionKey: line } : toEntry(parseCookieHeader(line))
+        if (entry) {
+            result.entries.push(entry)
+        } else {
+            result.invalid.push(line)
+        }
+    }
+
+    flushNetscapeGroup()
+    return result
+}
+
+/**
+ * Formats a parsed entry as a single Cookie header line that parseCookieInput accepts
+ * @param entry - The parsed cookie entry
+ * @returns The cookie line
+ */
+export function formatCookieEntry(entry: CookieEntry): string {
+    const cookies = [`${SESSION_KEY_COOKIE}=${entry.sessionKey}`]
+    if (entry.organizationUuid) {
+        cookies.push(`${ORGANIZATION_COOKIE}=${entry.organizationUuid}`)
+    }
+    return cookies.join('; ')
+}
+
+/**
+ * Builds the cookie value sent to the backend for a session key
+ * @param sessionKey - The Claude session key
+ * @returns The cookie value
+ */
+export function toCookieValue(sessionKey: string): string {
+    return `${SESSION_KEY_COOKIE}=${sessionKey}`
+}
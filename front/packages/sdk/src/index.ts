@@ -0,0 +1,8 @@
+export * from './accounts.ts'
+export * from './client.ts'
+export * from './cookies.ts'
+export * from './messages.ts'
+export * from './oauth.ts'
+export * from './sse.ts'
+export * from './types.ts'
+export * from './validators.ts'
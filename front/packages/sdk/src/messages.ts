@@ -0,0 +1,249 @@
+// 프록시가 제공하는 Messages API (/v1/messages) 의 요청, 응답과 스트리밍 이벤트 유형
+// app/models/claude.py 와 app/models/streaming.py 에 대응합니다
+
+export type Role = 'user' | 'assistant';
+
+export type ImageMediaType = 'image/jpeg' | 'image/png' | 'image/gif' | 'image/webp';
+
+// 이미지 소스
+export interface Base64ImageSource {
+  type: 'base64';
+  media_type: ImageMediaType;
+  data: string; // Base64 로 인코딩된 이미지 데이터
+}
+
+export interface URLImageSource {
+  type: 'url';
+  url: string;
+}
+
+export interface FileImageSource {
+  type: 'file';
+  file_uuid: string; // 업로드된 파일의 UUID
+}
+
+export type ImageSource = Base64ImageSource | URLImageSource | FileImageSource;
+
+export interface CacheControl {
+  type: 'ephemeral';
+}
+
+// 콘텐츠 블록
+export interface TextContent {
+  type: 'text';
+  text: string;
+  cache_control?: CacheControl | null;
+}
+
+export interface ImageContent {
+  type: 'image';
+  source: ImageSource;
+  cache_control?: CacheControl | null;
+}
+
+export interface ThinkingContent {
+  type: 'thinking';
+  thinking: string;
+  signature?: string;
+}
+
+export interface ToolUseContent {
+  type: 'tool_use';
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  cache_control?: CacheControl | null;
+}
+
+export interface ToolResultContent {
+  type: 'tool_result';
+  tool_use_id: string;
+  content: string | (TextContent | ImageContent)[];
+  is_error?: boolean | null;
+  cache_control?: CacheControl | null;
+}
+
+export interface ServerToolUseContent {
+  type: 'server_tool_use';
+  id: string;
+  name: string; // 예: web_search
+  input: Record<string, unknown>;
+  cache_control?: CacheControl | null;
+}
+
+export interface WebSearchResult {
+  type: 'web_search_result';
+  title: string;
+  url: string;
+  encrypted_content: string;
+  page_age?: string | null;
+}
+
+export interface WebSearchToolResultContent {
+  type: 'web_search_tool_result';
+  tool_use_id: string;
+  content: WebSearchResult[];
+  cache_control?: CacheControl | null;
+}
+
+export type ContentBlock =
+  | TextContent
+  | ImageContent
+  | ThinkingContent
+  | ToolUseContent
+  | ToolResultContent
+  | ServerToolUseContent
+  | WebSearchToolResultContent;
+
+// 요청
+export interface InputMessage {
+  role: Role;
+  content: string | ContentBlock[];
+}
+
+export interface ThinkingOptions {
+  type: 'enabled' | 'disabled';
+  budget_tokens?: number | null;
+}
+
+export interface ToolChoice {
+  type: 'auto' | 'any' | 'tool' | 'none';
+  name?: string | null; // type 이 'tool' 일 때 사용할 도구
+  disable_parallel_tool_use?: boolean | null;
+}
+
+export interface Tool {
+  name: string;
+  input_schema?: unknown; // JSON Schema, 서버 도구에는 없음
+  description?: string | null;
+  type?: string; // 서버 도구의 유형, 예: web_search_20250305
+}
+
+export interface MessagesAPIRequest {
+  model?: string; // 기본값 claude-opus-4-20250514
+  messages: InputMessage[];
+  max_tokens?: number; // 기본값 8192
+  system?: string | TextContent[] | null;
+  temperature?: number | null; // 0 ~ 1
+  top_p?: number | null;
+  top_k?: number | null;
+  stop_sequences?: string[] | null;
+  stream?: boolean | null;
+  metadata?: Record<string, unknown> | null;
+  thinking?: ThinkingOptions | null;
+  tool_choice?: ToolChoice | null;
+  tools?: Tool[] | null;
+}
+
+// 응답
+export interface ServerToolUsage {
+  web_search_requests?: number | null;
+}
+
+export interface Usage {
+  input_tokens: number;
+  output_tokens: number;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+  server_tool_use?: ServerToolUsage | null;
+}
+
+export type StopReason = 'end_turn' | 'max_tokens' | 'stop_sequence' | 'tool_use' | 'pause_turn' | 'refusal';
+
+export interface Message {
+  id: string;
+  type: 'message';
+  role: 'assistant';
+  content: ContentBlock[];
+  model: string;
+  stop_reason?: StopReason | null;
+  stop_sequence?: string | null;
+  usage?: Usage | null;
+}
+
+// 스트리밍 델타
+export interface TextDelta {
+  type: 'text_delta';
+  text: string;
+}
+
+export interface InputJsonDelta {
+  type: 'input_json_delta';
+  partial_json: string; // 도구 입력 JSON 의 일부
+}
+
+export interface ThinkingDelta {
+  type: 'thinking_delta';
+  thinking: string;
+}
+
+export interface SignatureDelta {
+  type: 'signature_delta';
+  signature: string;
+}
+
+export type Delta = TextDelta | InputJsonDelta | ThinkingDelta | SignatureDelta;
+
+export interface MessageDeltaData {
+  stop_reason?: StopReason | null;
+  stop_sequence?: string | null;
+}
+
+export interface ErrorInfo {
+  type: string;
+  message: string;
+}
+
+// 스트리밍 이벤트
+export interface MessageStartEvent {
+  type: 'message_start';
+  message: Message;
+}
+
+export interface ContentBlockStartEvent {
+  type: 'content_block_start';
+  index: number;
+  content_block: ContentBlock;
+}
+
+export interface ContentBlockDeltaEvent {
+  type: 'content_block_delta';
+  index: number;
+  delta: Delta;
+}
+
+export interface ContentBlockStopEvent {
+  type: 'content_block_stop';
+  index: number;
+}
+
+export interface MessageDeltaEvent {
+  type: 'message_delta';
+  delta: MessageDeltaData;
+  usage?: Partial<Usage> | null; // 업스트림에 따라 output_tokens 만 포함될 수 있음
+}
+
+export interface MessageStopEvent {
+  type: 'message_stop';
+}
+
+export interface PingEvent {
+  type: 'ping';
+}
+
+export interface ErrorEvent {
+  type: 'error';
+  error: ErrorInfo;
+}
+
+export type StreamingEvent =
+  | MessageStartEvent
+  | ContentBlockStartEvent
+  | ContentBlockDeltaEvent
+  | ContentBlockStopEvent
+  | MessageDeltaEvent
+  | MessageStopEvent
+  | PingEvent
+  | ErrorEvent;
+
+export type StreamingEventType = StreamingEvent['type'];
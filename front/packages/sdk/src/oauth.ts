@@ -0,0 +1,95 @@
+// OAuth PKCE 인증 흐름 유틸리티
+import type { OAuthConfig } from './types.ts'
+
+export interface AuthorizationInput {
+    code: string
+    state?: string
+}
+
+const base64UrlEncode = (bytes: Uint8Array) =>
+    btoa(String.fromCharCode(...bytes))
+        .replace(/\+/g, '-')
+        .replace(/\//g, '_')
+        .replace(/=/g, '')
+
+const randomBase64Url = (length: number) => {
+    const array = new Uint8Array(length)
+    crypto.getRandomValues(array)
+    return base64UrlEncode(array)
+}
+
+/**
+ * Generates a PKCE verifier and its S256 challenge
+ * @returns The verifier and challenge
+ */
+export async function generatePKCE(): Promise<{ verifier: string; challenge: string }> {
+    const verifier = randomBase64Url(32)
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(verifier))
+    return { verifier, challenge: base64UrlEncode(new Uint8Array(digest)) }
+}
+
+/**
+ * Generates a random OAuth state value
+ * @returns The state
+ */
+export function generateState(): string {
+    return randomBase64Url(32)
+}
+
+/**
+ * Builds the URL where the user authorizes the given organization
+ * @param config - The server's OAuth configuration
+ * @param params - The organization UUID, PKCE challenge and state
+ * @returns The authorization URL
+ */
+export function buildAuthorizeUrl(
+    config: OAuthConfig,
+    { organizationUuid, challenge, state }: { organizationUuid: string; challenge: string; state: string },
+): string {
+    const params = new URLSearchParams({
+        response_type: 'code',
+        client_id: config.client_id,
+        organization_uuid: organizationUuid,
+        redirect_uri: config.redirect_uri,
+        scope: config.scope,
+        state,
+        code_challenge: challenge,
+        code_challenge_method: 'S256',
+    })
+    return `${config.authorize_url}?${params.toString()}`
+}
+
+/**
+ * Extracts the authorization code and state from user input
+ * @param input - A bare code, "code#state", or the full callback URL
+ * @returns The code and state, or null if no code could be found
+ */
+export function parseAuthorizationInput(input: string): AuthorizationInput | null {
+    const value = input.trim()
+    if (!value) return null
+
+    if (/^https?:\/\//i.test(value)) {
+        let url: URL
+        try {
+            url = new URL(value)
+        } catch {
+            return null
+        }
+
+        const hash = url.hash.replace(/^#/, '')
+        const code = url.searchParams.get('code')
+        if (!code) return null
+
+        const state = url.searchParams.get('state') || hash || undefined
+        return { code, state }
+    }
+
+    const separator = value.indexOf('#')
+    if (separator === -1) return { code: value }
+
+    const code = value.slice(0, separator)
+    const state = value.slice(separator + 1)
+    if (!code) return null
+
+    return { code, state: state || undefined }
+}
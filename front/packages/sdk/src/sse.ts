@@ -0,0 +1,119 @@
+// text/event-stream 응답 본문을 파싱하는 유틸리티
+// EventSource 는 사용자 지정 헤더(X-API-Key)를 보낼 수 없으므로 fetch 스트림을 직접 파싱합니다
+
+import type { StreamingEvent, StreamingEventType } from './messages.ts'
+
+export interface ServerSentEvent {
+    event: string
+    data: string
+    id?: string
+}
+
+/**
+ * Parses a text/event-stream body into individual events
+ * @param stream - The response body stream
+ * @returns An async generator yielding each dispatched event
+ */
+export async function* parseServerSentEvents(stream: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+    const reader = stream.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ''
+    let event = ''
+    let data: string[] = []
+    let id: string | undefined
+
+    const dispatch = (): ServerSentEvent | null => {
+        if (data.length === 0) {
+            event = ''
+            return null
+        }
+        const message = { event: event || 'message', data: data.join('\n'), id }
+        event = ''
+        data = []
+        return message
+    }
+
+    try {
+        while (true) {
+            const { done, value } = await reader.read()
+            if (done) break
+
+            buffer += value
+            const lines = buffer.split(/\r\n|\r|\n/)
+            buffer = lines.pop() ?? ''
+
+            for (const line of lines) {
+                // 빈 줄이 이벤트의 끝을 나타냅니다
+                if (line === '') {
+                    const message = dispatch()
+                    if (message) yield message
+                    continue
+                }
+
+                // 콜론으로 시작하는 줄은 주석(하트비트)입니다
+                if (line.startsWith(':')) continue
+
+                const separator = line.indexOf(':')
+                const field = separator === -1 ? line : line.slice(0, separator)
+                let value = separator === -1 ? '' : line.slice(separator + 1)
+                if (value.startsWith(' ')) value = value.slice(1)
+
+                switch (field) {
+                    case 'event':
+                        event = value
+                        break
+                    case 'data':
+                        data.push(value)
+                        break
+                    case 'id':
+                        id = value
+                        break
+                }
+            }
+        }
+
+        const message = dispatch()
+        if (message) yield message
+    } finally {
+        reader.releaseLock()
+    }
+}
+
+const STREAMING_EVENT_TYPES = new Set<string>([
+    'message_start',
+    'content_block_start',
+    'content_block_delta',
+    'content_block_stop',
+    'message_delta',
+    'message_stop',
+    'ping',
+    'error',
+] satisfies StreamingEventType[])
+
+/**
+ * Parses the data of a Messages API server-sent event
+ * @param message - The server-sent event
+ * @returns The typed streaming event, or null when the data is not JSON or its type is unknown
+ */
+export function parseStreamingEvent(message: ServerSentEvent): StreamingEvent | null {
+    let data: unknown
+    try {
+        data = JSON.parse(message.data)
+    } catch {
+        return null
+    }
+
+    if (typeof data !== 'object' || data === null || !('type' in data)) return null
+    return typeof data.type === 'string' && STREAMING_EVENT_TYPES.has(data.type) ? (data as StreamingEvent) : null
+}
+
+/**
+ * Parses a Messages API stream into typed streaming events, skipping events this client does not know
+ * @param stream - The response body stream of a streaming /v1/messages request
+ * @returns An async generator yielding each streaming event
+ */
+export async function* parseMessageStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<StreamingEvent> {
+    for await (const message of parseServerSentEvents(stream)) {
+        const event = parseStreamingEvent(message)
+        if (event) yield event
+    }
+}
@@ -0,0 +1,522 @@
+// 계정 관련 유형
+export interface OAuthToken {
+  access_token: string;
+  refresh_token: string;
+  expires_at: number;
+}
+
+export interface AccountCreate {
+  cookie_value?: string;
+  oauth_token?: OAuthToken;
+  organization_uuid?: string;
+  capabilities?: string[];
+  labels?: string[];
+  notes?: string;
+}
+
+export interface AccountUpdate {
+  cookie_value?: string;
+  oauth_token?: OAuthToken;
+  capabilities?: string[];
+  status?: 'valid' | 'invalid' | 'rate_limited';
+  labels?: string[];
+  notes?: string;
+}
+
+export interface OAuthCodeExchange {
+  organization_uuid: string;
+  code: string;
+  pkce_verifier: string;
+  capabilities?: string[];
+}
+
+export interface OAuthConfig {
+  client_id: string;
+  authorize_url: string;
+  redirect_uri: string;
+  scope: string;
+}
+
+export interface AccountResponse {
+  organization_uuid: string;
+  capabilities?: string[];
+  cookie_value?: string; // Masked value
+  status: 'valid' | 'invalid' | 'rate_limited';
+  auth_type: 'cookie_only' | 'oauth_only' | 'both';
+  is_pro: boolean;
+  is_max: boolean;
+  has_oauth: boolean;
+  last_used: string;
+  resets_at?: string;
+  oauth_expires_at?: number | null; // Unix timestamp
+  labels: string[];
+  notes?: string | null;
+  pools: AccountPoolSummary[];
+}
+
+export interface AccountCreateResponse extends AccountResponse {
+  // updated: 기존 계정의 인증 정보를 바꿈, unchanged: 이미 등록된 쿠키라서 바뀐 것이 없음
+  result: 'created' | 'updated' | 'unchanged';
+}
+
+// 계정 활동 기록 유형
+export interface StatusTransition {
+  from_status: AccountResponse['status'];
+  to_status: AccountResponse['status'];
+  changed_at: string;
+  reason?: string | null;
+}
+
+export interface RequestCounts {
+  last_hour: number;
+  last_day: number;
+  total: number;
+}
+
+export interface AccountRequestError {
+  occurred_at: string;
+  error_type: string;
+  error_code?: number | null;
+  message?: string | null;
+}
+
+export interface AccountSession {
+  session_id: string;
+  last_activity?: string | null;
+  conversation_uuid?: string | null;
+}
+
+export interface AccountActivity {
+  status_history: StatusTransition[];
+  requests: RequestCounts;
+  total_errors: number;
+  recent_errors: AccountRequestError[];
+  sessions: AccountSession[];
+}
+
+// 계정 테스트 결과
+export interface AccountPathTestResult {
+  path: 'web' | 'oauth';
+  success: boolean;
+  latency_ms: number;
+  error_code?: number | null;
+  error?: string | null;
+}
+
+export interface AccountTestResult {
+  organization_uuid: string;
+  tested_at: string;
+  plan?: 'Free' | 'Pro' | 'Max' | null; // Claude.ai 에서 확인한 요금제
+  results: AccountPathTestResult[];
+  account: AccountResponse;
+}
+
+// 계정 내보내기/가져오기 유형
+export interface AccountBundleItem {
+  organization_uuid: string;
+  capabilities?: string[] | null;
+  cookie_value?: string | null; // Unmasked value
+  oauth_token?: OAuthToken | null;
+  status: AccountResponse['status'];
+  auth_type: AccountResponse['auth_type'];
+  resets_at?: string | null;
+  labels?: string[];
+  notes?: string | null;
+}
+
+export interface AccountBundle {
+  version: number;
+  exported_at: string;
+  accounts: AccountBundleItem[];
+}
+
+export interface AccountImportRequest {
+  version: number;
+  accounts: AccountBundleItem[];
+  overwrite: string[];
+}
+
+export interface AccountImportResult {
+  organization_uuid: string;
+  // cookie_conflict: 쿠키가 이미 다른 계정에 등록되어 있어 건너뜀
+  result: 'created' | 'overwritten' | 'skipped' | 'cookie_conflict';
+}
+
+// 계정 풀 관련 유형
+export interface AccountPoolSummary {
+  pool_id: string;
+  name: string;
+}
+
+export interface AccountPool {
+  pool_id: string;
+  name: string;
+  description?: string | null;
+  organization_uuids: string[];
+  api_keys: string[];
+  created_at: string;
+}
+
+export interface AccountPoolCreate {
+  name: string;
+  description?: string;
+  organization_uuids?: string[];
+  api_keys?: string[];
+}
+
+export interface AccountPoolUpdate {
+  name?: string;
+  description?: string;
+  organization_uuids?: string[];
+  api_keys?: string[];
+}
+
+// API 키 관련 유형
+export interface ApiKeyRejection {
+  code: number;
+  message: string;
+  at: string;
+}
+
+export interface ApiKeyResponse {
+  key_id: string;
+  key: string;
+  name?: string | null;
+  created_at: string;
+  last_used_at?: string | null;
+  expires_at?: string | null;
+  enabled: boolean;
+  expired: boolean;
+  rate_limit_rpm?: number | null;
+  daily_token_limit?: number | null;
+  allowed_models: string[]; // 비어 있으면 모든 모델 허용
+  requests_last_minute: number;
+  tokens_today: number;
+  last_rejection?: ApiKeyRejection | null;
+}
+
+export interface ApiKeyCreate {
+  key: string;
+  name?: string;
+  expires_at?: string | null;
+  rate_limit_rpm?: number | null;
+  daily_token_limit?: number | null;
+  allowed_models?: string[];
+}
+
+export interface ApiKeyUpdate {
+  name?: string;
+  expires_at?: string | null; // null 이면 만료 시간을 제거합니다
+  enabled?: boolean;
+  rate_limit_rpm?: number | null; // null 이면 제한을 제거합니다
+  daily_token_limit?: number | null;
+  allowed_models?: string[];
+}
+
+// 설정 관련 유형
+export interface SettingsRead {
+  api_keys: string[];
+  admin_api_keys: string[];
+  proxy_url?: string | null;
+  claude_ai_url: string;
+  claude_api_baseurl: string;
+  custom_prompt?: string | null;
+  use_real_roles: boolean;
+  human_name: string;
+  assistant_name: string;
+  padtxt_length: number;
+  allow_external_images: boolean;
+  preserve_chats: boolean;
+  oauth_client_id: string;
+  oauth_authorize_url: string;
+  oauth_token_url: string;
+  oauth_redirect_uri: string;
+}
+
+export interface SettingsUpdate {
+  api_keys?: string[];
+  admin_api_keys?: string[];
+  proxy_url?: string | null;
+  claude_ai_url?: string;
+  claude_api_baseurl?: string;
+  custom_prompt?: string | null;
+  use_real_roles?: boolean;
+  human_name?: string;
+  assistant_name?: string;
+  padtxt_length?: number;
+  allow_external_images?: boolean;
+  preserve_chats?: boolean;
+  oauth_client_id?: string;
+  oauth_authorize_url?: string;
+  oauth_token_url?: string;
+  oauth_redirect_uri?: string;
+}
+
+// 오류 관련 유형
+export const ErrorCodes = {
+  INTERNAL_SERVER_ERROR: 500000,
+  NO_API_KEY_PROVIDED: 401010,
+  INVALID_API_KEY: 401011,
+  API_KEY_DISABLED: 403012,
+  API_KEY_EXPIRED: 403013,
+  API_KEY_RATE_LIMITED: 429014,
+  API_KEY_TOKEN_QUOTA_EXCEEDED: 429015,
+  API_KEY_MODEL_NOT_ALLOWED: 403016,
+  NO_ACCOUNTS_AVAILABLE: 503100,
+  CLAUDE_RATE_LIMITED: 429120,
+  CLOUDFLARE_BLOCKED: 503121,
+  ORGANIZATION_DISABLED: 400122,
+  INVALID_MODEL_NAME: 400123,
+  CLAUDE_AUTHENTICATION_ERROR: 400124,
+  CLAUDE_HTTP_ERROR: 503130,
+  NO_VALID_MESSAGES: 400140,
+  EXTERNAL_IMAGE_DOWNLOAD_ERROR: 503141,
+  EXTERNAL_IMAGE_NOT_ALLOWED: 400142,
+  NO_RESPONSE: 503160,
+  OAUTH_EXCHANGE_ERROR: 400180,
+  ORGANIZATION_INFO_ERROR: 503181,
+  COOKIE_AUTHORIZATION_ERROR: 400182,
+  OAUTH_AUTHENTICATION_NOT_ALLOWED: 400183,
+  CLAUDE_STREAMING_ERROR: 503500,
+  NO_MESSAGE: 503501,
+} as const;
+
+export type ErrorCode = (typeof ErrorCodes)[keyof typeof ErrorCodes];
+
+// 백엔드 AppError 응답의 detail 형식
+export interface ApiErrorDetail {
+  code: number;
+  message: string;
+  context?: Record<string, unknown>;
+}
+
+// FastAPI 요청 검증 실패 시 detail 항목
+export interface ValidationIssue {
+  loc: (string | number)[];
+  msg: string;
+  type: string;
+}
+
+// 헬스 체크 응답
+export interface HealthResponse {
+  status: 'healthy' | 'degraded'; // 유효한 계정이 하나도 없으면 degraded
+}
+
+export interface ApiError {
+  detail: ApiErrorDetail | ValidationIssue[] | string;
+}
+
+export type ClientErrorKind = 'auth' | 'validation' | 'rate_limited' | 'upstream' | 'network' | 'unknown';
+
+export interface ClientErrorOptions {
+  status?: number;
+  code?: number;
+  context?: Record<string, unknown>;
+  cause?: unknown;
+}
+
+// API 클라이언트가 던지는 모든 오류의 기본 클래스
+export class ClientError extends Error {
+  readonly kind: ClientErrorKind = 'unknown';
+  readonly status?: number;
+  readonly code?: number;
+  readonly context: Record<string, unknown>;
+
+  constructor(message: string, options: ClientErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ClientError';
+    this.status = options.status;
+    this.code = options.code;
+    this.context = options.context ?? {};
+  }
+}
+
+// Admin Key 또는 API 키가 없거나 유효하지 않음
+export class AuthError extends ClientError {
+  readonly kind = 'auth';
+
+  constructor(message: string, options: ClientErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AuthError';
+  }
+}
+
+// 요청 값이 잘못됨 (FastAPI 검증 실패 포함)
+export class ValidationError extends ClientError {
+  readonly kind = 'validation';
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, options: ClientErrorOptions & { issues?: ValidationIssue[] } = {}) {
+    super(message, options);
+    this.name = 'ValidationError';
+    this.issues = options.issues ?? [];
+  }
+}
+
+// Claude 속도 제한에 걸림
+export class RateLimitedError extends ClientError {
+  readonly kind = 'rate_limited';
+  readonly resetsAt?: Date;
+
+  constructor(message: string, options: ClientErrorOptions = {}) {
+    super(message, options);
+    this.name = 'RateLimitedError';
+    const resetsAt = this.context.resets_at;
+    this.resetsAt = typeof resetsAt === 'string' ? new Date(resetsAt) : undefined;
+  }
+}
+
+// Claude.ai 또는 Claude API 호출 실패, 사용 가능한 계정 없음 등 업스트림 오류
+export class UpstreamError extends ClientError {
+  readonly kind = 'upstream';
+
+  constructor(message: string, options: ClientErrorOptions = {}) {
+    super(message, options);
+    this.name = 'UpstreamError';
+  }
+}
+
+// 서버에 연결할 수 없음 (오프라인, 시간 초과 등)
+export class NetworkError extends ClientError {
+  readonly kind = 'network';
+
+  constructor(message: string, options: ClientErrorOptions = {}) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+// 통계 관련 유형
+export interface AccountStats {
+  total_accounts: number;
+  valid_accounts: number;
+  rate_limited_accounts: number;
+  invalid_accounts: number;
+  active_sessions: number;
+}
+
+export interface StatisticsResponse {
+  status: 'healthy' | 'degraded';
+  accounts: AccountStats;
+}
+
+// 사용량 분석 관련 유형
+export type AnalyticsRange = '1h' | '24h' | '7d';
+export type AnalyticsGroupBy = 'none' | 'api_key' | 'account' | 'model' | 'path';
+
+export interface AnalyticsSummary {
+  requests: number;
+  errors: number;
+  input_tokens: number;
+  output_tokens: number;
+  latency_p50?: number | null; // 밀리초, 요청이 없으면 null
+  latency_p95?: number | null;
+  latency_p99?: number | null;
+}
+
+export interface AnalyticsPoint extends AnalyticsSummary {
+  timestamp: string; // 구간 시작 시각
+}
+
+export interface AnalyticsSeries {
+  key: string; // 그룹 값, 값이 없으면 'none', 나머지 그룹을 합친 경우 'other'
+  label: string;
+  summary: AnalyticsSummary;
+  points: AnalyticsPoint[];
+}
+
+export interface AnalyticsResponse {
+  range: AnalyticsRange;
+  group_by: AnalyticsGroupBy;
+  bucket_seconds: number;
+  start: string;
+  end: string;
+  summary: AnalyticsSummary;
+  series: AnalyticsSeries[];
+}
+
+// 요청 로그 관련 유형
+export type RequestLogStatus = 'success' | 'error';
+export type RequestLogPath = 'oauth' | 'web';
+
+export interface RequestLogEntry {
+  request_id: string;
+  timestamp: string;
+  model: string;
+  status: RequestLogStatus;
+  latency_ms: number;
+  api_key_id?: string | null; // 없으면 관리자 키로 보낸 요청
+  api_key_name?: string | null; // 키가 삭제되었으면 비어 있음
+  organization_uuid?: string | null;
+  path?: RequestLogPath | null;
+  stream: boolean;
+  input_tokens: number;
+  output_tokens: number;
+  error_code?: number | null;
+  error_message?: string | null;
+}
+
+export interface RequestLogList {
+  total: number;
+  items: RequestLogEntry[];
+  models: string[]; // 기록된 모든 모델, 필터 선택지로 사용
+}
+
+export interface RequestLogFilters {
+  api_key_id?: string;
+  organization_uuid?: string;
+  model?: string;
+  status?: RequestLogStatus;
+  path?: RequestLogPath;
+  stream?: boolean;
+  limit?: number;
+  offset?: number;
+}
+
+export interface PipelineStep {
+  processor: string;
+  status: 'completed' | 'skipped' | 'failed';
+  duration_ms?: number | null;
+  stopped_pipeline: boolean;
+}
+
+export interface RequestLogDetail extends RequestLogEntry {
+  detail_available: boolean; // 본문은 최근 요청에 대해서만 메모리에 보관됨
+  request_body?: Record<string, unknown> | null;
+  pipeline_steps: PipelineStep[];
+  response?: unknown;
+  error?: string | null;
+}
+
+// 실시간 이벤트 유형
+export interface AccountRemovedEvent {
+  organization_uuid: string;
+}
+
+export type LiveEvent =
+  | { type: 'account'; data: AccountResponse }
+  | { type: 'account_removed'; data: AccountRemovedEvent }
+  | { type: 'statistics'; data: StatisticsResponse };
+
+// 서버 로그 관련 유형
+export type ServerLogLevel = 'TRACE' | 'DEBUG' | 'INFO' | 'SUCCESS' | 'WARNING' | 'ERROR' | 'CRITICAL';
+
+export interface ServerLogEntry {
+  id: number;
+  timestamp: string;
+  level: string; // 보통 ServerLogLevel 중 하나지만 사용자 정의 레벨일 수 있음
+  name: string; // 모듈 이름
+  function: string;
+  line: number;
+  message: string; // 자격 증명은 가려진 상태
+}
+
+export interface ServerLogSnapshot {
+  log_level: string; // 서버에 설정된 최소 로그 레벨
+  log_file_available: boolean;
+  entries: ServerLogEntry[];
+}
+
+export type ServerLogEvent =
+  | { type: 'snapshot'; data: ServerLogSnapshot }
+  | { type: 'entry'; data: ServerLogEntry };
\ No newline at end of file
@@ -3,6 +3,12 @@ import { Layout } from './components/Layout'
 import { Login } from './pages/Login'
 import { Dashboard } from './pages/Dashboard'
 import { Accounts } from './pages/Accounts'
+import { AccountDetail } from './pages/AccountDetail'
+import { Pools } from './pages/Pools'
+import { Analytics } from './pages/Analytics'
+import { Logs } from './pages/Logs'
+import { ServerLogs } from './pages/ServerLogs'
+import { Playground } from './pages/Playground'
 import { Settings } from './pages/Settings'
 import { Toaster } from './components/ui/sonner'
 
@@ -29,6 +35,12 @@ function App() {
                 >
                     <Route index element={<Dashboard />} />
                     <Route path='accounts' element={<Accounts />} />
+                    <Route path='accounts/:organizationUuid' element={<AccountDetail />} />
+                    <Route path='pools' element={<Pools />} />
+                    <Route path='analytics' element={<Analytics />} />
+                    <Route path='logs' element={<Logs />} />
+                    <Route path='server-logs' element={<ServerLogs />} />
+                    <Route path='playground' element={<Playground />} />
                     <Route path='settings' element={<Settings />} />
                 </Route>
             </Routes>
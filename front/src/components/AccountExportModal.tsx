@@ -0,0 +1,170 @@
+import { useState } from 'react'
+import { AlertCircle, Download, Loader2, ShieldAlert } from 'lucide-react'
+import { accountsApi } from '../api/client'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Drawer, DrawerContent, DrawerDescription, DrawerFooter, DrawerHeader, DrawerTitle } from '@/components/ui/drawer'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Switch } from '@/components/ui/switch'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { useIsMobile } from '@/hooks/use-mobile'
+import { createBundleFile } from '@/utils/account-bundle'
+import { downloadFile, timestampedFilename } from '@/utils/download'
+import { toast } from 'sonner'
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+interface AccountExportModalProps {
+    // 지정하면 해당 계정만 내보냅니다
+    organizationUuids?: string[]
+    onClose: () => void
+}
+
+export function AccountExportModal({ organizationUuids, onClose }: AccountExportModalProps) {
+    const [encrypt, setEncrypt] = useState(true)
+    const [passphrase, setPassphrase] = useState('')
+    const [confirmPassphrase, setConfirmPassphrase] = useState('')
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState('')
+    const isMobile = useIsMobile()
+
+    const handleExport = async () => {
+        if (encrypt) {
+            if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+                setError(`암호는 ${MIN_PASSPHRASE_LENGTH}자 이상이어야 합니다`)
+                return
+            }
+            if (passphrase !== confirmPassphrase) {
+                setError('암호가 일치하지 않습니다')
+                return
+            }
+        }
+
+        setLoading(true)
+        setError('')
+
+        try {
+            const response = await accountsApi.exportBundle()
+            const bundle = organizationUuids
+                ? {
+                      ...response.data,
+                      accounts: response.data.accounts.filter(account =>
+                          organizationUuids.includes(account.organization_uuid),
+                      ),
+                  }
+                : response.data
+
+            const content = await createBundleFile(bundle, encrypt ? passphrase : undefined)
+            downloadFile(content, timestampedFilename('clove-accounts', 'json'), 'application/json')
+            toast.success(`${bundle.accounts.length}개 계정을 내보냈습니다`)
+            onClose()
+        } catch (err) {
+            console.error('Failed to export accounts:', err)
+            setError('계정을 내보내지 못했습니다')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const description = organizationUuids
+        ? `선택한 ${organizationUuids.length}개 계정을 다른 Clove 인스턴스로 옮길 수 있는 파일로 내보냅니다`
+        : '모든 계정을 다른 Clove 인스턴스로 옮길 수 있는 파일로 내보냅니다'
+
+    const formContent = (
+        <div className='grid gap-4'>
+            <div className='flex items-center justify-between'>
+                <div className='space-y-0.5'>
+                    <Label htmlFor='encrypt-export'>암호로 보호</Label>
+                    <p className='text-sm text-muted-foreground'>가져올 때 같은 암호가 필요합니다</p>
+                </div>
+                <Switch id='encrypt-export' checked={encrypt} onCheckedChange={setEncrypt} />
+            </div>
+
+            {encrypt ? (
+                <>
+                    <div className='space-y-2'>
+                        <Label htmlFor='export-passphrase'>암호</Label>
+                        <Input
+                            id='export-passphrase'
+                            type='password'
+                            autoComplete='new-password'
+                            value={passphrase}
+                            onChange={e => setPassphrase(e.target.value)}
+                        />
+                    </div>
+                    <div className='space-y-2'>
+                        <Label htmlFor='export-passphrase-confirm'>암호 확인</Label>
+                        <Input
+                            id='export-passphrase-confirm'
+                            type='password'
+                            autoComplete='new-password'
+                            value={confirmPassphrase}
+                            onChange={e => setConfirmPassphrase(e.target.value)}
+                        />
+                    </div>
+                </>
+            ) : (
+                <Alert>
+                    <ShieldAlert className='h-4 w-4' />
+                    <AlertDescription>
+                        내보낸 파일에는 쿠키와 OAuth 토큰이 그대로 포함됩니다. 파일을 안전하게 보관하세요.
+                    </AlertDescription>
+                </Alert>
+            )}
+
+            {error && (
+                <Alert variant='destructive'>
+                    <AlertCircle className='h-4 w-4' />
+                    <AlertDescription>{error}</AlertDescription>
+                </Alert>
+            )}
+        </div>
+    )
+
+    const footerContent = (
+        <>
+            <Button type='button' variant='outline' onClick={onClose} disabled={loading}>
+                취소
+            </Button>
+            <Button type='button' onClick={handleExport} disabled={loading}>
+                {loading ? <Loader2 className='mr-2 h-4 w-4 animate-spin' /> : <Download className='mr-2 h-4 w-4' />}
+                내보내기
+            </Button>
+        </>
+    )
+
+    if (isMobile === undefined) {
+        return null
+    }
+
+    if (!isMobile) {
+        return (
+            <Dialog open={true} onOpenChange={onClose}>
+                <DialogContent className='sm:max-w-[500px]'>
+                    <DialogHeader>
+                        <DialogTitle>계정 내보내기</DialogTitle>
+                        <DialogDescription>{description}</DialogDescription>
+                    </DialogHeader>
+                    {formContent}
+                    <DialogFooter>{footerContent}</DialogFooter>
+                </DialogContent>
+            </Dialog>
+        )
+    }
+
+    return (
+        <Drawer open={true} onOpenChange={onClose}>
+            <DrawerContent>
+                <div className='max-h-[90vh] overflow-auto'>
+                    <DrawerHeader>
+                        <DrawerTitle>계정 내보내기</DrawerTitle>
+                        <DrawerDescription>{description}</DrawerDescription>
+                    </DrawerHeader>
+                    <div className='px-4'>{formContent}</div>
+                    <DrawerFooter className='flex-row justify-end space-x-2'>{footerContent}</DrawerFooter>
+                </div>
+            </DrawerContent>
+        </Drawer>
+    )
+}
@@ -0,0 +1,358 @@
+import { useRef, useState } from 'react'
+import { AlertCircle, CheckCircle, FileUp, Loader2, Lock, Upload } from 'lucide-react'
+import type { AccountBundle, AccountImportResult } from '@clove/sdk'
+import { accountsApi } from '../api/client'
+import { AuthTypeLabel, StatusLabel } from './AccountLabels'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Drawer, DrawerContent, DrawerDescription, DrawerFooter, DrawerHeader, DrawerTitle } from '@/components/ui/drawer'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useIsMobile } from '@/hooks/use-mobile'
+import { BundleError, openBundleFile, parseBundleFile, type BundleFile } from '@/utils/account-bundle'
+import { formatDateTime } from '@/utils/time'
+
+type ImportAction = 'import' | 'overwrite' | 'skip'
+
+const RESULT_LABELS: Record<AccountImportResult['result'], string> = {
+    created: '추가됨',
+    overwritten: '덮어씀',
+    skipped: '건너뜀',
+    cookie_conflict: '쿠키 중복으로 건너뜀',
+}
+
+interface AccountImportModalProps {
+    onClose: () => void
+}
+
+export function AccountImportModal({ onClose }: AccountImportModalProps) {
+    const [step, setStep] = useState<'file' | 'preview' | 'result'>('file')
+    const [fileName, setFileName] = useState('')
+    const [bundleFile, setBundleFile] = useState<BundleFile | null>(null)
+    const [passphrase, setPassphrase] = useState('')
+    const [bundle, setBundle] = useState<AccountBundle | null>(null)
+    const [existingUuids, setExistingUuids] = useState<Set<string>>(new Set())
+    const [actions, setActions] = useState<Record<string, ImportAction>>({})
+    const [results, setResults] = useState<AccountImportResult[]>([])
+    const [isDragging, setIsDragging] = useState(false)
+    const [loading, setLoading] = useState(false)
+    const [error, setError] = useState('')
+    const fileInputRef = useRef<HTMLInputElement>(null)
+    const isMobile = useIsMobile()
+
+    // 기존 계정과 비교하여 충돌하는 계정은 기본적으로 건너뜁니다
+    const preview = async (file: BundleFile, filePassphrase?: string) => {
+        setLoading(true)
+        setError('')
+
+        try {
+            const opened = await openBundleFile(file, filePassphrase)
+            const response = await accountsApi.list()
+            const existing = new Set(response.data.map(account => account.organization_uuid))
+
+            setExistingUuids(existing)
+            setActions(
+                Object.fromEntries(
+                    opened.accounts.map(account => [
+                        account.organization_uuid,
+                        existing.has(account.organization_uuid) ? 'skip' : 'import',
+                    ]),
+                ),
+            )
+            setBundle(opened)
+            setStep('preview')
+        } catch (err) {
+            console.error('Failed to open account bundle:', err)
+            setError(err instanceof BundleError ? err.message : '파일을 열 수 없습니다')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const loadFile = async (file: File) => {
+        setError('')
+        setFileName(file.name)
+        setBundleFile(null)
+        setPassphrase('')
+
+        try {
+            const parsed = parseBundleFile(await file.text())
+            setBundleFile(parsed)
+            if (!parsed.encrypted) {
+                await preview(parsed)
+            }
+        } catch (err) {
+            console.error('Failed to read account bundle:', err)
+            setError(err instanceof BundleError ? err.message : '파일을 읽을 수 없습니다')
+        }
+    }
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault()
+        setIsDragging(false)
+        const file = e.dataTransfer.files[0]
+        if (file) loadFile(file)
+    }
+
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0]
+        if (file) loadFile(file)
+        e.target.value = ''
+    }
+
+    const setConflictActions = (action: ImportAction) => {
+        setActions(prev =>
+            Object.fromEntries(
+                Object.entries(prev).map(([uuid, current]) => [uuid, existingUuids.has(uuid) ? action : current]),
+            ),
+        )
+    }
+
+    const handleImport = async () => {
+        if (!bundle) return
+
+        setLoading(true)
+        setError('')
+
+        try {
+            const response = await accountsApi.importBundle({
+                version: bundle.version,
+                accounts: bundle.accounts.filter(account => actions[account.organization_uuid] !== 'skip'),
+                overwrite: bundle.accounts
+                    .filter(account => actions[account.organization_uuid] === 'overwrite')
+                    .map(account => account.organization_uuid),
+            })
+
+            // 사용자가 건너뛴 계정도 결과에 포함합니다
+            const imported = new Set(response.data.map(result => result.organization_uuid))
+            setResults([
+                ...response.data,
+                ...bundle.accounts
+                    .filter(account => !imported.has(account.organization_uuid))
+                    .map(account => ({ organization_uuid: account.organization_uuid, result: 'skipped' as const })),
+            ])
+            setStep('result')
+        } catch (err) {
+            console.error('Failed to import accounts:', err)
+            setError('계정을 가져오지 못했습니다')
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const conflictCount = bundle ? bundle.accounts.filter(account => existingUuids.has(account.organization_uuid)).length : 0
+    const selectedCount = Object.values(actions).filter(action => action !== 'skip').length
+    const countResults = (result: AccountImportResult['result']) => results.filter(item => item.result === result).length
+
+    const fileStep = (
+        <div className='grid gap-4'>
+            <div
+                className={`flex flex-col items-center justify-center gap-2 rounded-md border-2 border-dashed p-8 text-center cursor-pointer ${
+                    isDragging ? 'border-primary bg-muted' : ''
+                }`}
+                onClick={() => fileInputRef.current?.click()}
+                onDragOver={e => {
+                    e.preventDefault()
+                    setIsDragging(true)
+                }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+            >
+                <Upload className='h-8 w-8 text-muted-foreground' />
+                <p className='text-sm font-medium'>{fileName || '내보내기 파일을 끌어다 놓거나 클릭하여 선택하세요'}</p>
+                <p className='text-xs text-muted-foreground'>계정 내보내기로 만든 JSON 파일</p>
+                <input
+                    ref={fileInputRef}
+                    type='file'
+                    accept='.json,application/json'
+                    className='hidden'
+                    onChange={handleFileChange}
+                />
+            </div>
+
+            {bundleFile?.encrypted && (
+                <div className='space-y-2'>
+                    <Label htmlFor='import-passphrase' className='flex items-center gap-2'>
+                        <Lock className='h-4 w-4' />
+                        암호
+                    </Label>
+                    <Input
+                        id='import-passphrase'
+                        type='password'
+                        autoComplete='off'
+                        value={passphrase}
+                        onChange={e => setPassphrase(e.target.value)}
+                        onKeyDown={e => {
+                            if (e.key === 'Enter' && passphrase) preview(bundleFile, passphrase)
+                        }}
+                    />
+                    <p className='text-sm text-muted-foreground'>내보낼 때 설정한 암호를 입력하세요</p>
+                </div>
+            )}
+        </div>
+    )
+
+    const previewStep = bundle && (
+        <div className='grid gap-4'>
+            <div className='flex flex-wrap items-center justify-between gap-2 text-sm text-muted-foreground'>
+                <span>
+                    {formatDateTime(bundle.exported_at)}에 내보낸 계정 {bundle.accounts.length}개
+                    {conflictCount > 0 && ` · 기존 계정과 충돌 ${conflictCount}개`}
+                </span>
+                {conflictCount > 0 && (
+                    <div className='flex gap-2'>
+                        <Button type='button' variant='outline' size='sm' onClick={() => setConflictActions('skip')}>
+                            충돌 모두 건너뛰기
+                        </Button>
+                        <Button type='button' variant='outline' size='sm' onClick={() => setConflictActions('overwrite')}>
+                            충돌 모두 덮어쓰기
+                        </Button>
+                    </div>
+                )}
+            </div>
+
+            <div className='border rounded-lg max-h-[360px] overflow-y-auto divide-y'>
+                {bundle.accounts.map(account => {
+                    const conflict = existingUuids.has(account.organization_uuid)
+                    return (
+                        <div
+                            key={account.organization_uuid}
+                            className='flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 p-3'
+                        >
+                            <div className='min-w-0 space-y-1'>
+                                <div className='flex items-center gap-2'>
+                                    <span className='font-mono text-xs truncate'>{account.organization_uuid}</span>
+                                    {conflict && (
+                                        <Badge variant='outline' className='border-yellow-500 text-yellow-600 shrink-0'>
+                                            기존 계정
+                                        </Badge>
+                                    )}
+                                </div>
+                                <div className='flex items-center gap-3 text-xs text-muted-foreground'>
+                                    <AuthTypeLabel authType={account.auth_type} />
+                                    <StatusLabel status={account.status} />
+                                </div>
+                            </div>
+                            <Select
+                                value={actions[account.organization_uuid]}
+                                onValueChange={value =>
+                                    setActions(prev => ({ ...prev, [account.organization_uuid]: value as ImportAction }))
+                                }
+                            >
+                                <SelectTrigger className='w-full sm:w-[130px] shrink-0'>
+                                    <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {conflict ? (
+                                        <SelectItem value='overwrite'>덮어쓰기</SelectItem>
+                                    ) : (
+                                        <SelectItem value='import'>가져오기</SelectItem>
+                                    )}
+                                    <SelectItem value='skip'>건너뛰기</SelectItem>
+                                </SelectContent>
+                            </Select>
+                        </div>
+                    )
+                })}
+            </div>
+        </div>
+    )
+
+    const resultStep = (
+        <div className='grid gap-4'>
+            <Alert>
+                <CheckCircle className='h-4 w-4' />
+                <AlertDescription>
+                    가져오기 완료! {countResults('created')}개 추가, {countResults('overwritten')}개 덮어씀,{' '}
+                    {countResults('skipped')}개 건너뜀
+                    {countResults('cookie_conflict') > 0 && `, ${countResults('cookie_conflict')}개 쿠키 중복`}
+                </AlertDescription>
+            </Alert>
+            <div className='border rounded-lg max-h-[300px] overflow-y-auto divide-y'>
+                {results.map(result => (
+                    <div key={result.organization_uuid} className='flex items-center justify-between gap-2 p-3'>
+                        <span className='font-mono text-xs truncate'>{result.organization_uuid}</span>
+                        <span className='text-xs text-muted-foreground shrink-0'>{RESULT_LABELS[result.result]}</span>
+                    </div>
+                ))}
+            </div>
+        </div>
+    )
+
+    const formContent = (
+        <>
+            {step === 'file' ? fileStep : step === 'preview' ? previewStep : resultStep}
+            {error && (
+                <Alert variant='destructive' className='mt-4'>
+                    <AlertCircle className='h-4 w-4' />
+                    <AlertDescription>{error}</AlertDescription>
+                </Alert>
+            )}
+        </>
+    )
+
+    const footerContent =
+        step === 'result' ? (
+            <Button type='button' onClick={onClose}>
+                완료
+            </Button>
+        ) : (
+            <>
+                <Button type='button' variant='outline' onClick={onClose} disabled={loading}>
+                    취소
+                </Button>
+                {step === 'file' ? (
+                    <Button
+                        type='button'
+                        onClick={() => bundleFile && preview(bundleFile, passphrase)}
+                        disabled={loading || !bundleFile?.encrypted || !passphrase}
+                    >
+                        {loading && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+                        파일 열기
+                    </Button>
+                ) : (
+                    <Button type='button' onClick={handleImport} disabled={loading || selectedCount === 0}>
+                        {loading ? <Loader2 className='mr-2 h-4 w-4 animate-spin' /> : <FileUp className='mr-2 h-4 w-4' />}
+                        {selectedCount}개 계정 가져오기
+                    </Button>
+                )}
+            </>
+        )
+
+    if (isMobile === undefined) {
+        return null
+    }
+
+    if (!isMobile) {
+        return (
+            <Dialog open={true} onOpenChange={onClose}>
+                <DialogContent className='sm:max-w-[640px]'>
+                    <DialogHeader>
+                        <DialogTitle>계정 가져오기</DialogTitle>
+                        <DialogDescription>다른 Clove 인스턴스에서 내보낸 계정을 가져옵니다</DialogDescription>
+                    </DialogHeader>
+                    {formContent}
+                    <DialogFooter>{footerContent}</DialogFooter>
+                </DialogContent>
+            </Dialog>
+        )
+    }
+
+    return (
+        <Drawer open={true} onOpenChange={onClose}>
+            <DrawerContent>
+                <div className='max-h-[90vh] overflow-auto'>
+                    <DrawerHeader>
+                        <DrawerTitle>계정 가져오기</DrawerTitle>
+                        <DrawerDescription>다른 Clove 인스턴스에서 내보낸 계정을 가져옵니다</DrawerDescription>
+                    </DrawerHeader>
+                    <div className='px-4'>{formContent}</div>
+                    <DrawerFooter className='flex-row justify-end space-x-2'>{footerContent}</DrawerFooter>
+                </div>
+            </DrawerContent>
+        </Drawer>
+    )
+}
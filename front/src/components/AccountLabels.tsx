@@ -0,0 +1,176 @@
+import { Link } from 'react-router-dom'
+import { Cookie, Shield, KeyRound, CheckCircle, XCircle, AlertCircle, Layers, Activity, Loader2 } from 'lucide-react'
+import type { AccountResponse, AccountTestResult } from '@clove/sdk'
+import { Badge } from '@/components/ui/badge'
+import { getTestErrors, isTestSuccessful, summarizeTestResult } from '@/utils/account-test'
+
+export function AuthTypeLabel({ authType }: { authType: AccountResponse['auth_type'] }) {
+    const getAuthTypeIcon = () => {
+        if (authType === 'both') {
+            return <Shield className='h-4 w-4' />
+        } else if (authType === 'oauth_only') {
+            return <KeyRound className='h-4 w-4' />
+        } else {
+            return <Cookie className='h-4 w-4' />
+        }
+    }
+
+    const getAuthTypeName = () => {
+        switch (authType) {
+            case 'cookie_only':
+                return 'Cookie'
+            case 'oauth_only':
+                return 'OAuth'
+            case 'both':
+                return 'Cookie + OAuth'
+            default:
+                return authType
+        }
+    }
+
+    return (
+        <div className='flex items-center gap-2'>
+            {getAuthTypeIcon()}
+            <span>{getAuthTypeName()}</span>
+        </div>
+    )
+}
+
+export function StatusLabel({ status, className }: { status: AccountResponse['status']; className?: string }) {
+    const getStatusIcon = () => {
+        switch (status) {
+            case 'valid':
+                return <CheckCircle className='h-4 w-4 text-green-500' />
+            case 'invalid':
+                return <XCircle className='h-4 w-4 text-red-500' />
+            case 'rate_limited':
+                return <AlertCircle className='h-4 w-4 text-yellow-500' />
+            default:
+                return null
+        }
+    }
+
+    const getStatusName = () => {
+        switch (status) {
+            case 'valid':
+                return '정상'
+            case 'invalid':
+                return '유효하지 않음'
+            case 'rate_limited':
+                return '속도 제한 중'
+            default:
+                return status
+        }
+    }
+
+    return (
+        <div className='flex items-center gap-2'>
+            {getStatusIcon()}
+            <span className={className}>{getStatusName()}</span>
+        </div>
+    )
+}
+
+export function AccountTypeBadge({ account }: { account: AccountResponse }) {
+    if (account.is_max) {
+        return (
+            <Badge variant='default' className='bg-gradient-to-r from-purple-500 to-pink-500'>
+                Max
+            </Badge>
+        )
+    } else if (account.is_pro) {
+        return (
+            <Badge variant='secondary' className='bg-gradient-to-r from-blue-500 to-purple-500 text-white'>
+                Pro
+            </Badge>
+        )
+    } else {
+        return <Badge variant='outline'>Free</Badge>
+    }
+}
+
+interface AccountLabelBadgesProps {
+    labels: string[]
+    // 지정하면 라벨을 클릭하여 해당 라벨로 필터링할 수 있습니다
+    onSelect?: (label: string) => void
+    className?: string
+}
+
+export function AccountLabelBadges({ labels, onSelect, className = '' }: AccountLabelBadgesProps) {
+    if (labels.length === 0) return null
+
+    return (
+        <div className={`flex flex-wrap gap-1 ${className}`}>
+            {labels.map(label =>
+                onSelect ? (
+                    <Badge key={label} variant='secondary' asChild>
+                        <button
+                            type='button'
+                            className='cursor-pointer hover:bg-secondary/60'
+                            onClick={e => {
+                                e.stopPropagation()
+                                onSelect(label)
+                            }}
+                            title={`'${label}' 라벨로 필터링`}
+                        >
+                            {label}
+                        </button>
+                    </Badge>
+                ) : (
+                    <Badge key={label} variant='secondary'>
+                        {label}
+                    </Badge>
+                ),
+            )}
+        </div>
+    )
+}
+
+export function AccountPoolBadges({ pools, className = '' }: { pools: AccountResponse['pools']; className?: string }) {
+    if (pools.length === 0) return null
+
+    return (
+        <div className={`flex flex-wrap gap-1 ${className}`}>
+            {pools.map(pool => (
+                <Badge key={pool.pool_id} variant='outline' className='gap-1' asChild>
+                    <Link to='/pools' onClick={e => e.stopPropagation()} title='계정 풀'>
+                        <Layers className='h-3 w-3' />
+                        {pool.name}
+                    </Link>
+                </Badge>
+            ))}
+        </div>
+    )
+}
+
+interface AccountTestSummaryProps {
+    result?: AccountTestResult
+    testing?: boolean
+    className?: string
+}
+
+// 마지막 계정 테스트 결과. 실패한 경로의 오류는 마우스를 올리면 표시됩니다
+export function AccountTestSummary({ result, testing, className = '' }: AccountTestSummaryProps) {
+    if (testing) {
+        return (
+            <div className={`flex items-center gap-1 text-xs text-muted-foreground ${className}`}>
+                <Loader2 className='h-3 w-3 animate-spin' />
+                테스트 중...
+            </div>
+        )
+    }
+
+    if (!result) return null
+
+    const success = isTestSuccessful(result)
+
+    return (
+        <div
+            className={`flex items-center gap-1 text-xs ${success ? 'text-muted-foreground' : 'text-destructive'} ${className}`}
+            title={[`${new Date(result.tested_at).toLocaleString('ko-KR')} 테스트`, ...getTestErrors(result)].join('\n')}
+        >
+            <Activity className='h-3 w-3' />
+            {summarizeTestResult(result)}
+        </div>
+    )
+}
@@ -1,6 +1,6 @@
 import { useState, useEffect } from 'react'
 import { ChevronDown, ChevronUp, Loader2, AlertCircle } from 'lucide-react'
-import type { AccountResponse, AccountCreate, AccountUpdate } from '../api/types'
+import type { AccountResponse, AccountCreate, AccountUpdate } from '@clove/sdk'
 import { accountsApi } from '../api/client'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Drawer, DrawerContent, DrawerDescription, DrawerFooter, DrawerHeader, DrawerTitle } from '@/components/ui/drawer'
@@ -20,19 +20,23 @@ import {
     AlertDialogHeader,
     AlertDialogTitle,
 } from '@/components/ui/alert-dialog'
+import { LabelInput } from './LabelInput'
 import { useIsMobile } from '@/hooks/use-mobile'
-import { isValidUUID, formatUUID } from '@/utils/validators'
+import { isValidUUID, formatUUID } from '@clove/sdk'
 
 interface AccountModalProps {
     account: AccountResponse | null
+    labelSuggestions?: string[]
     onClose: () => void
 }
 
-export function AccountModal({ account, onClose }: AccountModalProps) {
+export function AccountModal({ account, labelSuggestions, onClose }: AccountModalProps) {
     const [formData, setFormData] = useState({
         cookie_value: '',
         organization_uuid: '',
         capabilities: [] as string[],
+        labels: [] as string[],
+        notes: '',
     })
     const [accountType, setAccountType] = useState<'none' | 'Free' | 'Pro' | 'Max'>('none')
     const [loading, setLoading] = useState(false)
@@ -47,6 +51,8 @@ export function AccountModal({ account, onClose }: AccountModalProps) {
                 cookie_value: '',
                 organization_uuid: account.organization_uuid,
                 capabilities: account.capabilities || [],
+                labels: account.labels || [],
+                notes: account.notes || '',
             })
 
             const caps = account.capabilities || []
@@ -124,6 +130,9 @@ export function AccountModal({ account, onClose }: AccountModalProps) {
                     updateData.capabilities = capabilities
                 }
 
+                updateData.labels = formData.labels
+                updateData.notes = formData.notes
+
                 await accountsApi.update(account.organization_uuid, updateData)
             } else {
                 // 새 계정 만들기
@@ -141,6 +150,14 @@ export function AccountModal({ account, onClose }: AccountModalProps) {
                     createData.capabilities = capabilities
                 }
 
+                if (formData.labels.length > 0) {
+                    createData.labels = formData.labels
+                }
+
+                if (formData.notes.trim()) {
+                    createData.notes = formData.notes
+                }
+
                 await accountsApi.create(createData)
             }
 
@@ -180,15 +197,37 @@ export function AccountModal({ account, onClose }: AccountModalProps) {
             <div className='grid gap-4 py-4'>
                 <div className='space-y-2'>
                     <Label htmlFor='cookie_value'>
-                        Cookie <span className='text-destructive'>*</span>
+                        Cookie {!account && <span className='text-destructive'>*</span>}
                     </Label>
                     <Textarea
                         id='cookie_value'
-                        placeholder='Claude 쿠키를 붙여넣으세요...'
+                        placeholder={account ? '쿠키를 변경하지 않으려면 비워두세요' : 'Claude 쿠키를 붙여넣으세요...'}
                         value={formData.cookie_value}
                         onChange={e => setFormData({ ...formData, cookie_value: e.target.value })}
                         className='min-h-[100px] font-mono text-sm break-all'
-                        required
+                        required={!account}
+                    />
+                </div>
+
+                <div className='space-y-2'>
+                    <Label htmlFor='labels'>라벨</Label>
+                    <LabelInput
+                        id='labels'
+                        value={formData.labels}
+                        onChange={labels => setFormData({ ...formData, labels })}
+                        suggestions={labelSuggestions}
+                        placeholder='라벨을 입력하고 Enter 키를 누르세요 (예: 담당자, 팀)'
+                    />
+                </div>
+
+                <div className='space-y-2'>
+                    <Label htmlFor='notes'>메모</Label>
+                    <Textarea
+                        id='notes'
+                        placeholder='이 계정에 대한 메모'
+                        value={formData.notes}
+                        onChange={e => setFormData({ ...formData, notes: e.target.value })}
+                        className='min-h-[60px] text-sm'
                     />
                 </div>
 
@@ -257,7 +296,7 @@ export function AccountModal({ account, onClose }: AccountModalProps) {
                 type='submit'
                 disabled={
                     loading ||
-                    !formData.cookie_value.trim() ||
+                    (!account && !formData.cookie_value.trim()) ||
                     (!!formData.organization_uuid && !isValidUUID(formatUUID(formData.organization_uuid)))
                 }
             >
@@ -280,7 +319,7 @@ export function AccountModal({ account, onClose }: AccountModalProps) {
                             <DialogHeader>
                                 <DialogTitle>{account ? '계정 편집' : '쿠키 추가'}</DialogTitle>
                                 <DialogDescription>
-                                    {account ? '계정 인증 정보 업데이트' : '새 Claude 계정 쿠키 추가'}
+                                    {account ? '계정 인증 정보 및 라벨 업데이트' : '새 Claude 계정 쿠키 추가'}
                                 </DialogDescription>
                             </DialogHeader>
                             {formContent}
@@ -301,7 +340,7 @@ export function AccountModal({ account, onClose }: AccountModalProps) {
                         <DrawerHeader>
                             <DrawerTitle>{account ? '계정 편집' : '쿠키 추가'}</DrawerTitle>
                             <DrawerDescription>
-                                {account ? '계정 인증 정보 업데이트' : '새 Claude 계정 쿠키 추가'}
+                                {account ? '계정 인증 정보 및 라벨 업데이트' : '새 Claude 계정 쿠키 추가'}
                             </DrawerDescription>
                         </DrawerHeader>
                         <div className='px-4'>{formContent}</div>
@@ -0,0 +1,83 @@
+import { Activity, ChevronDown, Download, RotateCcw, Trash2, X, Crown } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import type { BulkAction } from './BulkActionDialog'
+import type { AccountPlan } from '@clove/sdk'
+
+interface AccountsBulkBarProps {
+    selectedCount: number
+    onAction: (action: BulkAction) => void
+    onExport: () => void
+    onClear: () => void
+}
+
+const PLANS: { plan: AccountPlan; name: string }[] = [
+    { plan: 'free', name: 'Free' },
+    { plan: 'pro', name: 'Pro' },
+    { plan: 'max', name: 'Max' },
+]
+
+export function AccountsBulkBar({ selectedCount, onAction, onExport, onClear }: AccountsBulkBarProps) {
+    return (
+        <Card className='py-3'>
+            <CardContent className='px-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3'>
+                <div className='flex items-center gap-2'>
+                    <span className='text-sm font-medium'>{selectedCount}개 선택됨</span>
+                    <Button variant='ghost' size='sm' onClick={onClear}>
+                        <X className='mr-1 h-4 w-4' />
+                        선택 해제
+                    </Button>
+                </div>
+                <div className='grid grid-cols-2 sm:flex gap-2'>
+                    <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                            <Button variant='outline' size='sm'>
+                                <Crown className='mr-2 h-4 w-4' />
+                                유형 변경
+                                <ChevronDown className='ml-1 h-4 w-4' />
+                            </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align='end'>
+                            <DropdownMenuLabel>계정 유형</DropdownMenuLabel>
+                            <DropdownMenuSeparator />
+                            {PLANS.map(({ plan, name }) => (
+                                <DropdownMenuItem key={plan} onClick={() => onAction({ type: 'set_plan', plan })}>
+                                    {name}
+                                </DropdownMenuItem>
+                            ))}
+                        </DropdownMenuContent>
+                    </DropdownMenu>
+                    <Button variant='outline' size='sm' onClick={() => onAction({ type: 'reset_status' })}>
+                        <RotateCcw className='mr-2 h-4 w-4' />
+                        상태 초기화
+                    </Button>
+                    <Button variant='outline' size='sm' onClick={() => onAction({ type: 'test' })}>
+                        <Activity className='mr-2 h-4 w-4' />
+                        테스트
+                    </Button>
+                    <Button variant='outline' size='sm' onClick={onExport}>
+                        <Download className='mr-2 h-4 w-4' />
+                        내보내기
+                    </Button>
+                    <Button
+                        variant='outline'
+                        size='sm'
+                        className='text-destructive hover:bg-destructive hover:text-destructive-foreground'
+                        onClick={() => onAction({ type: 'delete' })}
+                    >
+                        <Trash2 className='mr-2 h-4 w-4' />
+                        삭제
+                    </Button>
+                </div>
+            </CardContent>
+        </Card>
+    )
+}
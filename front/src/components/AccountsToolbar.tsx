@@ -0,0 +1,151 @@
+import { Search, X } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { hasActiveFilters, type AccountFilters } from '@/utils/account-filters'
+
+interface AccountsToolbarProps {
+    filters: AccountFilters
+    onChange: (changes: Partial<AccountFilters>) => void
+    onReset: () => void
+    totalCount: number
+    filteredCount: number
+    // 계정에서 사용 중인 라벨. 비어 있으면 라벨 필터를 표시하지 않습니다
+    labels?: string[]
+    showSort?: boolean
+}
+
+export function AccountsToolbar({
+    filters,
+    onChange,
+    onReset,
+    totalCount,
+    filteredCount,
+    labels = [],
+    showSort,
+}: AccountsToolbarProps) {
+    const sortValue = filters.sort ? `${filters.sort}:${filters.order}` : 'none'
+
+    return (
+        <div className='space-y-3'>
+            <div className='flex flex-col lg:flex-row gap-2'>
+                <div className='relative flex-1 min-w-0'>
+                    <Search className='absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground' />
+                    <Input
+                        placeholder='UUID, 라벨, 메모 검색...'
+                        value={filters.search}
+                        onChange={e => onChange({ search: e.target.value })}
+                        className='pl-9'
+                    />
+                </div>
+                <div className='grid grid-cols-2 sm:flex gap-2'>
+                    <Select
+                        value={filters.status}
+                        onValueChange={value => onChange({ status: value as AccountFilters['status'] })}
+                    >
+                        <SelectTrigger className='w-full sm:w-[140px]'>
+                            <SelectValue placeholder='상태' />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value='all'>모든 상태</SelectItem>
+                            <SelectItem value='valid'>정상</SelectItem>
+                            <SelectItem value='rate_limited'>속도 제한 중</SelectItem>
+                            <SelectItem value='invalid'>유효하지 않음</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Select
+                        value={filters.authType}
+                        onValueChange={value => onChange({ authType: value as AccountFilters['authType'] })}
+                    >
+                        <SelectTrigger className='w-full sm:w-[160px]'>
+                            <SelectValue placeholder='인증 방식' />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value='all'>모든 인증 방식</SelectItem>
+                            <SelectItem value='cookie_only'>Cookie</SelectItem>
+                            <SelectItem value='oauth_only'>OAuth</SelectItem>
+                            <SelectItem value='both'>Cookie + OAuth</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Select value={filters.plan} onValueChange={value => onChange({ plan: value as AccountFilters['plan'] })}>
+                        <SelectTrigger className='w-full sm:w-[130px]'>
+                            <SelectValue placeholder='계정 유형' />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value='all'>모든 유형</SelectItem>
+                            <SelectItem value='max'>Max</SelectItem>
+                            <SelectItem value='pro'>Pro</SelectItem>
+                            <SelectItem value='free'>Free</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    <Select
+                        value={filters.oauth}
+                        onValueChange={value => onChange({ oauth: value as AccountFilters['oauth'] })}
+                    >
+                        <SelectTrigger className='w-full sm:w-[140px]'>
+                            <SelectValue placeholder='OAuth' />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value='all'>OAuth 전체</SelectItem>
+                            <SelectItem value='yes'>OAuth 있음</SelectItem>
+                            <SelectItem value='no'>OAuth 없음</SelectItem>
+                        </SelectContent>
+                    </Select>
+                    {labels.length > 0 && (
+                        <Select
+                            value={filters.label || 'all'}
+                            onValueChange={value => onChange({ label: value === 'all' ? '' : value })}
+                        >
+                            <SelectTrigger className='w-full sm:w-[140px]'>
+                                <SelectValue placeholder='라벨' />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value='all'>모든 라벨</SelectItem>
+                                {labels.map(label => (
+                                    <SelectItem key={label} value={label}>
+                                        {label}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
+                    )}
+                    {showSort && (
+                        <Select
+                            value={sortValue}
+                            onValueChange={value => {
+                                if (value === 'none') {
+                                    onChange({ sort: null })
+                                    return
+                                }
+                                const [sort, order] = value.split(':')
+                                onChange({ sort: sort as AccountFilters['sort'], order: order as AccountFilters['order'] })
+                            }}
+                        >
+                            <SelectTrigger className='w-full col-span-2'>
+                                <SelectValue placeholder='정렬' />
+                            </SelectTrigger>
+                            <SelectContent>
+                                <SelectItem value='none'>기본 순서</SelectItem>
+                                <SelectItem value='last_used:desc'>마지막 사용 (최신순)</SelectItem>
+                                <SelectItem value='last_used:asc'>마지막 사용 (오래된순)</SelectItem>
+                                <SelectItem value='resets_at:asc'>재설정 시간 (빠른순)</SelectItem>
+                                <SelectItem value='resets_at:desc'>재설정 시간 (늦은순)</SelectItem>
+                            </SelectContent>
+                        </Select>
+                    )}
+                </div>
+            </div>
+            {hasActiveFilters(filters) && (
+                <div className='flex items-center justify-between text-sm text-muted-foreground'>
+                    <span>
+                        {totalCount}개 중 {filteredCount}개 표시
+                    </span>
+                    <Button variant='ghost' size='sm' onClick={onReset}>
+                        <X className='mr-1 h-4 w-4' />
+                        필터 초기화
+                    </Button>
+                </div>
+            )}
+        </div>
+    )
+}
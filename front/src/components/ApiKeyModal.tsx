@@ -0,0 +1,166 @@
+import { useState } from 'react'
+import { Loader2 } from 'lucide-react'
+import type { ApiKeyResponse } from '@clove/sdk'
+import { apiKeysApi } from '../api/client'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Drawer, DrawerContent, DrawerDescription, DrawerFooter, DrawerHeader, DrawerTitle } from '@/components/ui/drawer'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { useIsMobile } from '@/hooks/use-mobile'
+import { expiryDateToISO, isoToExpiryDate, maskApiKey, parseLimit, parseModelList } from '@/utils/api-keys'
+
+interface ApiKeyModalProps {
+    apiKey: ApiKeyResponse
+    onClose: () => void
+}
+
+export function ApiKeyModal({ apiKey, onClose }: ApiKeyModalProps) {
+    const [name, setName] = useState(apiKey.name ?? '')
+    const [expiryDate, setExpiryDate] = useState(isoToExpiryDate(apiKey.expires_at))
+    const [rateLimit, setRateLimit] = useState(apiKey.rate_limit_rpm?.toString() ?? '')
+    const [tokenLimit, setTokenLimit] = useState(apiKey.daily_token_limit?.toString() ?? '')
+    const [allowedModels, setAllowedModels] = useState(apiKey.allowed_models.join('\n'))
+    const [loading, setLoading] = useState(false)
+    const isMobile = useIsMobile()
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setLoading(true)
+
+        try {
+            await apiKeysApi.update(apiKey.key_id, {
+                name: name.trim(),
+                expires_at: expiryDateToISO(expiryDate),
+                rate_limit_rpm: parseLimit(rateLimit),
+                daily_token_limit: parseLimit(tokenLimit),
+                allowed_models: parseModelList(allowedModels),
+            })
+            onClose()
+        } catch (error) {
+            console.error('Failed to update API key:', error)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const formContent = (
+        <div className='grid gap-4 py-4'>
+            <div className='space-y-2'>
+                <Label htmlFor='api-key-name'>이름</Label>
+                <Input
+                    id='api-key-name'
+                    placeholder='예: 개발팀 서버'
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                />
+            </div>
+            <div className='space-y-2'>
+                <Label htmlFor='api-key-expiry'>만료일</Label>
+                <div className='flex gap-2'>
+                    <Input
+                        id='api-key-expiry'
+                        type='date'
+                        value={expiryDate}
+                        onChange={e => setExpiryDate(e.target.value)}
+                        className='flex-1'
+                    />
+                    <Button type='button' variant='outline' onClick={() => setExpiryDate('')} disabled={!expiryDate}>
+                        만료 없음
+                    </Button>
+                </div>
+                <p className='text-sm text-muted-foreground'>만료일이 지나면 이 키로 보낸 요청은 거부됩니다</p>
+            </div>
+            <div className='grid gap-4 sm:grid-cols-2'>
+                <div className='space-y-2'>
+                    <Label htmlFor='api-key-rate-limit'>분당 요청 수</Label>
+                    <Input
+                        id='api-key-rate-limit'
+                        type='number'
+                        min={1}
+                        placeholder='제한 없음'
+                        value={rateLimit}
+                        onChange={e => setRateLimit(e.target.value)}
+                    />
+                </div>
+                <div className='space-y-2'>
+                    <Label htmlFor='api-key-token-limit'>일일 토큰 수</Label>
+                    <Input
+                        id='api-key-token-limit'
+                        type='number'
+                        min={1}
+                        placeholder='제한 없음'
+                        value={tokenLimit}
+                        onChange={e => setTokenLimit(e.target.value)}
+                    />
+                </div>
+            </div>
+            <p className='text-sm text-muted-foreground -mt-2'>
+                일일 토큰은 UTC 자정에 초기화됩니다. 한도를 넘은 요청은 429 오류로 거부됩니다
+            </p>
+            <div className='space-y-2'>
+                <Label htmlFor='api-key-models'>허용 모델</Label>
+                <Textarea
+                    id='api-key-models'
+                    placeholder='claude-opus-4-20250514'
+                    value={allowedModels}
+                    onChange={e => setAllowedModels(e.target.value)}
+                    rows={3}
+                    className='font-mono text-sm'
+                />
+                <p className='text-sm text-muted-foreground'>한 줄에 하나씩 입력합니다. 비워 두면 모든 모델을 허용합니다</p>
+            </div>
+        </div>
+    )
+
+    const footerContent = (
+        <>
+            <Button type='button' variant='outline' onClick={onClose}>
+                취소
+            </Button>
+            <Button type='submit' disabled={loading}>
+                {loading && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+                {loading ? '저장 중...' : '저장'}
+            </Button>
+        </>
+    )
+
+    const description = `${maskApiKey(apiKey.key)} 키의 이름, 만료일과 사용량 제한을 변경합니다`
+
+    if (isMobile === undefined) {
+        return null
+    }
+
+    if (!isMobile) {
+        return (
+            <Dialog open={true} onOpenChange={onClose}>
+                <DialogContent className='sm:max-w-[500px]'>
+                    <form onSubmit={handleSubmit}>
+                        <DialogHeader>
+                            <DialogTitle>API 키 편집</DialogTitle>
+                            <DialogDescription>{description}</DialogDescription>
+                        </DialogHeader>
+                        {formContent}
+                        <DialogFooter>{footerContent}</DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        )
+    }
+
+    return (
+        <Drawer open={true} onOpenChange={onClose}>
+            <DrawerContent>
+                <form onSubmit={handleSubmit} className='max-h-[90vh] overflow-auto'>
+                    <DrawerHeader>
+                        <DrawerTitle>API 키 편집</DrawerTitle>
+                        <DrawerDescription>{description}</DrawerDescription>
+                    </DrawerHeader>
+                    <div className='px-4'>{formContent}</div>
+                    <DrawerFooter className='flex-row justify-end space-x-2'>{footerContent}</DrawerFooter>
+                </form>
+            </DrawerContent>
+        </Drawer>
+    )
+}
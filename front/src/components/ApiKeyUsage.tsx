@@ -0,0 +1,75 @@
+import { AlertTriangle, RotateCcw } from 'lucide-react'
+import type { ApiKeyResponse } from '@clove/sdk'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { formatDateTime } from '@/utils/time'
+
+interface UsageMeterProps {
+    label: string
+    used: number
+    limit?: number | null
+}
+
+function UsageMeter({ label, used, limit }: UsageMeterProps) {
+    const percent = limit ? Math.min((used / limit) * 100, 100) : 0
+
+    return (
+        <div className='space-y-1'>
+            <div className='flex justify-between text-xs'>
+                <span className='text-muted-foreground'>{label}</span>
+                <span className={limit && used >= limit ? 'text-destructive font-medium' : ''}>
+                    {used.toLocaleString('ko-KR')} / {limit ? limit.toLocaleString('ko-KR') : '무제한'}
+                </span>
+            </div>
+            {limit ? <Progress value={percent} className={`h-1.5 ${percent >= 100 ? '[&>*]:bg-destructive' : ''}`} /> : null}
+        </div>
+    )
+}
+
+interface ApiKeyUsageProps {
+    apiKey: ApiKeyResponse
+    onReset: () => void
+}
+
+export function ApiKeyUsage({ apiKey, onReset }: ApiKeyUsageProps) {
+    const hasUsage = apiKey.tokens_today > 0 || apiKey.requests_last_minute > 0 || apiKey.last_rejection
+
+    return (
+        <div className='space-y-2'>
+            <div className='grid gap-2 sm:grid-cols-2'>
+                <UsageMeter label='최근 1분 요청' used={apiKey.requests_last_minute} limit={apiKey.rate_limit_rpm} />
+                <UsageMeter label='오늘 토큰 (UTC)' used={apiKey.tokens_today} limit={apiKey.daily_token_limit} />
+            </div>
+            <div className='flex flex-wrap items-center gap-1 text-xs'>
+                <span className='text-muted-foreground mr-1'>허용 모델:</span>
+                {apiKey.allowed_models.length === 0 ? (
+                    <span>모든 모델</span>
+                ) : (
+                    apiKey.allowed_models.map(model => (
+                        <Badge key={model} variant='outline' className='font-mono text-xs'>
+                            {model}
+                        </Badge>
+                    ))
+                )}
+            </div>
+            {apiKey.last_rejection && (
+                <Alert variant='destructive' className='py-2'>
+                    <AlertTriangle className='h-4 w-4' />
+                    <AlertDescription className='text-xs'>
+                        <span>
+                            마지막 거부 ({formatDateTime(apiKey.last_rejection.at)}): {apiKey.last_rejection.message}
+                        </span>
+                    </AlertDescription>
+                </Alert>
+            )}
+            {hasUsage && (
+                <Button variant='ghost' size='sm' className='h-7 px-2 text-xs' onClick={onReset}>
+                    <RotateCcw className='mr-1 h-3 w-3' />
+                    사용량 초기화
+                </Button>
+            )}
+        </div>
+    )
+}
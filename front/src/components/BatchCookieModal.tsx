@@ -1,5 +1,20 @@
-import { useState } from 'react'
-import { Loader2, AlertCircle, CheckCircle, Cookie, FileText, Copy, Check } from 'lucide-react'
+import { useMemo, useRef, useState } from 'react'
+import {
+    Loader2,
+    AlertCircle,
+    CheckCircle,
+    Cookie,
+    FileText,
+    Copy,
+    Check,
+    Upload,
+    CircleMinus,
+    Ban,
+    Pause,
+    Play,
+    RotateCcw,
+    RefreshCw,
+} from 'lucide-react'
 import { accountsApi } from '../api/client'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Drawer, DrawerContent, DrawerDescription, DrawerFooter, DrawerHeader, DrawerTitle } from '@/components/ui/drawer'
@@ -8,9 +23,20 @@ import { Label } from '@/components/ui/label'
 import { Textarea } from '@/components/ui/textarea'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { Progress } from '@/components/ui/progress'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { useIsMobile } from '@/hooks/use-mobile'
 import { toast } from 'sonner'
-import type { AccountCreate } from '../api/types'
+import { AuthError, ClientError, NetworkError } from '@clove/sdk'
+import { formatCookieEntry, parseCookieInput, toCookieValue, type CookieEntry } from '@clove/sdk'
+import { createBatchControl, runWithConcurrency, type BatchControl } from '@/utils/batch'
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 5]
+const DEFAULT_CONCURRENCY = 2
+
+interface RetryTarget {
+    index: number
+    entry: CookieEntry
+}
 
 interface BatchCookieModalProps {
     onClose: () => void
@@ -18,7 +44,9 @@ interface BatchCookieModalProps {
 
 interface CookieResult {
     cookie: string
-    status: 'pending' | 'processing' | 'success' | 'error'
+    entry?: CookieEntry
+    // updated: 이미 등록된 계정이어서 백엔드가 기존 계정의 쿠키를 이 쿠키로 바꾼 경우
+    status: 'pending' | 'processing' | 'success' | 'duplicate' | 'updated' | 'error' | 'cancelled'
     error?: string
     organizationUuid?: string
 }
@@ -28,114 +56,247 @@ export function BatchCookieModal({ onClose }: BatchCookieModalProps) {
     const [isProcessing, setIsProcessing] = useState(false)
     const [results, setResults] = useState<CookieResult[]>([])
     const [showResults, setShowResults] = useState(false)
+    const [isDragging, setIsDragging] = useState(false)
+    const [concurrency, setConcurrency] = useState(DEFAULT_CONCURRENCY)
+    const [paused, setPaused] = useState(false)
+    const [cancelling, setCancelling] = useState(false)
+    const controlRef = useRef<BatchControl | null>(null)
+    const fileInputRef = useRef<HTMLInputElement>(null)
     const isMobile = useIsMobile()
+    const parsed = useMemo(() => parseCookieInput(cookies), [cookies])
 
-    const validateAndProcessCookie = (cookieValue: string): { isValid: boolean; processedValue: string } => {
-        let processedValue = cookieValue.trim()
+    // 파일 내용은 한 줄에 하나씩 정규화된 쿠키로 변환하여 입력란에 추가합니다
+    const importFiles = async (files: FileList | File[]) => {
+        const lines: string[] = []
 
-        if (processedValue.startsWith('sk-ant-sid01-')) {
-            processedValue = `sessionKey=${processedValue}`
+        for (const file of Array.from(files)) {
+            try {
+                const { entries } = parseCookieInput(await file.text())
+                if (entries.length === 0) {
+                    toast.error(`${file.name}: 쿠키를 찾을 수 없습니다`)
+                    continue
+                }
+                lines.push(...entries.map(formatCookieEntry))
+            } catch (error) {
+                console.error('Failed to read cookie file:', error)
+                toast.error(`${file.name}: 파일을 읽을 수 없습니다`)
+            }
         }
 
-        const isValid = processedValue.startsWith('sessionKey=sk-ant-sid01-')
+        if (lines.length === 0) return
 
-        return { isValid, processedValue }
+        setCookies(prev => [prev.trim(), ...lines].filter(Boolean).join('\n'))
+        toast.success(`쿠키 ${lines.length}개를 가져왔습니다`)
     }
 
-    const handleSubmit = async (e: React.FormEvent) => {
+    const handleDragOver = (e: React.DragEvent) => {
         e.preventDefault()
+        if (!isDragging) setIsDragging(true)
+    }
 
-        const cookieLines = cookies
-            .split('\n')
-            .map(line => line.trim())
-            .filter(line => line.length > 0)
+    const handleDragLeave = (e: React.DragEvent) => {
+        // 자식 요소로 이동할 때는 드래그 상태를 유지합니다
+        if (e.currentTarget.contains(e.relatedTarget as Node | null)) return
+        setIsDragging(false)
+    }
 
-        if (cookieLines.length === 0) {
-            return
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault()
+        setIsDragging(false)
+        if (e.dataTransfer.files.length > 0) {
+            importFiles(e.dataTransfer.files)
         }
+    }
 
-        setIsProcessing(true)
-        setShowResults(true)
+    const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (e.target.files && e.target.files.length > 0) {
+            importFiles(e.target.files)
+        }
+        // 같은 파일을 다시 선택할 수 있도록 초기화합니다
+        e.target.value = ''
+    }
 
-        const initialResults: CookieResult[] = cookieLines.map(cookie => ({
-            cookie,
-            status: 'pending',
-        }))
-        setResults(initialResults)
+    const updateResult = (index: number, patch: Partial<CookieResult>) => {
+        setResults(prev => {
+            const updated = [...prev]
+            updated[index] = { ...updated[index], ...patch }
+            return updated
+        })
+    }
 
-        for (let i = 0; i < cookieLines.length; i++) {
-            const cookie = cookieLines[i]
+    // 지정한 항목만 처리하므로 실패한 항목을 다시 시도할 때도 사용합니다
+    const processTargets = async (targets: RetryTarget[]) => {
+        const control = createBatchControl()
+        controlRef.current = control
+        setIsProcessing(true)
+        setPaused(false)
+        setCancelling(false)
 
-            setResults(prev => {
-                const updated = [...prev]
-                updated[i] = { ...updated[i], status: 'processing' }
-                return updated
-            })
+        for (const { index } of targets) {
+            updateResult(index, { status: 'pending', error: undefined, organizationUuid: undefined })
+        }
 
-            try {
-                const { isValid, processedValue } = validateAndProcessCookie(cookie)
-
-                if (!isValid) {
-                    setResults(prev => {
-                        const updated = [...prev]
-                        updated[i] = {
-                            ...updated[i],
-                            status: 'error',
-                            error: '쿠키 형식이 잘못되었습니다',
-                        }
-                        return updated
-                    })
-                    continue
-                }
+        let existingUuids: Set<string>
+        try {
+            const response = await accountsApi.list()
+            existingUuids = new Set(response.data.map(account => account.organization_uuid))
+        } catch (error) {
+            console.error('Failed to load existing accounts:', error)
+            for (const { index } of targets) {
+                updateResult(index, { status: 'error', error: '기존 계정 목록을 불러오지 못했습니다' })
+            }
+            controlRef.current = null
+            setIsProcessing(false)
+            return
+        }
 
-                const createData: AccountCreate = {
-                    cookie_value: processedValue,
-                }
+        // 쿠키에 lastActiveOrg 가 있으면 요청하기 전에 기존 계정과 비교합니다
+        const queue: RetryTarget[] = []
+        for (const target of targets) {
+            const { organizationUuid } = target.entry
+            if (organizationUuid && existingUuids.has(organizationUuid)) {
+                updateResult(target.index, { status: 'duplicate', organizationUuid, error: '이미 등록된 계정' })
+            } else {
+                queue.push(target)
+            }
+        }
 
-                const response = await accountsApi.create(createData)
+        const addedUuids = new Set<string>()
+        await runWithConcurrency(
+            queue,
+            concurrency,
+            async ({ index, entry }) => {
+                updateResult(index, { status: 'processing' })
+
+                try {
+                    const response = await accountsApi.create({
+                        cookie_value: toCookieValue(entry.sessionKey),
+                        organization_uuid: entry.organizationUuid,
+                    })
 
-                setResults(prev => {
-                    const updated = [...prev]
-                    updated[i] = {
-                        ...updated[i],
-                        status: 'success',
-                        organizationUuid: response.data.organization_uuid,
+                    // 조직 UUID 는 백엔드가 확인한 뒤에야 알 수 있는 경우가 많으므로 백엔드가 알려준 결과를 따릅니다
+                    const { organization_uuid: organizationUuid, result } = response.data
+                    if (result === 'created') {
+                        addedUuids.add(organizationUuid)
+                        updateResult(index, { status: 'success', organizationUuid })
+                    } else if (result === 'unchanged') {
+                        updateResult(index, { status: 'duplicate', organizationUuid, error: '이미 등록된 쿠키' })
+                    } else {
+                        updateResult(index, {
+                            status: 'updated',
+                            organizationUuid,
+                            error: addedUuids.has(organizationUuid)
+                                ? '목록의 다른 쿠키로 추가한 계정의 쿠키를 갱신함'
+                                : '이미 등록된 계정의 쿠키를 갱신함',
+                        })
                     }
-                    return updated
-                })
-            } catch (error: any) {
-                const errorMessage = error.response?.data?.detail?.message || '추가 실패'
-
-                setResults(prev => {
-                    const updated = [...prev]
-                    updated[i] = {
-                        ...updated[i],
+                } catch (error) {
+                    updateResult(index, {
                         status: 'error',
-                        error: errorMessage,
+                        error: error instanceof ClientError ? error.message : '추가 실패',
+                    })
+
+                    // 로그인이 만료되었거나 서버에 연결할 수 없으면 나머지 쿠키도 실패하므로 중단합니다
+                    if (error instanceof AuthError || error instanceof NetworkError) {
+                        control.cancel()
                     }
-                    return updated
-                })
-            }
+                }
+            },
+            control,
+        )
 
-            // 요청이 너무 빠르지 않도록 약간의 지연
-            await new Promise(resolve => setTimeout(resolve, 300))
+        if (control.cancelled) {
+            setResults(prev =>
+                prev.map(result =>
+                    result.status === 'pending' ? { ...result, status: 'cancelled', error: '처리 중단됨' } : result,
+                ),
+            )
         }
 
+        controlRef.current = null
+        setPaused(false)
+        setCancelling(false)
         setIsProcessing(false)
     }
 
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+
+        const { entries, invalid } = parsed
+        if (entries.length === 0) {
+            return
+        }
+
+        // 같은 세션 키가 여러 번 붙여넣어진 경우 첫 번째만 처리합니다
+        const seenSessionKeys = new Set<string>()
+        const initialResults: CookieResult[] = entries.map(entry => {
+            const cookie = formatCookieEntry(entry)
+            if (seenSessionKeys.has(entry.sessionKey)) {
+                return { cookie, entry, status: 'duplicate', error: '목록에 중복된 쿠키' }
+            }
+            seenSessionKeys.add(entry.sessionKey)
+            return { cookie, entry, status: 'pending' }
+        })
+        initialResults.push(
+            ...invalid.map(line => ({
+                cookie: line,
+                status: 'error' as const,
+                error: '쿠키 형식이 잘못되었습니다',
+            })),
+        )
+
+        setResults(initialResults)
+        setShowResults(true)
+
+        await processTargets(
+            initialResults.flatMap((result, index) =>
+                result.status === 'pending' && result.entry ? [{ index, entry: result.entry }] : [],
+            ),
+        )
+    }
+
+    // 형식 오류가 아닌 실패 및 취소된 항목만 다시 시도할 수 있습니다
+    const retryTargets = results.flatMap((result, index) =>
+        (result.status === 'error' || result.status === 'cancelled') && result.entry ? [{ index, entry: result.entry }] : [],
+    )
+
+    const handleRetryFailed = () => {
+        if (retryTargets.length === 0) return
+        processTargets(retryTargets)
+    }
+
+    const togglePause = () => {
+        const control = controlRef.current
+        if (!control) return
+
+        if (control.paused) {
+            control.resume()
+        } else {
+            control.pause()
+        }
+        setPaused(control.paused)
+    }
+
+    const handleCancel = () => {
+        controlRef.current?.cancel()
+        setPaused(false)
+        setCancelling(true)
+    }
+
     const getProgress = () => {
         if (results.length === 0) return 0
-        const processed = results.filter(r => r.status === 'success' || r.status === 'error').length
+        const processed = results.filter(r => r.status !== 'pending' && r.status !== 'processing').length
         return (processed / results.length) * 100
     }
 
     const getSuccessCount = () => results.filter(r => r.status === 'success').length
-    const getErrorCount = () => results.filter(r => r.status === 'error').length
+    const getDuplicateCount = () => results.filter(r => r.status === 'duplicate').length
+    const getUpdatedCount = () => results.filter(r => r.status === 'updated').length
+    const getErrorCount = () => results.filter(r => r.status === 'error' || r.status === 'cancelled').length
 
     const copyFailedCookies = async () => {
         const failedCookies = results
-            .filter(r => r.status === 'error')
+            .filter(r => r.status === 'error' || r.status === 'cancelled')
             .map(r => r.cookie)
             .join('\n')
 
@@ -165,6 +326,12 @@ export function BatchCookieModal({ onClose }: BatchCookieModalProps) {
                 return <AlertCircle className='h-4 w-4 text-red-500' />
             case 'processing':
                 return <Loader2 className='h-4 w-4 animate-spin' />
+            case 'duplicate':
+                return <CircleMinus className='h-4 w-4 text-yellow-500' />
+            case 'updated':
+                return <RefreshCw className='h-4 w-4 text-blue-500' />
+            case 'cancelled':
+                return <Ban className='h-4 w-4 text-muted-foreground' />
             default:
                 return <Cookie className='h-4 w-4 text-muted-foreground' />
         }
@@ -180,29 +347,89 @@ export function BatchCookieModal({ onClose }: BatchCookieModalProps) {
             {!showResults ? (
                 <>
                     <div className='space-y-2'>
-                        <Label htmlFor='cookies'>
-                            쿠키 목록 <span className='text-destructive'>*</span>
-                        </Label>
-                        <Textarea
-                            id='cookies'
-                            placeholder={
-                                '쿠키를 한 줄에 하나씩 붙여넣으세요...\n\n예시：\nsk-ant-sid01-xxxxx\nsk-ant-sid01-yyyyy\nsessionKey=sk-ant-sid01-zzzzz'
-                            }
-                            value={cookies}
-                            onChange={e => setCookies(e.target.value)}
-                            className='min-h-[200px] font-mono text-sm break-all'
-                            required
-                        />
-                        <p className='text-sm text-muted-foreground'>sessionKey 또는 전체 쿠키 형식을 직접 붙여넣기 지원</p>
+                        <div className='flex items-center justify-between'>
+                            <Label htmlFor='cookies'>
+                                쿠키 목록 <span className='text-destructive'>*</span>
+                            </Label>
+                            <Button type='button' variant='ghost' size='sm' onClick={() => fileInputRef.current?.click()}>
+                                <Upload className='mr-2 h-4 w-4' />
+                                파일에서 가져오기
+                            </Button>
+                            <input
+                                ref={fileInputRef}
+                                type='file'
+                                accept='.txt,.json,text/plain,application/json'
+                                multiple
+                                className='hidden'
+                                onChange={handleFileChange}
+                            />
+                        </div>
+                        <div
+                            className={`relative rounded-md ${isDragging ? 'ring-2 ring-primary ring-offset-2' : ''}`}
+                            onDragOver={handleDragOver}
+                            onDragLeave={handleDragLeave}
+                            onDrop={handleDrop}
+                        >
+                            <Textarea
+                                id='cookies'
+                                placeholder={
+                                    '쿠키를 한 줄에 하나씩 붙여넣거나 쿠키 파일을 끌어다 놓으세요...\n\n예시：\nsk-ant-sid01-xxxxx\nsessionKey=sk-ant-sid01-yyyyy; lastActiveOrg=...\nCookie: sessionKey=sk-ant-sid01-zzzzz'
+                                }
+                                value={cookies}
+                                onChange={e => setCookies(e.target.value)}
+                                className='min-h-[200px] font-mono text-sm break-all'
+                                required
+                            />
+                            {isDragging && (
+                                <div className='pointer-events-none absolute inset-0 flex items-center justify-center rounded-md bg-background/80 text-sm font-medium'>
+                                    <Upload className='mr-2 h-4 w-4' />
+                                    파일을 놓아 쿠키 가져오기
+                                </div>
+                            )}
+                        </div>
+                        {cookies.trim() ? (
+                            <p className='text-sm text-muted-foreground'>
+                                인식된 쿠키 {parsed.entries.length}개
+                                {parsed.invalid.length > 0 && (
+                                    <span className='text-destructive'> · 인식할 수 없는 줄 {parsed.invalid.length}개</span>
+                                )}
+                            </p>
+                        ) : (
+                            <p className='text-sm text-muted-foreground'>
+                                sessionKey, Cookie 헤더, Netscape cookies.txt, Cookie-Editor JSON 형식 지원
+                            </p>
+                        )}
+                    </div>
+                    <div className='flex items-center justify-between gap-4 mt-4'>
+                        <div className='space-y-1'>
+                            <Label htmlFor='concurrency'>동시 처리 수</Label>
+                            <p className='text-sm text-muted-foreground'>한 번에 처리할 쿠키 수</p>
+                        </div>
+                        <Select value={String(concurrency)} onValueChange={value => setConcurrency(Number(value))}>
+                            <SelectTrigger className='w-[100px]' id='concurrency'>
+                                <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                                {CONCURRENCY_OPTIONS.map(option => (
+                                    <SelectItem key={option} value={String(option)}>
+                                        {option}
+                                    </SelectItem>
+                                ))}
+                            </SelectContent>
+                        </Select>
                     </div>
                 </>
             ) : (
                 <div className='space-y-4'>
                     <div className='space-y-2'>
                         <div className='flex items-center justify-between'>
-                            <Label>처리 진행률</Label>
+                            <Label>
+                                처리 진행률
+                                {paused && <span className='text-muted-foreground font-normal'>(일시정지됨)</span>}
+                            </Label>
                             <span className='text-sm text-muted-foreground'>
-                                {getSuccessCount()} 성공 / {getErrorCount()} 실패 / {results.length} 합계
+                                {getSuccessCount()} 성공 / {getUpdatedCount()} 갱신 / {getDuplicateCount()} 중복 /{' '}
+                                {getErrorCount()} 실패 / {results.length} 합계
                             </span>
                         </div>
                         <Progress value={getProgress()} className='h-2' />
@@ -225,6 +452,15 @@ export function BatchCookieModal({ onClose }: BatchCookieModalProps) {
                                         {result.status === 'error' && result.error && (
                                             <p className='text-xs text-destructive mt-1 break-words'>{result.error}</p>
                                         )}
+                                        {(result.status === 'duplicate' ||
+                                            result.status === 'updated' ||
+                                            result.status === 'cancelled') &&
+                                            result.error && (
+                                            <p className='text-xs text-muted-foreground mt-1'>
+                                                {result.error}
+                                                {result.organizationUuid && ` · UUID: ${result.organizationUuid}`}
+                                            </p>
+                                        )}
                                     </div>
                                 </div>
                             ))}
@@ -237,20 +473,36 @@ export function BatchCookieModal({ onClose }: BatchCookieModalProps) {
                                 <FileText className='h-4 w-4' />
                                 <AlertDescription>
                                     처리 완료! {getSuccessCount()}개 계정 추가 성공
+                                    {getUpdatedCount() > 0 && `, ${getUpdatedCount()}개 기존 계정 쿠키 갱신`}
+                                    {getDuplicateCount() > 0 && `, ${getDuplicateCount()}개 중복 건너뜀`}
                                     {getErrorCount() > 0 && `, ${getErrorCount()}개 실패`}。
                                 </AlertDescription>
                             </Alert>
                             {getErrorCount() > 0 && (
-                                <Button
-                                    type='button'
-                                    variant='outline'
-                                    size='sm'
-                                    className='w-full'
-                                    onClick={copyFailedCookies}
-                                >
-                                    <Copy className='mr-2 h-4 w-4' />
-                                    실패한 쿠키 복사
-                                </Button>
+                                <div className='flex gap-2'>
+                                    <Button
+                                        type='button'
+                                        variant='outline'
+                                        size='sm'
+                                        className='flex-1'
+                                        onClick={copyFailedCookies}
+                                    >
+                                        <Copy className='mr-2 h-4 w-4' />
+                                        실패한 쿠키 복사
+                                    </Button>
+                                    {retryTargets.length > 0 && (
+                                        <Button
+                                            type='button'
+                                            variant='outline'
+                                            size='sm'
+                                            className='flex-1'
+                                            onClick={handleRetryFailed}
+                                        >
+                                            <RotateCcw className='mr-2 h-4 w-4' />
+                                            실패 항목 재시도 ({retryTargets.length})
+                                        </Button>
+                                    )}
+                                </div>
                             )}
                         </>
                     )}
@@ -266,14 +518,25 @@ export function BatchCookieModal({ onClose }: BatchCookieModalProps) {
                     <Button type='button' variant='outline' onClick={handleClose}>
                         취소
                     </Button>
-                    <Button type='submit' disabled={isProcessing || !cookies.trim()}>
+                    <Button type='submit' disabled={isProcessing || parsed.entries.length === 0}>
                         {isProcessing && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
                         추가 시작
                     </Button>
                 </>
+            ) : isProcessing ? (
+                <>
+                    <Button type='button' variant='outline' onClick={handleCancel} disabled={cancelling}>
+                        <Ban className='mr-2 h-4 w-4' />
+                        {cancelling ? '취소 중...' : '취소'}
+                    </Button>
+                    <Button type='button' onClick={togglePause} disabled={cancelling}>
+                        {paused ? <Play className='mr-2 h-4 w-4' /> : <Pause className='mr-2 h-4 w-4' />}
+                        {paused ? '재개' : '일시정지'}
+                    </Button>
+                </>
             ) : (
-                <Button onClick={handleClose} disabled={isProcessing}>
-                    {isProcessing ? '처리 중...' : '완료'}
+                <Button type='button' onClick={handleClose}>
+                    완료
                 </Button>
             )}
         </>
@@ -0,0 +1,262 @@
+import { useState } from 'react'
+import { Loader2, AlertCircle, CheckCircle, Circle, FileText } from 'lucide-react'
+import { accountsApi } from '../api/client'
+import { AuthError, ClientError, NetworkError, PLAN_CAPABILITIES, type AccountPlan, type AccountTestResult } from '@clove/sdk'
+import {
+    AlertDialog,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { getTestErrors, summarizeTestResult } from '@/utils/account-test'
+
+export type BulkAction =
+    | { type: 'delete' }
+    | { type: 'set_plan'; plan: AccountPlan }
+    | { type: 'reset_status' }
+    | { type: 'test' }
+
+interface BulkActionDialogProps {
+    action: BulkAction
+    organizationUuids: string[]
+    onClose: (succeeded: string[]) => void
+    // 계정 테스트 결과를 받을 때마다 호출됩니다
+    onTested?: (result: AccountTestResult) => void
+}
+
+interface BulkResult {
+    organizationUuid: string
+    status: 'pending' | 'processing' | 'success' | 'error'
+    detail?: string
+    error?: string
+}
+
+const PLAN_NAMES: Record<AccountPlan, string> = {
+    free: 'Free',
+    pro: 'Pro',
+    max: 'Max',
+}
+
+const getActionTitle = (action: BulkAction, count: number) => {
+    switch (action.type) {
+        case 'delete':
+            return `${count}개 계정을 삭제하시겠습니까?`
+        case 'set_plan':
+            return `${count}개 계정의 유형을 ${PLAN_NAMES[action.plan]}(으)로 변경하시겠습니까?`
+        case 'reset_status':
+            return `${count}개 계정의 상태를 정상으로 재설정하시겠습니까?`
+        case 'test':
+            return `${count}개 계정을 테스트하시겠습니까?`
+    }
+}
+
+const getActionDescription = (action: BulkAction) => {
+    switch (action.type) {
+        case 'delete':
+            return '이 작업은 되돌릴 수 없습니다. 삭제 후 계정은 Clove에서 제거되지만 Claude.ai의 데이터에는 영향을 미치지 않습니다.'
+        case 'set_plan':
+            return '선택한 계정의 capabilities 가 변경됩니다.'
+        case 'reset_status':
+            return '속도 제한 및 유효하지 않음 상태가 해제되고 재설정 시간이 초기화됩니다.'
+        case 'test':
+            return '계정마다 웹과 OAuth 경로로 짧은 요청을 실제로 보내 응답 시간과 요금제를 확인하고, 결과에 따라 계정 상태를 갱신합니다.'
+    }
+}
+
+const getConfirmLabel = (action: BulkAction) => {
+    switch (action.type) {
+        case 'delete':
+            return '삭제'
+        case 'test':
+            return '테스트'
+        default:
+            return '적용'
+    }
+}
+
+// 계정 테스트는 결과를 돌려줍니다
+const runAction = async (action: BulkAction, organizationUuid: string): Promise<AccountTestResult | void> => {
+    switch (action.type) {
+        case 'delete':
+            await accountsApi.delete(organizationUuid)
+            break
+        case 'set_plan':
+            await accountsApi.update(organizationUuid, { capabilities: PLAN_CAPABILITIES[action.plan] })
+            break
+        case 'reset_status':
+            await accountsApi.update(organizationUuid, { status: 'valid' })
+            break
+        case 'test': {
+            const { data } = await accountsApi.test(organizationUuid)
+            return data
+        }
+    }
+}
+
+export function BulkActionDialog({ action, organizationUuids, onClose, onTested }: BulkActionDialogProps) {
+    const [results, setResults] = useState<BulkResult[]>([])
+    const [isProcessing, setIsProcessing] = useState(false)
+    const showResults = results.length > 0
+
+    const updateResult = (index: number, changes: Partial<BulkResult>) => {
+        setResults(prev => {
+            const updated = [...prev]
+            updated[index] = { ...updated[index], ...changes }
+            return updated
+        })
+    }
+
+    const handleConfirm = async () => {
+        setIsProcessing(true)
+        setResults(organizationUuids.map(organizationUuid => ({ organizationUuid, status: 'pending' })))
+
+        for (let i = 0; i < organizationUuids.length; i++) {
+            updateResult(i, { status: 'processing' })
+
+            try {
+                const tested = await runAction(action, organizationUuids[i])
+                if (tested) {
+                    onTested?.(tested)
+                    const errors = getTestErrors(tested)
+                    updateResult(
+                        i,
+                        errors.length > 0
+                            ? { status: 'error', error: errors.join('\n') }
+                            : { status: 'success', detail: summarizeTestResult(tested) },
+                    )
+                    continue
+                }
+                updateResult(i, { status: 'success' })
+            } catch (error) {
+                // 이미 삭제된 계정은 삭제 성공으로 간주합니다
+                if (action.type === 'delete' && error instanceof ClientError && error.status === 404) {
+                    updateResult(i, { status: 'success' })
+                    continue
+                }
+
+                updateResult(i, { status: 'error', error: error instanceof ClientError ? error.message : '처리 실패' })
+
+                // 로그인이 만료되었거나 서버에 연결할 수 없으면 나머지 계정도 실패하므로 중단합니다
+                if (error instanceof AuthError || error instanceof NetworkError) {
+                    setResults(prev =>
+                        prev.map(result =>
+                            result.status === 'pending' ? { ...result, status: 'error', error: '처리 중단됨' } : result,
+                        ),
+                    )
+                    break
+                }
+            }
+        }
+
+        setIsProcessing(false)
+    }
+
+    const handleClose = () => {
+        if (isProcessing) return
+        onClose(results.filter(r => r.status === 'success').map(r => r.organizationUuid))
+    }
+
+    const getSuccessCount = () => results.filter(r => r.status === 'success').length
+    const getErrorCount = () => results.filter(r => r.status === 'error').length
+
+    const getProgress = () => {
+        if (results.length === 0) return 0
+        return ((getSuccessCount() + getErrorCount()) / results.length) * 100
+    }
+
+    const getStatusIcon = (status: BulkResult['status']) => {
+        switch (status) {
+            case 'success':
+                return <CheckCircle className='h-4 w-4 text-green-500' />
+            case 'error':
+                return <AlertCircle className='h-4 w-4 text-red-500' />
+            case 'processing':
+                return <Loader2 className='h-4 w-4 animate-spin' />
+            default:
+                return <Circle className='h-4 w-4 text-muted-foreground' />
+        }
+    }
+
+    return (
+        <AlertDialog open={true} onOpenChange={open => !open && handleClose()}>
+            <AlertDialogContent className='sm:max-w-[600px]'>
+                <AlertDialogHeader>
+                    <AlertDialogTitle>{getActionTitle(action, organizationUuids.length)}</AlertDialogTitle>
+                    <AlertDialogDescription>{getActionDescription(action)}</AlertDialogDescription>
+                </AlertDialogHeader>
+
+                {!showResults ? (
+                    <div className='border rounded-lg max-h-[240px] overflow-y-auto divide-y'>
+                        {organizationUuids.map(organizationUuid => (
+                            <p key={organizationUuid} className='px-3 py-2 font-mono text-xs break-all'>
+                                {organizationUuid}
+                            </p>
+                        ))}
+                    </div>
+                ) : (
+                    <div className='space-y-4 min-w-0'>
+                        <div className='space-y-2'>
+                            <div className='flex items-center justify-between text-sm'>
+                                <span className='font-medium'>처리 진행률</span>
+                                <span className='text-muted-foreground'>
+                                    {getSuccessCount()} 성공 / {getErrorCount()} 실패 / {results.length} 합계
+                                </span>
+                            </div>
+                            <Progress value={getProgress()} className='h-2' />
+                        </div>
+
+                        <div className='border rounded-lg max-h-[300px] overflow-y-auto divide-y'>
+                            {results.map(result => (
+                                <div key={result.organizationUuid} className='p-3 flex items-start gap-3'>
+                                    <div className='mt-0.5'>{getStatusIcon(result.status)}</div>
+                                    <div className='flex-1 min-w-0'>
+                                        <p className='font-mono text-xs break-all'>{result.organizationUuid}</p>
+                                        {result.status === 'success' && result.detail && (
+                                            <p className='text-xs text-muted-foreground mt-1'>{result.detail}</p>
+                                        )}
+                                        {result.status === 'error' && result.error && (
+                                            <p className='text-xs text-destructive mt-1 break-words whitespace-pre-line'>
+                                                {result.error}
+                                            </p>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+
+                        {!isProcessing && (
+                            <Alert>
+                                <FileText className='h-4 w-4' />
+                                <AlertDescription>
+                                    처리 완료! {getSuccessCount()}개 계정 성공
+                                    {getErrorCount() > 0 && `, ${getErrorCount()}개 실패`}
+                                </AlertDescription>
+                            </Alert>
+                        )}
+                    </div>
+                )}
+
+                <AlertDialogFooter>
+                    {!showResults ? (
+                        <>
+                            <AlertDialogCancel>취소</AlertDialogCancel>
+                            <Button variant={action.type === 'delete' ? 'destructive' : 'default'} onClick={handleConfirm}>
+                                {getConfirmLabel(action)}
+                            </Button>
+                        </>
+                    ) : (
+                        <Button onClick={handleClose} disabled={isProcessing}>
+                            {isProcessing ? '처리 중...' : '완료'}
+                        </Button>
+                    )}
+                </AlertDialogFooter>
+            </AlertDialogContent>
+        </AlertDialog>
+    )
+}
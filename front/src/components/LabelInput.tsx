@@ -0,0 +1,81 @@
+import { useId, useState } from 'react'
+import { X } from 'lucide-react'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+
+interface LabelInputProps {
+    id?: string
+    value: string[]
+    onChange: (labels: string[]) => void
+    // 다른 계정에서 사용 중인 라벨을 자동 완성 후보로 제공합니다
+    suggestions?: string[]
+    placeholder?: string
+}
+
+export function LabelInput({ id, value, onChange, suggestions = [], placeholder }: LabelInputProps) {
+    const [draft, setDraft] = useState('')
+    const listId = useId()
+
+    const addLabels = (text: string) => {
+        const labels = text
+            .split(',')
+            .map(label => label.trim())
+            .filter(label => label && !value.includes(label))
+        if (labels.length > 0) {
+            onChange([...value, ...new Set(labels)])
+        }
+        setDraft('')
+    }
+
+    const removeLabel = (label: string) => {
+        onChange(value.filter(item => item !== label))
+    }
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            // 폼이 제출되지 않도록 합니다
+            e.preventDefault()
+            addLabels(draft)
+        } else if (e.key === 'Backspace' && !draft && value.length > 0) {
+            removeLabel(value[value.length - 1])
+        }
+    }
+
+    return (
+        <div className='space-y-2'>
+            {value.length > 0 && (
+                <div className='flex flex-wrap gap-1'>
+                    {value.map(label => (
+                        <Badge key={label} variant='secondary' className='gap-1 pr-1'>
+                            {label}
+                            <button
+                                type='button'
+                                className='rounded-sm opacity-70 hover:opacity-100'
+                                onClick={() => removeLabel(label)}
+                                aria-label={`${label} 라벨 삭제`}
+                            >
+                                <X className='h-3 w-3' />
+                            </button>
+                        </Badge>
+                    ))}
+                </div>
+            )}
+            <Input
+                id={id}
+                list={listId}
+                placeholder={placeholder}
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                onKeyDown={handleKeyDown}
+                onBlur={() => addLabels(draft)}
+            />
+            <datalist id={listId}>
+                {suggestions
+                    .filter(label => !value.includes(label))
+                    .map(label => (
+                        <option key={label} value={label} />
+                    ))}
+            </datalist>
+        </div>
+    )
+}
@@ -1,5 +1,5 @@
 import { Link, Outlet, useLocation } from 'react-router-dom'
-import { Settings, Users, Home, LogOut } from 'lucide-react'
+import { Settings, Users, Home, LogOut, Layers, ChartLine, ScrollText, Terminal, FlaskConical } from 'lucide-react'
 import {
     Sidebar,
     SidebarContent,
@@ -20,6 +20,11 @@ export function Layout() {
     const navigation = [
         { name: '대시보드', href: '/', icon: Home },
         { name: '계정 관리', href: '/accounts', icon: Users },
+        { name: '계정 풀', href: '/pools', icon: Layers },
+        { name: '사용량 분석', href: '/analytics', icon: ChartLine },
+        { name: '요청 로그', href: '/logs', icon: ScrollText },
+        { name: '서버 로그', href: '/server-logs', icon: Terminal },
+        { name: '플레이그라운드', href: '/playground', icon: FlaskConical },
         { name: '애플리케이션 설정', href: '/settings', icon: Settings },
     ]
 
@@ -52,7 +57,10 @@ export function Layout() {
                             <SidebarGroupContent>
                                 <SidebarMenu>
                                     {navigation.map((item) => {
-                                        const isActive = location.pathname === item.href
+                                        const isActive =
+                                            item.href === "/"
+                                                ? location.pathname === "/"
+                                                : location.pathname.startsWith(item.href)
                                         return (
                                             <SidebarMenuItem key={item.name}>
                                                 <SidebarMenuButton asChild isActive={isActive}>
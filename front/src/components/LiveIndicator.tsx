@@ -0,0 +1,20 @@
+import { Badge } from '@/components/ui/badge'
+import { cn } from '@/lib/utils'
+
+interface LiveIndicatorProps {
+    connected: boolean
+    className?: string
+}
+
+export function LiveIndicator({ connected, className }: LiveIndicatorProps) {
+    return (
+        <Badge
+            variant='outline'
+            className={cn('gap-1.5 font-normal', className)}
+            title={connected ? '변경 사항이 자동으로 반영됩니다' : '실시간 업데이트 서버에 연결하는 중입니다'}
+        >
+            <span className={cn('h-2 w-2 rounded-full', connected ? 'bg-green-500 animate-pulse' : 'bg-muted-foreground')} />
+            {connected ? '실시간' : '연결 중...'}
+        </Badge>
+    )
+}
@@ -0,0 +1,66 @@
+import { AlertTriangle, Clock, XCircle } from 'lucide-react'
+import { useNow } from '@/hooks/use-now'
+import { formatCountdown } from '@/utils/time'
+
+// 백엔드는 만료 5분 전에 자동으로 갱신하므로 그 이후에도 남아 있으면 갱신이 실패하고 있는 것입니다
+const CRITICAL_THRESHOLD = 10 * 60 * 1000
+const WARNING_THRESHOLD = 60 * 60 * 1000
+
+type OAuthExpiryLevel = 'expired' | 'critical' | 'warning' | 'ok'
+
+/**
+ * Classifies how close an OAuth access token is to expiring
+ * @param expiresAt - Expiry as a Unix timestamp in seconds
+ * @param now - Current time in milliseconds
+ * @returns The expiry level
+ */
+function getOAuthExpiryLevel(expiresAt: number, now: number = Date.now()): OAuthExpiryLevel {
+    const remaining = expiresAt * 1000 - now
+    if (remaining <= 0) return 'expired'
+    if (remaining <= CRITICAL_THRESHOLD) return 'critical'
+    if (remaining <= WARNING_THRESHOLD) return 'warning'
+    return 'ok'
+}
+
+interface OAuthExpiryLabelProps {
+    expiresAt: number
+    className?: string
+}
+
+export function OAuthExpiryLabel({ expiresAt, className = '' }: OAuthExpiryLabelProps) {
+    const now = useNow()
+    const level = getOAuthExpiryLevel(expiresAt, now)
+    const title = `토큰 만료: ${new Date(expiresAt * 1000).toLocaleString('ko-KR')}`
+
+    if (level === 'expired') {
+        return (
+            <span className={`inline-flex items-center gap-1 text-xs text-destructive ${className}`} title={title}>
+                <XCircle className='h-3 w-3' />
+                토큰 만료됨
+            </span>
+        )
+    }
+
+    const remaining = formatCountdown(expiresAt * 1000 - now)
+
+    if (level === 'ok') {
+        return (
+            <span className={`inline-flex items-center gap-1 text-xs text-muted-foreground ${className}`} title={title}>
+                <Clock className='h-3 w-3' />
+                {remaining} 후 만료
+            </span>
+        )
+    }
+
+    return (
+        <span
+            className={`inline-flex items-center gap-1 text-xs font-mono tabular-nums ${
+                level === 'critical' ? 'text-destructive' : 'text-yellow-600'
+            } ${className}`}
+            title={title}
+        >
+            <AlertTriangle className='h-3 w-3' />
+            {remaining} 후 만료
+        </span>
+    )
+}
@@ -1,6 +1,7 @@
-import { useState } from 'react'
-import { ExternalLink, Info, Loader2, AlertCircle } from 'lucide-react'
+import { useEffect, useState } from 'react'
+import { ExternalLink, Info, Loader2, AlertCircle, Copy, Check, RotateCcw } from 'lucide-react'
 import { accountsApi } from '../api/client'
+import type { AccountResponse, OAuthConfig } from '@clove/sdk'
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
 import { Drawer, DrawerContent, DrawerDescription, DrawerFooter, DrawerHeader, DrawerTitle } from '@/components/ui/drawer'
 import { Button } from '@/components/ui/button'
@@ -9,50 +10,69 @@ import { Input } from '@/components/ui/input'
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import { useIsMobile } from '@/hooks/use-mobile'
-import { isValidUUID, formatUUID } from '@/utils/validators'
+import {
+    PLAN_CAPABILITIES,
+    buildAuthorizeUrl,
+    formatUUID,
+    generatePKCE,
+    generateState,
+    isValidUUID,
+    parseAuthorizationInput,
+} from '@clove/sdk'
+import {
+    clearPendingAuthorization,
+    loadPendingAuthorization,
+    savePendingAuthorization,
+    type PendingAuthorization,
+} from '@/utils/oauth'
 import { cn } from '@/lib/utils'
+import { toast } from 'sonner'
 
 interface OAuthModalProps {
+    // 지정하면 새 계정을 추가하는 대신 해당 계정을 재인증합니다
+    account?: AccountResponse | null
     onClose: () => void
 }
 
-// Claude OAuth constants
-const CLIENT_ID = '9d1c250a-e61b-44d9-88ed-5944d1962f5e'
-const AUTHORIZE_URL = 'https://claude.ai/oauth/authorize'
-const REDIRECT_URI = 'https://console.anthropic.com/oauth/code/callback'
-
-export function OAuthModal({ onClose }: OAuthModalProps) {
-    const [organizationUuid, setOrganizationUuid] = useState('')
-    const [accountType, setAccountType] = useState<'Pro' | 'Max'>('Pro')
+export function OAuthModal({ account, onClose }: OAuthModalProps) {
+    // 모달을 닫거나 새로 고침해도 진행 중인 인증을 이어갈 수 있도록 sessionStorage 에서 복원합니다
+    const [pending, setPending] = useState<PendingAuthorization | null>(() => {
+        const stored = loadPendingAuthorization()
+        // 재인증할 때는 같은 계정에 대한 진행 중인 인증만 이어갑니다
+        return !account || stored?.organizationUuid === account.organization_uuid ? stored : null
+    })
+    const [restored] = useState(() => pending !== null)
+    const [organizationUuid, setOrganizationUuid] = useState(
+        () => pending?.organizationUuid ?? account?.organization_uuid ?? '',
+    )
+    const [accountType, setAccountType] = useState<'Pro' | 'Max'>(
+        () => pending?.accountType ?? (account?.is_max ? 'Max' : 'Pro'),
+    )
     const [authCode, setAuthCode] = useState('')
     const [loading, setLoading] = useState(false)
     const [error, setError] = useState('')
     const [uuidError, setUuidError] = useState('')
-    const [step, setStep] = useState<'input' | 'code'>('input')
-    const [pkceVerifier, setPkceVerifier] = useState('')
+    const [step, setStep] = useState<'input' | 'code'>(() => (pending ? 'code' : 'input'))
+    const [oauthConfig, setOauthConfig] = useState<OAuthConfig | null>(null)
+    const [configLoading, setConfigLoading] = useState(true)
     const isMobile = useIsMobile()
 
-    // PKCE generation functions
-    const generatePKCE = () => {
-        // Generate random verifier
-        const array = new Uint8Array(32)
-        crypto.getRandomValues(array)
-        const verifier = btoa(String.fromCharCode.apply(null, Array.from(array)))
-            .replace(/\+/g, '-')
-            .replace(/\//g, '_')
-            .replace(/=/g, '')
+    // 설정된 OAuth 클라이언트 및 엔드포인트를 불러옵니다
+    useEffect(() => {
+        const loadConfig = async () => {
+            try {
+                const response = await accountsApi.getOAuthConfig()
+                setOauthConfig(response.data)
+            } catch (err) {
+                console.error('Failed to load OAuth config:', err)
+                setError('OAuth 설정을 불러오지 못했습니다')
+            } finally {
+                setConfigLoading(false)
+            }
+        }
 
-        // Generate challenge
-        const encoder = new TextEncoder()
-        const data = encoder.encode(verifier)
-        return crypto.subtle.digest('SHA-256', data).then(buffer => {
-            const challenge = btoa(String.fromCharCode.apply(null, Array.from(new Uint8Array(buffer))))
-                .replace(/\+/g, '-')
-                .replace(/\//g, '_')
-                .replace(/=/g, '')
-            return { verifier, challenge }
-        })
-    }
+        loadConfig()
+    }, [])
 
     const handleGenerateUrl = async () => {
         if (!organizationUuid.trim()) {
@@ -60,30 +80,29 @@ export function OAuthModal({ onClose }: OAuthModalProps) {
             return
         }
 
+        if (!oauthConfig) {
+            setError('OAuth 설정을 불러오지 못했습니다')
+            return
+        }
+
         setLoading(true)
         setError('')
 
         try {
             const { verifier, challenge } = await generatePKCE()
-            setPkceVerifier(verifier)
-
-            // Build authorization URL
-            const params = new URLSearchParams({
-                response_type: 'code',
-                client_id: CLIENT_ID,
-                organization_uuid: formatUUID(organizationUuid),
-                redirect_uri: REDIRECT_URI,
-                scope: 'user:profile user:inference',
-                state: verifier,
-                code_challenge: challenge,
-                code_challenge_method: 'S256',
-            })
-
-            const authUrl = `${AUTHORIZE_URL}?${params.toString()}`
-
-            // Open in new window
-            window.open(authUrl, '_blank', 'width=600,height=700')
+            const state = generateState()
 
+            // 열기 전에 사용자가 URL을 확인할 수 있도록 미리 보기로 표시합니다
+            const nextPending: PendingAuthorization = {
+                organizationUuid: formatUUID(organizationUuid),
+                accountType,
+                verifier,
+                state,
+                authUrl: buildAuthorizeUrl(oauthConfig, { organizationUuid: formatUUID(organizationUuid), challenge, state }),
+                createdAt: Date.now(),
+            }
+            savePendingAuthorization(nextPending)
+            setPending(nextPending)
             setStep('code')
         } catch (err) {
             setError('인증 URL 생성 실패')
@@ -93,9 +112,47 @@ export function OAuthModal({ onClose }: OAuthModalProps) {
         }
     }
 
+    const openAuthUrl = () => {
+        if (!pending) return
+        window.open(pending.authUrl, '_blank', 'width=600,height=700')
+    }
+
+    const copyAuthUrl = async () => {
+        if (!pending) return
+        try {
+            await navigator.clipboard.writeText(pending.authUrl)
+            toast.success('인증 URL을 복사했습니다', {
+                icon: <Check className='h-4 w-4' />,
+            })
+        } catch (err) {
+            console.error('Failed to copy:', err)
+            toast.error('복사 실패')
+        }
+    }
+
+    const handleRestart = () => {
+        clearPendingAuthorization()
+        setPending(null)
+        setAuthCode('')
+        setError('')
+        setStep('input')
+    }
+
     const handleExchangeToken = async () => {
-        if (!authCode.trim()) {
-            setError('인증 코드를 입력하세요')
+        if (!pending) {
+            setStep('input')
+            return
+        }
+
+        const input = parseAuthorizationInput(authCode)
+        if (!input) {
+            setError('인증 코드 또는 콜백 URL을 인식할 수 없습니다')
+            return
+        }
+
+        // 다른 인증 요청에서 발급된 코드가 섞이지 않도록 state 를 확인합니다
+        if (input.state && input.state !== pending.state) {
+            setError('state 값이 일치하지 않습니다. 이 인증 요청으로 발급된 코드인지 확인하거나 인증을 다시 시작하세요')
             return
         }
 
@@ -105,14 +162,14 @@ export function OAuthModal({ onClose }: OAuthModalProps) {
         try {
             // 토큰 교환을 위해 코드를 백엔드로 보냅니다
             const exchangeData = {
-                organization_uuid: formatUUID(organizationUuid),
-                code: authCode,
-                pkce_verifier: pkceVerifier,
-                capabilities:
-                    accountType === 'Max' ? ['chat', 'claude_max'] : accountType === 'Pro' ? ['chat', 'claude_pro'] : ['chat'],
+                organization_uuid: pending.organizationUuid,
+                code: `${input.code}#${pending.state}`,
+                pkce_verifier: pending.verifier,
+                capabilities: PLAN_CAPABILITIES[pending.accountType === 'Max' ? 'max' : 'pro'],
             }
 
             await accountsApi.exchangeOAuthCode(exchangeData)
+            clearPendingAuthorization()
             onClose()
         } catch (err) {
             console.error('OAuth exchange error:', err)
@@ -141,6 +198,7 @@ export function OAuthModal({ onClose }: OAuthModalProps) {
                             id='organization_uuid'
                             placeholder='Organization UUID를 입력하세요'
                             value={organizationUuid}
+                            readOnly={!!account}
                             onChange={e => {
                                 const value = e.target.value
                                 setOrganizationUuid(value)
@@ -164,6 +222,19 @@ export function OAuthModal({ onClose }: OAuthModalProps) {
                         )}
                     </div>
 
+                    {oauthConfig && (
+                        <div className='space-y-1 text-sm'>
+                            <div className='flex justify-between gap-4'>
+                                <span className='text-muted-foreground shrink-0'>인증 엔드포인트</span>
+                                <span className='font-mono text-xs break-all text-right'>{oauthConfig.authorize_url}</span>
+                            </div>
+                            <div className='flex justify-between gap-4'>
+                                <span className='text-muted-foreground shrink-0'>Client ID</span>
+                                <span className='font-mono text-xs break-all text-right'>{oauthConfig.client_id}</span>
+                            </div>
+                        </div>
+                    )}
+
                     <div className='space-y-2'>
                         <Label htmlFor='accountType'>계정 유형</Label>
                         <Select value={accountType} onValueChange={value => setAccountType(value as any)}>
@@ -186,12 +257,36 @@ export function OAuthModal({ onClose }: OAuthModalProps) {
                 </div>
             ) : (
                 <div className='grid gap-4'>
-                    <Alert>
-                        <Info className='h-4 w-4' />
-                        <AlertDescription>
-                            새 창에서 인증 페이지가 열렸습니다. 인증을 완료한 후 인증 코드를 복사하여 아래 입력란에 붙여넣으세요.
-                        </AlertDescription>
-                    </Alert>
+                    {restored && (
+                        <Alert>
+                            <Info className='h-4 w-4' />
+                            <AlertDescription>
+                                이전에 시작한 인증을 이어서 진행합니다 ({pending?.organizationUuid}). 다른 계정을 추가하려면
+                                인증을 다시 시작하세요.
+                            </AlertDescription>
+                        </Alert>
+                    )}
+
+                    <div className='space-y-2'>
+                        <Label>인증 URL</Label>
+                        <div className='rounded-md border bg-muted px-3 py-2 font-mono text-xs break-all max-h-32 overflow-y-auto'>
+                            {pending?.authUrl}
+                        </div>
+                        <div className='flex gap-2'>
+                            <Button type='button' variant='outline' size='sm' className='flex-1' onClick={copyAuthUrl}>
+                                <Copy className='mr-2 h-4 w-4' />
+                                URL 복사
+                            </Button>
+                            <Button type='button' size='sm' className='flex-1' onClick={openAuthUrl}>
+                                <ExternalLink className='mr-2 h-4 w-4' />
+                                인증 페이지 열기
+                            </Button>
+                        </div>
+                        <p className='text-sm text-muted-foreground'>
+                            URL을 확인한 후 인증 페이지를 열어 인증을 완료하고, 표시되는 인증 코드 또는 이동된 콜백 페이지의 주소를
+                            아래 입력란에 붙여넣으세요.
+                        </p>
+                    </div>
 
                     <div className='space-y-2'>
                         <Label htmlFor='auth_code'>
@@ -199,11 +294,12 @@ export function OAuthModal({ onClose }: OAuthModalProps) {
                         </Label>
                         <Input
                             id='auth_code'
-                            placeholder='인증 코드를 붙여넣으세요'
+                            placeholder='인증 코드, code#state 또는 콜백 URL'
                             value={authCode}
                             onChange={e => setAuthCode(e.target.value)}
                             className='font-mono'
                         />
+                        <p className='text-sm text-muted-foreground'>state 값이 포함된 경우 이 인증 요청과 일치하는지 확인합니다</p>
                     </div>
 
                     {error && (
@@ -225,27 +321,29 @@ export function OAuthModal({ onClose }: OAuthModalProps) {
             {step === 'input' ? (
                 <Button
                     onClick={handleGenerateUrl}
-                    disabled={loading || !organizationUuid.trim() || !isValidUUID(formatUUID(organizationUuid))}
+                    disabled={loading || configLoading || !oauthConfig || !isValidUUID(formatUUID(organizationUuid))}
                 >
-                    {loading && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
-                    {loading ? (
-                        '생성 중...'
-                    ) : (
-                        <>
-                            <ExternalLink className='mr-2 h-4 w-4' />
-                            인증 시작
-                        </>
-                    )}
+                    {(loading || configLoading) && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+                    {loading ? '생성 중...' : '인증 URL 생성'}
                 </Button>
             ) : (
-                <Button onClick={handleExchangeToken} disabled={loading || !authCode.trim()}>
-                    {loading && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
-                    {loading ? '확인 중...' : '인증 완료'}
-                </Button>
+                <>
+                    <Button type='button' variant='outline' onClick={handleRestart} disabled={loading}>
+                        <RotateCcw className='mr-2 h-4 w-4' />
+                        다시 시작
+                    </Button>
+                    <Button onClick={handleExchangeToken} disabled={loading || !authCode.trim()}>
+                        {loading && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+                        {loading ? '확인 중...' : '인증 완료'}
+                    </Button>
+                </>
             )}
         </>
     )
 
+    const title = account ? 'OAuth 재인증' : 'OAuth 로그인'
+    const description = account ? '계정의 OAuth 토큰을 다시 발급받습니다' : 'OAuth 방식으로 Claude 계정 추가'
+
     if (isMobile === undefined) {
         return null
     }
@@ -255,8 +353,8 @@ export function OAuthModal({ onClose }: OAuthModalProps) {
             <Dialog open={true} onOpenChange={onClose}>
                 <DialogContent className='sm:max-w-[600px]'>
                     <DialogHeader>
-                        <DialogTitle>OAuth 로그인</DialogTitle>
-                        <DialogDescription>OAuth 방식으로 Claude 계정 추가</DialogDescription>
+                        <DialogTitle>{title}</DialogTitle>
+                        <DialogDescription>{description}</DialogDescription>
                     </DialogHeader>
                     {formContent}
                     <DialogFooter>{footerContent}</DialogFooter>
@@ -270,8 +368,8 @@ export function OAuthModal({ onClose }: OAuthModalProps) {
             <DrawerContent>
                 <div className='max-h-[90vh] overflow-auto'>
                     <DrawerHeader>
-                        <DrawerTitle>OAuth 로그인</DrawerTitle>
-                        <DrawerDescription>OAuth 방식으로 Claude 계정 추가</DrawerDescription>
+                        <DrawerTitle>{title}</DrawerTitle>
+                        <DrawerDescription>{description}</DrawerDescription>
                     </DrawerHeader>
                     <div className='px-4'>{formContent}</div>
                     <DrawerFooter className='flex-row justify-end space-x-2'>{footerContent}</DrawerFooter>
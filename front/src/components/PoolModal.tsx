@@ -0,0 +1,241 @@
+import { useState } from 'react'
+import { Info, Loader2, Search } from 'lucide-react'
+import type { AccountPool, AccountResponse } from '@clove/sdk'
+import { poolsApi } from '../api/client'
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Drawer, DrawerContent, DrawerDescription, DrawerFooter, DrawerHeader, DrawerTitle } from '@/components/ui/drawer'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AccountTypeBadge, StatusLabel } from './AccountLabels'
+import { useIsMobile } from '@/hooks/use-mobile'
+import { maskApiKey } from '@/utils/api-keys'
+
+interface PoolModalProps {
+    pool: AccountPool | null
+    accounts: AccountResponse[]
+    apiKeys: string[]
+    adminApiKeys: string[]
+    onClose: () => void
+}
+
+export function PoolModal({ pool, accounts, apiKeys, adminApiKeys, onClose }: PoolModalProps) {
+    const [name, setName] = useState(pool?.name ?? '')
+    const [description, setDescription] = useState(pool?.description ?? '')
+    const [selectedUuids, setSelectedUuids] = useState<Set<string>>(new Set(pool?.organization_uuids))
+    // 설정에서 삭제된 키는 저장 시 풀에서 제거됩니다
+    const [selectedKeys, setSelectedKeys] = useState<Set<string>>(
+        new Set(pool?.api_keys.filter(key => apiKeys.includes(key) || adminApiKeys.includes(key))),
+    )
+    const [search, setSearch] = useState('')
+    const [loading, setLoading] = useState(false)
+    const isMobile = useIsMobile()
+
+    const query = search.trim().toLowerCase()
+    const visibleAccounts = query
+        ? accounts.filter(
+              account =>
+                  account.organization_uuid.toLowerCase().includes(query) ||
+                  account.labels.some(label => label.toLowerCase().includes(query)),
+          )
+        : accounts
+
+    const toggle = (set: Set<string>, value: string, checked: boolean) => {
+        const next = new Set(set)
+        if (checked) {
+            next.add(value)
+        } else {
+            next.delete(value)
+        }
+        return next
+    }
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+        setLoading(true)
+
+        const poolData = {
+            name: name.trim(),
+            description: description.trim(),
+            organization_uuids: [...selectedUuids],
+            api_keys: [...selectedKeys],
+        }
+
+        try {
+            if (pool) {
+                await poolsApi.update(pool.pool_id, poolData)
+            } else {
+                await poolsApi.create(poolData)
+            }
+            onClose()
+        } catch (error) {
+            console.error('Failed to save pool:', error)
+        } finally {
+            setLoading(false)
+        }
+    }
+
+    const renderKeyOption = (key: string, admin: boolean) => (
+        <label key={key} className='flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-muted/50'>
+            <Checkbox
+                checked={selectedKeys.has(key)}
+                onCheckedChange={checked => setSelectedKeys(prev => toggle(prev, key, checked === true))}
+            />
+            <code className='flex-1 text-sm font-mono'>{maskApiKey(key)}</code>
+            {admin && <Badge variant='secondary'>관리자</Badge>}
+        </label>
+    )
+
+    const formContent = (
+        <div className='grid gap-4 py-4'>
+            <div className='space-y-2'>
+                <Label htmlFor='pool-name'>
+                    이름 <span className='text-destructive'>*</span>
+                </Label>
+                <Input
+                    id='pool-name'
+                    placeholder='예: 개발팀'
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                    required
+                />
+            </div>
+
+            <div className='space-y-2'>
+                <Label htmlFor='pool-description'>설명</Label>
+                <Textarea
+                    id='pool-description'
+                    placeholder='이 풀을 사용하는 팀이나 용도'
+                    value={description}
+                    onChange={e => setDescription(e.target.value)}
+                    className='min-h-[60px] text-sm'
+                />
+            </div>
+
+            <div className='space-y-2'>
+                <div className='flex items-center justify-between'>
+                    <Label>계정</Label>
+                    <span className='text-sm text-muted-foreground'>{selectedUuids.size}개 선택됨</span>
+                </div>
+                <div className='relative'>
+                    <Search className='absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground' />
+                    <Input
+                        placeholder='UUID 또는 라벨 검색...'
+                        value={search}
+                        onChange={e => setSearch(e.target.value)}
+                        className='pl-9'
+                    />
+                </div>
+                <div className='max-h-56 overflow-auto rounded-md border divide-y'>
+                    {visibleAccounts.length === 0 ? (
+                        <p className='px-3 py-4 text-sm text-center text-muted-foreground'>계정이 없습니다</p>
+                    ) : (
+                        visibleAccounts.map(account => (
+                            <label
+                                key={account.organization_uuid}
+                                className='flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-muted/50'
+                            >
+                                <Checkbox
+                                    checked={selectedUuids.has(account.organization_uuid)}
+                                    onCheckedChange={checked =>
+                                        setSelectedUuids(prev => toggle(prev, account.organization_uuid, checked === true))
+                                    }
+                                />
+                                <div className='flex-1 min-w-0 space-y-1'>
+                                    <p className='font-mono text-xs truncate'>{account.organization_uuid}</p>
+                                    <div className='flex flex-wrap items-center gap-2 text-xs text-muted-foreground'>
+                                        <StatusLabel status={account.status} />
+                                        {account.pools
+                                            .filter(accountPool => accountPool.pool_id !== pool?.pool_id)
+                                            .map(accountPool => (
+                                                <span key={accountPool.pool_id}>· {accountPool.name}</span>
+                                            ))}
+                                    </div>
+                                </div>
+                                <AccountTypeBadge account={account} />
+                            </label>
+                        ))
+                    )}
+                </div>
+            </div>
+
+            <div className='space-y-2'>
+                <div className='flex items-center justify-between'>
+                    <Label>API 키</Label>
+                    <span className='text-sm text-muted-foreground'>{selectedKeys.size}개 연결됨</span>
+                </div>
+                {apiKeys.length + adminApiKeys.length === 0 ? (
+                    <p className='text-sm text-muted-foreground'>설정에서 API 키를 먼저 추가하세요</p>
+                ) : (
+                    <div className='max-h-40 overflow-auto rounded-md border divide-y'>
+                        {apiKeys.map(key => renderKeyOption(key, false))}
+                        {adminApiKeys.map(key => renderKeyOption(key, true))}
+                    </div>
+                )}
+            </div>
+
+            <Alert>
+                <Info className='h-4 w-4' />
+                <AlertDescription>
+                    연결된 API 키는 이 키가 속한 풀의 계정만 사용합니다. 어떤 풀에도 연결되지 않은 키는 풀에 속하지 않은 계정을
+                    사용합니다.
+                </AlertDescription>
+            </Alert>
+        </div>
+    )
+
+    const footerContent = (
+        <>
+            <Button type='button' variant='outline' onClick={onClose}>
+                취소
+            </Button>
+            <Button type='submit' disabled={loading || !name.trim()}>
+                {loading && <Loader2 className='mr-2 h-4 w-4 animate-spin' />}
+                {loading ? '저장 중...' : '저장'}
+            </Button>
+        </>
+    )
+
+    const title = pool ? '계정 풀 편집' : '계정 풀 만들기'
+    const modalDescription = '풀에 포함할 계정과 이 풀을 사용할 API 키를 선택하세요'
+
+    if (isMobile === undefined) {
+        return null
+    }
+
+    if (!isMobile) {
+        return (
+            <Dialog open={true} onOpenChange={onClose}>
+                <DialogContent className='sm:max-w-[600px] max-h-[90vh] overflow-y-auto'>
+                    <form onSubmit={handleSubmit}>
+                        <DialogHeader>
+                            <DialogTitle>{title}</DialogTitle>
+                            <DialogDescription>{modalDescription}</DialogDescription>
+                        </DialogHeader>
+                        {formContent}
+                        <DialogFooter>{footerContent}</DialogFooter>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        )
+    }
+
+    return (
+        <Drawer open={true} onOpenChange={onClose}>
+            <DrawerContent>
+                <form onSubmit={handleSubmit} className='max-h-[90vh] overflow-auto'>
+                    <DrawerHeader>
+                        <DrawerTitle>{title}</DrawerTitle>
+                        <DrawerDescription>{modalDescription}</DrawerDescription>
+                    </DrawerHeader>
+                    <div className='px-4'>{formContent}</div>
+                    <DrawerFooter className='flex-row justify-end space-x-2'>{footerContent}</DrawerFooter>
+                </form>
+            </DrawerContent>
+        </Drawer>
+    )
+}
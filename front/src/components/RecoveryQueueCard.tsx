@@ -0,0 +1,92 @@
+import { Link } from 'react-router-dom'
+import { Hourglass } from 'lucide-react'
+import { ResetCountdown } from './ResetCountdown'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useLiveAccounts } from '@/hooks/use-live-accounts'
+import {
+    applyAccountFilters,
+    DEFAULT_ACCOUNT_FILTERS,
+    toAccountFilterParams,
+    type AccountFilters,
+} from '@/utils/account-filters'
+import { formatDateTime } from '@/utils/time'
+
+const MAX_VISIBLE_ACCOUNTS = 5
+
+// 재설정 시간이 가장 빠른 속도 제한 계정부터 표시합니다
+const RECOVERY_FILTERS: AccountFilters = {
+    ...DEFAULT_ACCOUNT_FILTERS,
+    status: 'rate_limited',
+    sort: 'resets_at',
+    order: 'asc',
+}
+
+export function RecoveryQueueCard() {
+    const { accounts, loading } = useLiveAccounts()
+    const queue = applyAccountFilters(accounts, RECOVERY_FILTERS)
+    const visible = queue.slice(0, MAX_VISIBLE_ACCOUNTS)
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className='flex items-center space-x-4'>
+                    <div className='p-3 rounded-lg bg-yellow-50'>
+                        <Hourglass className='h-6 w-6 text-yellow-500' />
+                    </div>
+                    <div className='space-y-1'>
+                        <CardTitle>다음 복구 예정 계정</CardTitle>
+                        <CardDescription>속도 제한이 해제될 예정인 계정과 재설정 시간</CardDescription>
+                    </div>
+                </div>
+            </CardHeader>
+            <CardContent>
+                {loading ? (
+                    <div className='space-y-3'>
+                        {[...Array(3)].map((_, i) => (
+                            <Skeleton key={i} className='h-10 w-full' />
+                        ))}
+                    </div>
+                ) : queue.length === 0 ? (
+                    <p className='text-sm text-muted-foreground'>속도 제한 중인 계정이 없습니다</p>
+                ) : (
+                    <div className='space-y-3'>
+                        <div className='divide-y'>
+                            {visible.map(account => (
+                                <div
+                                    key={account.organization_uuid}
+                                    className='flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 py-2'
+                                >
+                                    <Link
+                                        to={`/accounts/${account.organization_uuid}`}
+                                        className='font-mono text-xs truncate hover:underline'
+                                    >
+                                        {account.organization_uuid}
+                                    </Link>
+                                    <div className='flex items-center gap-3 shrink-0'>
+                                        <span className='text-xs text-muted-foreground'>
+                                            {formatDateTime(account.resets_at)}
+                                        </span>
+                                        {account.resets_at ? (
+                                            <ResetCountdown resetsAt={account.resets_at} />
+                                        ) : (
+                                            <span className='text-xs text-muted-foreground'>재설정 시간 알 수 없음</span>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <Button asChild variant='outline' className='w-full'>
+                            <Link to={`/accounts?${toAccountFilterParams(RECOVERY_FILTERS)}`}>
+                                {queue.length > MAX_VISIBLE_ACCOUNTS
+                                    ? `속도 제한 계정 ${queue.length}개 모두 보기`
+                                    : '계정 관리에서 보기'}
+                            </Link>
+                        </Button>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    )
+}
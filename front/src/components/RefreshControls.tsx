@@ -0,0 +1,83 @@
+import { Pause, Play, RefreshCw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useNow } from '@/hooks/use-now'
+import { formatRelativeTime } from '@/utils/time'
+import { cn } from '@/lib/utils'
+
+const REFRESH_INTERVALS = [
+    { value: 5000, label: '5초' },
+    { value: 15000, label: '15초' },
+    { value: 30000, label: '30초' },
+    { value: 60000, label: '1분' },
+    { value: 300000, label: '5분' },
+]
+
+interface RefreshControlsProps {
+    interval: number
+    onIntervalChange: (interval: number) => void
+    paused: boolean
+    onPausedChange: (paused: boolean) => void
+    onRefresh: () => void
+    lastUpdated: number | null
+    nextPollAt: number | null
+    failures: number
+    polling: boolean
+}
+
+export function RefreshControls({
+    interval,
+    onIntervalChange,
+    paused,
+    onPausedChange,
+    onRefresh,
+    lastUpdated,
+    nextPollAt,
+    failures,
+    polling,
+}: RefreshControlsProps) {
+    const now = useNow()
+
+    const status = (() => {
+        if (failures > 0 && nextPollAt && !paused) {
+            return `연결 실패 · ${formatRelativeTime(nextPollAt, now)} 다시 시도`
+        }
+        if (lastUpdated === null) return '업데이트 기록 없음'
+        return `마지막 업데이트 ${formatRelativeTime(lastUpdated, now)}`
+    })()
+
+    return (
+        <div className='flex flex-wrap items-center gap-2'>
+            <span
+                className={cn('text-sm', failures > 0 ? 'text-destructive' : 'text-muted-foreground')}
+                title={lastUpdated ? new Date(lastUpdated).toLocaleString('ko-KR') : undefined}
+            >
+                {status}
+            </span>
+            <Select value={String(interval)} onValueChange={value => onIntervalChange(Number(value))}>
+                <SelectTrigger className='w-[110px]' size='sm' aria-label='새로고침 간격'>
+                    <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                    {REFRESH_INTERVALS.map(option => (
+                        <SelectItem key={option.value} value={String(option.value)}>
+                            {option.label}마다
+                        </SelectItem>
+                    ))}
+                </SelectContent>
+            </Select>
+            <Button
+                variant='outline'
+                size='icon'
+                className='h-8 w-8'
+                onClick={() => onPausedChange(!paused)}
+                title={paused ? '자동 새로고침 재개' : '자동 새로고침 일시 정지'}
+            >
+                {paused ? <Play className='h-4 w-4' /> : <Pause className='h-4 w-4' />}
+            </Button>
+            <Button variant='outline' size='icon' className='h-8 w-8' onClick={onRefresh} disabled={polling} title='지금 새로고침'>
+                <RefreshCw className={cn('h-4 w-4', polling && 'animate-spin')} />
+            </Button>
+        </div>
+    )
+}
@@ -0,0 +1,187 @@
+import { useEffect, useState, type ReactNode } from 'react'
+import { Link } from 'react-router-dom'
+import { AlertTriangle, CheckCircle2, MinusCircle, XCircle } from 'lucide-react'
+import type { PipelineStep, RequestLogDetail } from '@clove/sdk'
+import { requestLogsApi } from '../api/client'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { PATH_LABELS, formatLatency } from '@/utils/analytics'
+import { formatDateTime } from '@/utils/time'
+
+interface RequestLogSheetProps {
+    requestId: string | null
+    onClose: () => void
+}
+
+const STEP_ICONS: Record<PipelineStep['status'], ReactNode> = {
+    completed: <CheckCircle2 className='h-4 w-4 text-green-500' />,
+    skipped: <MinusCircle className='h-4 w-4 text-muted-foreground' />,
+    failed: <XCircle className='h-4 w-4 text-destructive' />,
+}
+
+const formatPayload = (payload: unknown) => (typeof payload === 'string' ? payload : JSON.stringify(payload, null, 2))
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+    return (
+        <section className='space-y-2'>
+            <h3 className='text-sm font-medium'>{title}</h3>
+            {children}
+        </section>
+    )
+}
+
+function Payload({ value }: { value: unknown }) {
+    if (value === null || value === undefined) {
+        return <p className='text-sm text-muted-foreground'>기록된 내용이 없습니다</p>
+    }
+    return (
+        <pre className='max-h-96 overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap break-all'>
+            {formatPayload(value)}
+        </pre>
+    )
+}
+
+export function RequestLogSheet({ requestId, onClose }: RequestLogSheetProps) {
+    const [detail, setDetail] = useState<RequestLogDetail | null>(null)
+
+    useEffect(() => {
+        if (!requestId) return
+
+        let cancelled = false
+        setDetail(null)
+        requestLogsApi
+            .get(requestId)
+            .then(response => {
+                if (!cancelled) setDetail(response.data)
+            })
+            .catch(error => {
+                console.error('Failed to load request log:', error)
+                if (!cancelled) onClose()
+            })
+
+        return () => {
+            cancelled = true
+        }
+    }, [requestId, onClose])
+
+    const fields = detail
+        ? [
+              { name: '시각', value: formatDateTime(detail.timestamp) },
+              { name: 'API 키', value: detail.api_key_id ? (detail.api_key_name ?? '삭제된 키') : '관리자 키' },
+              {
+                  name: '계정',
+                  value: detail.organization_uuid ? (
+                      <Link to={`/accounts/${detail.organization_uuid}`} className='font-mono hover:underline'>
+                          {detail.organization_uuid}
+                      </Link>
+                  ) : (
+                      '계정 미배정'
+                  ),
+              },
+              { name: '모델', value: detail.model },
+              { name: '방식', value: detail.stream ? '스트리밍' : '비스트리밍' },
+              { name: '경로', value: detail.path ? PATH_LABELS[detail.path] : '-' },
+              { name: '지연 시간', value: formatLatency(detail.latency_ms) },
+              {
+                  name: '토큰 (입력 / 출력)',
+                  value: `${detail.input_tokens.toLocaleString('ko-KR')} / ${detail.output_tokens.toLocaleString('ko-KR')}`,
+              },
+          ]
+        : []
+
+    return (
+        <Sheet open={requestId !== null} onOpenChange={open => !open && onClose()}>
+            <SheetContent className='w-full sm:max-w-2xl overflow-y-auto'>
+                <SheetHeader>
+                    <SheetTitle className='flex items-center gap-2'>
+                        요청 상세
+                        {detail && (
+                            <Badge variant={detail.status === 'success' ? 'secondary' : 'destructive'}>
+                                {detail.status === 'success' ? '성공' : '실패'}
+                            </Badge>
+                        )}
+                    </SheetTitle>
+                    <SheetDescription className='font-mono text-xs'>{requestId}</SheetDescription>
+                </SheetHeader>
+
+                {!detail ? (
+                    <div className='space-y-4 px-4 pb-4'>
+                        <Skeleton className='h-32 w-full' />
+                        <Skeleton className='h-48 w-full' />
+                    </div>
+                ) : (
+                    <div className='space-y-6 px-4 pb-4'>
+                        <dl className='grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm'>
+                            {fields.map(field => (
+                                <div key={field.name} className='contents'>
+                                    <dt className='text-muted-foreground'>{field.name}</dt>
+                                    <dd className='min-w-0 break-all'>{field.value}</dd>
+                                </div>
+                            ))}
+                        </dl>
+
+                        {detail.error_message && (
+                            <Alert variant='destructive'>
+                                <AlertTriangle className='h-4 w-4' />
+                                <AlertDescription>
+                                    {detail.error_code && <span className='font-mono'>{detail.error_code} · </span>}
+                                    {detail.error_message}
+                                </AlertDescription>
+                            </Alert>
+                        )}
+
+                        {!detail.detail_available ? (
+                            <p className='text-sm text-muted-foreground'>
+                                요청 본문과 응답은 최근 요청에 대해서만 서버 메모리에 보관되며, 서버를 다시 시작하면
+                                사라집니다
+                            </p>
+                        ) : (
+                            <>
+                                <Section title='파이프라인 단계'>
+                                    <ol className='space-y-1 text-sm'>
+                                        {detail.pipeline_steps.map((step, index) => (
+                                            <li key={index} className='flex items-center gap-2'>
+                                                {STEP_ICONS[step.status]}
+                                                <span
+                                                    className={step.status === 'skipped' ? 'text-muted-foreground' : undefined}
+                                                >
+                                                    {step.processor}
+                                                </span>
+                                                {step.stopped_pipeline && <Badge variant='outline'>파이프라인 종료</Badge>}
+                                                {step.duration_ms !== null && step.duration_ms !== undefined && (
+                                                    <span className='ml-auto font-mono text-xs text-muted-foreground'>
+                                                        {step.duration_ms}ms
+                                                    </span>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ol>
+                                </Section>
+
+                                <Section title='요청 본문'>
+                                    <Payload value={detail.request_body} />
+                                </Section>
+
+                                <Section title='응답'>
+                                    <Payload value={detail.response} />
+                                </Section>
+
+                                {detail.error && (
+                                    <Section title='오류'>
+                                        <Payload value={detail.error} />
+                                    </Section>
+                                )}
+
+                                <p className='text-xs text-muted-foreground'>
+                                    API 키, 쿠키, 토큰과 이미지 데이터는 가려서 표시됩니다
+                                </p>
+                            </>
+                        )}
+                    </div>
+                )}
+            </SheetContent>
+        </Sheet>
+    )
+}
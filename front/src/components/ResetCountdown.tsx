@@ -0,0 +1,32 @@
+import { Loader2, Timer } from 'lucide-react'
+import { useNow } from '@/hooks/use-now'
+import { formatCountdown } from '@/utils/time'
+
+interface ResetCountdownProps {
+    resetsAt: string
+    className?: string
+}
+
+export function ResetCountdown({ resetsAt, className = '' }: ResetCountdownProps) {
+    const now = useNow()
+    const remaining = new Date(resetsAt).getTime() - now
+
+    if (remaining <= 0) {
+        return (
+            <span className={`inline-flex items-center gap-1 text-xs text-muted-foreground ${className}`}>
+                <Loader2 className='h-3 w-3 animate-spin' />
+                복구 중...
+            </span>
+        )
+    }
+
+    return (
+        <span
+            className={`inline-flex items-center gap-1 text-xs font-mono tabular-nums text-yellow-600 ${className}`}
+            title={new Date(resetsAt).toLocaleString('ko-KR')}
+        >
+            <Timer className='h-3 w-3' />
+            {formatCountdown(remaining)}
+        </span>
+    )
+}
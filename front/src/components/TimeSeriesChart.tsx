@@ -0,0 +1,164 @@
+import { useEffect, useRef, useState } from 'react'
+
+export interface ChartSeries {
+    key: string
+    label: string
+    color: string
+    values: (number | null)[]
+}
+
+interface TimeSeriesChartProps {
+    timestamps: string[]
+    series: ChartSeries[]
+    formatValue: (value: number) => string
+    formatTime: (timestamp: string) => string
+    height?: number
+}
+
+const PADDING = { top: 12, right: 12, bottom: 24, left: 52 }
+const Y_TICKS = 4
+const X_TICKS = 6
+
+// 눈금이 읽기 쉬운 값(1, 2, 5 단위)에 떨어지도록 최댓값을 올림
+const niceMax = (value: number) => {
+    if (value <= 0) return 1
+    const magnitude = 10 ** Math.floor(Math.log10(value))
+    const step = [1, 2, 5, 10].find(step => value <= step * magnitude) ?? 10
+    return step * magnitude
+}
+
+export function TimeSeriesChart({ timestamps, series, formatValue, formatTime, height = 220 }: TimeSeriesChartProps) {
+    const containerRef = useRef<HTMLDivElement>(null)
+    const [width, setWidth] = useState(0)
+    const [hoverIndex, setHoverIndex] = useState<number | null>(null)
+
+    useEffect(() => {
+        const container = containerRef.current
+        if (!container) return
+
+        const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width))
+        observer.observe(container)
+        return () => observer.disconnect()
+    }, [])
+
+    const plotWidth = Math.max(width - PADDING.left - PADDING.right, 0)
+    const plotHeight = height - PADDING.top - PADDING.bottom
+    const maxValue = niceMax(Math.max(0, ...series.flatMap(item => item.values.map(value => value ?? 0))))
+
+    const x = (index: number) => PADDING.left + (timestamps.length > 1 ? (index / (timestamps.length - 1)) * plotWidth : 0)
+    const y = (value: number) => PADDING.top + plotHeight - (value / maxValue) * plotHeight
+
+    // 값이 없는 구간에서는 선을 끊어 표시
+    const buildPath = (values: (number | null)[]) =>
+        values
+            .map((value, index) => {
+                if (value === null) return ''
+                const command = index === 0 || values[index - 1] === null ? 'M' : 'L'
+                return `${command}${x(index).toFixed(1)},${y(value).toFixed(1)}`
+            })
+            .join('')
+
+    const handleMouseMove = (e: React.MouseEvent<SVGSVGElement>) => {
+        if (timestamps.length === 0 || plotWidth === 0) return
+        const rect = e.currentTarget.getBoundingClientRect()
+        const ratio = (e.clientX - rect.left - PADDING.left) / plotWidth
+        setHoverIndex(Math.min(Math.max(Math.round(ratio * (timestamps.length - 1)), 0), timestamps.length - 1))
+    }
+
+    const xTickIndexes = timestamps.length
+        ? [...new Set(Array.from({ length: X_TICKS }, (_, i) => Math.round((i / (X_TICKS - 1)) * (timestamps.length - 1))))]
+        : []
+
+    return (
+        <div ref={containerRef} className='relative w-full' style={{ height }}>
+            {width > 0 && (
+                <svg
+                    width={width}
+                    height={height}
+                    className='text-muted-foreground'
+                    onMouseMove={handleMouseMove}
+                    onMouseLeave={() => setHoverIndex(null)}
+                >
+                    {Array.from({ length: Y_TICKS + 1 }, (_, i) => {
+                        const value = (maxValue / Y_TICKS) * i
+                        return (
+                            <g key={i}>
+                                <line
+                                    x1={PADDING.left}
+                                    x2={PADDING.left + plotWidth}
+                                    y1={y(value)}
+                                    y2={y(value)}
+                                    stroke='currentColor'
+                                    strokeOpacity={0.15}
+                                />
+                                <text
+                                    x={PADDING.left - 6}
+                                    y={y(value)}
+                                    dy='0.32em'
+                                    textAnchor='end'
+                                    fontSize={10}
+                                    fill='currentColor'
+                                >
+                                    {formatValue(value)}
+                                </text>
+                            </g>
+                        )
+                    })}
+                    {xTickIndexes.map(index => (
+                        <text
+                            key={index}
+                            x={x(index)}
+                            y={height - 6}
+                            textAnchor={index === 0 ? 'start' : index === timestamps.length - 1 ? 'end' : 'middle'}
+                            fontSize={10}
+                            fill='currentColor'
+                        >
+                            {formatTime(timestamps[index])}
+                        </text>
+                    ))}
+                    {series.map(item => (
+                        <path key={item.key} d={buildPath(item.values)} fill='none' stroke={item.color} strokeWidth={1.75} />
+                    ))}
+                    {hoverIndex !== null && (
+                        <g>
+                            <line
+                                x1={x(hoverIndex)}
+                                x2={x(hoverIndex)}
+                                y1={PADDING.top}
+                                y2={PADDING.top + plotHeight}
+                                stroke='currentColor'
+                                strokeOpacity={0.4}
+                                strokeDasharray='3 3'
+                            />
+                            {series.map(item => {
+                                const value = item.values[hoverIndex]
+                                return value === null ? null : (
+                                    <circle key={item.key} cx={x(hoverIndex)} cy={y(value)} r={3} fill={item.color} />
+                                )
+                            })}
+                        </g>
+                    )}
+                </svg>
+            )}
+            {hoverIndex !== null && (
+                <div
+                    className='pointer-events-none absolute top-0 z-10 min-w-36 rounded-md border bg-popover px-3 py-2 text-xs shadow-md'
+                    style={x(hoverIndex) > width / 2 ? { right: width - x(hoverIndex) + 8 } : { left: x(hoverIndex) + 8 }}
+                >
+                    <div className='mb-1 font-medium'>{formatTime(timestamps[hoverIndex])}</div>
+                    {series.map(item => (
+                        <div key={item.key} className='flex items-center justify-between gap-3'>
+                            <span className='flex items-center gap-1.5 truncate'>
+                                <span className='h-2 w-2 shrink-0 rounded-full' style={{ backgroundColor: item.color }} />
+                                {item.label}
+                            </span>
+                            <span className='font-mono'>
+                                {item.values[hoverIndex] === null ? '-' : formatValue(item.values[hoverIndex])}
+                            </span>
+                        </div>
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+}
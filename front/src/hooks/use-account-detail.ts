@@ -0,0 +1,74 @@
+import * as React from 'react'
+import { accountsApi } from '@/api/client'
+import { ClientError } from '@clove/sdk'
+import type { AccountActivity, AccountResponse, LiveEvent } from '@clove/sdk'
+import { useLiveEvents } from './use-live-events'
+
+// 요청 수는 실시간 이벤트로 전달되지 않으므로 주기적으로 다시 불러옵니다
+const ACTIVITY_REFRESH_INTERVAL = 30000
+
+export function useAccountDetail(organizationUuid: string) {
+    const [account, setAccount] = React.useState<AccountResponse | null>(null)
+    const [activity, setActivity] = React.useState<AccountActivity | null>(null)
+    const [loading, setLoading] = React.useState(true)
+    const [notFound, setNotFound] = React.useState(false)
+
+    const loadActivity = React.useCallback(async () => {
+        try {
+            const response = await accountsApi.getActivity(organizationUuid)
+            setActivity(response.data)
+        } catch (error) {
+            console.error('Failed to load account activity:', error)
+        }
+    }, [organizationUuid])
+
+    const reload = React.useCallback(async () => {
+        try {
+            const [accountResponse, activityResponse] = await Promise.all([
+                accountsApi.get(organizationUuid),
+                accountsApi.getActivity(organizationUuid),
+            ])
+            setAccount(accountResponse.data)
+            setActivity(activityResponse.data)
+            setNotFound(false)
+        } catch (error) {
+            console.error('Failed to load account:', error)
+            if (error instanceof ClientError && error.status === 404) {
+                setNotFound(true)
+            }
+        } finally {
+            setLoading(false)
+        }
+    }, [organizationUuid])
+
+    React.useEffect(() => {
+        setLoading(true)
+        reload()
+    }, [reload])
+
+    const hasAccount = account !== null
+
+    React.useEffect(() => {
+        if (!hasAccount) return
+        const timer = setInterval(loadActivity, ACTIVITY_REFRESH_INTERVAL)
+        return () => clearInterval(timer)
+    }, [hasAccount, loadActivity])
+
+    const handleEvent = React.useCallback(
+        (event: LiveEvent) => {
+            if (event.type === 'account' && event.data.organization_uuid === organizationUuid) {
+                setAccount(event.data)
+            } else if (event.type === 'account_removed' && event.data.organization_uuid === organizationUuid) {
+                setNotFound(true)
+            } else if (event.type === 'statistics' && hasAccount) {
+                // 통계 이벤트는 계정 및 세션 변경 직후에 전송되므로 활동 기록도 함께 갱신합니다
+                loadActivity()
+            }
+        },
+        [organizationUuid, hasAccount, loadActivity],
+    )
+
+    const { connected } = useLiveEvents(handleEvent, { onReconnect: reload })
+
+    return { account, activity, loading, notFound, reload, connected }
+}
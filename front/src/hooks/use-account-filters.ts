@@ -0,0 +1,22 @@
+import * as React from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { parseAccountFilters, toAccountFilterParams, type AccountFilters } from '@/utils/account-filters'
+
+// 계정 필터 상태를 URL 쿼리 문자열과 동기화하여 필터링된 화면을 북마크하고 공유할 수 있게 합니다
+export function useAccountFilters() {
+    const [searchParams, setSearchParams] = useSearchParams()
+    const filters = React.useMemo(() => parseAccountFilters(searchParams), [searchParams])
+
+    const updateFilters = React.useCallback(
+        (changes: Partial<AccountFilters>) => {
+            setSearchParams(prev => toAccountFilterParams({ ...parseAccountFilters(prev), ...changes }), { replace: true })
+        },
+        [setSearchParams],
+    )
+
+    const resetFilters = React.useCallback(() => {
+        setSearchParams(new URLSearchParams(), { replace: true })
+    }, [setSearchParams])
+
+    return { filters, updateFilters, resetFilters }
+}
@@ -0,0 +1,25 @@
+import * as React from 'react'
+
+// 값이 바뀔 때마다 직전 값과의 차이를 계산합니다 (바뀌지 않은 항목은 결과에서 빠집니다)
+export function useCountDeltas(counts: Record<string, number> | null) {
+    const previousRef = React.useRef<Record<string, number> | null>(null)
+    const [deltas, setDeltas] = React.useState<Record<string, number>>({})
+
+    React.useEffect(() => {
+        if (!counts) return
+
+        const previous = previousRef.current
+        previousRef.current = counts
+        if (!previous) return
+
+        setDeltas(
+            Object.fromEntries(
+                Object.entries(counts)
+                    .map(([key, value]) => [key, value - (previous[key] ?? value)])
+                    .filter(([, delta]) => delta !== 0),
+            ),
+        )
+    }, [counts])
+
+    return deltas
+}
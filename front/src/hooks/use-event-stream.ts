@@ -0,0 +1,66 @@
+import * as React from 'react'
+import { AuthError } from '@clove/sdk'
+
+const INITIAL_RETRY_DELAY = 1000
+const MAX_RETRY_DELAY = 30000
+
+type Subscribe<T> = (onEvent: (event: T) => void, signal: AbortSignal) => Promise<void>
+
+export interface EventStreamOptions {
+    // 연결이 끊긴 뒤 다시 연결되었을 때 호출됩니다 (놓친 변경 사항을 다시 불러오는 용도)
+    onReconnect?: () => void
+}
+
+// 서버 전송 이벤트 스트림을 구독하고, 끊기면 지수 백오프로 다시 연결합니다
+export function useEventStream<T>(subscribe: Subscribe<T>, onEvent: (event: T) => void, options: EventStreamOptions = {}) {
+    const [connected, setConnected] = React.useState(false)
+    const onEventRef = React.useRef(onEvent)
+    const onReconnectRef = React.useRef(options.onReconnect)
+
+    React.useEffect(() => {
+        onEventRef.current = onEvent
+        onReconnectRef.current = options.onReconnect
+    })
+
+    React.useEffect(() => {
+        const controller = new AbortController()
+        let retryDelay = INITIAL_RETRY_DELAY
+        let lostConnection = false
+
+        const run = async () => {
+            while (!controller.signal.aborted) {
+                let opened = false
+                try {
+                    await subscribe(event => {
+                        // 서버는 연결 직후 스냅샷을 보내므로 첫 이벤트를 연결 완료로 간주합니다
+                        if (!opened) {
+                            opened = true
+                            retryDelay = INITIAL_RETRY_DELAY
+                            setConnected(true)
+                            if (lostConnection) onReconnectRef.current?.()
+                        }
+                        onEventRef.current(event)
+                    }, controller.signal)
+                } catch (error) {
+                    // 로그인이 만료된 경우 재연결하지 않습니다
+                    if (error instanceof AuthError) break
+                    if (!controller.signal.aborted) console.error('Event stream failed:', error)
+                }
+
+                if (controller.signal.aborted) break
+                setConnected(false)
+                lostConnection = true
+
+                await new Promise(resolve => setTimeout(resolve, retryDelay))
+                retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY)
+            }
+            setConnected(false)
+        }
+
+        run()
+
+        return () => controller.abort()
+    }, [subscribe])
+
+    return { connected }
+}
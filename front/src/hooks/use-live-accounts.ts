@@ -0,0 +1,52 @@
+import * as React from 'react'
+import { accountsApi } from '@/api/client'
+import type { AccountResponse, LiveEvent } from '@clove/sdk'
+import { useLiveEvents } from './use-live-events'
+import { useRecoveryRefetch } from './use-recovery-refetch'
+
+export function useLiveAccounts() {
+    const [accounts, setAccounts] = React.useState<AccountResponse[]>([])
+    const [loading, setLoading] = React.useState(true)
+
+    const reload = React.useCallback(async () => {
+        try {
+            const response = await accountsApi.list()
+            setAccounts(response.data)
+        } catch (error) {
+            console.error('Failed to load accounts:', error)
+        } finally {
+            setLoading(false)
+        }
+    }, [])
+
+    React.useEffect(() => {
+        reload()
+    }, [reload])
+
+    // 백엔드에서 변경된 계정 행만 제자리에서 교체합니다
+    const upsertAccount = React.useCallback((account: AccountResponse) => {
+        setAccounts(prev => {
+            const index = prev.findIndex(a => a.organization_uuid === account.organization_uuid)
+            if (index === -1) return [...prev, account]
+            const next = [...prev]
+            next[index] = account
+            return next
+        })
+    }, [])
+
+    const handleEvent = React.useCallback(
+        (event: LiveEvent) => {
+            if (event.type === 'account') {
+                upsertAccount(event.data)
+            } else if (event.type === 'account_removed') {
+                setAccounts(prev => prev.filter(a => a.organization_uuid !== event.data.organization_uuid))
+            }
+        },
+        [upsertAccount],
+    )
+
+    const { connected } = useLiveEvents(handleEvent, { onReconnect: reload })
+    useRecoveryRefetch(accounts, upsertAccount)
+
+    return { accounts, setAccounts, loading, reload, connected }
+}
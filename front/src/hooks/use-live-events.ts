@@ -0,0 +1,7 @@
+import { eventsApi } from '@/api/client'
+import type { LiveEvent } from '@clove/sdk'
+import { useEventStream, type EventStreamOptions } from './use-event-stream'
+
+export function useLiveEvents(onEvent: (event: LiveEvent) => void, options: EventStreamOptions = {}) {
+    return useEventStream(eventsApi.subscribe, onEvent, options)
+}
@@ -0,0 +1,37 @@
+import * as React from 'react'
+import { statisticsApi } from '@/api/client'
+import type { LiveEvent, StatisticsResponse } from '@clove/sdk'
+import { useLiveEvents } from './use-live-events'
+
+export function useLiveStatistics() {
+    const [statistics, setStatistics] = React.useState<StatisticsResponse | null>(null)
+    const [loading, setLoading] = React.useState(true)
+
+    // 성공 여부를 반환합니다. silent 이면 실패해도 오류 토스트를 띄우지 않습니다
+    const reload = React.useCallback(async ({ silent = false }: { silent?: boolean } = {}) => {
+        try {
+            const response = await statisticsApi.get({ silent })
+            setStatistics(response.data)
+            return true
+        } catch (error) {
+            console.error('Failed to load statistics:', error)
+            return false
+        } finally {
+            setLoading(false)
+        }
+    }, [])
+
+    React.useEffect(() => {
+        reload()
+    }, [reload])
+
+    const handleEvent = React.useCallback((event: LiveEvent) => {
+        if (event.type === 'statistics') {
+            setStatistics(event.data)
+        }
+    }, [])
+
+    const { connected } = useLiveEvents(handleEvent)
+
+    return { statistics, loading, reload, connected }
+}
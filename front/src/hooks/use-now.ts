@@ -0,0 +1,13 @@
+import * as React from 'react'
+
+// 주어진 간격마다 현재 시간을 갱신하여 카운트다운 등이 다시 렌더링되도록 합니다
+export function useNow(interval: number = 1000) {
+    const [now, setNow] = React.useState(() => Date.now())
+
+    React.useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), interval)
+        return () => clearInterval(timer)
+    }, [interval])
+
+    return now
+}
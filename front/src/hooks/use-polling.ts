@@ -0,0 +1,70 @@
+import * as React from 'react'
+
+// 연속 실패 시 폴링 간격을 두 배씩 늘리되 이 값을 넘지 않습니다 (설정한 간격이 더 길면 그 간격)
+const MAX_BACKOFF = 5 * 60 * 1000
+
+interface PollingOptions {
+    interval: number
+    paused: boolean
+}
+
+// poll 이 true 를 반환하면 성공, false 를 반환하거나 예외가 발생하면 실패로 간주합니다
+export function usePolling(poll: () => Promise<boolean>, { interval, paused }: PollingOptions) {
+    const [lastUpdated, setLastUpdated] = React.useState<number | null>(null)
+    const [failures, setFailures] = React.useState(0)
+    const [nextPollAt, setNextPollAt] = React.useState<number | null>(null)
+    const [polling, setPolling] = React.useState(false)
+    const [refreshKey, setRefreshKey] = React.useState(0)
+    const pollRef = React.useRef(poll)
+    const failuresRef = React.useRef(0)
+    const hasPolledRef = React.useRef(false)
+    const handledRefreshKeyRef = React.useRef(0)
+
+    React.useEffect(() => {
+        pollRef.current = poll
+    })
+
+    React.useEffect(() => {
+        // 일시 정지 상태여도 처음 한 번과 수동 새로고침은 실행합니다
+        const manual = refreshKey !== handledRefreshKeyRef.current
+        handledRefreshKeyRef.current = refreshKey
+        if (paused && hasPolledRef.current && !manual) return
+
+        let cancelled = false
+        let timer: ReturnType<typeof setTimeout> | undefined
+
+        const run = async () => {
+            setPolling(true)
+            const succeeded = await pollRef.current().catch(() => false)
+            if (cancelled) return
+            hasPolledRef.current = true
+            setPolling(false)
+
+            if (succeeded) {
+                failuresRef.current = 0
+                setLastUpdated(Date.now())
+            } else {
+                failuresRef.current += 1
+            }
+            setFailures(failuresRef.current)
+
+            if (paused) return
+            const delay = Math.min(interval * 2 ** failuresRef.current, Math.max(MAX_BACKOFF, interval))
+            setNextPollAt(Date.now() + delay)
+            timer = setTimeout(run, delay)
+        }
+
+        run()
+
+        return () => {
+            cancelled = true
+            clearTimeout(timer)
+            setNextPollAt(null)
+            setPolling(false)
+        }
+    }, [interval, paused, refreshKey])
+
+    const refresh = React.useCallback(() => setRefreshKey(key => key + 1), [])
+
+    return { lastUpdated, failures, nextPollAt, polling, refresh }
+}
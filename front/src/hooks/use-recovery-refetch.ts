@@ -0,0 +1,66 @@
+import * as React from 'react'
+import { accountsApi } from '@/api/client'
+import type { AccountResponse } from '@clove/sdk'
+
+// 백엔드는 계정 작업 주기(기본 60초)마다 복구하므로 재설정 시간이 지나도 한동안 속도 제한 상태일 수 있습니다.
+// 재시도 간격을 5초부터 30초까지 늘려 가며 작업 주기보다 긴 90초가 지날 때까지 다시 확인합니다
+const RECOVERY_RETRY_DELAY = 5000
+const MAX_RECOVERY_RETRY_DELAY = 30000
+const RECOVERY_WINDOW = 90000
+// setTimeout 이 허용하는 최대 지연 시간 (약 24.8일)
+const MAX_TIMEOUT = 2 ** 31 - 1
+
+/**
+ * Re-fetches each rate-limited account when its reset time is reached, retrying
+ * with backoff for longer than one backend account task interval until the
+ * account is restored, so the UI recovers without a reload.
+ */
+export function useRecoveryRefetch(accounts: AccountResponse[], onAccount: (account: AccountResponse) => void) {
+    const onAccountRef = React.useRef(onAccount)
+
+    React.useEffect(() => {
+        onAccountRef.current = onAccount
+    })
+
+    // 재설정 시간이 바뀐 경우에만 타이머를 다시 설정합니다
+    const scheduleKey = accounts
+        .filter(account => account.status === 'rate_limited' && account.resets_at)
+        .map(account => `${account.organization_uuid}@${account.resets_at}`)
+        .join(' ')
+
+    React.useEffect(() => {
+        if (!scheduleKey) return
+
+        const timers: ReturnType<typeof setTimeout>[] = []
+        let cancelled = false
+
+        const refetch = async (organizationUuid: string, startedAt: number, retryDelay: number) => {
+            try {
+                const response = await accountsApi.get(organizationUuid)
+                if (cancelled) return
+                onAccountRef.current(response.data)
+
+                const { status, resets_at } = response.data
+                const stillWaiting = status === 'rate_limited' && (!resets_at || new Date(resets_at).getTime() <= Date.now())
+                if (stillWaiting && Date.now() - startedAt < RECOVERY_WINDOW) {
+                    const nextDelay = Math.min(retryDelay * 2, MAX_RECOVERY_RETRY_DELAY)
+                    timers.push(setTimeout(() => refetch(organizationUuid, startedAt, nextDelay), retryDelay))
+                }
+            } catch (error) {
+                console.error('Failed to refresh recovered account:', error)
+            }
+        }
+
+        for (const entry of scheduleKey.split(' ')) {
+            const [organizationUuid, resetsAt] = entry.split('@')
+            const delay = Math.max(new Date(resetsAt).getTime() - Date.now(), 0)
+            if (delay > MAX_TIMEOUT) continue
+            timers.push(setTimeout(() => refetch(organizationUuid, Date.now(), RECOVERY_RETRY_DELAY), delay))
+        }
+
+        return () => {
+            cancelled = true
+            timers.forEach(clearTimeout)
+        }
+    }, [scheduleKey])
+}
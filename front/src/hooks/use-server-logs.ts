@@ -0,0 +1,56 @@
+import * as React from 'react'
+import { serverLogsApi } from '@/api/client'
+import type { ServerLogEntry, ServerLogEvent } from '@clove/sdk'
+import { useEventStream } from './use-event-stream'
+
+const MAX_ENTRIES = 2000
+
+const appendEntries = (entries: ServerLogEntry[], added: ServerLogEntry[]) => [...entries, ...added].slice(-MAX_ENTRIES)
+
+// 서버 로그를 실시간으로 받아옵니다. 일시 정지 중에 도착한 줄은 모아 두었다가 재개할 때 한꺼번에 표시합니다
+export function useServerLogs() {
+    const [entries, setEntries] = React.useState<ServerLogEntry[]>([])
+    const [logLevel, setLogLevel] = React.useState<string | null>(null)
+    const [logFileAvailable, setLogFileAvailable] = React.useState(false)
+    const [paused, setPausedState] = React.useState(false)
+    const [pendingCount, setPendingCount] = React.useState(0)
+    const pausedRef = React.useRef(false)
+    const pendingRef = React.useRef<ServerLogEntry[]>([])
+
+    const handleEvent = React.useCallback((event: ServerLogEvent) => {
+        if (event.type === 'snapshot') {
+            // 다시 연결되면 서버의 버퍼로 화면을 새로 채웁니다
+            setLogLevel(event.data.log_level)
+            setLogFileAvailable(event.data.log_file_available)
+            setEntries(event.data.entries.slice(-MAX_ENTRIES))
+            pendingRef.current = []
+            setPendingCount(0)
+        } else if (pausedRef.current) {
+            pendingRef.current = appendEntries(pendingRef.current, [event.data])
+            setPendingCount(pendingRef.current.length)
+        } else {
+            setEntries(prev => appendEntries(prev, [event.data]))
+        }
+    }, [])
+
+    const { connected } = useEventStream(serverLogsApi.subscribe, handleEvent)
+
+    const setPaused = React.useCallback((value: boolean) => {
+        pausedRef.current = value
+        setPausedState(value)
+        if (!value && pendingRef.current.length > 0) {
+            const pending = pendingRef.current
+            pendingRef.current = []
+            setPendingCount(0)
+            setEntries(prev => appendEntries(prev, pending))
+        }
+    }, [])
+
+    const clear = React.useCallback(() => {
+        setEntries([])
+        pendingRef.current = []
+        setPendingCount(0)
+    }, [])
+
+    return { entries, logLevel, logFileAvailable, connected, paused, setPaused, pendingCount, clear }
+}
@@ -0,0 +1,344 @@
+import { useState, type ReactNode } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import { ArrowLeft, ArrowRight, Pencil, History, AlertCircle, MessagesSquare, BarChart3, KeyRound, Users } from 'lucide-react'
+import type { AccountResponse } from '@clove/sdk'
+import { AccountModal } from '../components/AccountModal'
+import { LiveIndicator } from '../components/LiveIndicator'
+import {
+    AccountLabelBadges,
+    AccountPoolBadges,
+    AccountTypeBadge,
+    AuthTypeLabel,
+    StatusLabel,
+} from '../components/AccountLabels'
+import { OAuthExpiryLabel } from '../components/OAuthExpiryLabel'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import { useAccountDetail } from '@/hooks/use-account-detail'
+import { formatDateTime } from '@/utils/time'
+
+// 상태 변경 사유 (백엔드의 reason 값)
+const TRANSITION_REASONS: Record<string, string> = {
+    rate_limited: 'Claude 속도 제한',
+    rate_limit_reset: '속도 제한 해제',
+    authentication_error: '인증 오류',
+    organization_disabled: '조직 비활성화',
+    oauth_not_allowed: 'OAuth 인증 허용 안 됨',
+    oauth_refresh_failed: 'OAuth 토큰 갱신 실패',
+    oauth_refreshed: 'OAuth 토큰 갱신',
+    oauth_reauthorized: 'OAuth 재인증',
+    manual: '관리자 변경',
+    account_test: '계정 테스트 통과',
+    imported: '가져오기',
+}
+
+function InfoRow({ label, children }: { label: string; children: ReactNode }) {
+    return (
+        <div className='flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 py-2 text-sm'>
+            <span className='text-muted-foreground'>{label}</span>
+            <div className='sm:text-right break-all'>{children}</div>
+        </div>
+    )
+}
+
+function OAuthExpiry({ account }: { account: AccountResponse }) {
+    if (!account.has_oauth || !account.oauth_expires_at) {
+        return <p className='text-sm text-muted-foreground'>이 계정에는 OAuth 토큰이 없습니다</p>
+    }
+
+    return (
+        <div className='divide-y'>
+            <InfoRow label='만료 시간'>{formatDateTime(account.oauth_expires_at * 1000)}</InfoRow>
+            <InfoRow label='남은 시간'>
+                <OAuthExpiryLabel expiresAt={account.oauth_expires_at} />
+            </InfoRow>
+        </div>
+    )
+}
+
+export function AccountDetail() {
+    const { organizationUuid = '' } = useParams()
+    const { account, activity, loading, notFound, reload, connected } = useAccountDetail(organizationUuid)
+    const [modalOpen, setModalOpen] = useState(false)
+    const navigate = useNavigate()
+
+    const handleModalClose = () => {
+        setModalOpen(false)
+        reload()
+    }
+
+    const backLink = (
+        <Button variant='ghost' size='sm' className='-ml-3' asChild>
+            <Link to='/accounts'>
+                <ArrowLeft className='mr-2 h-4 w-4' />
+                계정 목록
+            </Link>
+        </Button>
+    )
+
+    if (loading) {
+        return (
+            <div className='space-y-6'>
+                <div className='space-y-2'>
+                    <Skeleton className='h-8 w-32 sm:w-48' />
+                    <Skeleton className='h-4 w-64 sm:w-96 max-w-full' />
+                </div>
+                <div className='grid gap-4 md:grid-cols-2'>
+                    {[...Array(4)].map((_, i) => (
+                        <Card key={i}>
+                            <CardHeader>
+                                <Skeleton className='h-5 w-32' />
+                            </CardHeader>
+                            <CardContent className='space-y-3'>
+                                <Skeleton className='h-4 w-full' />
+                                <Skeleton className='h-4 w-full' />
+                                <Skeleton className='h-4 w-2/3' />
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+            </div>
+        )
+    }
+
+    if (notFound || !account) {
+        return (
+            <div className='space-y-6'>
+                {backLink}
+                <Card>
+                    <CardContent className='flex flex-col items-center justify-center py-12'>
+                        <div className='rounded-full bg-muted p-6 mb-4'>
+                            <Users className='h-12 w-12 text-muted-foreground' />
+                        </div>
+                        <h3 className='text-lg font-semibold mb-2'>계정을 찾을 수 없습니다</h3>
+                        <p className='text-muted-foreground text-center font-mono text-sm break-all'>{organizationUuid}</p>
+                    </CardContent>
+                </Card>
+            </div>
+        )
+    }
+
+    return (
+        <div className='space-y-6'>
+            <div className='space-y-2'>
+                {backLink}
+                <div className='flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4'>
+                    <div className='min-w-0'>
+                        <div className='flex items-center gap-3'>
+                            <h1 className='text-3xl font-bold tracking-tight pb-1'>계정 상세</h1>
+                            <LiveIndicator connected={connected} />
+                        </div>
+                        <p className='text-muted-foreground font-mono text-sm break-all'>{account.organization_uuid}</p>
+                    </div>
+                    <Button variant='outline' onClick={() => setModalOpen(true)} className='w-full sm:w-auto'>
+                        <Pencil className='mr-2 h-4 w-4' />
+                        편집
+                    </Button>
+                </div>
+            </div>
+
+            <div className='grid gap-4 md:grid-cols-2'>
+                <Card>
+                    <CardHeader>
+                        <CardTitle>계정 정보</CardTitle>
+                    </CardHeader>
+                    <CardContent className='divide-y'>
+                        <InfoRow label='상태'>
+                            <div className='flex sm:justify-end'>
+                                <StatusLabel status={account.status} />
+                            </div>
+                        </InfoRow>
+                        <InfoRow label='인증 방식'>
+                            <div className='flex sm:justify-end'>
+                                <AuthTypeLabel authType={account.auth_type} />
+                            </div>
+                        </InfoRow>
+                        <InfoRow label='계정 유형'>
+                            <AccountTypeBadge account={account} />
+                        </InfoRow>
+                        <InfoRow label='Capabilities'>
+                            {account.capabilities && account.capabilities.length > 0 ? (
+                                <div className='flex flex-wrap gap-1 sm:justify-end'>
+                                    {account.capabilities.map(capability => (
+                                        <Badge key={capability} variant='outline' className='font-mono'>
+                                            {capability}
+                                        </Badge>
+                                    ))}
+                                </div>
+                            ) : (
+                                '-'
+                            )}
+                        </InfoRow>
+                        <InfoRow label='쿠키'>
+                            <span className='font-mono text-xs'>{account.cookie_value || '-'}</span>
+                        </InfoRow>
+                        <InfoRow label='마지막 사용'>{formatDateTime(account.last_used)}</InfoRow>
+                        <InfoRow label='재설정 시간'>{formatDateTime(account.resets_at)}</InfoRow>
+                        <InfoRow label='라벨'>
+                            {account.labels.length > 0 ? (
+                                <AccountLabelBadges
+                                    labels={account.labels}
+                                    onSelect={label => navigate(`/accounts?label=${encodeURIComponent(label)}`)}
+                                    className='sm:justify-end'
+                                />
+                            ) : (
+                                '-'
+                            )}
+                        </InfoRow>
+                        <InfoRow label='계정 풀'>
+                            {account.pools.length > 0 ? (
+                                <AccountPoolBadges pools={account.pools} className='sm:justify-end' />
+                            ) : (
+                                '공유 풀'
+                            )}
+                        </InfoRow>
+                        <InfoRow label='메모'>
+                            <span className='whitespace-pre-wrap'>{account.notes || '-'}</span>
+                        </InfoRow>
+                    </CardContent>
+                </Card>
+
+                <div className='space-y-4'>
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className='flex items-center gap-2'>
+                                <KeyRound className='h-5 w-5' />
+                                OAuth 토큰
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            <OAuthExpiry account={account} />
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className='flex items-center gap-2'>
+                                <BarChart3 className='h-5 w-5' />
+                                요청 통계
+                            </CardTitle>
+                            <CardDescription>서버 시작 이후 이 계정을 통해 보낸 요청</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <div className='grid grid-cols-2 sm:grid-cols-4 gap-4'>
+                                {[
+                                    { name: '최근 1시간', value: activity?.requests.last_hour },
+                                    { name: '최근 24시간', value: activity?.requests.last_day },
+                                    { name: '전체', value: activity?.requests.total },
+                                    { name: '오류', value: activity?.total_errors },
+                                ].map(stat => (
+                                    <div key={stat.name}>
+                                        <p className='text-sm text-muted-foreground'>{stat.name}</p>
+                                        <p className='text-2xl font-bold'>{stat.value ?? '-'}</p>
+                                    </div>
+                                ))}
+                            </div>
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+
+            <div className='grid gap-4 md:grid-cols-2'>
+                <Card>
+                    <CardHeader>
+                        <CardTitle className='flex items-center gap-2'>
+                            <History className='h-5 w-5' />
+                            상태 변경 기록
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent>
+                        {!activity || activity.status_history.length === 0 ? (
+                            <p className='text-sm text-muted-foreground'>기록된 상태 변경이 없습니다</p>
+                        ) : (
+                            <ol className='relative border-l ml-2 space-y-4'>
+                                {activity.status_history.map((transition, index) => (
+                                    <li key={index} className='ml-4'>
+                                        <span className='absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-background' />
+                                        <div className='flex flex-wrap items-center gap-2 text-sm'>
+                                            <StatusLabel status={transition.from_status} />
+                                            <ArrowRight className='h-4 w-4 text-muted-foreground' />
+                                            <StatusLabel status={transition.to_status} />
+                                        </div>
+                                        <p className='text-xs text-muted-foreground mt-1'>
+                                            {formatDateTime(transition.changed_at)}
+                                            {transition.reason &&
+                                                ` · ${TRANSITION_REASONS[transition.reason] ?? transition.reason}`}
+                                        </p>
+                                    </li>
+                                ))}
+                            </ol>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <div className='space-y-4'>
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className='flex items-center gap-2'>
+                                <MessagesSquare className='h-5 w-5' />
+                                활성 세션
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {!activity || activity.sessions.length === 0 ? (
+                                <p className='text-sm text-muted-foreground'>이 계정에 할당된 세션이 없습니다</p>
+                            ) : (
+                                <div className='divide-y'>
+                                    {activity.sessions.map(session => (
+                                        <div key={session.session_id} className='py-2'>
+                                            <p className='font-mono text-xs break-all'>{session.session_id}</p>
+                                            <p className='text-xs text-muted-foreground mt-1'>
+                                                마지막 활동: {formatDateTime(session.last_activity)}
+                                            </p>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+
+                    <Card>
+                        <CardHeader>
+                            <CardTitle className='flex items-center gap-2'>
+                                <AlertCircle className='h-5 w-5' />
+                                최근 오류
+                            </CardTitle>
+                        </CardHeader>
+                        <CardContent>
+                            {!activity || activity.recent_errors.length === 0 ? (
+                                <p className='text-sm text-muted-foreground'>최근 오류가 없습니다</p>
+                            ) : (
+                                <div className='divide-y'>
+                                    {activity.recent_errors.map((error, index) => (
+                                        <div key={index} className='py-2'>
+                                            <div className='flex flex-wrap items-center gap-2'>
+                                                <span className='text-sm font-medium'>{error.error_type}</span>
+                                                {error.error_code && (
+                                                    <Badge variant='outline' className='font-mono'>
+                                                        {error.error_code}
+                                                    </Badge>
+                                                )}
+                                            </div>
+                                            {error.message && (
+                                                <p className='text-xs text-muted-foreground mt-1 break-words'>
+                                                    {error.message}
+                                                </p>
+                                            )}
+                                            <p className='text-xs text-muted-foreground mt-1'>
+                                                {formatDateTime(error.occurred_at)}
+                                            </p>
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+
+            {modalOpen && <AccountModal account={account} onClose={handleModalClose} />}
+        </div>
+    )
+}
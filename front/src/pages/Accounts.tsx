@@ -1,30 +1,59 @@
-import { useEffect, useState } from 'react'
+import { useMemo, useState, type ReactNode } from 'react'
+import { Link, useNavigate } from 'react-router-dom'
 import {
     Plus,
     Pencil,
     Trash2,
-    Cookie,
-    Shield,
-    CheckCircle,
-    XCircle,
-    AlertCircle,
     MoreHorizontal,
     Users,
     ChevronRight,
     KeyRound,
     FileText,
+    ArrowUpDown,
+    ArrowUp,
+    ArrowDown,
+    SearchX,
+    Info,
+    RefreshCw,
+    Loader2,
+    Download,
+    FileUp,
+    Activity,
 } from 'lucide-react'
-import type { AccountResponse } from '../api/types'
+import type { AccountResponse, AccountTestResult } from '@clove/sdk'
+import { ClientError } from '@clove/sdk'
 import { accountsApi } from '../api/client'
 import { AccountModal } from '../components/AccountModal'
 import { OAuthModal } from '../components/OAuthModal'
 import { BatchCookieModal } from '../components/BatchCookieModal'
+import { AccountExportModal } from '../components/AccountExportModal'
+import { AccountImportModal } from '../components/AccountImportModal'
+import { LiveIndicator } from '../components/LiveIndicator'
+import {
+    AccountLabelBadges,
+    AccountPoolBadges,
+    AccountTestSummary,
+    AccountTypeBadge,
+    AuthTypeLabel,
+    StatusLabel,
+} from '../components/AccountLabels'
+import { ResetCountdown } from '../components/ResetCountdown'
+import { OAuthExpiryLabel } from '../components/OAuthExpiryLabel'
+import { AccountsBulkBar } from '../components/AccountsBulkBar'
+import { BulkActionDialog, type BulkAction } from '../components/BulkActionDialog'
+import { AccountsToolbar } from '../components/AccountsToolbar'
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
 import { Button } from '@/components/ui/button'
-import { Badge } from '@/components/ui/badge'
 import { Card, CardContent, CardHeader } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
-import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu'
+import { Checkbox } from '@/components/ui/checkbox'
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
 import {
     AlertDialog,
     AlertDialogAction,
@@ -37,33 +66,45 @@ import {
 } from '@/components/ui/alert-dialog'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
 import { useIsMobile } from '@/hooks/use-mobile'
+import { useLiveAccounts } from '@/hooks/use-live-accounts'
+import { useAccountFilters } from '@/hooks/use-account-filters'
+import { applyAccountFilters, collectAccountLabels, type AccountSortField } from '@/utils/account-filters'
+import { getTestErrors, summarizeTestResult } from '@/utils/account-test'
+import { formatDateTime } from '@/utils/time'
+import { toast } from 'sonner'
 
 export function Accounts() {
-    const [accounts, setAccounts] = useState<AccountResponse[]>([])
-    const [loading, setLoading] = useState(true)
+    const { accounts, loading, reload: loadAccounts, connected } = useLiveAccounts()
     const [modalOpen, setModalOpen] = useState(false)
     const [oauthModalOpen, setOauthModalOpen] = useState(false)
+    const [reauthorizingAccount, setReauthorizingAccount] = useState<AccountResponse | null>(null)
+    const [refreshingUuid, setRefreshingUuid] = useState<string | null>(null)
+    const [testingUuids, setTestingUuids] = useState<Set<string>>(new Set())
+    // 이 화면에서 실행한 마지막 계정 테스트 결과
+    const [testResults, setTestResults] = useState<Record<string, AccountTestResult>>({})
     const [batchModalOpen, setBatchModalOpen] = useState(false)
+    const [importModalOpen, setImportModalOpen] = useState(false)
+    // null 이면 내보내기 창이 닫혀 있으며, organizationUuids 가 없으면 모든 계정을 내보냅니다
+    const [exportTarget, setExportTarget] = useState<{ organizationUuids?: string[] } | null>(null)
     const [editingAccount, setEditingAccount] = useState<AccountResponse | null>(null)
     const [deleteDialogOpen, setDeleteDialogOpen] = useState(false)
     const [accountToDelete, setAccountToDelete] = useState<string | null>(null)
     const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set())
+    const [selectedUuids, setSelectedUuids] = useState<Set<string>>(new Set())
+    const [bulkAction, setBulkAction] = useState<{ action: BulkAction; organizationUuids: string[] } | null>(null)
     const isMobile = useIsMobile()
-
-    const loadAccounts = async () => {
-        try {
-            const response = await accountsApi.list()
-            setAccounts(response.data)
-        } catch (error) {
-            console.error('Failed to load accounts:', error)
-        } finally {
-            setLoading(false)
-        }
-    }
-
-    useEffect(() => {
-        loadAccounts()
-    }, [])
+    const navigate = useNavigate()
+    const { filters, updateFilters, resetFilters } = useAccountFilters()
+    const visibleAccounts = useMemo(() => applyAccountFilters(accounts, filters), [accounts, filters])
+    const labels = useMemo(() => collectAccountLabels(accounts), [accounts])
+    // 삭제되었거나 목록에서 사라진 계정은 선택에서 제외합니다
+    const selectedAccounts = useMemo(
+        () => accounts.filter(account => selectedUuids.has(account.organization_uuid)),
+        [accounts, selectedUuids],
+    )
+    const visibleSelectedCount = visibleAccounts.filter(account => selectedUuids.has(account.organization_uuid)).length
+    const allVisibleSelected = visibleAccounts.length > 0 && visibleSelectedCount === visibleAccounts.length
+    const selectAllState = allVisibleSelected ? true : visibleSelectedCount > 0 ? 'indeterminate' : false
 
     const handleDelete = async () => {
         if (!accountToDelete) return
@@ -75,7 +116,12 @@ export function Accounts() {
             setAccountToDelete(null)
         } catch (error) {
             console.error('Failed to delete account:', error)
-            alert('계정 삭제 실패')
+            // 이미 삭제된 계정이면 목록만 새로 고칩니다
+            if (error instanceof ClientError && error.status === 404) {
+                await loadAccounts()
+                setDeleteDialogOpen(false)
+                setAccountToDelete(null)
+            }
         }
     }
 
@@ -97,93 +143,144 @@ export function Accounts() {
 
     const handleOAuthModalClose = () => {
         setOauthModalOpen(false)
+        setReauthorizingAccount(null)
         loadAccounts()
     }
 
+    const handleReauthorize = (account: AccountResponse) => {
+        setReauthorizingAccount(account)
+        setOauthModalOpen(true)
+    }
+
+    const handleRefreshToken = async (account: AccountResponse) => {
+        setRefreshingUuid(account.organization_uuid)
+        try {
+            await accountsApi.refreshOAuthToken(account.organization_uuid)
+            toast.success('OAuth 토큰을 갱신했습니다')
+            await loadAccounts()
+        } catch (error) {
+            // 오류 메시지는 API 클라이언트에서 표시합니다
+            console.error('Failed to refresh OAuth token:', error)
+        } finally {
+            setRefreshingUuid(null)
+        }
+    }
+
+    const handleTestResult = (result: AccountTestResult) => {
+        setTestResults(prev => ({ ...prev, [result.organization_uuid]: result }))
+    }
+
+    const handleTest = async (account: AccountResponse) => {
+        const uuid = account.organization_uuid
+        setTestingUuids(prev => new Set(prev).add(uuid))
+        try {
+            const { data } = await accountsApi.test(uuid)
+            handleTestResult(data)
+
+            const errors = getTestErrors(data)
+            if (errors.length > 0) {
+                toast.error('계정 테스트에 실패했습니다', { description: errors.join('\n') })
+            } else {
+                toast.success('계정 테스트에 성공했습니다', { description: summarizeTestResult(data) })
+            }
+            await loadAccounts()
+        } catch (error) {
+            // 오류 메시지는 API 클라이언트에서 표시합니다
+            console.error('Failed to test account:', error)
+        } finally {
+            setTestingUuids(prev => {
+                const next = new Set(prev)
+                next.delete(uuid)
+                return next
+            })
+        }
+    }
+
     const handleBatchModalClose = () => {
         setBatchModalOpen(false)
         loadAccounts()
     }
 
-    const toggleCardExpansion = (uuid: string) => {
-        setExpandedCards(prev => {
+    const toggleSelected = (uuid: string, checked: boolean) => {
+        setSelectedUuids(prev => {
             const next = new Set(prev)
-            if (next.has(uuid)) {
-                next.delete(uuid)
-            } else {
+            if (checked) {
                 next.add(uuid)
+            } else {
+                next.delete(uuid)
             }
             return next
         })
     }
 
-    const getAuthTypeIcon = (authType: string) => {
-        if (authType === 'both') {
-            return <Shield className='h-4 w-4' />
-        } else if (authType === 'oauth_only') {
-            return <KeyRound className='h-4 w-4' />
-        } else {
-            return <Cookie className='h-4 w-4' />
-        }
+    const toggleAllVisible = (checked: boolean) => {
+        setSelectedUuids(prev => {
+            const next = new Set(prev)
+            for (const account of visibleAccounts) {
+                if (checked) {
+                    next.add(account.organization_uuid)
+                } else {
+                    next.delete(account.organization_uuid)
+                }
+            }
+            return next
+        })
     }
 
-    const getAuthTypeName = (authType: string) => {
-        switch (authType) {
-            case 'cookie_only':
-                return 'Cookie'
-            case 'oauth_only':
-                return 'OAuth'
-            case 'both':
-                return 'Cookie + OAuth'
-            default:
-                return authType
-        }
+    const handleBulkActionClose = (succeeded: string[]) => {
+        setBulkAction(null)
+        // 실패한 계정은 다시 시도할 수 있도록 선택 상태를 유지합니다
+        setSelectedUuids(prev => {
+            const next = new Set(prev)
+            succeeded.forEach(uuid => next.delete(uuid))
+            return next
+        })
+        loadAccounts()
     }
 
-    const getStatusIcon = (status: string) => {
-        switch (status) {
-            case 'valid':
-                return <CheckCircle className='h-4 w-4 text-green-500' />
-            case 'invalid':
-                return <XCircle className='h-4 w-4 text-red-500' />
-            case 'rate_limited':
-                return <AlertCircle className='h-4 w-4 text-yellow-500' />
-            default:
-                return null
-        }
+    const handleBulkExport = () => {
+        setExportTarget({ organizationUuids: selectedAccounts.map(account => account.organization_uuid) })
     }
 
-    const getStatusName = (status: string) => {
-        switch (status) {
-            case 'valid':
-                return '정상'
-            case 'invalid':
-                return '유효하지 않음'
-            case 'rate_limited':
-                return '속도 제한 중'
-            default:
-                return status
-        }
+    const handleImportModalClose = () => {
+        setImportModalOpen(false)
+        loadAccounts()
+    }
+
+    const toggleCardExpansion = (uuid: string) => {
+        setExpandedCards(prev => {
+            const next = new Set(prev)
+            if (next.has(uuid)) {
+                next.delete(uuid)
+            } else {
+                next.add(uuid)
+            }
+            return next
+        })
     }
 
-    const AccountTypeBadge = ({ account }: { account: AccountResponse }) => {
-        if (account.is_max) {
-            return (
-                <Badge variant='default' className='bg-gradient-to-r from-purple-500 to-pink-500'>
-                    Max
-                </Badge>
-            )
-        } else if (account.is_pro) {
-            return (
-                <Badge variant='secondary' className='bg-gradient-to-r from-blue-500 to-purple-500 text-white'>
-                    Pro
-                </Badge>
-            )
+    // 같은 열을 다시 누르면 정렬 방향을 바꾸고, 다른 열을 누르면 내림차순부터 시작합니다
+    const toggleSort = (field: AccountSortField) => {
+        if (filters.sort === field) {
+            updateFilters({ order: filters.order === 'asc' ? 'desc' : 'asc' })
         } else {
-            return <Badge variant='outline'>Free</Badge>
+            updateFilters({ sort: field, order: 'desc' })
         }
     }
 
+    const SortableHead = ({ field, children }: { field: AccountSortField; children: ReactNode }) => {
+        const SortIcon = filters.sort !== field ? ArrowUpDown : filters.order === 'asc' ? ArrowUp : ArrowDown
+
+        return (
+            <TableHead>
+                <Button variant='ghost' size='sm' className='-ml-3 h-8' onClick={() => toggleSort(field)}>
+                    {children}
+                    <SortIcon className={`ml-2 h-4 w-4 ${filters.sort === field ? '' : 'text-muted-foreground'}`} />
+                </Button>
+            </TableHead>
+        )
+    }
+
     const MobileAccountCard = ({ account }: { account: AccountResponse }) => {
         const isExpanded = expandedCards.has(account.organization_uuid)
 
@@ -195,19 +292,39 @@ export function Accounts() {
                             <div className='flex items-start justify-between'>
                                 <div className='flex-1 space-y-2'>
                                     <div className='flex items-center gap-2'>
-                                        <AccountTypeBadge account={account} />
-                                        <div className='flex items-center gap-1'>
-                                            {getStatusIcon(account.status)}
-                                            <span className='text-sm'>{getStatusName(account.status)}</span>
+                                        <div onClick={e => e.stopPropagation()} className='flex'>
+                                            <Checkbox
+                                                checked={selectedUuids.has(account.organization_uuid)}
+                                                onCheckedChange={checked =>
+                                                    toggleSelected(account.organization_uuid, checked === true)
+                                                }
+                                                aria-label='계정 선택'
+                                            />
                                         </div>
+                                        <AccountTypeBadge account={account} />
+                                        <StatusLabel status={account.status} className='text-sm' />
+                                        {account.status === 'rate_limited' && account.resets_at && (
+                                            <ResetCountdown resetsAt={account.resets_at} />
+                                        )}
                                     </div>
-                                    <div className='flex items-center gap-2 text-sm text-muted-foreground'>
-                                        {getAuthTypeIcon(account.auth_type)}
-                                        <span>{getAuthTypeName(account.auth_type)}</span>
+                                    <AccountTestSummary
+                                        result={testResults[account.organization_uuid]}
+                                        testing={testingUuids.has(account.organization_uuid)}
+                                    />
+                                    <div className='flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-muted-foreground'>
+                                        <AuthTypeLabel authType={account.auth_type} />
+                                        {account.has_oauth && account.oauth_expires_at && (
+                                            <OAuthExpiryLabel expiresAt={account.oauth_expires_at} />
+                                        )}
                                     </div>
                                     <p className='font-mono text-xs text-muted-foreground truncate'>
                                         {account.organization_uuid}
                                     </p>
+                                    <AccountLabelBadges labels={account.labels} onSelect={label => updateFilters({ label })} />
+                                    <AccountPoolBadges pools={account.pools} />
+                                    {account.notes && (
+                                        <p className='text-xs text-muted-foreground line-clamp-2'>{account.notes}</p>
+                                    )}
                                 </div>
                                 <ChevronRight
                                     className={`h-5 w-5 text-muted-foreground transition-transform ${
@@ -230,6 +347,12 @@ export function Accounts() {
                                 </div>
                             </div>
                             <div className='flex gap-2 pt-2'>
+                                <Button size='sm' variant='outline' className='flex-1' asChild>
+                                    <Link to={`/accounts/${account.organization_uuid}`}>
+                                        <Info className='mr-2 h-4 w-4' />
+                                        상세
+                                    </Link>
+                                </Button>
                                 <Button size='sm' variant='outline' className='flex-1' onClick={() => handleEdit(account)}>
                                     <Pencil className='mr-2 h-4 w-4' />
                                     편집
@@ -247,6 +370,45 @@ export function Accounts() {
                                     삭제
                                 </Button>
                             </div>
+                            <div className='flex gap-2'>
+                                <Button
+                                    size='sm'
+                                    variant='outline'
+                                    className='flex-1'
+                                    disabled={testingUuids.has(account.organization_uuid)}
+                                    onClick={() => handleTest(account)}
+                                >
+                                    {testingUuids.has(account.organization_uuid) ? (
+                                        <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                                    ) : (
+                                        <Activity className='mr-2 h-4 w-4' />
+                                    )}
+                                    테스트
+                                </Button>
+                                <Button
+                                    size='sm'
+                                    variant='outline'
+                                    className='flex-1'
+                                    disabled={!account.has_oauth || refreshingUuid === account.organization_uuid}
+                                    onClick={() => handleRefreshToken(account)}
+                                >
+                                    {refreshingUuid === account.organization_uuid ? (
+                                        <Loader2 className='mr-2 h-4 w-4 animate-spin' />
+                                    ) : (
+                                        <RefreshCw className='mr-2 h-4 w-4' />
+                                    )}
+                                    토큰 갱신
+                                </Button>
+                                <Button
+                                    size='sm'
+                                    variant='outline'
+                                    className='flex-1'
+                                    onClick={() => handleReauthorize(account)}
+                                >
+                                    <KeyRound className='mr-2 h-4 w-4' />
+                                    OAuth 재인증
+                                </Button>
+                            </div>
                         </CardContent>
                     </CollapsibleContent>
                 </Collapsible>
@@ -275,6 +437,9 @@ export function Accounts() {
                             <Table>
                                 <TableHeader>
                                     <TableRow>
+                                        <TableHead className='w-10'>
+                                            <Skeleton className='h-4 w-4 rounded' />
+                                        </TableHead>
                                         <TableHead>
                                             <Skeleton className='h-4 w-32' />
                                         </TableHead>
@@ -301,6 +466,9 @@ export function Accounts() {
                                 <TableBody>
                                     {[...Array(5)].map((_, i) => (
                                         <TableRow key={i}>
+                                            <TableCell>
+                                                <Skeleton className='h-4 w-4 rounded' />
+                                            </TableCell>
                                             <TableCell>
                                                 <Skeleton className='h-4 w-64' />
                                             </TableCell>
@@ -369,10 +537,23 @@ export function Accounts() {
         <div className='space-y-6'>
             <div className='flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4'>
                 <div>
-                    <h1 className='text-3xl font-bold tracking-tight pb-1'>계정 관리</h1>
+                    <div className='flex items-center gap-3'>
+                        <h1 className='text-3xl font-bold tracking-tight pb-1'>계정 관리</h1>
+                        <LiveIndicator connected={connected} />
+                    </div>
                     <p className='text-muted-foreground'>Claude 계정을 관리합니다</p>
                 </div>
                 <div className='flex flex-col sm:flex-row gap-2 w-full sm:w-auto'>
+                    <Button onClick={() => setImportModalOpen(true)} variant='outline' className='w-full sm:w-auto'>
+                        <FileUp className='mr-2 h-4 w-4' />
+                        가져오기
+                    </Button>
+                    {accounts.length > 0 && (
+                        <Button onClick={() => setExportTarget({})} variant='outline' className='w-full sm:w-auto'>
+                            <Download className='mr-2 h-4 w-4' />
+                            내보내기
+                        </Button>
+                    )}
                     <Button onClick={() => setOauthModalOpen(true)} variant='outline' className='w-full sm:w-auto'>
                         <KeyRound className='mr-2 h-4 w-4' />
                         OAuth 로그인
@@ -397,6 +578,10 @@ export function Accounts() {
                         <h3 className='text-lg font-semibold mb-2'>계정 없음</h3>
                         <p className='text-muted-foreground mb-4 text-center'>"쿠키 추가" 또는 "OAuth 로그인"을 클릭하여 첫 번째 계정을 만드세요</p>
                         <div className='flex flex-col sm:flex-row gap-2'>
+                            <Button onClick={() => setImportModalOpen(true)} variant='outline'>
+                                <FileUp className='mr-2 h-4 w-4' />
+                                가져오기
+                            </Button>
                             <Button onClick={() => setOauthModalOpen(true)} variant='outline'>
                                 <KeyRound className='mr-2 h-4 w-4' />
                                 OAuth 로그인
@@ -412,36 +597,108 @@ export function Accounts() {
                         </div>
                     </CardContent>
                 </Card>
+            ) : (
+                <AccountsToolbar
+                    filters={filters}
+                    onChange={updateFilters}
+                    onReset={resetFilters}
+                    totalCount={accounts.length}
+                    filteredCount={visibleAccounts.length}
+                    labels={labels}
+                    showSort={isMobile}
+                />
+            )}
+
+            {selectedAccounts.length > 0 && (
+                <AccountsBulkBar
+                    selectedCount={selectedAccounts.length}
+                    onAction={action =>
+                        // 처리 중 목록이 실시간으로 바뀌어도 대상이 바뀌지 않도록 선택을 고정합니다
+                        setBulkAction({ action, organizationUuids: selectedAccounts.map(account => account.organization_uuid) })
+                    }
+                    onExport={handleBulkExport}
+                    onClear={() => setSelectedUuids(new Set())}
+                />
+            )}
+
+            {accounts.length === 0 ? null : visibleAccounts.length === 0 ? (
+                <Card>
+                    <CardContent className='flex flex-col items-center justify-center py-12'>
+                        <div className='rounded-full bg-muted p-6 mb-4'>
+                            <SearchX className='h-12 w-12 text-muted-foreground' />
+                        </div>
+                        <h3 className='text-lg font-semibold mb-2'>조건에 맞는 계정이 없습니다</h3>
+                        <p className='text-muted-foreground mb-4 text-center'>검색어나 필터를 변경해 보세요</p>
+                        <Button variant='outline' onClick={resetFilters}>
+                            필터 초기화
+                        </Button>
+                    </CardContent>
+                </Card>
             ) : !isMobile ? (
                 <Card>
                     <CardContent className='p-0 overflow-x-auto'>
                         <Table>
                             <TableHeader>
                                 <TableRow>
+                                    <TableHead className='w-10'>
+                                        <Checkbox
+                                            checked={selectAllState}
+                                            onCheckedChange={checked => toggleAllVisible(checked === true)}
+                                            aria-label='모두 선택'
+                                        />
+                                    </TableHead>
                                     <TableHead>Organization UUID</TableHead>
                                     <TableHead>인증 방식</TableHead>
                                     <TableHead>상태</TableHead>
                                     <TableHead>계정 유형</TableHead>
-                                    <TableHead>마지막 사용</TableHead>
-                                    <TableHead>재설정 시간</TableHead>
+                                    <SortableHead field='last_used'>마지막 사용</SortableHead>
+                                    <SortableHead field='resets_at'>재설정 시간</SortableHead>
                                     <TableHead className='text-right'>작업</TableHead>
                                 </TableRow>
                             </TableHeader>
                             <TableBody>
-                                {accounts.map(account => (
-                                    <TableRow key={account.organization_uuid}>
-                                        <TableCell className='font-mono text-sm'>{account.organization_uuid}</TableCell>
+                                {visibleAccounts.map(account => (
+                                    <TableRow
+                                        key={account.organization_uuid}
+                                        data-state={selectedUuids.has(account.organization_uuid) ? 'selected' : undefined}
+                                    >
                                         <TableCell>
-                                            <div className='flex items-center gap-2'>
-                                                {getAuthTypeIcon(account.auth_type)}
-                                                <span>{getAuthTypeName(account.auth_type)}</span>
-                                            </div>
+                                            <Checkbox
+                                                checked={selectedUuids.has(account.organization_uuid)}
+                                                onCheckedChange={checked =>
+                                                    toggleSelected(account.organization_uuid, checked === true)
+                                                }
+                                                aria-label='계정 선택'
+                                            />
                                         </TableCell>
                                         <TableCell>
-                                            <div className='flex items-center gap-2'>
-                                                {getStatusIcon(account.status)}
-                                                <span>{getStatusName(account.status)}</span>
-                                            </div>
+                                            <Link
+                                                to={`/accounts/${account.organization_uuid}`}
+                                                className='font-mono text-sm hover:underline'
+                                                title={account.notes ?? undefined}
+                                            >
+                                                {account.organization_uuid}
+                                            </Link>
+                                            <AccountLabelBadges
+                                                labels={account.labels}
+                                                onSelect={label => updateFilters({ label })}
+                                                className='mt-1'
+                                            />
+                                            <AccountPoolBadges pools={account.pools} className='mt-1' />
+                                        </TableCell>
+                                        <TableCell>
+                                            <AuthTypeLabel authType={account.auth_type} />
+                                            {account.has_oauth && account.oauth_expires_at && (
+                                                <OAuthExpiryLabel expiresAt={account.oauth_expires_at} className='mt-1' />
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <StatusLabel status={account.status} />
+                                            <AccountTestSummary
+                                                result={testResults[account.organization_uuid]}
+                                                testing={testingUuids.has(account.organization_uuid)}
+                                                className='mt-1'
+                                            />
                                         </TableCell>
                                         <TableCell>
                                             <AccountTypeBadge account={account} />
@@ -450,7 +707,10 @@ export function Accounts() {
                                             {new Date(account.last_used).toLocaleString('ko-KR')}
                                         </TableCell>
                                         <TableCell className='text-sm'>
-                                            {account.resets_at ? new Date(account.resets_at).toLocaleString('ko-KR') : '-'}
+                                            <div>{formatDateTime(account.resets_at)}</div>
+                                            {account.status === 'rate_limited' && account.resets_at && (
+                                                <ResetCountdown resetsAt={account.resets_at} />
+                                            )}
                                         </TableCell>
                                         <TableCell className='text-right'>
                                             <DropdownMenu>
@@ -461,10 +721,38 @@ export function Accounts() {
                                                     </Button>
                                                 </DropdownMenuTrigger>
                                                 <DropdownMenuContent align='end'>
+                                                    <DropdownMenuItem
+                                                        onClick={() => navigate(`/accounts/${account.organization_uuid}`)}
+                                                    >
+                                                        <Info className='mr-2 h-4 w-4' />
+                                                        상세 정보
+                                                    </DropdownMenuItem>
                                                     <DropdownMenuItem onClick={() => handleEdit(account)}>
                                                         <Pencil className='mr-2 h-4 w-4' />
                                                         편집
                                                     </DropdownMenuItem>
+                                                    <DropdownMenuItem
+                                                        disabled={testingUuids.has(account.organization_uuid)}
+                                                        onClick={() => handleTest(account)}
+                                                    >
+                                                        <Activity className='mr-2 h-4 w-4' />
+                                                        계정 테스트
+                                                    </DropdownMenuItem>
+                                                    <DropdownMenuSeparator />
+                                                    <DropdownMenuItem
+                                                        disabled={
+                                                            !account.has_oauth || refreshingUuid === account.organization_uuid
+                                                        }
+                                                        onClick={() => handleRefreshToken(account)}
+                                                    >
+                                                        <RefreshCw className='mr-2 h-4 w-4' />
+                                                        토큰 지금 갱신
+                                                    </DropdownMenuItem>
+                                                    <DropdownMenuItem onClick={() => handleReauthorize(account)}>
+                                                        <KeyRound className='mr-2 h-4 w-4' />
+                                                        OAuth 재인증
+                                                    </DropdownMenuItem>
+                                                    <DropdownMenuSeparator />
                                                     <DropdownMenuItem
                                                         onClick={() => {
                                                             setAccountToDelete(account.organization_uuid)
@@ -486,7 +774,14 @@ export function Accounts() {
                 </Card>
             ) : (
                 <div>
-                    {accounts.map(account => (
+                    <label className='flex items-center gap-2 mb-3 px-1 text-sm text-muted-foreground'>
+                        <Checkbox
+                            checked={selectAllState}
+                            onCheckedChange={checked => toggleAllVisible(checked === true)}
+                        />
+                        표시된 계정 모두 선택
+                    </label>
+                    {visibleAccounts.map(account => (
                         <MobileAccountCard key={account.organization_uuid} account={account} />
                     ))}
                 </div>
@@ -512,9 +807,23 @@ export function Accounts() {
                 </AlertDialogContent>
             </AlertDialog>
 
-            {modalOpen && <AccountModal account={editingAccount} onClose={handleModalClose} />}
-            {oauthModalOpen && <OAuthModal onClose={handleOAuthModalClose} />}
+            {bulkAction && (
+                <BulkActionDialog
+                    action={bulkAction.action}
+                    organizationUuids={bulkAction.organizationUuids}
+                    onClose={handleBulkActionClose}
+                    onTested={handleTestResult}
+                />
+            )}
+            {modalOpen && (
+                <AccountModal account={editingAccount} labelSuggestions={labels} onClose={handleModalClose} />
+            )}
+            {oauthModalOpen && <OAuthModal account={reauthorizingAccount} onClose={handleOAuthModalClose} />}
             {batchModalOpen && <BatchCookieModal onClose={handleBatchModalClose} />}
+            {importModalOpen && <AccountImportModal onClose={handleImportModalClose} />}
+            {exportTarget && (
+                <AccountExportModal organizationUuids={exportTarget.organizationUuids} onClose={() => setExportTarget(null)} />
+            )}
         </div>
     )
 }
\ No newline at end of file
@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { Download, RefreshCw } from 'lucide-react'
+import type { AnalyticsGroupBy, AnalyticsPoint, AnalyticsRange, AnalyticsResponse } from '@clove/sdk'
+import { analyticsApi } from '../api/client'
+import { TimeSeriesChart, type ChartSeries } from '../components/TimeSeriesChart'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import {
+    ANALYTICS_GROUP_BYS,
+    ANALYTICS_RANGES,
+    SERIES_COLORS,
+    analyticsToCsv,
+    formatBucketTime,
+    formatCompactNumber,
+    formatLatency,
+    getErrorRate,
+    getSeriesLabel,
+} from '@/utils/analytics'
+import { downloadFile, timestampedFilename } from '@/utils/download'
+
+type LatencyPercentile = 'latency_p50' | 'latency_p95' | 'latency_p99'
+
+const LATENCY_PERCENTILES: { value: LatencyPercentile; label: string }[] = [
+    { value: 'latency_p50', label: 'p50' },
+    { value: 'latency_p95', label: 'p95' },
+    { value: 'latency_p99', label: 'p99' },
+]
+
+const isRange = (value: string | null): value is AnalyticsRange => ANALYTICS_RANGES.some(range => range.value === value)
+const isGroupBy = (value: string | null): value is AnalyticsGroupBy =>
+    ANALYTICS_GROUP_BYS.some(groupBy => groupBy.value === value)
+
+const formatPercent = (value: number) => `${value.toFixed(value < 10 && value % 1 !== 0 ? 1 : 0)}%`
+
+export function Analytics() {
+    const [searchParams, setSearchParams] = useSearchParams()
+    const rangeParam = searchParams.get('range')
+    const groupByParam = searchParams.get('group_by')
+    const range = isRange(rangeParam) ? rangeParam : '24h'
+    const groupBy = isGroupBy(groupByParam) ? groupByParam : 'none'
+
+    const [analytics, setAnalytics] = useState<AnalyticsResponse | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [refreshing, setRefreshing] = useState(false)
+    const [latencyPercentile, setLatencyPercentile] = useState<LatencyPercentile>('latency_p95')
+
+    const loadAnalytics = useCallback(async () => {
+        setRefreshing(true)
+        try {
+            const response = await analyticsApi.get(range, groupBy)
+            setAnalytics(response.data)
+        } catch (error) {
+            console.error('Failed to load analytics:', error)
+        } finally {
+            setLoading(false)
+            setRefreshing(false)
+        }
+    }, [range, groupBy])
+
+    useEffect(() => {
+        loadAnalytics()
+    }, [loadAnalytics])
+
+    const updateParam = (key: string, value: string, defaultValue: string) => {
+        setSearchParams(
+            prev => {
+                const next = new URLSearchParams(prev)
+                if (value === defaultValue) {
+                    next.delete(key)
+                } else {
+                    next.set(key, value)
+                }
+                return next
+            },
+            { replace: true },
+        )
+    }
+
+    const timestamps = useMemo(() => analytics?.series[0]?.points.map(point => point.timestamp) ?? [], [analytics])
+
+    const buildSeries = useCallback(
+        (getValue: (point: AnalyticsPoint) => number | null | undefined): ChartSeries[] =>
+            analytics
+                ? analytics.series.map((series, index) => ({
+                      key: series.key,
+                      label: getSeriesLabel(analytics.group_by, series),
+                      color: SERIES_COLORS[index % SERIES_COLORS.length],
+                      values: series.points.map(point => getValue(point) ?? null),
+                  }))
+                : [],
+        [analytics],
+    )
+
+    const handleExport = () => {
+        if (!analytics) return
+        downloadFile(analyticsToCsv(analytics), timestampedFilename(`clove-analytics-${range}`, 'csv'), 'text/csv')
+    }
+
+    const formatTime = (timestamp: string) => formatBucketTime(timestamp, range)
+    const summary = analytics?.summary
+    const errorRate = summary ? getErrorRate(summary) : null
+
+    const charts = [
+        {
+            title: '요청 수',
+            description: '구간별 요청 수',
+            series: buildSeries(point => point.requests),
+            formatValue: formatCompactNumber,
+        },
+        {
+            title: '오류율',
+            description: '구간별 실패한 요청의 비율',
+            series: buildSeries(point => getErrorRate(point)),
+            formatValue: formatPercent,
+        },
+        {
+            title: '입력 토큰',
+            description: '구간별 입력 토큰 합계',
+            series: buildSeries(point => point.input_tokens),
+            formatValue: formatCompactNumber,
+        },
+        {
+            title: '출력 토큰',
+            description: '구간별 출력 토큰 합계',
+            series: buildSeries(point => point.output_tokens),
+            formatValue: formatCompactNumber,
+        },
+    ]
+
+    const summaryItems = [
+        { name: '요청 수', value: summary ? summary.requests.toLocaleString('ko-KR') : '-' },
+        { name: '오류율', value: errorRate === null ? '-' : formatPercent(errorRate) },
+        { name: '입력 토큰', value: summary ? formatCompactNumber(summary.input_tokens) : '-' },
+        { name: '출력 토큰', value: summary ? formatCompactNumber(summary.output_tokens) : '-' },
+        {
+            name: '지연 시간 p50 / p95 / p99',
+            value: summary
+                ? [summary.latency_p50, summary.latency_p95, summary.latency_p99].map(formatLatency).join(' / ')
+                : '-',
+        },
+    ]
+
+    if (loading) {
+        return (
+            <div className='space-y-6'>
+                <div className='space-y-2'>
+                    <Skeleton className='h-9 w-40' />
+                    <Skeleton className='h-5 w-72' />
+                </div>
+                <div className='grid gap-4 md:grid-cols-2'>
+                    {[...Array(4)].map((_, i) => (
+                        <Card key={i}>
+                            <CardHeader>
+                                <Skeleton className='h-6 w-32' />
+                            </CardHeader>
+                            <CardContent>
+                                <Skeleton className='h-[220px] w-full' />
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div className='space-y-6'>
+            <div className='flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4'>
+                <div>
+                    <h1 className='text-3xl font-bold tracking-tight pb-1'>사용량 분석</h1>
+                    <p className='text-muted-foreground'>요청, 토큰, 오류율과 지연 시간의 추이를 확인합니다</p>
+                </div>
+                <div className='flex flex-wrap items-center gap-2'>
+                    <div className='flex rounded-md border p-0.5'>
+                        {ANALYTICS_RANGES.map(option => (
+                            <Button
+                                key={option.value}
+                                variant={range === option.value ? 'secondary' : 'ghost'}
+                                size='sm'
+                                className='h-8'
+                                onClick={() => updateParam('range', option.value, '24h')}
+                            >
+                                {option.label}
+                            </Button>
+                        ))}
+                    </div>
+                    <Select value={groupBy} onValueChange={value => updateParam('group_by', value, 'none')}>
+                        <SelectTrigger className='w-[180px]'>
+                            <SelectValue placeholder='분류 기준' />
+                        </SelectTrigger>
+                        <SelectContent>
+                            {ANALYTICS_GROUP_BYS.map(option => (
+                                <SelectItem key={option.value} value={option.value}>
+                                    {option.value === 'none' ? '분류 안 함' : `${option.label}별`}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                    <Button variant='outline' size='icon' onClick={loadAnalytics} disabled={refreshing} title='새로고침'>
+                        <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                    </Button>
+                    <Button variant='outline' onClick={handleExport} disabled={!analytics}>
+                        <Download className='mr-2 h-4 w-4' />
+                        CSV 내보내기
+                    </Button>
+                </div>
+            </div>
+
+            <div className='grid gap-4 sm:grid-cols-2 lg:grid-cols-5'>
+                {summaryItems.map(item => (
+                    <Card key={item.name} className='py-4'>
+                        <CardContent className='px-4'>
+                            <p className='text-sm text-muted-foreground'>{item.name}</p>
+                            <p className='text-xl font-semibold pt-1'>{item.value}</p>
+                        </CardContent>
+                    </Card>
+                ))}
+            </div>
+
+            {analytics && analytics.series.length > 1 && (
+                <div className='flex flex-wrap gap-x-4 gap-y-2 text-sm'>
+                    {analytics.series.map((series, index) => (
+                        <span key={series.key} className='flex items-center gap-1.5'>
+                            <span
+                                className='h-2.5 w-2.5 rounded-full'
+                                style={{ backgroundColor: SERIES_COLORS[index % SERIES_COLORS.length] }}
+                            />
+                            {getSeriesLabel(analytics.group_by, series)}
+                            <span className='text-muted-foreground'>({series.summary.requests.toLocaleString('ko-KR')})</span>
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {analytics && analytics.summary.requests === 0 ? (
+                <Card>
+                    <CardContent className='py-12 text-center text-muted-foreground'>
+                        선택한 기간에 기록된 요청이 없습니다
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className='grid gap-4 md:grid-cols-2'>
+                    {charts.map(chart => (
+                        <Card key={chart.title}>
+                            <CardHeader>
+                                <CardTitle>{chart.title}</CardTitle>
+                                <CardDescription>{chart.description}</CardDescription>
+                            </CardHeader>
+                            <CardContent>
+                                <TimeSeriesChart
+                                    timestamps={timestamps}
+                                    series={chart.series}
+                                    formatValue={chart.formatValue}
+                                    formatTime={formatTime}
+                                />
+                            </CardContent>
+                        </Card>
+                    ))}
+                    <Card className='md:col-span-2'>
+                        <CardHeader className='flex flex-row items-start justify-between gap-4'>
+                            <div className='space-y-1.5'>
+                                <CardTitle>지연 시간</CardTitle>
+                                <CardDescription>구간별 요청 완료까지 걸린 시간의 백분위수</CardDescription>
+                            </div>
+                            <div className='flex rounded-md border p-0.5'>
+                                {LATENCY_PERCENTILES.map(option => (
+                                    <Button
+                                        key={option.value}
+                                        variant={latencyPercentile === option.value ? 'secondary' : 'ghost'}
+                                        size='sm'
+                                        className='h-7'
+                                        onClick={() => setLatencyPercentile(option.value)}
+                                    >
+                                        {option.label}
+                                    </Button>
+                                ))}
+                            </div>
+                        </CardHeader>
+                        <CardContent>
+                            <TimeSeriesChart
+                                timestamps={timestamps}
+                                series={buildSeries(point => point[latencyPercentile])}
+                                formatValue={formatLatency}
+                                formatTime={formatTime}
+                            />
+                        </CardContent>
+                    </Card>
+                </div>
+            )}
+        </div>
+    )
+}
@@ -1,39 +1,103 @@
-import { useEffect, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { Users, Settings, Activity, Server } from 'lucide-react'
-import { healthApi, statisticsApi } from '../api/client'
-import type { StatisticsResponse } from '../api/types'
+import { healthApi } from '../api/client'
+import { LiveIndicator } from '../components/LiveIndicator'
+import { RecoveryQueueCard } from '../components/RecoveryQueueCard'
+import { RefreshControls } from '../components/RefreshControls'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Skeleton } from '@/components/ui/skeleton'
 import { Button } from '@/components/ui/button'
 import { Link } from 'react-router-dom'
+import { useLiveStatistics } from '@/hooks/use-live-statistics'
+import { usePolling } from '@/hooks/use-polling'
+import { useCountDeltas } from '@/hooks/use-count-deltas'
+import { cn } from '@/lib/utils'
+
+const REFRESH_INTERVAL_KEY = 'dashboardRefreshInterval'
+const REFRESH_PAUSED_KEY = 'dashboardRefreshPaused'
+const DEFAULT_REFRESH_INTERVAL = 30000
+
+function CountDelta({ delta }: { delta?: number }) {
+    if (!delta) return null
+
+    return (
+        <span
+            className={cn(
+                'ml-2 rounded px-1.5 py-0.5 text-xs font-medium align-middle animate-in fade-in',
+                delta > 0 ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700',
+            )}
+            title='직전 새로고침 대비 변화'
+        >
+            {delta > 0 ? `+${delta}` : delta}
+        </span>
+    )
+}
 
 export function Dashboard() {
-    const [statistics, setStatistics] = useState<StatisticsResponse | null>(null)
+    const { statistics, loading: statisticsLoading, connected, reload } = useLiveStatistics()
     const [serverStatus, setServerStatus] = useState<'online' | 'offline'>('offline')
-    const [loading, setLoading] = useState(true)
+    const [refreshInterval, setRefreshInterval] = useState(
+        () => Number(localStorage.getItem(REFRESH_INTERVAL_KEY)) || DEFAULT_REFRESH_INTERVAL,
+    )
+    const [paused, setPaused] = useState(() => localStorage.getItem(REFRESH_PAUSED_KEY) === 'true')
 
-    useEffect(() => {
-        const loadData = async () => {
-            try {
-                const [statsRes, healthRes] = await Promise.all([statisticsApi.get(), healthApi.check()])
-
-                setStatistics(statsRes.data)
-                setServerStatus(healthRes.status === 200 ? 'online' : 'offline')
-            } catch (error) {
-                console.error('Failed to load dashboard data:', error)
-                setServerStatus('offline')
-            } finally {
-                setLoading(false)
-            }
+    const poll = useCallback(async () => {
+        try {
+            const healthRes = await healthApi.check({ silent: true })
+            const online = healthRes.status === 200
+            setServerStatus(online ? 'online' : 'offline')
+            return online && (await reload({ silent: true }))
+        } catch (error) {
+            console.error('Failed to load dashboard data:', error)
+            setServerStatus('offline')
+            return false
         }
+    }, [reload])
 
-        loadData()
-    }, [])
+    const { lastUpdated, failures, nextPollAt, polling, refresh } = usePolling(poll, { interval: refreshInterval, paused })
+    const loading = statisticsLoading || (lastUpdated === null && failures === 0)
+
+    // 실시간 스트림이 연결되어 있으면 서버가 온라인입니다
+    useEffect(() => {
+        if (connected) setServerStatus('online')
+    }, [connected])
+
+    const counts = useMemo(
+        () =>
+            statistics && {
+                total_accounts: statistics.accounts.total_accounts,
+                valid_accounts: statistics.accounts.valid_accounts,
+                rate_limited_accounts: statistics.accounts.rate_limited_accounts,
+                invalid_accounts: statistics.accounts.invalid_accounts,
+                active_sessions: statistics.accounts.active_sessions,
+            },
+        [statistics],
+    )
+    const deltas = useCountDeltas(counts)
+
+    const handleIntervalChange = (interval: number) => {
+        setRefreshInterval(interval)
+        localStorage.setItem(REFRESH_INTERVAL_KEY, String(interval))
+    }
+
+    const handlePausedChange = (value: boolean) => {
+        setPaused(value)
+        localStorage.setItem(REFRESH_PAUSED_KEY, String(value))
+    }
 
     const stats = [
         {
             name: '총 계정 수',
             value: serverStatus === 'offline' ? 'N/A' : (statistics?.accounts.total_accounts ?? 0).toString(),
+            delta: deltas.total_accounts,
+            detail: statistics && serverStatus === 'online' ? (
+                <>
+                    정상 {statistics.accounts.valid_accounts}
+                    <CountDelta delta={deltas.valid_accounts} /> · 제한 {statistics.accounts.rate_limited_accounts}
+                    <CountDelta delta={deltas.rate_limited_accounts} /> · 무효 {statistics.accounts.invalid_accounts}
+                    <CountDelta delta={deltas.invalid_accounts} />
+                </>
+            ) : null,
             icon: Users,
             color: 'text-pink-500',
             bgColor: 'bg-pink-50',
@@ -48,6 +112,7 @@ export function Dashboard() {
         {
             name: '활성 세션',
             value: serverStatus === 'offline' ? 'N/A' : (statistics?.accounts.active_sessions ?? 0).toString(),
+            delta: deltas.active_sessions,
             icon: Activity,
             color: 'text-blue-500',
             bgColor: 'bg-blue-50',
@@ -88,9 +153,25 @@ export function Dashboard() {
 
     return (
         <div className='space-y-6'>
-            <div>
-                <h1 className='text-3xl font-bold tracking-tight pb-1'>대시보드</h1>
-                <p className='text-muted-foreground'>Clove에 오신 것을 환영합니다!</p>
+            <div className='flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4'>
+                <div>
+                    <div className='flex items-center gap-3'>
+                        <h1 className='text-3xl font-bold tracking-tight pb-1'>대시보드</h1>
+                        <LiveIndicator connected={connected} />
+                    </div>
+                    <p className='text-muted-foreground'>Clove에 오신 것을 환영합니다!</p>
+                </div>
+                <RefreshControls
+                    interval={refreshInterval}
+                    onIntervalChange={handleIntervalChange}
+                    paused={paused}
+                    onPausedChange={handlePausedChange}
+                    onRefresh={refresh}
+                    lastUpdated={lastUpdated}
+                    nextPollAt={nextPollAt}
+                    failures={failures}
+                    polling={polling}
+                />
             </div>
 
             <div className='grid gap-4 md:grid-cols-2 lg:grid-cols-4'>
@@ -103,12 +184,18 @@ export function Dashboard() {
                             </div>
                         </CardHeader>
                         <CardContent>
-                            <div className='text-2xl font-bold'>{item.value}</div>
+                            <div className='text-2xl font-bold'>
+                                {item.value}
+                                <CountDelta delta={item.delta} />
+                            </div>
+                            {item.detail && <p className='text-xs text-muted-foreground pt-1'>{item.detail}</p>}
                         </CardContent>
                     </Card>
                 ))}
             </div>
 
+            <RecoveryQueueCard />
+
             <div>
                 <h2 className='text-2xl font-semibold mb-4'>빠른 작업</h2>
                 <div className='grid gap-4 md:grid-cols-2'>
@@ -2,6 +2,7 @@ import { useState } from 'react'
 import { useNavigate } from 'react-router-dom'
 import { KeyRound, Loader2 } from 'lucide-react'
 import { statisticsApi } from '../api/client'
+import { AuthError, NetworkError } from '@clove/sdk'
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Button } from '@/components/ui/button'
@@ -29,7 +30,13 @@ export function Login() {
             // 성공 시 리디렉션
             navigate('/')
         } catch (err) {
-            setError('Admin Key가 유효하지 않거나 서버 연결에 실패했습니다')
+            if (err instanceof AuthError) {
+                setError('Admin Key가 유효하지 않습니다')
+            } else if (err instanceof NetworkError) {
+                setError('서버에 연결할 수 없습니다')
+            } else {
+                setError('Admin Key가 유효하지 않거나 서버 연결에 실패했습니다')
+            }
             localStorage.removeItem('adminKey')
         } finally {
             setLoading(false)
@@ -0,0 +1,326 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Link, useSearchParams } from 'react-router-dom'
+import { ChevronLeft, ChevronRight, RefreshCw, ScrollText } from 'lucide-react'
+import type { ApiKeyResponse, RequestLogFilters, RequestLogList, RequestLogPath, RequestLogStatus } from '@clove/sdk'
+import { apiKeysApi, requestLogsApi } from '../api/client'
+import { RequestLogSheet } from '../components/RequestLogSheet'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Input } from '@/components/ui/input'
+import { Skeleton } from '@/components/ui/skeleton'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { PATH_LABELS, formatLatency } from '@/utils/analytics'
+import { maskApiKey } from '@/utils/api-keys'
+import { formatDateTime } from '@/utils/time'
+
+const PAGE_SIZE = 50
+const ALL = 'all'
+
+const STATUS_OPTIONS: { value: RequestLogStatus; label: string }[] = [
+    { value: 'success', label: '성공' },
+    { value: 'error', label: '실패' },
+]
+
+const STREAM_OPTIONS = [
+    { value: 'true', label: '스트리밍' },
+    { value: 'false', label: '비스트리밍' },
+]
+
+const isStatus = (value: string | null): value is RequestLogStatus => STATUS_OPTIONS.some(option => option.value === value)
+const isPath = (value: string | null): value is RequestLogPath => value !== null && value in PATH_LABELS
+
+export function Logs() {
+    const [searchParams, setSearchParams] = useSearchParams()
+    const apiKeyParam = searchParams.get('api_key')
+    const accountParam = searchParams.get('account')
+    const modelParam = searchParams.get('model')
+    const statusParam = searchParams.get('status')
+    const pathParam = searchParams.get('path')
+    const streamParam = searchParams.get('stream')
+    const page = Math.max(Number(searchParams.get('page')) || 1, 1)
+    const selectedRequestId = searchParams.get('request')
+
+    const filters = useMemo<RequestLogFilters>(
+        () => ({
+            api_key_id: apiKeyParam ?? undefined,
+            organization_uuid: accountParam ?? undefined,
+            model: modelParam ?? undefined,
+            status: isStatus(statusParam) ? statusParam : undefined,
+            path: isPath(pathParam) ? pathParam : undefined,
+            stream: streamParam === null ? undefined : streamParam === 'true',
+            limit: PAGE_SIZE,
+            offset: (page - 1) * PAGE_SIZE,
+        }),
+        [apiKeyParam, accountParam, modelParam, statusParam, pathParam, streamParam, page],
+    )
+
+    const [logs, setLogs] = useState<RequestLogList | null>(null)
+    const [apiKeys, setApiKeys] = useState<ApiKeyResponse[]>([])
+    const [loading, setLoading] = useState(true)
+    const [refreshing, setRefreshing] = useState(false)
+    const [accountQuery, setAccountQuery] = useState(filters.organization_uuid ?? '')
+
+    const loadLogs = useCallback(async () => {
+        setRefreshing(true)
+        try {
+            const response = await requestLogsApi.list(filters)
+            setLogs(response.data)
+        } catch (error) {
+            console.error('Failed to load request logs:', error)
+        } finally {
+            setLoading(false)
+            setRefreshing(false)
+        }
+    }, [filters])
+
+    useEffect(() => {
+        loadLogs()
+    }, [loadLogs])
+
+    useEffect(() => {
+        apiKeysApi
+            .list()
+            .then(response => setApiKeys(response.data))
+            .catch(error => console.error('Failed to load API keys:', error))
+    }, [])
+
+    // 필터가 바뀌면 첫 페이지로 돌아감
+    const updateParam = (key: string, value: string | null) => {
+        setSearchParams(
+            prev => {
+                const next = new URLSearchParams(prev)
+                if (value === null || value === ALL || value === '') {
+                    next.delete(key)
+                } else {
+                    next.set(key, value)
+                }
+                if (key !== 'page' && key !== 'request') next.delete('page')
+                return next
+            },
+            { replace: key !== 'request' },
+        )
+    }
+
+    const closeDetail = useCallback(() => {
+        setSearchParams(
+            prev => {
+                const next = new URLSearchParams(prev)
+                next.delete('request')
+                return next
+            },
+            { replace: true },
+        )
+    }, [setSearchParams])
+
+    const totalPages = logs ? Math.max(Math.ceil(logs.total / PAGE_SIZE), 1) : 1
+
+    const selects = [
+        {
+            key: 'api_key',
+            label: 'API 키',
+            value: filters.api_key_id,
+            options: apiKeys.map(apiKey => ({
+                value: apiKey.key_id,
+                label: apiKey.name || maskApiKey(apiKey.key),
+            })),
+        },
+        {
+            key: 'model',
+            label: '모델',
+            value: filters.model,
+            options: (logs?.models ?? []).map(model => ({ value: model, label: model })),
+        },
+        { key: 'status', label: '상태', value: filters.status, options: STATUS_OPTIONS },
+        {
+            key: 'path',
+            label: '경로',
+            value: filters.path,
+            options: Object.entries(PATH_LABELS).map(([value, label]) => ({ value, label })),
+        },
+        { key: 'stream', label: '방식', value: streamParam ?? undefined, options: STREAM_OPTIONS },
+    ]
+
+    if (loading) {
+        return (
+            <div className='space-y-6'>
+                <div className='space-y-2'>
+                    <Skeleton className='h-9 w-40' />
+                    <Skeleton className='h-5 w-72' />
+                </div>
+                <Skeleton className='h-10 w-full' />
+                <Card>
+                    <CardContent className='space-y-3'>
+                        {[...Array(8)].map((_, i) => (
+                            <Skeleton key={i} className='h-6 w-full' />
+                        ))}
+                    </CardContent>
+                </Card>
+            </div>
+        )
+    }
+
+    return (
+        <div className='space-y-6'>
+            <div className='flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4'>
+                <div>
+                    <h1 className='text-3xl font-bold tracking-tight pb-1'>요청 로그</h1>
+                    <p className='text-muted-foreground'>최근 Messages API 요청과 처리 과정을 확인합니다</p>
+                </div>
+                <Button variant='outline' size='icon' onClick={loadLogs} disabled={refreshing} title='새로고침'>
+                    <RefreshCw className={`h-4 w-4 ${refreshing ? 'animate-spin' : ''}`} />
+                </Button>
+            </div>
+
+            <div className='flex flex-wrap items-center gap-2'>
+                {selects.map(select => (
+                    <Select
+                        key={select.key}
+                        value={select.value ?? ALL}
+                        onValueChange={value => updateParam(select.key, value)}
+                    >
+                        <SelectTrigger className='w-[160px]' aria-label={select.label}>
+                            <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                            <SelectItem value={ALL}>모든 {select.label}</SelectItem>
+                            {select.options.map(option => (
+                                <SelectItem key={option.value} value={option.value}>
+                                    {option.label}
+                                </SelectItem>
+                            ))}
+                        </SelectContent>
+                    </Select>
+                ))}
+                <form
+                    onSubmit={e => {
+                        e.preventDefault()
+                        updateParam('account', accountQuery.trim())
+                    }}
+                >
+                    <Input
+                        value={accountQuery}
+                        onChange={e => setAccountQuery(e.target.value)}
+                        onBlur={() => updateParam('account', accountQuery.trim())}
+                        placeholder='계정 UUID'
+                        className='w-[200px] font-mono'
+                    />
+                </form>
+            </div>
+
+            {!logs || logs.items.length === 0 ? (
+                <Card>
+                    <CardContent className='flex flex-col items-center justify-center py-12 text-muted-foreground'>
+                        <ScrollText className='h-12 w-12 mb-4' />
+                        조건에 맞는 요청이 없습니다
+                    </CardContent>
+                </Card>
+            ) : (
+                <Card className='py-0'>
+                    <CardContent className='p-0'>
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>시각</TableHead>
+                                    <TableHead>API 키</TableHead>
+                                    <TableHead>계정</TableHead>
+                                    <TableHead>모델</TableHead>
+                                    <TableHead>방식</TableHead>
+                                    <TableHead>경로</TableHead>
+                                    <TableHead>상태</TableHead>
+                                    <TableHead className='text-right'>지연 시간</TableHead>
+                                    <TableHead className='text-right'>토큰 (입력 / 출력)</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {logs.items.map(log => (
+                                    <TableRow
+                                        key={log.request_id}
+                                        className='cursor-pointer'
+                                        onClick={() => updateParam('request', log.request_id)}
+                                    >
+                                        <TableCell className='whitespace-nowrap'>{formatDateTime(log.timestamp)}</TableCell>
+                                        <TableCell>
+                                            {log.api_key_id ? (
+                                                (log.api_key_name ?? <span className='text-muted-foreground'>삭제된 키</span>)
+                                            ) : (
+                                                <span className='text-muted-foreground'>관리자 키</span>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            {log.organization_uuid ? (
+                                                <Link
+                                                    to={`/accounts/${log.organization_uuid}`}
+                                                    className='font-mono hover:underline'
+                                                    title={log.organization_uuid}
+                                                    onClick={e => e.stopPropagation()}
+                                                >
+                                                    {log.organization_uuid.slice(0, 8)}
+                                                </Link>
+                                            ) : (
+                                                <span className='text-muted-foreground'>-</span>
+                                            )}
+                                        </TableCell>
+                                        <TableCell className='font-mono text-xs'>{log.model}</TableCell>
+                                        <TableCell>{log.stream ? '스트리밍' : '비스트리밍'}</TableCell>
+                                        <TableCell>{log.path ? PATH_LABELS[log.path] : '-'}</TableCell>
+                                        <TableCell>
+                                            <Badge
+                                                variant={log.status === 'success' ? 'secondary' : 'destructive'}
+                                                title={log.error_message ?? undefined}
+                                            >
+                                                {log.status === 'success' ? '성공' : '실패'}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell className='text-right font-mono'>{formatLatency(log.latency_ms)}</TableCell>
+                                        <TableCell className='text-right font-mono whitespace-nowrap'>
+                                            {log.input_tokens.toLocaleString('ko-KR')} /{' '}
+                                            {log.output_tokens.toLocaleString('ko-KR')}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    </CardContent>
+                </Card>
+            )}
+
+            {logs && logs.total > 0 && (
+                <div className='flex items-center justify-between text-sm text-muted-foreground'>
+                    <span>
+                        전체 {logs.total.toLocaleString('ko-KR')}건 중 {(page - 1) * PAGE_SIZE + 1}-
+                        {Math.min(page * PAGE_SIZE, logs.total)}
+                    </span>
+                    <div className='flex items-center gap-2'>
+                        <Button
+                            variant='outline'
+                            size='icon'
+                            className='h-8 w-8'
+                            disabled={page <= 1}
+                            onClick={() => updateParam('page', page > 2 ? String(page - 1) : null)}
+                            title='이전 페이지'
+                        >
+                            <ChevronLeft className='h-4 w-4' />
+                        </Button>
+                        <span>
+                            {page} / {totalPages}
+                        </span>
+                        <Button
+                            variant='outline'
+                            size='icon'
+                            className='h-8 w-8'
+                            disabled={page >= totalPages}
+                            onClick={() => updateParam('page', String(page + 1))}
+                            title='다음 페이지'
+                        >
+                            <ChevronRight className='h-4 w-4' />
+                        </Button>
+                    </div>
+                </div>
+            )}
+
+            <RequestLogSheet requestId={selectedRequestId} onClose={closeDetail} />
+        </div>
+    )
+}
@@ -0,0 +1,337 @@
+import { useEffect, useRef, useState } from 'react'
+import { Loader2, Send, Square } from 'lucide-react'
+import type { ApiKeyResponse, Message, MessagesAPIRequest } from '@clove/sdk'
+import { ClientError, parseServerSentEvents, parseStreamingEvent } from '@clove/sdk'
+import { apiKeysApi, messagesApi } from '../api/client'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Textarea } from '@/components/ui/textarea'
+import { Switch } from '@/components/ui/switch'
+import { Badge } from '@/components/ui/badge'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { maskApiKey } from '@/utils/api-keys'
+import { formatLatency } from '@/utils/analytics'
+import {
+    EMPTY_RESULT,
+    applyStreamEvent,
+    buildMessagesRequest,
+    resultFromMessage,
+    type PlaygroundBlock,
+    type PlaygroundForm,
+    type PlaygroundResult,
+} from '@/utils/playground'
+
+const ADMIN_KEY = 'admin'
+
+const INITIAL_FORM: PlaygroundForm = {
+    model: 'claude-opus-4-20250514',
+    maxTokens: '1024',
+    system: '',
+    prompt: '',
+    stream: true,
+    thinking: false,
+    thinkingBudget: '1024',
+    tools: '',
+    stopSequences: '',
+}
+
+const BLOCK_LABELS: Record<string, string> = {
+    text: '텍스트',
+    thinking: '생각',
+    tool_use: '도구 호출',
+    server_tool_use: '서버 도구 호출',
+    web_search_tool_result: '웹 검색 결과',
+}
+
+function ResultBlock({ block }: { block: PlaygroundBlock }) {
+    if (block.type === 'text') {
+        return <p className='whitespace-pre-wrap break-words text-sm'>{block.text}</p>
+    }
+
+    return (
+        <div className='space-y-1.5 rounded-md border p-3'>
+            <div className='flex items-center gap-2'>
+                <Badge variant='outline'>{BLOCK_LABELS[block.type] ?? block.type}</Badge>
+                {block.name && <span className='font-mono text-xs'>{block.name}</span>}
+            </div>
+            <p
+                className={
+                    block.type === 'thinking'
+                        ? 'whitespace-pre-wrap break-words text-sm italic text-muted-foreground'
+                        : 'whitespace-pre-wrap break-all font-mono text-xs'
+                }
+            >
+                {block.text}
+            </p>
+        </div>
+    )
+}
+
+export function Playground() {
+    const [form, setForm] = useState<PlaygroundForm>(INITIAL_FORM)
+    const [apiKeys, setApiKeys] = useState<ApiKeyResponse[]>([])
+    const [selectedKey, setSelectedKey] = useState(ADMIN_KEY)
+    const [result, setResult] = useState<PlaygroundResult>(EMPTY_RESULT)
+    const [raw, setRaw] = useState('')
+    const [error, setError] = useState<string | null>(null)
+    const [running, setRunning] = useState(false)
+    const [elapsed, setElapsed] = useState<number | null>(null)
+    const [streamed, setStreamed] = useState(INITIAL_FORM.stream)
+    const controllerRef = useRef<AbortController | null>(null)
+
+    useEffect(() => {
+        apiKeysApi
+            .list()
+            .then(response => setApiKeys(response.data.filter(apiKey => apiKey.enabled && !apiKey.expired)))
+            .catch(error => console.error('Failed to load API keys:', error))
+        return () => controllerRef.current?.abort()
+    }, [])
+
+    const updateForm = <K extends keyof PlaygroundForm>(key: K, value: PlaygroundForm[K]) =>
+        setForm(prev => ({ ...prev, [key]: value }))
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault()
+
+        let request: MessagesAPIRequest
+        try {
+            request = buildMessagesRequest(form)
+        } catch (error) {
+            setError((error as Error).message)
+            return
+        }
+
+        const apiKey =
+            selectedKey === ADMIN_KEY
+                ? localStorage.getItem('adminKey')
+                : apiKeys.find(key => key.key_id === selectedKey)?.key
+        if (!apiKey) return
+
+        const controller = new AbortController()
+        controllerRef.current = controller
+        const startedAt = performance.now()
+        setResult(EMPTY_RESULT)
+        setRaw('')
+        setError(null)
+        setElapsed(null)
+        setStreamed(form.stream)
+        setRunning(true)
+
+        try {
+            const response = await messagesApi.create(request, { apiKey, signal: controller.signal })
+
+            if (form.stream && response.body) {
+                for await (const message of parseServerSentEvents(response.body)) {
+                    setRaw(prev => `${prev}event: ${message.event}\ndata: ${message.data}\n\n`)
+                    const event = parseStreamingEvent(message)
+                    if (event) setResult(prev => applyStreamEvent(prev, event))
+                }
+            } else {
+                const message: Message = await response.json()
+                setRaw(JSON.stringify(message, null, 2))
+                setResult(resultFromMessage(message))
+            }
+        } catch (error) {
+            if (!controller.signal.aborted) {
+                setError(error instanceof ClientError ? error.message : String(error))
+            }
+        } finally {
+            setElapsed(performance.now() - startedAt)
+            setRunning(false)
+        }
+    }
+
+    const keyOptions = [
+        { value: ADMIN_KEY, label: '관리자 키' },
+        ...apiKeys.map(apiKey => ({ value: apiKey.key_id, label: apiKey.name || maskApiKey(apiKey.key) })),
+    ]
+
+    return (
+        <div className='space-y-6'>
+            <div>
+                <h1 className='text-3xl font-bold tracking-tight pb-1'>플레이그라운드</h1>
+                <p className='text-muted-foreground'>프록시의 Messages API에 직접 요청을 보내 응답을 확인합니다</p>
+            </div>
+
+            <div className='grid gap-4 lg:grid-cols-[minmax(320px,400px)_1fr]'>
+                <Card>
+                    <CardHeader>
+                        <CardTitle>요청</CardTitle>
+                        <CardDescription>/v1/messages 로 보낼 요청을 구성합니다</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                        <form onSubmit={handleSubmit} className='space-y-4'>
+                            <div className='space-y-2'>
+                                <Label>API 키</Label>
+                                <Select value={selectedKey} onValueChange={setSelectedKey}>
+                                    <SelectTrigger className='w-full'>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {keyOptions.map(option => (
+                                            <SelectItem key={option.value} value={option.value}>
+                                                {option.label}
+                                            </SelectItem>
+                                        ))}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                            <div className='grid grid-cols-[1fr_110px] gap-2'>
+                                <div className='space-y-2'>
+                                    <Label htmlFor='playground-model'>모델</Label>
+                                    <Input
+                                        id='playground-model'
+                                        value={form.model}
+                                        onChange={e => updateForm('model', e.target.value)}
+                                        className='font-mono text-sm'
+                                        required
+                                    />
+                                </div>
+                                <div className='space-y-2'>
+                                    <Label htmlFor='playground-max-tokens'>최대 토큰</Label>
+                                    <Input
+                                        id='playground-max-tokens'
+                                        type='number'
+                                        min={1}
+                                        value={form.maxTokens}
+                                        onChange={e => updateForm('maxTokens', e.target.value)}
+                                    />
+                                </div>
+                            </div>
+                            <div className='space-y-2'>
+                                <Label htmlFor='playground-system'>시스템 프롬프트</Label>
+                                <Textarea
+                                    id='playground-system'
+                                    value={form.system}
+                                    onChange={e => updateForm('system', e.target.value)}
+                                    rows={2}
+                                />
+                            </div>
+                            <div className='space-y-2'>
+                                <Label htmlFor='playground-prompt'>사용자 메시지</Label>
+                                <Textarea
+                                    id='playground-prompt'
+                                    value={form.prompt}
+                                    onChange={e => updateForm('prompt', e.target.value)}
+                                    rows={4}
+                                    required
+                                />
+                            </div>
+                            <div className='flex items-center justify-between'>
+                                <Label htmlFor='playground-stream'>스트리밍</Label>
+                                <Switch
+                                    id='playground-stream'
+                                    checked={form.stream}
+                                    onCheckedChange={checked => updateForm('stream', checked)}
+                                />
+                            </div>
+                            <div className='flex items-center justify-between gap-2'>
+                                <Label htmlFor='playground-thinking'>확장 사고</Label>
+                                <div className='flex items-center gap-2'>
+                                    {form.thinking && (
+                                        <Input
+                                            type='number'
+                                            min={1024}
+                                            value={form.thinkingBudget}
+                                            onChange={e => updateForm('thinkingBudget', e.target.value)}
+                                            className='h-8 w-28'
+                                            aria-label='사고 예산 토큰'
+                                        />
+                                    )}
+                                    <Switch
+                                        id='playground-thinking'
+                                        checked={form.thinking}
+                                        onCheckedChange={checked => updateForm('thinking', checked)}
+                                    />
+                                </div>
+                            </div>
+                            <div className='space-y-2'>
+                                <Label htmlFor='playground-tools'>도구</Label>
+                                <Textarea
+                                    id='playground-tools'
+                                    placeholder='[{"name": "get_weather", "input_schema": {"type": "object"}}]'
+                                    value={form.tools}
+                                    onChange={e => updateForm('tools', e.target.value)}
+                                    rows={3}
+                                    className='font-mono text-xs'
+                                />
+                            </div>
+                            <div className='space-y-2'>
+                                <Label htmlFor='playground-stop'>중지 시퀀스</Label>
+                                <Textarea
+                                    id='playground-stop'
+                                    value={form.stopSequences}
+                                    onChange={e => updateForm('stopSequences', e.target.value)}
+                                    rows={2}
+                                    className='font-mono text-sm'
+                                />
+                                <p className='text-sm text-muted-foreground'>한 줄에 하나씩 입력합니다</p>
+                            </div>
+                            {running ? (
+                                <Button
+                                    type='button'
+                                    variant='outline'
+                                    className='w-full'
+                                    onClick={() => controllerRef.current?.abort()}
+                                >
+                                    <Square className='mr-2 h-4 w-4' />
+                                    중지
+                                </Button>
+                            ) : (
+                                <Button type='submit' className='w-full'>
+                                    <Send className='mr-2 h-4 w-4' />
+                                    보내기
+                                </Button>
+                            )}
+                        </form>
+                    </CardContent>
+                </Card>
+
+                <div className='grid gap-4 xl:grid-cols-2 content-start'>
+                    <Card className='min-w-0'>
+                        <CardHeader>
+                            <CardTitle className='flex items-center gap-2'>
+                                결과
+                                {running && <Loader2 className='h-4 w-4 animate-spin text-muted-foreground' />}
+                            </CardTitle>
+                            <CardDescription>
+                                {[
+                                    result.stopReason && `중지 이유: ${result.stopReason}`,
+                                    result.stopSequence && `중지 시퀀스: ${result.stopSequence}`,
+                                    result.usage &&
+                                        `토큰: ${result.usage.input_tokens ?? 0} / ${result.usage.output_tokens ?? 0}`,
+                                    elapsed !== null && `소요 시간: ${formatLatency(elapsed)}`,
+                                ]
+                                    .filter(Boolean)
+                                    .join(' · ') || '응답이 도착하면 여기에 표시됩니다'}
+                            </CardDescription>
+                        </CardHeader>
+                        <CardContent className='space-y-3'>
+                            {(error || result.error) && (
+                                <Alert variant='destructive'>
+                                    <AlertDescription>{error ?? result.error}</AlertDescription>
+                                </Alert>
+                            )}
+                            {result.blocks.map((block, index) => block && <ResultBlock key={index} block={block} />)}
+                        </CardContent>
+                    </Card>
+
+                    <Card className='min-w-0'>
+                        <CardHeader>
+                            <CardTitle>원시 응답</CardTitle>
+                            <CardDescription>{streamed ? '받은 SSE 이벤트' : '응답 본문'}</CardDescription>
+                        </CardHeader>
+                        <CardContent>
+                            <pre className='min-h-24 max-h-[70vh] overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap break-all'>
+                                {raw}
+                            </pre>
+                        </CardContent>
+                    </Card>
+                </div>
+            </div>
+        </div>
+    )
+}
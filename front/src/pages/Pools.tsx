@@ -0,0 +1,283 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { Link } from 'react-router-dom'
+import { Layers, Pencil, Plus, Trash2, KeyRound, Users } from 'lucide-react'
+import type { AccountPool, SettingsRead } from '@clove/sdk'
+import { poolsApi, settingsApi } from '../api/client'
+import { PoolModal } from '../components/PoolModal'
+import { StatusLabel } from '../components/AccountLabels'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Skeleton } from '@/components/ui/skeleton'
+import {
+    AlertDialog,
+    AlertDialogAction,
+    AlertDialogCancel,
+    AlertDialogContent,
+    AlertDialogDescription,
+    AlertDialogFooter,
+    AlertDialogHeader,
+    AlertDialogTitle,
+} from '@/components/ui/alert-dialog'
+import { useLiveAccounts } from '@/hooks/use-live-accounts'
+import { maskApiKey } from '@/utils/api-keys'
+import { toast } from 'sonner'
+
+export function Pools() {
+    const { accounts, loading: accountsLoading } = useLiveAccounts()
+    const [pools, setPools] = useState<AccountPool[]>([])
+    const [settings, setSettings] = useState<SettingsRead | null>(null)
+    const [loading, setLoading] = useState(true)
+    const [modalOpen, setModalOpen] = useState(false)
+    const [editingPool, setEditingPool] = useState<AccountPool | null>(null)
+    const [poolToDelete, setPoolToDelete] = useState<AccountPool | null>(null)
+
+    const loadPools = useCallback(async () => {
+        try {
+            const [poolsResponse, settingsResponse] = await Promise.all([poolsApi.list(), settingsApi.get()])
+            setPools(poolsResponse.data)
+            setSettings(settingsResponse.data)
+        } catch (error) {
+            console.error('Failed to load pools:', error)
+        } finally {
+            setLoading(false)
+        }
+    }, [])
+
+    useEffect(() => {
+        loadPools()
+    }, [loadPools])
+
+    const accountsByUuid = useMemo(
+        () => new Map(accounts.map(account => [account.organization_uuid, account])),
+        [accounts],
+    )
+    const sharedAccountCount = accounts.filter(account => account.pools.length === 0).length
+    const boundKeys = new Set(pools.flatMap(pool => pool.api_keys))
+    const unboundKeyCount = settings
+        ? [...settings.api_keys, ...settings.admin_api_keys].filter(key => !boundKeys.has(key)).length
+        : 0
+
+    const handleAdd = () => {
+        setEditingPool(null)
+        setModalOpen(true)
+    }
+
+    const handleEdit = (pool: AccountPool) => {
+        setEditingPool(pool)
+        setModalOpen(true)
+    }
+
+    const handleModalClose = () => {
+        setModalOpen(false)
+        setEditingPool(null)
+        loadPools()
+    }
+
+    const handleDelete = async () => {
+        if (!poolToDelete) return
+
+        try {
+            await poolsApi.delete(poolToDelete.pool_id)
+            toast.success(`'${poolToDelete.name}' 풀을 삭제했습니다`)
+            await loadPools()
+        } catch (error) {
+            console.error('Failed to delete pool:', error)
+        } finally {
+            setPoolToDelete(null)
+        }
+    }
+
+    if (loading || accountsLoading) {
+        return (
+            <div className='space-y-6'>
+                <div className='space-y-2'>
+                    <Skeleton className='h-9 w-40' />
+                    <Skeleton className='h-5 w-72' />
+                </div>
+                <div className='grid gap-4 md:grid-cols-2'>
+                    {[...Array(2)].map((_, i) => (
+                        <Card key={i}>
+                            <CardHeader>
+                                <Skeleton className='h-6 w-32' />
+                                <Skeleton className='h-4 w-48' />
+                            </CardHeader>
+                            <CardContent className='space-y-3'>
+                                <Skeleton className='h-4 w-full' />
+                                <Skeleton className='h-4 w-3/4' />
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+            </div>
+        )
+    }
+
+    return (
+        <div className='space-y-6'>
+            <div className='flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4'>
+                <div>
+                    <h1 className='text-3xl font-bold tracking-tight pb-1'>계정 풀</h1>
+                    <p className='text-muted-foreground'>API 키마다 사용할 계정 그룹을 지정합니다</p>
+                </div>
+                <Button onClick={handleAdd} className='w-full sm:w-auto'>
+                    <Plus className='mr-2 h-4 w-4' />
+                    풀 만들기
+                </Button>
+            </div>
+
+            <Card>
+                <CardHeader>
+                    <CardTitle className='flex items-center gap-2'>
+                        <Users className='h-5 w-5' />
+                        공유 풀
+                    </CardTitle>
+                    <CardDescription>어떤 풀에도 연결되지 않은 API 키는 풀에 속하지 않은 계정을 함께 사용합니다</CardDescription>
+                </CardHeader>
+                <CardContent className='flex flex-wrap gap-x-6 gap-y-1 text-sm'>
+                    <span>
+                        계정 <span className='font-semibold'>{sharedAccountCount}</span>개
+                    </span>
+                    <span>
+                        API 키 <span className='font-semibold'>{unboundKeyCount}</span>개
+                    </span>
+                </CardContent>
+            </Card>
+
+            {pools.length === 0 ? (
+                <Card>
+                    <CardContent className='flex flex-col items-center justify-center py-12'>
+                        <div className='rounded-full bg-muted p-6 mb-4'>
+                            <Layers className='h-12 w-12 text-muted-foreground' />
+                        </div>
+                        <h3 className='text-lg font-semibold mb-2'>계정 풀 없음</h3>
+                        <p className='text-muted-foreground mb-4 text-center'>
+                            풀을 만들어 팀별 API 키가 해당 팀의 계정만 사용하도록 하세요
+                        </p>
+                        <Button onClick={handleAdd}>
+                            <Plus className='mr-2 h-4 w-4' />
+                            풀 만들기
+                        </Button>
+                    </CardContent>
+                </Card>
+            ) : (
+                <div className='grid gap-4 md:grid-cols-2'>
+                    {pools.map(pool => (
+                        <Card key={pool.pool_id}>
+                            <CardHeader>
+                                <div className='flex items-start justify-between gap-2'>
+                                    <div className='min-w-0'>
+                                        <CardTitle className='flex items-center gap-2'>
+                                            <Layers className='h-5 w-5' />
+                                            <span className='truncate'>{pool.name}</span>
+                                        </CardTitle>
+                                        {pool.description && (
+                                            <CardDescription className='mt-1.5'>{pool.description}</CardDescription>
+                                        )}
+                                    </div>
+                                    <div className='flex gap-1 flex-shrink-0'>
+                                        <Button
+                                            variant='ghost'
+                                            size='sm'
+                                            className='h-8 w-8 p-0'
+                                            onClick={() => handleEdit(pool)}
+                                            title='편집'
+                                        >
+                                            <Pencil className='h-4 w-4' />
+                                        </Button>
+                                        <Button
+                                            variant='ghost'
+                                            size='sm'
+                                            className='h-8 w-8 p-0 text-destructive hover:text-destructive'
+                                            onClick={() => setPoolToDelete(pool)}
+                                            title='삭제'
+                                        >
+                                            <Trash2 className='h-4 w-4' />
+                                        </Button>
+                                    </div>
+                                </div>
+                            </CardHeader>
+                            <CardContent className='space-y-4'>
+                                <div className='space-y-2'>
+                                    <p className='text-sm font-medium'>계정 {pool.organization_uuids.length}개</p>
+                                    {pool.organization_uuids.length === 0 ? (
+                                        <p className='text-sm text-muted-foreground'>
+                                            계정이 없어 연결된 API 키의 요청은 실패합니다
+                                        </p>
+                                    ) : (
+                                        <div className='rounded-md border divide-y'>
+                                            {pool.organization_uuids.map(organizationUuid => {
+                                                const account = accountsByUuid.get(organizationUuid)
+                                                return (
+                                                    <div
+                                                        key={organizationUuid}
+                                                        className='flex items-center justify-between gap-2 px-3 py-2'
+                                                    >
+                                                        <Link
+                                                            to={`/accounts/${organizationUuid}`}
+                                                            className='font-mono text-xs truncate hover:underline'
+                                                        >
+                                                            {organizationUuid}
+                                                        </Link>
+                                                        {account && (
+                                                            <StatusLabel status={account.status} className='text-xs' />
+                                                        )}
+                                                    </div>
+                                                )
+                                            })}
+                                        </div>
+                                    )}
+                                </div>
+                                <div className='space-y-2'>
+                                    <p className='text-sm font-medium'>API 키 {pool.api_keys.length}개</p>
+                                    {pool.api_keys.length === 0 ? (
+                                        <p className='text-sm text-muted-foreground'>연결된 API 키가 없습니다</p>
+                                    ) : (
+                                        <div className='flex flex-wrap gap-1'>
+                                            {pool.api_keys.map(key => (
+                                                <Badge key={key} variant='outline' className='gap-1 font-mono'>
+                                                    <KeyRound className='h-3 w-3' />
+                                                    {maskApiKey(key)}
+                                                </Badge>
+                                            ))}
+                                        </div>
+                                    )}
+                                </div>
+                            </CardContent>
+                        </Card>
+                    ))}
+                </div>
+            )}
+
+            {modalOpen && settings && (
+                <PoolModal
+                    pool={editingPool}
+                    accounts={accounts}
+                    apiKeys={settings.api_keys}
+                    adminApiKeys={settings.admin_api_keys}
+                    onClose={handleModalClose}
+                />
+            )}
+
+            <AlertDialog open={!!poolToDelete} onOpenChange={open => !open && setPoolToDelete(null)}>
+                <AlertDialogContent>
+                    <AlertDialogHeader>
+                        <AlertDialogTitle>이 풀을 삭제하시겠습니까?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                            다른 풀에 속하지 않은 계정은 공유 풀로 돌아가고, 다른 풀에 연결되지 않은 API 키는 공유 풀의 계정을 사용하게 됩니다.
+                        </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                        <AlertDialogCancel>취소</AlertDialogCancel>
+                        <AlertDialogAction
+                            onClick={handleDelete}
+                            className='bg-destructive text-destructive-foreground hover:bg-destructive/90'
+                        >
+                            삭제
+                        </AlertDialogAction>
+                    </AlertDialogFooter>
+                </AlertDialogContent>
+            </AlertDialog>
+        </div>
+    )
+}
@@ -0,0 +1,137 @@
+import { useEffect, useMemo, useRef, useState } from 'react'
+import { Download, Eraser, Pause, Play, Search } from 'lucide-react'
+import type { ServerLogLevel } from '@clove/sdk'
+import { serverLogsApi } from '../api/client'
+import { LiveIndicator } from '../components/LiveIndicator'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { useServerLogs } from '@/hooks/use-server-logs'
+import { LEVEL_CLASSES, SERVER_LOG_LEVELS, filterServerLogs, formatLogTime } from '@/utils/server-logs'
+import { downloadFile, timestampedFilename } from '@/utils/download'
+import { cn } from '@/lib/utils'
+
+// 맨 아래에서 이만큼 이내로 스크롤되어 있으면 새 줄을 따라갑니다
+const FOLLOW_THRESHOLD = 40
+
+export function ServerLogs() {
+    const { entries, logLevel, logFileAvailable, connected, paused, setPaused, pendingCount, clear } = useServerLogs()
+    const [minLevel, setMinLevel] = useState<ServerLogLevel>('TRACE')
+    const [search, setSearch] = useState('')
+    const [downloading, setDownloading] = useState(false)
+    const scrollRef = useRef<HTMLDivElement>(null)
+    const followRef = useRef(true)
+
+    const visibleEntries = useMemo(() => filterServerLogs(entries, minLevel, search), [entries, minLevel, search])
+
+    useEffect(() => {
+        const container = scrollRef.current
+        if (container && followRef.current) {
+            container.scrollTop = container.scrollHeight
+        }
+    }, [visibleEntries])
+
+    const handleScroll = () => {
+        const container = scrollRef.current
+        if (!container) return
+        followRef.current = container.scrollHeight - container.scrollTop - container.clientHeight < FOLLOW_THRESHOLD
+    }
+
+    const handleDownload = async () => {
+        setDownloading(true)
+        try {
+            const response = await serverLogsApi.downloadFile()
+            downloadFile(response.data, timestampedFilename('clove-server', 'log'), 'text/plain')
+        } catch (error) {
+            console.error('Failed to download log file:', error)
+        } finally {
+            setDownloading(false)
+        }
+    }
+
+    return (
+        <div className='space-y-6'>
+            <div className='flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4'>
+                <div>
+                    <div className='flex items-center gap-3'>
+                        <h1 className='text-3xl font-bold tracking-tight pb-1'>서버 로그</h1>
+                        <LiveIndicator connected={connected} />
+                    </div>
+                    <p className='text-muted-foreground'>
+                        애플리케이션 로그를 실시간으로 확인합니다
+                        {logLevel && ` (서버 로그 레벨: ${logLevel})`}
+                    </p>
+                </div>
+                <Button
+                    variant='outline'
+                    onClick={handleDownload}
+                    disabled={!logFileAvailable || downloading}
+                    title={logFileAvailable ? undefined : '파일 로그가 비활성화되어 있거나 로그 파일이 아직 없습니다'}
+                >
+                    <Download className='mr-2 h-4 w-4' />
+                    로그 파일 다운로드
+                </Button>
+            </div>
+
+            <div className='flex flex-wrap items-center gap-2'>
+                <Select value={minLevel} onValueChange={value => setMinLevel(value as ServerLogLevel)}>
+                    <SelectTrigger className='w-[150px]' aria-label='최소 레벨'>
+                        <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                        {SERVER_LOG_LEVELS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                            </SelectItem>
+                        ))}
+                    </SelectContent>
+                </Select>
+                <div className='relative w-full sm:w-64'>
+                    <Search className='absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground' />
+                    <Input value={search} onChange={e => setSearch(e.target.value)} placeholder='로그 검색' className='pl-8' />
+                </div>
+                <Button variant='outline' onClick={() => setPaused(!paused)}>
+                    {paused ? <Play className='mr-2 h-4 w-4' /> : <Pause className='mr-2 h-4 w-4' />}
+                    {paused ? `재개${pendingCount > 0 ? ` (새 로그 ${pendingCount}줄)` : ''}` : '일시 정지'}
+                </Button>
+                <Button variant='outline' onClick={clear} disabled={entries.length === 0}>
+                    <Eraser className='mr-2 h-4 w-4' />
+                    화면 지우기
+                </Button>
+                <span className='text-sm text-muted-foreground'>
+                    {visibleEntries.length.toLocaleString('ko-KR')} / {entries.length.toLocaleString('ko-KR')}줄
+                </span>
+            </div>
+
+            <Card className='py-0'>
+                <CardContent className='p-0'>
+                    <div
+                        ref={scrollRef}
+                        onScroll={handleScroll}
+                        className='h-[calc(100vh-18rem)] min-h-80 overflow-auto p-3 font-mono text-xs leading-relaxed'
+                    >
+                        {visibleEntries.length === 0 ? (
+                            <p className='py-12 text-center font-sans text-sm text-muted-foreground'>
+                                {entries.length === 0 ? '아직 받은 로그가 없습니다' : '조건에 맞는 로그가 없습니다'}
+                            </p>
+                        ) : (
+                            visibleEntries.map(entry => (
+                                <div key={entry.id} className='flex gap-3 whitespace-pre-wrap break-all hover:bg-muted/50'>
+                                    <span className='shrink-0 text-muted-foreground'>{formatLogTime(entry.timestamp)}</span>
+                                    <span className={cn('w-16 shrink-0', LEVEL_CLASSES[entry.level])}>{entry.level}</span>
+                                    <span className='min-w-0'>
+                                        <span className='mr-2 text-muted-foreground'>
+                                            {entry.name}:{entry.function}:{entry.line}
+                                        </span>
+                                        {entry.message}
+                                    </span>
+                                </div>
+                            ))
+                        )}
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    )
+}
@@ -1,7 +1,23 @@
 import { useEffect, useState, useCallback } from 'react'
-import { Key, RefreshCw, Sliders, Globe, Shield, Check, AlertCircle, Loader2, Trash2, Copy, Eye, EyeOff } from 'lucide-react'
-import type { SettingsRead, SettingsUpdate } from '../api/types'
-import { settingsApi } from '../api/client'
+import {
+    Key,
+    RefreshCw,
+    Sliders,
+    Globe,
+    Shield,
+    Check,
+    AlertCircle,
+    Loader2,
+    Trash2,
+    Copy,
+    Eye,
+    EyeOff,
+    Pencil,
+} from 'lucide-react'
+import type { ApiKeyResponse, SettingsRead, SettingsUpdate } from '@clove/sdk'
+import { apiKeysApi, settingsApi } from '../api/client'
+import { ApiKeyModal } from '../components/ApiKeyModal'
+import { ApiKeyUsage } from '../components/ApiKeyUsage'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
@@ -25,23 +41,39 @@ import {
 } from '@/components/ui/alert-dialog'
 import { toast } from 'sonner'
 import { useIsMobile } from '@/hooks/use-mobile'
+import { expiryDateToISO } from '@/utils/api-keys'
+import { formatDateTime } from '@/utils/time'
 
 export function Settings() {
     const [settings, setSettings] = useState<SettingsRead | null>(null)
     const [originalSettings, setOriginalSettings] = useState<SettingsRead | null>(null)
     const [loading, setLoading] = useState(true)
     const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
+    const [apiKeys, setApiKeys] = useState<ApiKeyResponse[]>([])
     const [newApiKey, setNewApiKey] = useState('')
+    const [newApiKeyName, setNewApiKeyName] = useState('')
+    const [newApiKeyExpiry, setNewApiKeyExpiry] = useState('')
+    const [editingApiKey, setEditingApiKey] = useState<ApiKeyResponse | null>(null)
     const [newAdminKey, setNewAdminKey] = useState('')
     const [visibleKeys, setVisibleKeys] = useState<Set<string>>(new Set())
     const [copiedKeys, setCopiedKeys] = useState<Set<string>>(new Set())
     const isMobile = useIsMobile()
 
+    const loadApiKeys = async () => {
+        try {
+            const response = await apiKeysApi.list()
+            setApiKeys(response.data)
+        } catch (error) {
+            console.error('Failed to load API keys:', error)
+        }
+    }
+
     const loadSettings = async () => {
         try {
-            const response = await settingsApi.get()
-            setSettings(response.data)
-            setOriginalSettings(response.data)
+            const [settingsResponse, apiKeysResponse] = await Promise.all([settingsApi.get(), apiKeysApi.list()])
+            setSettings(settingsResponse.data)
+            setOriginalSettings(settingsResponse.data)
+            setApiKeys(apiKeysResponse.data)
         } catch (error) {
             console.error('Failed to load settings:', error)
         } finally {
@@ -110,23 +142,57 @@ export function Settings() {
         [originalSettings, saveChanges],
     )
 
+    // API 키는 이름, 만료일 등 메타데이터와 함께 별도 API 로 관리합니다
     const handleAddApiKey = async () => {
-        if (!settings || !newApiKey || settings.api_keys.includes(newApiKey)) return
-        const newSettings = {
-            ...settings,
-            api_keys: [...settings.api_keys, newApiKey],
+        if (!newApiKey || apiKeys.some(apiKey => apiKey.key === newApiKey)) return
+        try {
+            await apiKeysApi.create({
+                key: newApiKey,
+                name: newApiKeyName.trim() || undefined,
+                expires_at: expiryDateToISO(newApiKeyExpiry),
+            })
+            setNewApiKey('')
+            setNewApiKeyName('')
+            setNewApiKeyExpiry('')
+            await loadApiKeys()
+        } catch (error) {
+            console.error('Failed to add API key:', error)
         }
-        await handleFieldChange(newSettings)
-        setNewApiKey('')
     }
 
-    const handleRemoveApiKey = async (key: string) => {
-        if (!settings) return
-        const newSettings = {
-            ...settings,
-            api_keys: settings.api_keys.filter(k => k !== key),
+    const handleRemoveApiKey = async (apiKey: ApiKeyResponse) => {
+        try {
+            await apiKeysApi.delete(apiKey.key_id)
+            await loadApiKeys()
+        } catch (error) {
+            console.error('Failed to remove API key:', error)
+        }
+    }
+
+    const handleToggleApiKey = async (apiKey: ApiKeyResponse, enabled: boolean) => {
+        setApiKeys(prev => prev.map(item => (item.key_id === apiKey.key_id ? { ...item, enabled } : item)))
+        try {
+            await apiKeysApi.update(apiKey.key_id, { enabled })
+            toast.success(enabled ? '키를 활성화했습니다' : '키를 비활성화했습니다')
+        } catch (error) {
+            console.error('Failed to update API key:', error)
+            await loadApiKeys()
+        }
+    }
+
+    const handleResetApiKeyUsage = async (apiKey: ApiKeyResponse) => {
+        try {
+            const response = await apiKeysApi.resetUsage(apiKey.key_id)
+            setApiKeys(prev => prev.map(item => (item.key_id === apiKey.key_id ? response.data : item)))
+            toast.success('사용량을 초기화했습니다')
+        } catch (error) {
+            console.error('Failed to reset API key usage:', error)
         }
-        await handleFieldChange(newSettings)
+    }
+
+    const handleApiKeyModalClose = () => {
+        setEditingApiKey(null)
+        loadApiKeys()
     }
 
     const handleAddAdminKey = async () => {
@@ -251,76 +317,116 @@ export function Settings() {
                         <Key className='h-5 w-5' />
                         API 키
                     </CardTitle>
-                    <CardDescription>API 액세스 키를 관리합니다</CardDescription>
+                    <CardDescription>API 액세스 키와 이름, 만료일, 사용량 제한을 관리합니다</CardDescription>
                 </CardHeader>
                 <CardContent className='space-y-4'>
-                    {settings.api_keys.length === 0 ? (
+                    {apiKeys.length === 0 ? (
                         <Alert>
                             <AlertDescription>API 키가 없습니다. 첫 번째 키를 추가해주세요.</AlertDescription>
                         </Alert>
                     ) : (
                         <div className='space-y-2'>
-                            {settings.api_keys.map((key, index) => (
+                            {apiKeys.map(apiKey => (
                                 <div
-                                    key={index}
-                                    className='flex items-start gap-2 p-3 bg-muted/50 rounded-lg border border-border/50 hover:bg-muted/70 transition-colors'
+                                    key={apiKey.key_id}
+                                    className='space-y-2 p-3 bg-muted/50 rounded-lg border border-border/50 hover:bg-muted/70 transition-colors'
                                 >
-                                    <code className='flex-1 text-sm font-mono select-none break-all'>
-                                        {visibleKeys.has(key) ? key : isMobile ? '*'.repeat(20) : '*'.repeat(32)}
-                                    </code>
-                                    <div className='flex items-center gap-1 flex-shrink-0'>
-                                        <Button
-                                            variant='ghost'
-                                            size='sm'
-                                            onClick={() => toggleKeyVisibility(key)}
-                                            className='h-8 w-8 p-0'
-                                            title={visibleKeys.has(key) ? '키 숨기기' : '키 표시'}
-                                        >
-                                            {visibleKeys.has(key) ? (
-                                                <EyeOff className='h-4 w-4' />
-                                            ) : (
-                                                <Eye className='h-4 w-4' />
-                                            )}
-                                        </Button>
-                                        <Button
-                                            variant='ghost'
-                                            size='sm'
-                                            onClick={() => copyKey(key)}
-                                            className='h-8 w-8 p-0'
-                                            title='키 복사'
-                                        >
-                                            {copiedKeys.has(key) ? (
-                                                <Check className='h-4 w-4 text-green-500' />
-                                            ) : (
-                                                <Copy className='h-4 w-4' />
-                                            )}
-                                        </Button>
-                                        <AlertDialog>
-                                            <AlertDialogTrigger asChild>
-                                                <Button
-                                                    variant='ghost'
-                                                    size='sm'
-                                                    className='h-8 w-8 p-0 text-destructive hover:text-destructive'
-                                                >
-                                                    <Trash2 className='h-4 w-4' />
-                                                </Button>
-                                            </AlertDialogTrigger>
-                                            <AlertDialogContent>
-                                                <AlertDialogHeader>
-                                                    <AlertDialogTitle>이 키를 삭제하시겠습니까?</AlertDialogTitle>
-                                                    <AlertDialogDescription>
-                                                        이 작업은 되돌릴 수 없습니다. 삭제 후 이 키를 사용하는 애플리케이션은 API에 액세스할 수 없습니다.
-                                                    </AlertDialogDescription>
-                                                </AlertDialogHeader>
-                                                <AlertDialogFooter>
-                                                    <AlertDialogCancel>취소</AlertDialogCancel>
-                                                    <AlertDialogAction onClick={() => handleRemoveApiKey(key)}>
-                                                        삭제
-                                                    </AlertDialogAction>
-                                                </AlertDialogFooter>
-                                            </AlertDialogContent>
-                                        </AlertDialog>
+                                    <div className='flex items-center justify-between gap-2'>
+                                        <div className='flex flex-wrap items-center gap-2 min-w-0'>
+                                            <span
+                                                className={`font-medium truncate ${apiKey.name ? '' : 'text-muted-foreground'}`}
+                                            >
+                                                {apiKey.name || '이름 없음'}
+                                            </span>
+                                            {apiKey.expired && <Badge variant='destructive'>만료됨</Badge>}
+                                            {!apiKey.enabled && <Badge variant='secondary'>비활성</Badge>}
+                                        </div>
+                                        <Switch
+                                            checked={apiKey.enabled}
+                                            onCheckedChange={enabled => handleToggleApiKey(apiKey, enabled)}
+                                            title={apiKey.enabled ? '키 비활성화' : '키 활성화'}
+                                        />
                                     </div>
+                                    <div className='flex items-start gap-2'>
+                                        <code className='flex-1 text-sm font-mono select-none break-all'>
+                                            {visibleKeys.has(apiKey.key)
+                                                ? apiKey.key
+                                                : isMobile
+                                                  ? '*'.repeat(20)
+                                                  : '*'.repeat(32)}
+                                        </code>
+                                        <div className='flex items-center gap-1 flex-shrink-0'>
+                                            <Button
+                                                variant='ghost'
+                                                size='sm'
+                                                onClick={() => toggleKeyVisibility(apiKey.key)}
+                                                className='h-8 w-8 p-0'
+                                                title={visibleKeys.has(apiKey.key) ? '키 숨기기' : '키 표시'}
+                                            >
+                                                {visibleKeys.has(apiKey.key) ? (
+                                                    <EyeOff className='h-4 w-4' />
+                                                ) : (
+                                                    <Eye className='h-4 w-4' />
+                                                )}
+                                            </Button>
+                                            <Button
+                                                variant='ghost'
+                                                size='sm'
+                                                onClick={() => copyKey(apiKey.key)}
+                                                className='h-8 w-8 p-0'
+                                                title='키 복사'
+                                            >
+                                                {copiedKeys.has(apiKey.key) ? (
+                                                    <Check className='h-4 w-4 text-green-500' />
+                                                ) : (
+                                                    <Copy className='h-4 w-4' />
+                                                )}
+                                            </Button>
+                                            <Button
+                                                variant='ghost'
+                                                size='sm'
+                                                onClick={() => setEditingApiKey(apiKey)}
+                                                className='h-8 w-8 p-0'
+                                                title='이름, 만료일 및 사용량 제한 편집'
+                                            >
+                                                <Pencil className='h-4 w-4' />
+                                            </Button>
+                                            <AlertDialog>
+                                                <AlertDialogTrigger asChild>
+                                                    <Button
+                                                        variant='ghost'
+                                                        size='sm'
+                                                        className='h-8 w-8 p-0 text-destructive hover:text-destructive'
+                                                    >
+                                                        <Trash2 className='h-4 w-4' />
+                                                    </Button>
+                                                </AlertDialogTrigger>
+                                                <AlertDialogContent>
+                                                    <AlertDialogHeader>
+                                                        <AlertDialogTitle>이 키를 삭제하시겠습니까?</AlertDialogTitle>
+                                                        <AlertDialogDescription>
+                                                            이 작업은 되돌릴 수 없습니다. 삭제 후 이 키를 사용하는 애플리케이션은 API에 액세스할 수
+                                                            없습니다. 잠시 막으려면 삭제하는 대신 비활성화하세요.
+                                                        </AlertDialogDescription>
+                                                    </AlertDialogHeader>
+                                                    <AlertDialogFooter>
+                                                        <AlertDialogCancel>취소</AlertDialogCancel>
+                                                        <AlertDialogAction onClick={() => handleRemoveApiKey(apiKey)}>
+                                                            삭제
+                                                        </AlertDialogAction>
+                                                    </AlertDialogFooter>
+                                                </AlertDialogContent>
+                                            </AlertDialog>
+                                        </div>
+                                    </div>
+                                    <div className='flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground'>
+                                        <span>생성: {formatDateTime(apiKey.created_at)}</span>
+                                        <span>
+                                            마지막 사용: {apiKey.last_used_at ? formatDateTime(apiKey.last_used_at) : '사용 기록 없음'}
+                                        </span>
+                                        <span>만료: {apiKey.expires_at ? formatDateTime(apiKey.expires_at) : '없음'}</span>
+                                    </div>
+                                    <ApiKeyUsage apiKey={apiKey} onReset={() => handleResetApiKeyUsage(apiKey)} />
                                 </div>
                             ))}
                         </div>
@@ -338,14 +444,29 @@ export function Settings() {
                                 placeholder='새 키를 입력하거나 생성하세요'
                                 className='font-mono flex-1 min-w-0'
                             />
-                            <div className='flex gap-2'>
-                                <Button variant='outline' size='icon' onClick={() => generateNewKey('api')} title='새 키 생성'>
-                                    <RefreshCw className='h-4 w-4' />
-                                </Button>
-                                <Button onClick={handleAddApiKey} disabled={!newApiKey}>
-                                    추가
-                                </Button>
-                            </div>
+                            <Button variant='outline' size='icon' onClick={() => generateNewKey('api')} title='새 키 생성'>
+                                <RefreshCw className='h-4 w-4' />
+                            </Button>
+                        </div>
+                        <div className='flex flex-wrap gap-2'>
+                            <Input
+                                value={newApiKeyName}
+                                onChange={e => setNewApiKeyName(e.target.value)}
+                                placeholder='이름 (선택)'
+                                aria-label='새 API 키 이름'
+                                className='flex-1 min-w-0'
+                            />
+                            <Input
+                                type='date'
+                                value={newApiKeyExpiry}
+                                onChange={e => setNewApiKeyExpiry(e.target.value)}
+                                title='만료일 (선택)'
+                                aria-label='새 API 키 만료일'
+                                className='w-full sm:w-44'
+                            />
+                            <Button onClick={handleAddApiKey} disabled={!newApiKey}>
+                                추가
+                            </Button>
                         </div>
                     </div>
                 </CardContent>
@@ -606,6 +727,8 @@ export function Settings() {
                     </div>
                 </CardContent>
             </Card>
+
+            {editingApiKey && <ApiKeyModal apiKey={editingApiKey} onClose={handleApiKeyModalClose} />}
         </div>
     )
 }
\ No newline at end of file
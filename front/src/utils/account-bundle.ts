@@ -0,0 +1,133 @@
+import type { AccountBundle } from '@clove/sdk'
+
+// 계정 내보내기 파일 형식. 백엔드 번들을 그대로 담거나 암호문으로 감쌉니다
+const BUNDLE_FORMAT = 'clove-account-bundle'
+const PBKDF2_ITERATIONS = 310000
+const SALT_LENGTH = 16
+const IV_LENGTH = 12
+
+interface PlainBundleFile extends AccountBundle {
+    format: typeof BUNDLE_FORMAT
+    encrypted: false
+}
+
+interface EncryptedBundleFile {
+    format: typeof BUNDLE_FORMAT
+    version: number
+    encrypted: true
+    kdf: { name: 'PBKDF2'; hash: 'SHA-256'; iterations: number; salt: string }
+    cipher: { name: 'AES-GCM'; iv: string }
+    data: string
+}
+
+export type BundleFile = PlainBundleFile | EncryptedBundleFile
+
+// 파일이 손상되었거나 암호가 틀린 경우
+export class BundleError extends Error {
+    constructor(message: string) {
+        super(message)
+        this.name = 'BundleError'
+    }
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(Array.from(bytes, byte => String.fromCharCode(byte)).join(''))
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0))
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+    const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+        'deriveKey',
+    ])
+    return crypto.subtle.deriveKey(
+        { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+        material,
+        { name: 'AES-GCM', length: 256 },
+        false,
+        ['encrypt', 'decrypt'],
+    )
+}
+
+/**
+ * Serializes an account bundle for download, encrypting it when a passphrase is given
+ * @param bundle - The bundle returned by the export endpoint
+ * @param passphrase - Optional passphrase for AES-GCM encryption
+ * @returns The file contents
+ */
+export async function createBundleFile(bundle: AccountBundle, passphrase?: string): Promise<string> {
+    if (!passphrase) {
+        const file: PlainBundleFile = { format: BUNDLE_FORMAT, encrypted: false, ...bundle }
+        return JSON.stringify(file, null, 2)
+    }
+
+    const salt = crypto.getRandomValues(new Uint8Array(SALT_LENGTH))
+    const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH))
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS)
+    const plaintext = new TextEncoder().encode(JSON.stringify(bundle))
+    const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext)
+
+    const file: EncryptedBundleFile = {
+        format: BUNDLE_FORMAT,
+        version: bundle.version,
+        encrypted: true,
+        kdf: { name: 'PBKDF2', hash: 'SHA-256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt) },
+        cipher: { name: 'AES-GCM', iv: toBase64(iv) },
+        data: toBase64(new Uint8Array(ciphertext)),
+    }
+    return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Parses the contents of an exported bundle file without decrypting it
+ * @param content - The file contents
+ * @returns The bundle file
+ * @throws BundleError if the content is not a bundle file
+ */
+export function parseBundleFile(content: string): BundleFile {
+    let data: unknown
+    try {
+        data = JSON.parse(content)
+    } catch {
+        throw new BundleError('JSON 파일이 아닙니다')
+    }
+
+    if (typeof data !== 'object' || data === null || (data as { format?: unknown }).format !== BUNDLE_FORMAT) {
+        throw new BundleError('Clove 계정 내보내기 파일이 아닙니다')
+    }
+
+    const file = data as BundleFile
+    if (!file.encrypted && !Array.isArray(file.accounts)) {
+        throw new BundleError('계정 목록이 없습니다')
+    }
+    return file
+}
+
+/**
+ * Extracts the account bundle from a bundle file, decrypting it if needed
+ * @param file - The parsed bundle file
+ * @param passphrase - The passphrase, required for encrypted files
+ * @returns The account bundle
+ * @throws BundleError if the passphrase is missing or wrong
+ */
+export async function openBundleFile(file: BundleFile, passphrase?: string): Promise<AccountBundle> {
+    if (!file.encrypted) {
+        const { version, exported_at, accounts } = file
+        return { version, exported_at, accounts }
+    }
+
+    if (!passphrase) {
+        throw new BundleError('암호화된 파일입니다. 암호를 입력하세요')
+    }
+
+    try {
+        const key = await deriveKey(passphrase, fromBase64(file.kdf.salt), file.kdf.iterations)
+        const plaintext = await crypto.subtle.decrypt(
+            { name: 'AES-GCM', iv: fromBase64(file.cipher.iv) },
+            key,
+            fromBase64(file.data),
+        )
+        return JSON.parse(new TextDecoder().decode(plaintext)) as AccountBundle
+    } catch {
+        // AES-GCM 은 암호가 틀리면 인증 태그 검증에 실패합니다
+        throw new BundleError('암호가 올바르지 않거나 파일이 손상되었습니다')
+    }
+}
@@ -0,0 +1,146 @@
+import { getAccountPlan, type AccountPlan, type AccountResponse } from '@clove/sdk'
+
+export type AccountSortField = 'last_used' | 'resets_at'
+export type SortOrder = 'asc' | 'desc'
+
+export interface AccountFilters {
+    search: string
+    status: AccountResponse['status'] | 'all'
+    authType: AccountResponse['auth_type'] | 'all'
+    plan: AccountPlan | 'all'
+    oauth: 'yes' | 'no' | 'all'
+    // 빈 문자열이면 라벨로 필터링하지 않습니다
+    label: string
+    sort: AccountSortField | null
+    order: SortOrder
+}
+
+export const DEFAULT_ACCOUNT_FILTERS: AccountFilters = {
+    search: '',
+    status: 'all',
+    authType: 'all',
+    plan: 'all',
+    oauth: 'all',
+    label: '',
+    sort: null,
+    order: 'desc',
+}
+
+const STATUSES = ['valid', 'invalid', 'rate_limited'] as const
+const AUTH_TYPES = ['cookie_only', 'oauth_only', 'both'] as const
+const PLANS = ['free', 'pro', 'max'] as const
+const OAUTH_VALUES = ['yes', 'no'] as const
+const SORT_FIELDS = ['last_used', 'resets_at'] as const
+const SORT_ORDERS = ['asc', 'desc'] as const
+
+const pick = <T extends string>(value: string | null, allowed: readonly T[]): T | undefined =>
+    allowed.find(item => item === value)
+
+/**
+ * Reads account filters from URL query parameters, ignoring unknown values
+ * @param params - The URL query parameters
+ * @returns The filters, with defaults for missing parameters
+ */
+export function parseAccountFilters(params: URLSearchParams): AccountFilters {
+    return {
+        search: params.get('q') ?? DEFAULT_ACCOUNT_FILTERS.search,
+        status: pick(params.get('status'), STATUSES) ?? DEFAULT_ACCOUNT_FILTERS.status,
+        authType: pick(params.get('auth'), AUTH_TYPES) ?? DEFAULT_ACCOUNT_FILTERS.authType,
+        plan: pick(params.get('plan'), PLANS) ?? DEFAULT_ACCOUNT_FILTERS.plan,
+        oauth: pick(params.get('oauth'), OAUTH_VALUES) ?? DEFAULT_ACCOUNT_FILTERS.oauth,
+        label: params.get('label') ?? DEFAULT_ACCOUNT_FILTERS.label,
+        sort: pick(params.get('sort'), SORT_FIELDS) ?? DEFAULT_ACCOUNT_FILTERS.sort,
+        order: pick(params.get('order'), SORT_ORDERS) ?? DEFAULT_ACCOUNT_FILTERS.order,
+    }
+}
+
+/**
+ * Writes account filters to URL query parameters, omitting default values
+ * @param filters - The filters
+ * @returns The URL query parameters
+ */
+export function toAccountFilterParams(filters: AccountFilters): URLSearchParams {
+    const params = new URLSearchParams()
+    if (filters.search) params.set('q', filters.search)
+    if (filters.status !== 'all') params.set('status', filters.status)
+    if (filters.authType !== 'all') params.set('auth', filters.authType)
+    if (filters.plan !== 'all') params.set('plan', filters.plan)
+    if (filters.oauth !== 'all') params.set('oauth', filters.oauth)
+    if (filters.label) params.set('label', filters.label)
+    if (filters.sort) {
+        params.set('sort', filters.sort)
+        params.set('order', filters.order)
+    }
+    return params
+}
+
+/**
+ * Checks whether any filter (excluding sorting) narrows the account list
+ * @param filters - The filters
+ * @returns boolean indicating if the list is filtered
+ */
+export function hasActiveFilters(filters: AccountFilters): boolean {
+    return (
+        filters.search.trim() !== '' ||
+        filters.status !== 'all' ||
+        filters.authType !== 'all' ||
+        filters.plan !== 'all' ||
+        filters.oauth !== 'all' ||
+        filters.label !== ''
+    )
+}
+
+/**
+ * Collects the distinct labels used across accounts
+ * @param accounts - The accounts
+ * @returns The labels in alphabetical order
+ */
+export function collectAccountLabels(accounts: AccountResponse[]): string[] {
+    return [...new Set(accounts.flatMap(account => account.labels ?? []))].sort((a, b) => a.localeCompare(b))
+}
+
+// 검색어는 UUID 외에도 라벨과 메모에서 찾습니다
+const matchesSearch = (account: AccountResponse, search: string): boolean =>
+    account.organization_uuid.toLowerCase().includes(search) ||
+    (account.labels ?? []).some(label => label.toLowerCase().includes(search)) ||
+    (account.notes ?? '').toLowerCase().includes(search)
+
+const getSortValue = (account: AccountResponse, field: AccountSortField): number | null => {
+    const value = account[field]
+    if (!value) return null
+    const time = new Date(value).getTime()
+    return Number.isNaN(time) ? null : time
+}
+
+/**
+ * Filters and sorts accounts
+ * @param accounts - The accounts to filter
+ * @param filters - The filters to apply
+ * @returns A new array of matching accounts; accounts without a sort value are placed last
+ */
+export function applyAccountFilters(accounts: AccountResponse[], filters: AccountFilters): AccountResponse[] {
+    const search = filters.search.trim().toLowerCase()
+
+    const filtered = accounts.filter(account => {
+        if (search && !matchesSearch(account, search)) return false
+        if (filters.status !== 'all' && account.status !== filters.status) return false
+        if (filters.authType !== 'all' && account.auth_type !== filters.authType) return false
+        if (filters.plan !== 'all' && getAccountPlan(account) !== filters.plan) return false
+        if (filters.oauth !== 'all' && account.has_oauth !== (filters.oauth === 'yes')) return false
+        if (filters.label && !(account.labels ?? []).includes(filters.label)) return false
+        return true
+    })
+
+    const sortField = filters.sort
+    if (!sortField) return filtered
+
+    const direction = filters.order === 'asc' ? 1 : -1
+    return filtered.sort((a, b) => {
+        const aValue = getSortValue(a, sortField)
+        const bValue = getSortValue(b, sortField)
+        if (aValue === null && bValue === null) return 0
+        if (aValue === null) return 1
+        if (bValue === null) return -1
+        return (aValue - bValue) * direction
+    })
+}
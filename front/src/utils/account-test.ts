@@ -0,0 +1,38 @@
+import type { AccountPathTestResult, AccountTestResult } from '@clove/sdk'
+
+const PATH_NAMES: Record<AccountPathTestResult['path'], string> = {
+    web: '웹',
+    oauth: 'OAuth',
+}
+
+/**
+ * Checks whether every tested path of an account succeeded
+ * @param result - The test result
+ * @returns True if at least one path was tested and none failed
+ */
+export function isTestSuccessful(result: AccountTestResult): boolean {
+    return result.results.length > 0 && result.results.every(path => path.success)
+}
+
+/**
+ * Summarizes a test result, e.g. "웹 812ms · OAuth 실패 · Max"
+ * @param result - The test result
+ * @returns The latency or failure of each path, followed by the detected plan
+ */
+export function summarizeTestResult(result: AccountTestResult): string {
+    const parts = result.results.map(path => `${PATH_NAMES[path.path]} ${path.success ? `${path.latency_ms}ms` : '실패'}`)
+    if (result.plan) parts.push(result.plan)
+    return parts.join(' · ')
+}
+
+/**
+ * Lists the errors of the failed paths, prefixed with the path name
+ * @param result - The test result
+ * @returns One message per failed path, or a single message if no path was tested
+ */
+export function getTestErrors(result: AccountTestResult): string[] {
+    if (result.results.length === 0) return ['테스트할 수 있는 경로가 없습니다']
+    return result.results
+        .filter(path => !path.success)
+        .map(path => `${PATH_NAMES[path.path]}: ${path.error ?? '알 수 없는 오류'}`)
+}
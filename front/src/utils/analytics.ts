@@ -0,0 +1,136 @@
+import type { AnalyticsGroupBy, AnalyticsRange, AnalyticsResponse, AnalyticsSeries, AnalyticsSummary } from '@clove/sdk'
+
+export const ANALYTICS_RANGES: { value: AnalyticsRange; label: string }[] = [
+    { value: '1h', label: '1시간' },
+    { value: '24h', label: '24시간' },
+    { value: '7d', label: '7일' },
+]
+
+export const ANALYTICS_GROUP_BYS: { value: AnalyticsGroupBy; label: string }[] = [
+    { value: 'none', label: '전체' },
+    { value: 'api_key', label: 'API 키' },
+    { value: 'account', label: '계정' },
+    { value: 'model', label: '모델' },
+    { value: 'path', label: '경로 (OAuth / 웹)' },
+]
+
+export const SERIES_COLORS = ['var(--chart-1)', '#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#06b6d4', '#ef4444', '#64748b']
+
+// 값이 없는 그룹의 이름 (예: 관리자 키로 보낸 요청, 계정 선택 전에 실패한 요청)
+const EMPTY_GROUP_LABELS: Record<AnalyticsGroupBy, string> = {
+    none: '전체',
+    api_key: '관리자 키',
+    account: '계정 미배정',
+    model: '알 수 없음',
+    path: '경로 미배정',
+}
+
+export const PATH_LABELS: Record<string, string> = {
+    oauth: 'OAuth',
+    web: '웹 프록시',
+}
+
+/**
+ * Gets the display name of an analytics series
+ * @param groupBy - The dimension the series were grouped by
+ * @param series - The series
+ * @returns The localized series name
+ */
+export function getSeriesLabel(groupBy: AnalyticsGroupBy, series: AnalyticsSeries): string {
+    if (groupBy === 'none') return '전체'
+    if (series.key === 'none') return EMPTY_GROUP_LABELS[groupBy]
+    if (series.key === 'other') return '기타'
+    if (groupBy === 'path') return PATH_LABELS[series.key] ?? series.key
+    if (groupBy === 'account') return series.key.slice(0, 8)
+    return series.label
+}
+
+/**
+ * Calculates the share of failed requests
+ * @param summary - The aggregated figures
+ * @returns The error rate in percent, or null when there were no requests
+ */
+export function getErrorRate(summary: AnalyticsSummary): number | null {
+    return summary.requests > 0 ? (summary.errors / summary.requests) * 100 : null
+}
+
+/**
+ * Formats a latency in milliseconds, switching to seconds from one second up
+ * @param milliseconds - The latency, or null when unknown
+ * @returns The formatted latency, e.g. 850ms or 2.4s
+ */
+export function formatLatency(milliseconds: number | null | undefined): string {
+    if (milliseconds === null || milliseconds === undefined) return '-'
+    return milliseconds < 1000 ? `${Math.round(milliseconds)}ms` : `${(milliseconds / 1000).toFixed(1)}s`
+}
+
+const compactNumberFormat = new Intl.NumberFormat('ko-KR', { notation: 'compact', maximumFractionDigits: 1 })
+
+/**
+ * Formats a count compactly, e.g. 1.2만
+ * @param value - The count
+ * @returns The formatted count
+ */
+export function formatCompactNumber(value: number): string {
+    return compactNumberFormat.format(value)
+}
+
+/**
+ * Formats a bucket start time for chart axes, with the date only for ranges longer than a day
+ * @param timestamp - The bucket start time
+ * @param range - The selected time range
+ * @returns The formatted time
+ */
+export function formatBucketTime(timestamp: string, range: AnalyticsRange): string {
+    const date = new Date(timestamp)
+    const pad = (value: number) => String(value).padStart(2, '0')
+    const time = `${pad(date.getHours())}:${pad(date.getMinutes())}`
+    return range === '7d' ? `${date.getMonth() + 1}/${date.getDate()} ${time}` : time
+}
+
+const escapeCsvField = (value: string | number | null | undefined) => {
+    if (value === null || value === undefined) return ''
+    const text = String(value)
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Serializes every point of every series as CSV, one row per series and time bucket
+ * @param analytics - The analytics response
+ * @returns The CSV text with a header row
+ */
+export function analyticsToCsv(analytics: AnalyticsResponse): string {
+    const header = [
+        'timestamp',
+        'group_by',
+        'group',
+        'label',
+        'requests',
+        'errors',
+        'error_rate',
+        'input_tokens',
+        'output_tokens',
+        'latency_p50_ms',
+        'latency_p95_ms',
+        'latency_p99_ms',
+    ]
+
+    const rows = analytics.series.flatMap(series =>
+        series.points.map(point => [
+            point.timestamp,
+            analytics.group_by,
+            series.key,
+            getSeriesLabel(analytics.group_by, series),
+            point.requests,
+            point.errors,
+            getErrorRate(point)?.toFixed(2),
+            point.input_tokens,
+            point.output_tokens,
+            point.latency_p50,
+            point.latency_p95,
+            point.latency_p99,
+        ]),
+    )
+
+    return [header, ...rows].map(row => row.map(escapeCsvField).join(',')).join('\n')
+}
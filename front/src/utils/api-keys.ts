@@ -0,0 +1,50 @@
+/**
+ * Shortens an API key to its first and last characters so keys can be told apart without revealing them
+ * @param key - The API key
+ * @returns The masked key, e.g. sk-abc…wxyz
+ */
+export function maskApiKey(key: string): string {
+    if (key.length <= 12) return '*'.repeat(key.length)
+    return `${key.slice(0, 6)}…${key.slice(-4)}`
+}
+
+/**
+ * Converts a date input value to the end of that day in local time
+ * @param date - The date in YYYY-MM-DD format, or an empty string for no expiry
+ * @returns The ISO timestamp, or null when no date is given
+ */
+export function expiryDateToISO(date: string): string | null {
+    if (!date) return null
+    return new Date(`${date}T23:59:59`).toISOString()
+}
+
+/**
+ * Converts an expiry timestamp to a date input value in local time
+ * @param iso - The ISO timestamp
+ * @returns The date in YYYY-MM-DD format, or an empty string when there is no expiry
+ */
+export function isoToExpiryDate(iso: string | null | undefined): string {
+    if (!iso) return ''
+    const date = new Date(iso)
+    const pad = (value: number) => String(value).padStart(2, '0')
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Parses a quota input value into a positive whole number
+ * @param value - The input value, or an empty string for no limit
+ * @returns The limit, or null when the value is empty or not a positive number
+ */
+export function parseLimit(value: string): number | null {
+    const limit = Number.parseInt(value, 10)
+    return Number.isFinite(limit) && limit > 0 ? limit : null
+}
+
+/**
+ * Splits a comma or newline separated model list into unique model names
+ * @param value - The model list as typed by the user
+ * @returns The model names, empty when every model is allowed
+ */
+export function parseModelList(value: string): string[] {
+    return [...new Set(value.split(/[,\n]/).map(model => model.trim()))].filter(Boolean)
+}
@@ -0,0 +1,75 @@
+// 일괄 작업의 동시 실행 및 일시정지/재개/취소 제어
+
+export interface BatchControl {
+    readonly paused: boolean
+    readonly cancelled: boolean
+    pause: () => void
+    resume: () => void
+    cancel: () => void
+    waitWhilePaused: () => Promise<void>
+}
+
+/**
+ * Creates a controller for pausing, resuming and cancelling a running batch
+ * @returns The batch control
+ */
+export function createBatchControl(): BatchControl {
+    let paused = false
+    let cancelled = false
+    let waiters: (() => void)[] = []
+
+    const release = () => {
+        waiters.forEach(resolve => resolve())
+        waiters = []
+    }
+
+    return {
+        get paused() {
+            return paused
+        },
+        get cancelled() {
+            return cancelled
+        },
+        pause: () => {
+            if (!cancelled) paused = true
+        },
+        resume: () => {
+            paused = false
+            release()
+        },
+        cancel: () => {
+            cancelled = true
+            paused = false
+            release()
+        },
+        waitWhilePaused: () => (paused ? new Promise<void>(resolve => waiters.push(resolve)) : Promise.resolve()),
+    }
+}
+
+/**
+ * Runs a worker over items with at most `concurrency` in flight. Pausing lets in-flight
+ * items finish but starts no new ones; cancelling stops picking up items entirely.
+ * @param items - The items to process
+ * @param concurrency - Maximum number of concurrent workers
+ * @param worker - Processes a single item
+ * @param control - Optional pause/resume/cancel control
+ */
+export async function runWithConcurrency<T>(
+    items: readonly T[],
+    concurrency: number,
+    worker: (item: T) => Promise<void>,
+    control?: BatchControl,
+): Promise<void> {
+    let next = 0
+
+    const runWorker = async () => {
+        while (next < items.length) {
+            await control?.waitWhilePaused()
+            if (control?.cancelled || next >= items.length) return
+            await worker(items[next++])
+        }
+    }
+
+    const workerCount = Math.max(1, Math.min(concurrency, items.length))
+    await Promise.all(Array.from({ length: workerCount }, runWorker))
+}
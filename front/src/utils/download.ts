@@ -0,0 +1,39 @@
+/**
+ * Saves content as a file through a temporary object URL
+ * @param content - The file content
+ * @param filename - The suggested file name
+ * @param type - The MIME type of the content
+ */
+export function downloadFile(content: BlobPart, filename: string, type: string = 'application/octet-stream'): void {
+    const url = URL.createObjectURL(new Blob([content], { type }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = filename
+    document.body.appendChild(link)
+    link.click()
+    link.remove()
+    URL.revokeObjectURL(url)
+}
+
+/**
+ * Saves a value as a pretty-printed JSON file
+ * @param data - The value to serialize
+ * @param filename - The suggested file name
+ */
+export function downloadJson(data: unknown, filename: string): void {
+    downloadFile(JSON.stringify(data, null, 2), filename, 'application/json')
+}
+
+/**
+ * Builds a file name with the current local date and time, e.g. clove-accounts-20250101-120000.json
+ * @param prefix - The file name prefix
+ * @param extension - The file extension without the dot
+ * @returns The file name
+ */
+export function timestampedFilename(prefix: string, extension: string): string {
+    const now = new Date()
+    const pad = (value: number) => String(value).padStart(2, '0')
+    const date = `${now.getFullYear()}${pad(now.getMonth() + 1)}${pad(now.getDate())}`
+    const time = `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`
+    return `${prefix}-${date}-${time}.${extension}`
+}
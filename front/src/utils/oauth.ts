@@ -0,0 +1,50 @@
+// 진행 중인 OAuth 인증을 세션 저장소에 보관합니다
+
+const PENDING_AUTHORIZATION_KEY = 'oauthPendingAuthorization'
+// 인증 코드의 유효 시간보다 넉넉하게 보관합니다
+const PENDING_AUTHORIZATION_TTL = 30 * 60 * 1000
+
+export interface PendingAuthorization {
+    organizationUuid: string
+    accountType: 'Pro' | 'Max'
+    verifier: string
+    state: string
+    authUrl: string
+    createdAt: number
+}
+
+/**
+ * Stores an in-progress authorization so it survives closing the modal or reloading the page
+ * @param pending - The pending authorization
+ */
+export function savePendingAuthorization(pending: PendingAuthorization): void {
+    sessionStorage.setItem(PENDING_AUTHORIZATION_KEY, JSON.stringify(pending))
+}
+
+/**
+ * Loads the in-progress authorization, discarding it once expired
+ * @returns The pending authorization, or null if there is none
+ */
+export function loadPendingAuthorization(): PendingAuthorization | null {
+    const stored = sessionStorage.getItem(PENDING_AUTHORIZATION_KEY)
+    if (!stored) return null
+
+    try {
+        const pending = JSON.parse(stored) as PendingAuthorization
+        if (Date.now() - pending.createdAt > PENDING_AUTHORIZATION_TTL) {
+            clearPendingAuthorization()
+            return null
+        }
+        return pending
+    } catch {
+        clearPendingAuthorization()
+        return null
+    }
+}
+
+/**
+ * Removes the in-progress authorization
+ */
+export function clearPendingAuthorization(): void {
+    sessionStorage.removeItem(PENDING_AUTHORIZATION_KEY)
+}
@@ -0,0 +1,165 @@
+import type { ContentBlock, Message, MessagesAPIRequest, StopReason, StreamingEvent, Tool, Usage } from '@clove/sdk'
+
+export interface PlaygroundForm {
+    model: string
+    maxTokens: string
+    system: string
+    prompt: string
+    stream: boolean
+    thinking: boolean
+    thinkingBudget: string
+    tools: string // 도구 정의의 JSON 배열
+    stopSequences: string // 한 줄에 하나씩
+}
+
+export interface PlaygroundBlock {
+    type: ContentBlock['type']
+    text: string // text/thinking 블록은 본문, 도구 호출은 입력 JSON, 그 외 블록은 원본 JSON
+    name?: string // 도구 이름
+}
+
+export interface PlaygroundResult {
+    id?: string
+    model?: string
+    blocks: PlaygroundBlock[]
+    stopReason?: StopReason | null
+    stopSequence?: string | null
+    usage?: Partial<Usage>
+    error?: string
+}
+
+export const EMPTY_RESULT: PlaygroundResult = { blocks: [] }
+
+/**
+ * Splits stop sequences entered one per line, dropping empty lines
+ * @param text - The raw input
+ * @returns The stop sequences
+ */
+export function parseStopSequences(text: string): string[] {
+    return text.split('\n').filter(sequence => sequence.length > 0)
+}
+
+/**
+ * Builds a Messages API request body from the playground form
+ * @param form - The form values
+ * @returns The request body
+ * @throws Error with a localized message when the tools are not a JSON array
+ */
+export function buildMessagesRequest(form: PlaygroundForm): MessagesAPIRequest {
+    const request: MessagesAPIRequest = {
+        model: form.model.trim(),
+        max_tokens: Number(form.maxTokens) || 1024,
+        messages: [{ role: 'user', content: form.prompt }],
+        stream: form.stream,
+    }
+
+    if (form.system.trim()) request.system = form.system
+    if (form.thinking) request.thinking = { type: 'enabled', budget_tokens: Number(form.thinkingBudget) || 1024 }
+
+    const stopSequences = parseStopSequences(form.stopSequences)
+    if (stopSequences.length > 0) request.stop_sequences = stopSequences
+
+    if (form.tools.trim()) {
+        let tools: unknown
+        try {
+            tools = JSON.parse(form.tools)
+        } catch {
+            throw new Error('도구 정의가 올바른 JSON이 아닙니다')
+        }
+        if (!Array.isArray(tools)) throw new Error('도구 정의는 JSON 배열이어야 합니다')
+        request.tools = tools as Tool[]
+    }
+
+    return request
+}
+
+const toBlock = (block: ContentBlock): PlaygroundBlock => {
+    switch (block.type) {
+        case 'text':
+            return { type: block.type, text: block.text }
+        case 'thinking':
+            return { type: block.type, text: block.thinking }
+        case 'tool_use':
+        case 'server_tool_use':
+            return { type: block.type, name: block.name, text: '' }
+        default:
+            return { type: block.type, text: JSON.stringify(block, null, 2) }
+    }
+}
+
+/**
+ * Applies one streaming event to the result being rendered
+ * @param result - The result so far
+ * @param event - The streaming event
+ * @returns The updated result
+ */
+export function applyStreamEvent(result: PlaygroundResult, event: StreamingEvent): PlaygroundResult {
+    switch (event.type) {
+        case 'message_start':
+            return {
+                ...result,
+                id: event.message.id,
+                model: event.message.model,
+                usage: event.message.usage ?? undefined,
+            }
+        case 'content_block_start': {
+            const blocks = [...result.blocks]
+            blocks[event.index] = toBlock(event.content_block)
+            return { ...result, blocks }
+        }
+        case 'content_block_delta': {
+            const block = result.blocks[event.index]
+            if (!block) return result
+            const { delta } = event
+            let text: string
+            switch (delta.type) {
+                case 'text_delta':
+                    text = delta.text
+                    break
+                case 'thinking_delta':
+                    text = delta.thinking
+                    break
+                case 'input_json_delta':
+                    text = delta.partial_json
+                    break
+                default:
+                    // 서명은 표시하지 않습니다
+                    return result
+            }
+            const blocks = [...result.blocks]
+            blocks[event.index] = { ...block, text: block.text + text }
+            return { ...result, blocks }
+        }
+        case 'message_delta':
+            return {
+                ...result,
+                stopReason: event.delta.stop_reason,
+                stopSequence: event.delta.stop_sequence,
+                usage: { ...result.usage, ...event.usage },
+            }
+        case 'error':
+            return { ...result, error: event.error.message }
+        default:
+            return result
+    }
+}
+
+/**
+ * Converts a non-streaming Messages API response into a result
+ * @param message - The response message
+ * @returns The result
+ */
+export function resultFromMessage(message: Message): PlaygroundResult {
+    return {
+        id: message.id,
+        model: message.model,
+        blocks: message.content.map(block =>
+            block.type === 'tool_use' || block.type === 'server_tool_use'
+                ? { ...toBlock(block), text: JSON.stringify(block.input) }
+                : toBlock(block),
+        ),
+        stopReason: message.stop_reason,
+        stopSequence: message.stop_sequence,
+        usage: message.usage ?? undefined,
+    }
+}
@@ -0,0 +1,68 @@
+import type { ServerLogEntry, ServerLogLevel } from '@clove/sdk'
+
+// loguru의 기본 레벨 번호
+const LEVEL_SEVERITY: Record<ServerLogLevel, number> = {
+    TRACE: 5,
+    DEBUG: 10,
+    INFO: 20,
+    SUCCESS: 25,
+    WARNING: 30,
+    ERROR: 40,
+    CRITICAL: 50,
+}
+
+export const SERVER_LOG_LEVELS: { value: ServerLogLevel; label: string }[] = [
+    { value: 'TRACE', label: '모든 레벨' },
+    { value: 'DEBUG', label: 'DEBUG 이상' },
+    { value: 'INFO', label: 'INFO 이상' },
+    { value: 'WARNING', label: 'WARNING 이상' },
+    { value: 'ERROR', label: 'ERROR 이상' },
+]
+
+export const LEVEL_CLASSES: Record<string, string> = {
+    TRACE: 'text-muted-foreground',
+    DEBUG: 'text-muted-foreground',
+    INFO: 'text-sky-600 dark:text-sky-400',
+    SUCCESS: 'text-green-600 dark:text-green-400',
+    WARNING: 'text-amber-600 dark:text-amber-400',
+    ERROR: 'text-destructive',
+    CRITICAL: 'text-destructive font-bold',
+}
+
+/**
+ * Gets the severity of a log level, treating custom levels like INFO
+ * @param level - The level name
+ * @returns The loguru severity number
+ */
+export function getLevelSeverity(level: string): number {
+    return LEVEL_SEVERITY[level as ServerLogLevel] ?? LEVEL_SEVERITY.INFO
+}
+
+/**
+ * Filters log entries by minimum level and a case-insensitive search over the message and source
+ * @param entries - The log entries
+ * @param minLevel - The lowest level to keep
+ * @param search - The search text, ignored when empty
+ * @returns The matching entries
+ */
+export function filterServerLogs(entries: ServerLogEntry[], minLevel: ServerLogLevel, search: string): ServerLogEntry[] {
+    const minSeverity = LEVEL_SEVERITY[minLevel]
+    const query = search.trim().toLowerCase()
+
+    return entries.filter(
+        entry =>
+            getLevelSeverity(entry.level) >= minSeverity &&
+            (!query || entry.message.toLowerCase().includes(query) || entry.name.toLowerCase().includes(query)),
+    )
+}
+
+/**
+ * Formats a log timestamp as local time with milliseconds, e.g. 12:34:56.789
+ * @param timestamp - The ISO timestamp
+ * @returns The formatted time
+ */
+export function formatLogTime(timestamp: string): string {
+    const date = new Date(timestamp)
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0')
+    return `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}.${pad(date.getMilliseconds(), 3)}`
+}
@@ -0,0 +1,53 @@
+const relativeTimeFormat = new Intl.RelativeTimeFormat('ko-KR', { numeric: 'auto' })
+
+const RELATIVE_TIME_UNITS: [Intl.RelativeTimeFormatUnit, number][] = [
+    ['day', 24 * 60 * 60 * 1000],
+    ['hour', 60 * 60 * 1000],
+    ['minute', 60 * 1000],
+    ['second', 1000],
+]
+
+/**
+ * Formats a time relative to now, e.g. "3시간 후" or "5분 전"
+ * @param date - The time to format
+ * @param now - The reference time in milliseconds, defaults to the current time
+ * @returns The localized relative time
+ */
+export function formatRelativeTime(date: Date | string | number, now: number = Date.now()): string {
+    const diff = new Date(date).getTime() - now
+
+    for (const [unit, size] of RELATIVE_TIME_UNITS) {
+        if (Math.abs(diff) >= size || unit === 'second') {
+            return relativeTimeFormat.format(Math.round(diff / size), unit)
+        }
+    }
+
+    return relativeTimeFormat.format(0, 'second')
+}
+
+/**
+ * Formats a time in the Korean locale, or '-' when there is no time
+ * @param date - The time to format
+ * @returns The localized date and time
+ */
+export function formatDateTime(date: Date | string | number | null | undefined): string {
+    if (date === null || date === undefined || date === '') return '-'
+    return new Date(date).toLocaleString('ko-KR')
+}
+
+/**
+ * Formats a remaining duration as a countdown, e.g. "1:02:03" or "02:03"
+ * @param milliseconds - The remaining duration; negative values are shown as zero
+ * @returns The countdown text, with days prefixed when longer than a day
+ */
+export function formatCountdown(milliseconds: number): string {
+    const totalSeconds = Math.max(Math.ceil(milliseconds / 1000), 0)
+    const days = Math.floor(totalSeconds / 86400)
+    const hours = Math.floor((totalSeconds % 86400) / 3600)
+    const minutes = Math.floor((totalSeconds % 3600) / 60)
+    const seconds = totalSeconds % 60
+    const pad = (value: number) => String(value).padStart(2, '0')
+
+    const clock = hours > 0 || days > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${pad(minutes)}:${pad(seconds)}`
+    return days > 0 ? `${days}일 ${clock}` : clock
+}
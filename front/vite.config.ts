@@ -8,6 +8,7 @@ export default defineConfig({
     plugins: [react(), tailwindcss()],
     resolve: {
         alias: {
+            '@clove/sdk': path.resolve(__dirname, './packages/sdk/src/index.ts'),
             '@': path.resolve(__dirname, './src'),
         },
     },